@@ -19,6 +19,7 @@ interface CashFlowData {
     totaleEmesso: number;
     totaleIncassato: number;
     totaleDaIncassare: number;
+    totaleContenzioso: number;
     fatture: number;
   };
   uscite: {
@@ -116,7 +117,7 @@ export default function CashFlowDashboard({ isAdmin = false }: CashFlowDashboard
             <p className={`text-2xl font-bold ${cashFlow.saldoPrevisionale >= 0 ? 'text-blue-600' : 'text-orange-600'}`}>
               {formatCurrency(cashFlow.saldoPrevisionale)}
             </p>
-            <p className="text-xs text-gray-500 mt-1">Emesso - Totale Uscite</p>
+            <p className="text-xs text-gray-500 mt-1">Incassato + Da Incassare - Totale Uscite</p>
           </div>
         </div>
 
@@ -137,7 +138,7 @@ export default function CashFlowDashboard({ isAdmin = false }: CashFlowDashboard
               </div>
               <div className="grid grid-cols-3 gap-4 text-center">
                 <div>
-                  <p className="text-xs text-gray-500">Totale</p>
+                  <p className="text-xs text-gray-500">Netto a pagare</p>
                   <p className="font-semibold">{formatCurrency(cashFlow.entrate.totaleEmesso)}</p>
                 </div>
                 <div>
@@ -149,6 +150,12 @@ export default function CashFlowDashboard({ isAdmin = false }: CashFlowDashboard
                   <p className="font-semibold text-orange-600">{formatCurrency(cashFlow.entrate.totaleDaIncassare)}</p>
                 </div>
               </div>
+              {cashFlow.entrate.totaleContenzioso > 0 && (
+                <div className="flex items-center justify-between mt-3 pt-3 border-t border-green-100 text-sm">
+                  <span className="text-gray-500">In contenzioso (escluso dalle previsioni)</span>
+                  <span className="font-semibold text-red-600">{formatCurrency(cashFlow.entrate.totaleContenzioso)}</span>
+                </div>
+              )}
             </div>
           </div>
         )}
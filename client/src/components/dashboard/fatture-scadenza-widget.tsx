@@ -17,6 +17,7 @@ interface FatturaScadenza {
   categoria?: string;
   descrizione?: string;
   numeroFattura?: string;
+  statoPagamento?: { stato: string; residuo: number }; // fatture: pagamenti parziali
 }
 
 export default function FattureScadenzaWidget() {
@@ -122,7 +123,8 @@ export default function FattureScadenzaWidget() {
             const status = getScadenzaStatus(dataScadenza);
             const tipoInfo = getTipoLabel(scadenza.tipo);
             const TipoIcon = tipoInfo.icon;
-            const importo = scadenza.importoTotale || scadenza.importo || 0;
+            // Per le fatture parzialmente pagate conta il residuo
+            const importo = scadenza.statoPagamento?.residuo ?? (scadenza.importoTotale || scadenza.importo || 0);
             const soggetto = scadenza.fornitore || scadenza.consulente || scadenza.cliente || scadenza.descrizione;
 
             return (
@@ -0,0 +1,212 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronDown, ChevronRight, Download, FileSpreadsheet } from "lucide-react";
+import { AGING_FASCE, type AgingDocumento, type AgingFascia, type AgingReport as AgingReportData } from "@shared/schema";
+import { formatCurrency, formatDate, getTodayISO } from "@/lib/financial-utils";
+
+const FASCIA_LABELS: Record<AgingFascia, string> = {
+  a_scadere: "A scadere",
+  "0_30": "0-30 gg",
+  "31_60": "31-60 gg",
+  "61_90": "61-90 gg",
+  oltre_90: "Oltre 90 gg"
+};
+
+const FASCIA_COLORS: Record<AgingFascia, string> = {
+  a_scadere: "text-gray-700",
+  "0_30": "text-yellow-600",
+  "31_60": "text-orange-600",
+  "61_90": "text-red-600",
+  oltre_90: "text-red-800"
+};
+
+const TIPO_LABELS: Record<AgingDocumento["tipo"], string> = {
+  emessa: "Fattura emessa",
+  ingresso: "Fattura ingresso",
+  consulente: "Fattura consulente",
+  costo_generale: "Costo generale"
+};
+
+export default function AgingReport() {
+  const { toast } = useToast();
+  const [dataRiferimento, setDataRiferimento] = useState(getTodayISO());
+  const [sezione, setSezione] = useState<"crediti" | "debiti">("crediti");
+  const [espansi, setEspansi] = useState<Set<string>>(new Set());
+
+  const { data: report, isLoading } = useQuery<AgingReportData>({
+    queryKey: ["aging", dataRiferimento],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/aging?data=${dataRiferimento}`);
+      return response.json();
+    }
+  });
+
+  const toggle = (nome: string) => {
+    setEspansi(prev => {
+      const next = new Set(prev);
+      if (next.has(nome)) next.delete(nome);
+      else next.add(nome);
+      return next;
+    });
+  };
+
+  const download = async (format: "csv" | "xlsx") => {
+    try {
+      const response = await fetch(`/api/aging?data=${dataRiferimento}&format=${format}`, { credentials: "include" });
+      if (!response.ok) throw new Error(`${response.status}`);
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="?([^"]+)"?/)?.[1] || `scadenzario.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Errore", description: "Errore durante l'esportazione dello scadenzario", variant: "destructive" });
+    }
+  };
+
+  const dati = report?.[sezione];
+  const scaduto = dati ? dati.totale - dati.fasce.a_scadere : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <div className="flex items-end gap-4">
+          <Tabs value={sezione} onValueChange={(value) => setSezione(value as "crediti" | "debiti")}>
+            <TabsList>
+              <TabsTrigger value="crediti">Crediti (clienti)</TabsTrigger>
+              <TabsTrigger value="debiti">Debiti (fornitori)</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="space-y-1">
+            <Label htmlFor="aging-data">Data di riferimento</Label>
+            <Input
+              id="aging-data"
+              type="date"
+              className="w-[170px]"
+              value={dataRiferimento}
+              onChange={(e) => e.target.value && setDataRiferimento(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => download("csv")}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => download("xlsx")}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" />
+            Excel
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {AGING_FASCE.map(fascia => (
+          <Card key={fascia}>
+            <CardContent className="pt-4">
+              <span className="text-sm text-gray-500">{FASCIA_LABELS[fascia]}</span>
+              <p className={`text-xl font-bold ${FASCIA_COLORS[fascia]}`}>{formatCurrency(dati?.fasce[fascia] ?? 0)}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent className="pt-4">
+            <span className="text-sm text-gray-500">Totale aperto</span>
+            <p className="text-xl font-bold">{formatCurrency(dati?.totale ?? 0)}</p>
+            <span className="text-xs text-gray-500">di cui scaduto {formatCurrency(scaduto)}</span>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading || !dati ? (
+            <div className="p-4 animate-pulse space-y-2">
+              <div className="h-10 bg-gray-200 rounded"></div>
+              <div className="h-10 bg-gray-200 rounded"></div>
+            </div>
+          ) : dati.controparti.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {sezione === "crediti" ? "Nessun credito aperto" : "Nessun debito aperto"}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{sezione === "crediti" ? "Cliente" : "Fornitore"}</TableHead>
+                    {AGING_FASCE.map(fascia => (
+                      <TableHead key={fascia} className="text-right">{FASCIA_LABELS[fascia]}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Totale</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dati.controparti.map(controparte => {
+                    const aperto = espansi.has(controparte.nome);
+                    return (
+                      <Fragment key={controparte.nome}>
+                        <TableRow className="cursor-pointer hover:bg-gray-50" onClick={() => toggle(controparte.nome)}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-1">
+                              {aperto ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              {controparte.nome}
+                              <Badge variant="secondary" className="ml-1">{controparte.documenti.length}</Badge>
+                            </div>
+                          </TableCell>
+                          {AGING_FASCE.map(fascia => (
+                            <TableCell key={fascia} className={`text-right ${controparte.fasce[fascia] ? FASCIA_COLORS[fascia] : "text-gray-300"}`}>
+                              {formatCurrency(controparte.fasce[fascia])}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-semibold">{formatCurrency(controparte.totale)}</TableCell>
+                        </TableRow>
+                        {aperto && controparte.documenti.map(doc => (
+                          <TableRow key={`${doc.tipo}-${doc.id}`} className="bg-gray-50 text-sm">
+                            <TableCell className="pl-10" colSpan={2}>
+                              <div>{TIPO_LABELS[doc.tipo]} {doc.numero}</div>
+                              <div className="text-xs text-gray-500 truncate max-w-[260px]">{doc.descrizione}</div>
+                            </TableCell>
+                            <TableCell>{formatDate(doc.dataDocumento)}</TableCell>
+                            <TableCell>Scad. {formatDate(doc.dataScadenza)}</TableCell>
+                            <TableCell className={FASCIA_COLORS[doc.fascia]}>
+                              {doc.giorniScaduto >= 0 ? `${doc.giorniScaduto} gg` : `tra ${-doc.giorniScaduto} gg`}
+                            </TableCell>
+                            <TableCell>
+                              {doc.inContenzioso && <Badge variant="destructive">Contenzioso</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right font-semibold">{formatCurrency(doc.residuo)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                  <TableRow className="font-semibold border-t-2">
+                    <TableCell>Totale</TableCell>
+                    {AGING_FASCE.map(fascia => (
+                      <TableCell key={fascia} className="text-right">{formatCurrency(dati.fasce[fascia])}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{formatCurrency(dati.totale)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
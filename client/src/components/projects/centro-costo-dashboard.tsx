@@ -2,10 +2,12 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { Project } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import type { Project, RipartizioneOverhead } from "@shared/schema";
 import { useState } from "react";
-import { TrendingDown, TrendingUp, AlertCircle, DollarSign, Receipt, Users, CreditCard, Package } from "lucide-react";
+import { TrendingDown, TrendingUp, AlertCircle, DollarSign, Receipt, Users, CreditCard, Package, Building, Settings } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import RipartizioneCostiDialog from "./ripartizione-costi-dialog";
 
 interface FatturaIngresso {
   id: string;
@@ -58,10 +60,12 @@ interface CentrodiCosto {
   collaborazioniEsterne: number;
   costiDiretti: number;
   riservaHumana: number;
+  overhead: number; // quota di costi generali
 }
 
 export default function CentroCostoDashboard() {
   const [selectedProjectId, setSelectedProjectId] = useState<string>("all");
+  const [isRipartizioneOpen, setIsRipartizioneOpen] = useState(false);
 
   // Fetch all data
   const { data: projects = [] } = useQuery<Project[]>({
@@ -80,6 +84,11 @@ export default function CentroCostoDashboard() {
     queryKey: ["/api/prestazioni"],
   });
 
+  // Costi generali ripartiti sulle commesse (importi in euro)
+  const { data: ripartizione } = useQuery<RipartizioneOverhead>({
+    queryKey: ["/api/ripartizione-costi"],
+  });
+
   // Calculate cost centers
   const centriCosto: CentrodiCosto[] = projects
     .filter(p => p.status === 'in_corso' || selectedProjectId !== 'all')
@@ -104,7 +113,9 @@ export default function CentroCostoDashboard() {
 
       const riservaHumana = prestazioniProgetto.reduce((sum, p) => sum + (p.oreLavoro * p.costoOrario * 100), 0);
 
-      const totaleSpeso = materiali + collaborazioniEsterne + costiDiretti + riservaHumana;
+      const overhead = (ripartizione?.commesse.find(c => c.projectId === project.id)?.totale ?? 0) * 100;
+
+      const totaleSpeso = materiali + collaborazioniEsterne + costiDiretti + riservaHumana + overhead;
       const budgetIniziale = project.budget || null;
       const percentualeUtilizzata = budgetIniziale ? (totaleSpeso / budgetIniziale) * 100 : 0;
 
@@ -120,6 +131,7 @@ export default function CentroCostoDashboard() {
         collaborazioniEsterne,
         costiDiretti,
         riservaHumana,
+        overhead,
       };
     })
     .filter(cc => selectedProjectId === 'all' || cc.project.id === selectedProjectId)
@@ -135,6 +147,7 @@ export default function CentroCostoDashboard() {
   const totaleCollaborazioni = centriCosto.reduce((sum, cc) => sum + cc.collaborazioniEsterne, 0);
   const totaleCostiDiretti = centriCosto.reduce((sum, cc) => sum + cc.costiDiretti, 0);
   const totaleRiservaHumana = centriCosto.reduce((sum, cc) => sum + cc.riservaHumana, 0);
+  const totaleOverhead = centriCosto.reduce((sum, cc) => sum + cc.overhead, 0);
 
   const formatCurrency = (cents: number) => {
     return `€ ${(cents / 100).toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -148,23 +161,31 @@ export default function CentroCostoDashboard() {
           <h2 className="text-2xl font-bold text-gray-900">Dashboard Centro di Costo</h2>
           <p className="text-sm text-gray-500">Monitoraggio completo costi e budget per commessa</p>
         </div>
-        <div className="w-80">
-          <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
-            <SelectTrigger>
-              <SelectValue placeholder="Filtra per commessa" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">Tutte le commesse attive</SelectItem>
-              {projects.map((project) => (
-                <SelectItem key={project.id} value={project.id}>
-                  {project.code} - {project.client}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsRipartizioneOpen(true)}>
+            <Settings className="w-4 h-4 mr-1" />
+            Ripartizione costi generali
+          </Button>
+          <div className="w-80">
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filtra per commessa" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tutte le commesse attive</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.code} - {project.client}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
+      <RipartizioneCostiDialog open={isRipartizioneOpen} onOpenChange={setIsRipartizioneOpen} projects={projects} />
+
       {/* Overall Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -229,7 +250,7 @@ export default function CentroCostoDashboard() {
           <CardDescription>Distribuzione complessiva delle spese</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -285,7 +306,27 @@ export default function CentroCostoDashboard() {
               <div className="text-lg font-semibold">{formatCurrency(totaleRiservaHumana)}</div>
               <Progress value={(totaleRiservaHumana / totaleGeneraleSpeso) * 100} className="h-2 bg-orange-100" />
             </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Building className="w-4 h-4 text-gray-600" />
+                  <span className="text-sm font-medium">Costi Generali</span>
+                </div>
+                <span className="text-sm font-bold text-gray-600">
+                  {totaleGeneraleSpeso > 0 ? ((totaleOverhead / totaleGeneraleSpeso) * 100).toFixed(1) : 0}%
+                </span>
+              </div>
+              <div className="text-lg font-semibold">{formatCurrency(totaleOverhead)}</div>
+              <Progress value={(totaleOverhead / totaleGeneraleSpeso) * 100} className="h-2 bg-gray-100" />
+            </div>
           </div>
+          {ripartizione && ripartizione.totaleNonRipartito > 0 && (
+            <p className="text-xs text-gray-500 mt-4">
+              {formatCurrency(ripartizione.totaleNonRipartito * 100)} di costi generali non ripartiti
+              (mesi senza ore o fatturato sulle commesse, o percentuali inferiori al 100%)
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -352,7 +393,7 @@ export default function CentroCostoDashboard() {
                   )}
                 </CardHeader>
                 <CardContent>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                     <div className="space-y-1">
                       <div className="flex items-center gap-2 text-sm text-gray-500">
                         <Package className="w-4 h-4" />
@@ -388,6 +429,15 @@ export default function CentroCostoDashboard() {
                       <p className="text-lg font-semibold text-orange-600">{formatCurrency(cc.riservaHumana)}</p>
                       <p className="text-xs text-gray-500">{cc.prestazioni.length} prestazioni</p>
                     </div>
+
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-sm text-gray-500">
+                        <Building className="w-4 h-4" />
+                        <span>Costi Generali</span>
+                      </div>
+                      <p className="text-lg font-semibold text-gray-600">{formatCurrency(cc.overhead)}</p>
+                      <p className="text-xs text-gray-500">quota ripartita</p>
+                    </div>
                   </div>
 
                   {cc.budgetIniziale && cc.totaleSpeso > cc.budgetIniziale && (
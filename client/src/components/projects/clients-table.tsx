@@ -35,6 +35,7 @@ const clientFormSchema = z.object({
   cf: z.string().optional(),
   email: z.string().email("Email non valida").optional().or(z.literal("")),
   pec: z.string().email("PEC non valida").optional().or(z.literal("")),
+  codiceDestinatario: z.string().regex(/^[A-Z0-9]{6,7}$/, "Codice destinatario SDI non valido (6 o 7 caratteri)").optional().or(z.literal("")),
   phone: z.string().optional(),
   notes: z.string().optional(),
 });
@@ -73,6 +74,7 @@ export default function ClientsTable() {
     cf: "",
     email: "",
     pec: "",
+    codiceDestinatario: "",
     phone: "",
     notes: "",
   };
@@ -204,6 +206,7 @@ export default function ClientsTable() {
       cf: client.cf || "",
       email: client.email || "",
       pec: client.pec || "",
+      codiceDestinatario: client.codiceDestinatario || "",
       phone: client.phone || "",
       notes: client.notes || "",
     });
@@ -652,6 +655,26 @@ export default function ClientsTable() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={editForm.control}
+                  name="codiceDestinatario"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Codice Destinatario SDI</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="0000000"
+                          maxLength={7}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                          disabled={updateClientMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <FormField
@@ -922,6 +945,26 @@ export default function ClientsTable() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={newClientForm.control}
+                  name="codiceDestinatario"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Codice Destinatario SDI</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="0000000"
+                          maxLength={7}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                          disabled={createClientMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <FormField
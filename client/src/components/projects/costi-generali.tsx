@@ -11,31 +11,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
 import { Plus, Pencil, Trash2, Building, Check, Clock, Euro, Download, RefreshCw } from "lucide-react";
 import type { CostoGenerale } from "@shared/schema";
 import { formatCurrency, formatCurrencyFromCents, formatDate, toCents, fromCents } from "@/lib/financial-utils";
-
-const CATEGORIE = {
-  noleggio_auto: "Noleggio Auto",
-  fitto_ufficio: "Fitto Ufficio",
-  energia: "Energia",
-  internet_dati: "Internet/Dati",
-  giardiniere: "Giardiniere",
-  pulizie: "Pulizie",
-  multe: "Multe",
-  assicurazioni: "Assicurazioni",
-  commercialista: "Commercialista",
-  altro: "Altro"
-};
-
-const PERIODICITA = {
-  mensile: "Mensile",
-  bimestrale: "Bimestrale",
-  trimestrale: "Trimestrale",
-  semestrale: "Semestrale",
-  annuale: "Annuale"
-};
+import SerieCostiGenerali, { CATEGORIE, PERIODICITA, SerieCostoDialog, useSerieCostiGenerali } from "./serie-costi-generali";
 
 export default function CostiGenerali() {
   const { toast } = useToast();
@@ -44,6 +24,9 @@ export default function CostiGenerali() {
   const [editingCosto, setEditingCosto] = useState<CostoGenerale | null>(null);
   const [filterCategoria, setFilterCategoria] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  // Occorrenza di una serie in attesa della scelta "solo questa" / "tutta la serie"
+  const [sceltaModifica, setSceltaModifica] = useState<CostoGenerale | null>(null);
+  const [serieDialogId, setSerieDialogId] = useState<string | null>(null);
 
   const [formData, setFormData] = useState({
     categoria: "altro" as keyof typeof CATEGORIE,
@@ -69,15 +52,27 @@ export default function CostiGenerali() {
     }
   });
 
+  const { data: serie = [] } = useSerieCostiGenerali();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
+    queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+    queryClient.invalidateQueries({ queryKey: ["aging"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ripartizione-costi"] });
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const response = await apiRequest("POST", "/api/costi-generali", data);
       if (!response.ok) throw new Error("Failed to create");
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
-      toast({ title: "Successo", description: "Costo creato con successo" });
+    onSuccess: (costo: CostoGenerale) => {
+      refresh();
+      toast({
+        title: "Successo",
+        description: costo.serieId ? "Costo creato: le prossime occorrenze verranno generate automaticamente" : "Costo creato con successo"
+      });
       resetForm();
     },
     onError: () => {
@@ -92,7 +87,7 @@ export default function CostiGenerali() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
+      refresh();
       toast({ title: "Successo", description: "Costo aggiornato con successo" });
       resetForm();
     },
@@ -107,7 +102,7 @@ export default function CostiGenerali() {
       if (!response.ok) throw new Error("Failed to delete");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
+      refresh();
       toast({ title: "Successo", description: "Costo eliminato con successo" });
     },
     onError: () => {
@@ -115,6 +110,20 @@ export default function CostiGenerali() {
     }
   });
 
+  const creaSerieMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/costi-generali/${id}/serie`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Successo", description: "Serie creata: le prossime occorrenze verranno generate automaticamente" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante la creazione della serie"), variant: "destructive" });
+    }
+  });
+
   const resetForm = () => {
     setFormData({
       categoria: "altro",
@@ -135,6 +144,11 @@ export default function CostiGenerali() {
   };
 
   const handleEdit = (costo: CostoGenerale) => {
+    if (costo.serieId && !sceltaModifica) {
+      setSceltaModifica(costo);
+      return;
+    }
+    setSceltaModifica(null);
     setEditingCosto(costo);
     setFormData({
       categoria: costo.categoria,
@@ -173,12 +187,17 @@ export default function CostiGenerali() {
     });
   };
 
+  const oggi = new Date().toISOString().split('T')[0];
   const filteredCosti = costi.filter(c => {
     if (filterCategoria !== "all" && c.categoria !== filterCategoria) return false;
     if (filterStatus === "pagati" && !c.pagato) return false;
     if (filterStatus === "da_pagare" && c.pagato) return false;
+    if (filterStatus === "prossimi" && (!c.serieId || c.pagato || c.data < oggi)) return false;
     return true;
   });
+  if (filterStatus === "prossimi") {
+    filteredCosti.sort((a, b) => a.data.localeCompare(b.data));
+  }
 
   const totaleCosti = filteredCosti.reduce((acc, c) => acc + c.importo, 0);
   const totalePagati = filteredCosti.filter(c => c.pagato).reduce((acc, c) => acc + c.importo, 0);
@@ -206,6 +225,7 @@ export default function CostiGenerali() {
               <SelectItem value="all">Tutti</SelectItem>
               <SelectItem value="pagati">Pagati</SelectItem>
               <SelectItem value="da_pagare">Da pagare</SelectItem>
+              <SelectItem value="prossimi">Prossimi generati</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -276,7 +296,10 @@ export default function CostiGenerali() {
                         <div className="flex items-center gap-1">
                           {CATEGORIE[costo.categoria]}
                           {costo.ricorrente && (
-                            <RefreshCw className="h-3 w-3 text-blue-500" />
+                            <RefreshCw className={`h-3 w-3 ${costo.serieId ? "text-blue-500" : "text-gray-400"}`} />
+                          )}
+                          {costo.modificataManualmente && (
+                            <Badge variant="outline" className="text-xs">Modificata</Badge>
                           )}
                         </div>
                       </TableCell>
@@ -305,6 +328,17 @@ export default function CostiGenerali() {
                               </a>
                             </Button>
                           )}
+                          {costo.ricorrente && costo.periodicita && !costo.serieId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Genera automaticamente le prossime occorrenze"
+                              onClick={() => creaSerieMutation.mutate(costo.id)}
+                              disabled={creaSerieMutation.isPending}
+                            >
+                              <RefreshCw className="h-4 w-4 text-blue-500" />
+                            </Button>
+                          )}
                           <Button variant="ghost" size="sm" onClick={() => handleEdit(costo)}>
                             <Pencil className="h-4 w-4" />
                           </Button>
@@ -312,7 +346,10 @@ export default function CostiGenerali() {
                             variant="ghost"
                             size="sm"
                             onClick={() => {
-                              if (confirm("Sei sicuro di voler eliminare questo costo?")) {
+                              const messaggio = costo.serieId
+                                ? "Eliminare questa occorrenza? Non verrà più generata dalla serie."
+                                : "Sei sicuro di voler eliminare questo costo?";
+                              if (confirm(messaggio)) {
                                 deleteMutation.mutate(costo.id);
                               }
                             }}
@@ -421,11 +458,18 @@ export default function CostiGenerali() {
               <Switch
                 id="ricorrente"
                 checked={formData.ricorrente}
+                disabled={!!editingCosto?.serieId}
                 onCheckedChange={(checked) => setFormData(prev => ({ ...prev, ricorrente: checked }))}
               />
             </div>
 
-            {formData.ricorrente && (
+            {!editingCosto && formData.ricorrente && (
+              <p className="text-xs text-gray-500">
+                Indicando la periodicità il costo diventa la prima occorrenza di una serie e le successive vengono generate automaticamente.
+              </p>
+            )}
+
+            {formData.ricorrente && !editingCosto?.serieId && (
               <div className="space-y-2">
                 <Label htmlFor="periodicita">Periodicità</Label>
                 <Select
@@ -500,6 +544,38 @@ export default function CostiGenerali() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!sceltaModifica} onOpenChange={(open) => !open && setSceltaModifica(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Modifica costo ricorrente</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Questo costo fa parte di una serie ricorrente. Vuoi modificare solo questa occorrenza o tutta la serie?
+          </p>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => sceltaModifica && handleEdit(sceltaModifica)}>
+              Solo questa occorrenza
+            </Button>
+            <Button
+              onClick={() => {
+                setSerieDialogId(sceltaModifica?.serieId ?? null);
+                setSceltaModifica(null);
+              }}
+            >
+              Tutta la serie
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SerieCostoDialog
+        open={serie.some(s => s.id === serieDialogId)}
+        onOpenChange={(open) => !open && setSerieDialogId(null)}
+        serie={serie.find(s => s.id === serieDialogId)}
+      />
+
+      <SerieCostiGenerali />
     </div>
   );
 }
@@ -38,32 +38,46 @@ export default function FatturazioneModal({ project, open, onClose }: Fatturazio
     noteFatturazione: ""
   });
 
+  // Senza override il form parte dai valori calcolati dalle fatture emesse
   useEffect(() => {
     if (project) {
-      setFormData({
-        fatturato: project.fatturato || false,
-        numeroFattura: project.numeroFattura || "",
-        dataFattura: project.dataFattura ? new Date(project.dataFattura).toISOString().split('T')[0] : "",
-        importoFatturato: project.importoFatturato ? project.importoFatturato / 100 : 0,
-        pagato: project.pagato || false,
-        dataPagamento: project.dataPagamento ? new Date(project.dataPagamento).toISOString().split('T')[0] : "",
-        importoPagato: project.importoPagato ? project.importoPagato / 100 : 0,
-        noteFatturazione: project.noteFatturazione || ""
+      const override = project.billingOverride;
+      const billing = project.billing;
+      setFormData(override ? {
+        fatturato: override.fatturato,
+        numeroFattura: override.numeroFattura || "",
+        dataFattura: override.dataFattura ? new Date(override.dataFattura).toISOString().split('T')[0] : "",
+        importoFatturato: override.importoFatturato / 100,
+        pagato: override.pagato,
+        dataPagamento: override.dataPagamento ? new Date(override.dataPagamento).toISOString().split('T')[0] : "",
+        importoPagato: override.importoPagato / 100,
+        noteFatturazione: override.noteFatturazione || ""
+      } : {
+        fatturato: (billing?.fatturato ?? 0) > 0,
+        numeroFattura: "",
+        dataFattura: billing?.dataUltimaFattura ? new Date(billing.dataUltimaFattura).toISOString().split('T')[0] : "",
+        importoFatturato: billing?.fatturato ?? 0,
+        pagato: (billing?.fatturato ?? 0) > 0 && billing?.daIncassare === 0,
+        dataPagamento: billing?.dataUltimoIncasso ? new Date(billing.dataUltimoIncasso).toISOString().split('T')[0] : "",
+        importoPagato: billing?.incassato ?? 0,
+        noteFatturazione: ""
       });
     }
   }, [project]);
 
   const updateFatturazioneMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async (data: typeof formData | null) => {
       await apiRequest("PATCH", `/api/projects/${project!.id}`, {
-        fatturato: data.fatturato,
-        numeroFattura: data.numeroFattura || null,
-        dataFattura: data.dataFattura ? new Date(data.dataFattura).toISOString() : null,
-        importoFatturato: Math.round(data.importoFatturato * 100), // Converti in centesimi
-        pagato: data.pagato,
-        dataPagamento: data.dataPagamento ? new Date(data.dataPagamento).toISOString() : null,
-        importoPagato: Math.round(data.importoPagato * 100),
-        noteFatturazione: data.noteFatturazione || null
+        billingOverride: data && {
+          fatturato: data.fatturato,
+          numeroFattura: data.numeroFattura || null,
+          dataFattura: data.dataFattura ? new Date(data.dataFattura).toISOString() : null,
+          importoFatturato: Math.round(data.importoFatturato * 100), // Converti in centesimi
+          pagato: data.pagato,
+          dataPagamento: data.dataPagamento ? new Date(data.dataPagamento).toISOString() : null,
+          importoPagato: Math.round(data.importoPagato * 100),
+          noteFatturazione: data.noteFatturazione || null
+        }
       });
     },
     onSuccess: () => {
@@ -108,8 +122,14 @@ export default function FatturazioneModal({ project, open, onClose }: Fatturazio
     }));
   };
 
+  const handleRemoveOverride = () => {
+    updateFatturazioneMutation.mutate(null);
+  };
+
   if (!project) return null;
 
+  const billing = project.billing;
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -124,6 +144,40 @@ export default function FatturazioneModal({ project, open, onClose }: Fatturazio
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Valori calcolati dalle fatture emesse */}
+          {billing && (
+            <div className="p-4 border rounded-lg space-y-2 text-sm" data-testid="billing-derived">
+              <div className="font-semibold">
+                Da fatture emesse ({billing.fattureCount} {billing.fattureCount === 1 ? "fattura" : "fatture"})
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>Fatturato: <span className="font-medium">€{billing.fatturato.toFixed(2)}</span></div>
+                <div>Incassato: <span className="font-medium">€{billing.incassato.toFixed(2)}</span></div>
+                {billing.residuoDaFatturare !== undefined && (
+                  <div>Da fatturare: <span className="font-medium">€{billing.residuoDaFatturare.toFixed(2)}</span></div>
+                )}
+              </div>
+              {billing.source === "override" && (
+                <div className="flex items-center justify-between gap-2 pt-2 border-t">
+                  <span className="text-xs px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded font-medium">
+                    ✎ Override manuale attivo
+                    {project.billingOverride?.updatedBy && ` (${project.billingOverride.updatedBy})`}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRemoveOverride}
+                    disabled={updateFatturazioneMutation.isPending}
+                    data-testid="remove-billing-override"
+                  >
+                    Usa valori da fatture
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Quick Actions */}
           <div className="flex gap-2">
             <Button
@@ -295,7 +349,7 @@ export default function FatturazioneModal({ project, open, onClose }: Fatturazio
               Annulla
             </Button>
             <Button type="submit" disabled={updateFatturazioneMutation.isPending}>
-              {updateFatturazioneMutation.isPending ? "Salvataggio..." : "Salva"}
+              {updateFatturazioneMutation.isPending ? "Salvataggio..." : "Salva override"}
             </Button>
           </DialogFooter>
         </form>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,10 +11,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Plus, Pencil, Trash2, Check, Clock, Euro, Download, FileText } from "lucide-react";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { Plus, Pencil, Trash2, Check, Clock, Euro, Download, FileText, FileCode, Upload, AlertTriangle, Undo2 } from "lucide-react";
 import { PdfUpload } from "@/components/ui/pdf-upload";
-import type { Project } from "@shared/schema";
+import type {
+  Project,
+  FatturaPAImport,
+  InvoicePaymentStatus,
+  StatoPagamento,
+  SerieNumerazione,
+  NumeroFatturaAssegnato
+} from "@shared/schema";
+import PagamentiFatturaDialog, { STATO_PAGAMENTO_CONFIG } from "@/components/projects/pagamenti-fattura-dialog";
 import {
   formatCurrency,
   formatDate,
@@ -110,8 +118,13 @@ interface Invoice {
   fornitore?: string;
   consulente?: string;
   categoria?: string;
+  statoPagamento?: InvoicePaymentStatus;
+  tipoDocumento?: "TD01" | "TD04"; // solo emesse: TD04 = nota di credito
+  fatturaRiferimentoId?: string;
 }
 
+const isNotaCredito = (invoice: { tipoDocumento?: string }) => invoice.tipoDocumento === "TD04";
+
 export default function GenericInvoiceManager({ config }: GenericInvoiceManagerProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -119,6 +132,12 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
   const [filterProjectId, setFilterProjectId] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  // Documenti FatturaPA importati in attesa di conferma (uno alla volta nel form)
+  const [importQueue, setImportQueue] = useState<FatturaPAImport[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const currentImport = importQueue[0];
+  const [paymentsInvoice, setPaymentsInvoice] = useState<Invoice | null>(null);
 
   // Form state dinamico basato sulla configurazione
   const getInitialFormData = () => ({
@@ -130,6 +149,11 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     importo: 0,
     ...(config.includeIVA ? { importoIVA: 0, importoTotale: 0 } : {}),
     ...(config.includeCategoria ? { categoria: config.categories?.[0]?.value || "" } : {}),
+    ...(config.type === 'emesse' ? {
+      tipoDocumento: "TD01",
+      fatturaRiferimentoId: undefined as string | undefined,
+      serie: ""
+    } : {}),
     descrizione: "",
     [config.statusField]: false,
     ...(config.statusField === 'incassata' ? { dataIncasso: "" } : { dataPagamento: "" }),
@@ -149,6 +173,28 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     }
   });
 
+  // Numerazione automatica delle fatture emesse: il numero viene assegnato
+  // dal server alla creazione se il campo è lasciato vuoto
+  const numerazioneAutomatica = config.type === 'emesse' && !editingInvoice;
+  const { data: serieNumerazione = [] } = useQuery<SerieNumerazione[]>({
+    queryKey: ["numerazione-serie"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/settings/numerazione/serie");
+      return response.json();
+    },
+    enabled: config.type === 'emesse'
+  });
+
+  const { data: prossimoNumero } = useQuery<NumeroFatturaAssegnato>({
+    queryKey: ["numerazione-anteprima", formData.serie, formData.dataEmissione],
+    queryFn: async () => {
+      const params = new URLSearchParams({ serie: formData.serie || "", data: formData.dataEmissione });
+      const response = await apiRequest("GET", `/api/settings/numerazione/anteprima?${params}`);
+      return response.json();
+    },
+    enabled: numerazioneAutomatica && isDialogOpen && !!formData.dataEmissione
+  });
+
   // Fetch progetti
   const { data: projects = [] } = useQuery<Project[]>({
     queryKey: ["projects"],
@@ -168,11 +214,12 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [config.queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["numerazione-anteprima"] });
       toast({ title: "Successo", description: "Fattura creata con successo" });
       resetForm();
     },
-    onError: () => {
-      toast({ title: "Errore", description: "Errore durante la creazione", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante la creazione"), variant: "destructive" });
     }
   });
 
@@ -188,8 +235,8 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
       toast({ title: "Successo", description: "Fattura aggiornata con successo" });
       resetForm();
     },
-    onError: () => {
-      toast({ title: "Errore", description: "Errore durante l'aggiornamento", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'aggiornamento"), variant: "destructive" });
     }
   });
 
@@ -201,10 +248,11 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [config.queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["numerazione-anteprima"] });
       toast({ title: "Successo", description: "Fattura eliminata con successo" });
     },
-    onError: () => {
-      toast({ title: "Errore", description: "Errore durante l'eliminazione", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'eliminazione"), variant: "destructive" });
     }
   });
 
@@ -212,9 +260,66 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     setFormData(getInitialFormData());
     setEditingInvoice(null);
     setIsDialogOpen(false);
+
+    // Passa al documento successivo dello stesso file FatturaPA
+    const [, ...rest] = importQueue;
+    setImportQueue(rest);
+    if (rest.length > 0) openImported(rest[0]);
+  };
+
+  const openImported = (doc: FatturaPAImport) => {
+    const proposal = doc.proposal as Record<string, any>;
+    setEditingInvoice(null);
+    setFormData({
+      ...getInitialFormData(),
+      ...proposal,
+      importo: config.amountInCents ? (proposal.importo ?? 0) / 100 : proposal.importo ?? 0,
+      allegato: "",
+      note: doc.importi.ritenuta > 0
+        ? `Ritenuta d'acconto ${formatCurrency(doc.importi.ritenuta)} - netto a pagare ${formatCurrency(doc.importi.nettoAPagare)}`
+        : ""
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const response = await fetch(`${config.apiEndpoint}/import`, {
+        method: "POST",
+        body,
+        credentials: "include"
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.details?.join("; ") || data?.message || data?.error || "Import non riuscito");
+      }
+
+      const documents: FatturaPAImport[] = data.documents;
+      if (documents.length === 0) {
+        throw new Error("Il file non contiene documenti");
+      }
+      setImportQueue(documents);
+      openImported(documents[0]);
+    } catch (error) {
+      toast({
+        title: "Errore nell'import FatturaPA",
+        description: error instanceof Error ? error.message : "Impossibile leggere il file",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
   };
 
   const handleEdit = (invoice: Invoice) => {
+    setImportQueue([]);
     setEditingInvoice(invoice);
     const entityField = config.entityLabel.toLowerCase();
     const entityValue = invoice.cliente || invoice.fornitore || invoice.consulente || "";
@@ -231,6 +336,10 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
         importoTotale: invoice.importoTotale || 0
       } : {}),
       ...(config.includeCategoria ? { categoria: invoice.categoria || "" } : {}),
+      ...(config.type === 'emesse' ? {
+        tipoDocumento: invoice.tipoDocumento || "TD01",
+        fatturaRiferimentoId: invoice.fatturaRiferimentoId
+      } : {}),
       descrizione: invoice.descrizione || "",
       [config.statusField]: invoice[config.statusField] || false,
       ...(config.statusField === 'incassata'
@@ -243,12 +352,63 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     setIsDialogOpen(true);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Nota di credito (TD04) sulla parte non ancora stornata della fattura
+  const openNotaCredito = (invoice: Invoice) => {
+    setImportQueue([]);
+    setEditingInvoice(null);
+    const totale = invoice.importoTotale || invoice.importo;
+    const quotaResidua = 1 - (invoice.statoPagamento?.stornato ?? 0) / totale;
+    const importo = Math.round(invoice.importo * quotaResidua * 100) / 100;
+    const notaCredito: Record<string, any> = {
+      tipoDocumento: "TD04",
+      fatturaRiferimentoId: invoice.id,
+      projectId: invoice.projectId,
+      cliente: invoice.cliente || "",
+      dataScadenzaPagamento: getTodayISO(),
+      importo,
+      importoIVA: calculateIVA(importo),
+      importoTotale: calculateTotalWithIVA(importo),
+      descrizione: `Storno fattura n. ${invoice.numeroFattura} del ${formatDate(invoice.dataEmissione)}`
+    };
+    setFormData({ ...getInitialFormData(), ...notaCredito });
+    setIsDialogOpen(true);
+  };
+
+  // Il PDF allegato alla FatturaPA viene salvato solo alla conferma, se
+  // nel form non è stato scelto un altro allegato
+  const uploadAllegatoImportato = async (allegato: FatturaPAImport["allegati"][number]) => {
+    const bytes = Uint8Array.from(atob(allegato.contenuto), c => c.charCodeAt(0));
+    const body = new FormData();
+    body.append("file", new File([bytes], allegato.nome, { type: "application/pdf" }));
+    const response = await fetch("/api/upload/pdf", { method: "POST", body, credentials: "include" });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.message || data?.error || "Upload dell'allegato non riuscito");
+    }
+    return data.url as string;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     const entityField = config.entityLabel.toLowerCase();
+    let allegato = formData.allegato;
+    const allegatoImportato = !editingInvoice && !allegato ? currentImport?.allegati[0] : undefined;
+    if (allegatoImportato) {
+      try {
+        allegato = await uploadAllegatoImportato(allegatoImportato);
+      } catch (error) {
+        toast({
+          title: "Errore",
+          description: error instanceof Error ? error.message : "Upload dell'allegato non riuscito",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
     const submitData = {
       ...formData,
+      allegato,
       [entityField]: formData[entityField],
       ...(config.amountInCents ? { importo: Math.round(formData.importo * 100) } : {})
     };
@@ -284,25 +444,62 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
     });
   };
 
+  // FatturaPA XML (solo fatture emesse): il server risponde 422 con l'elenco
+  // degli errori se mancano dati anagrafici o l'XML non supera l'XSD
+  const downloadFatturaPA = async (invoice: Invoice) => {
+    try {
+      const response = await fetch(`${config.apiEndpoint}/${invoice.id}/fatturapa`, { credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const details: string[] = body?.details ?? [];
+        toast({
+          title: body?.error || "Errore nella generazione XML",
+          description: details.length > 0 ? details.join("; ") : "Impossibile generare la FatturaPA",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="?([^"]+)"?/)?.[1] || `fattura-${invoice.numeroFattura}.xml`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Errore", description: "Errore durante il download della FatturaPA", variant: "destructive" });
+    }
+  };
+
+  // Stato derivato dai pagamenti registrati (pagamenti parziali inclusi)
+  const getStato = (inv: Invoice): StatoPagamento =>
+    inv.statoPagamento?.stato ?? (inv[config.statusField] ? "saldata" : "non_pagata");
+
   // Filtraggio
   const filteredInvoices = invoices.filter(inv => {
     if (filterProjectId !== "all" && inv.projectId !== filterProjectId) return false;
-    const isPaid = inv[config.statusField] || false;
-    if (filterStatus === "paid" && !isPaid) return false;
-    if (filterStatus === "unpaid" && isPaid) return false;
+    const stato = getStato(inv);
+    if (filterStatus === "paid" && stato !== "saldata") return false;
+    if (filterStatus === "unpaid" && stato === "saldata") return false;
+    if (filterStatus === "partial" && stato !== "parziale") return false;
     return true;
   });
 
-  // Calcolo totali
+  // Calcolo totali (importi incassati/pagati effettivi)
   const getAmount = (inv: Invoice) => {
     const rawAmount = config.includeIVA ? (inv.importoTotale || inv.importo) : inv.importo;
-    return config.amountInCents ? rawAmount / 100 : rawAmount;
+    const amount = config.amountInCents ? rawAmount / 100 : rawAmount;
+    return isNotaCredito(inv) ? -amount : amount;
   };
 
+  const unit = config.amountInCents ? 100 : 1;
+  const rawTotals = calculateTotals(filteredInvoices, config.includeIVA ? 'importoTotale' : 'importo');
   const totals = {
-    total: filteredInvoices.reduce((acc, inv) => acc + getAmount(inv), 0),
-    paid: filteredInvoices.filter(inv => inv[config.statusField]).reduce((acc, inv) => acc + getAmount(inv), 0),
-    get pending() { return this.total - this.paid; }
+    total: rawTotals.total / unit,
+    paid: rawTotals.paid / unit,
+    pending: rawTotals.pending / unit
   };
 
   // Helper per ottenere il valore dell'entità (cliente/fornitore/consulente)
@@ -340,13 +537,35 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
               <SelectItem value="all">Tutte</SelectItem>
               <SelectItem value="paid">{config.statusLabels.true}</SelectItem>
               <SelectItem value="unpaid">{config.statusLabels.false}</SelectItem>
+              <SelectItem value="partial">Parziali</SelectItem>
             </SelectContent>
           </Select>
         </div>
-        <Button onClick={() => setIsDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-1" />
-          Nuova Fattura
-        </Button>
+        <div className="flex gap-2">
+          {config.type !== 'emesse' && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".xml,.p7m"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button
+                variant="outline"
+                disabled={isImporting}
+                onClick={() => importInputRef.current?.click()}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                {isImporting ? "Lettura..." : "Importa FatturaPA"}
+              </Button>
+            </>
+          )}
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nuova Fattura
+          </Button>
+        </div>
       </div>
 
       {/* KPI Cards */}
@@ -411,7 +630,14 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
                     const catConfig = getCategoryConfig(invoice.categoria);
                     return (
                       <TableRow key={invoice.id}>
-                        <TableCell className="font-medium">{invoice.numeroFattura}</TableCell>
+                        <TableCell className="font-medium">
+                          {invoice.numeroFattura}
+                          {isNotaCredito(invoice) && (
+                            <div className="text-xs font-normal text-gray-500">
+                              storno fatt. {invoices.find(i => i.id === invoice.fatturaRiferimentoId)?.numeroFattura ?? "-"}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell className="max-w-[150px] truncate">
                           {getProjectDisplayName(invoice.projectId, projects)}
                         </TableCell>
@@ -431,15 +657,27 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
                           {formatCurrency(getAmount(invoice))}
                         </TableCell>
                         <TableCell className="text-center">
+                          {isNotaCredito(invoice) ? (
+                            <Badge variant="outline" className="border-red-200 text-red-700">Nota di credito</Badge>
+                          ) : (
                           <Badge
-                            variant={invoice[config.statusField] ? "default" : "secondary"}
+                            variant={STATO_PAGAMENTO_CONFIG[getStato(invoice)].variant}
                             className="cursor-pointer"
-                            onClick={() => toggleStatus(invoice)}
+                            title="Gestisci pagamenti"
+                            onClick={() => setPaymentsInvoice(invoice)}
                           >
-                            {invoice[config.statusField]
+                            {getStato(invoice) === "saldata"
                               ? config.statusLabels.true
-                              : config.statusLabels.false}
+                              : getStato(invoice) === "parziale"
+                                ? `Parziale (${formatCurrency((invoice.statoPagamento?.residuo ?? 0) / unit)})`
+                                : config.statusLabels.false}
                           </Badge>
+                          )}
+                          {(invoice.statoPagamento?.stornato ?? 0) > 0 && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              stornati {formatCurrency(invoice.statoPagamento!.stornato!)}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-1">
@@ -450,6 +688,26 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
                                 </a>
                               </Button>
                             )}
+                            {config.type === 'emesse' && !isNotaCredito(invoice) && getStato(invoice) !== "saldata" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Emetti nota di credito"
+                                onClick={() => openNotaCredito(invoice)}
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {config.type === 'emesse' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Scarica FatturaPA (XML)"
+                                onClick={() => downloadFatturaPA(invoice)}
+                              >
+                                <FileCode className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button variant="ghost" size="sm" onClick={() => handleEdit(invoice)}>
                               <Pencil className="h-4 w-4" />
                             </Button>
@@ -476,14 +734,75 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
         </CardContent>
       </Card>
 
+      {/* Dialog Pagamenti (acconti, SAL, saldo) */}
+      <PagamentiFatturaDialog
+        open={!!paymentsInvoice}
+        onOpenChange={(open) => !open && setPaymentsInvoice(null)}
+        apiEndpoint={config.apiEndpoint}
+        queryKey={config.queryKey}
+        invoice={paymentsInvoice}
+        amountInCents={config.amountInCents}
+        title={config.statusField === 'incassata' ? "Incassi" : "Pagamenti"}
+        onClearLegacyFlag={async () => {
+          if (paymentsInvoice) await toggleStatus(paymentsInvoice);
+          setPaymentsInvoice(null);
+        }}
+      />
+
       {/* Dialog Form */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : resetForm())}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              {editingInvoice ? "Modifica Fattura" : `Nuova Fattura ${config.title.split(' ')[1]}`}
+              {isNotaCredito(formData)
+                ? (editingInvoice ? "Modifica Nota di Credito" : "Nuova Nota di Credito")
+                : editingInvoice ? "Modifica Fattura" : `Nuova Fattura ${config.title.split(' ')[1]}`}
             </DialogTitle>
           </DialogHeader>
+          {isNotaCredito(formData) && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              Nota di credito (TD04) a storno della fattura n.{" "}
+              {invoices.find(i => i.id === formData.fatturaRiferimentoId)?.numeroFattura ?? "-"}:
+              riduce il residuo da incassare e il fatturato della commessa
+            </div>
+          )}
+          {currentImport && !editingInvoice && (
+            <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm">
+              <div className="font-medium text-blue-900">
+                Importata da FatturaPA ({currentImport.tipoDocumento})
+                {importQueue.length > 1 && ` - ${importQueue.length - 1} altri documenti nel file`}
+              </div>
+              <div className="text-blue-800">
+                {currentImport.fornitore.denominazione}
+                {currentImport.fornitore.partitaIva && ` - P.IVA ${currentImport.fornitore.partitaIva}`}
+              </div>
+              <div className="text-blue-800">
+                Imponibile {formatCurrency(currentImport.importi.imponibile)} · IVA {formatCurrency(currentImport.importi.iva)} · Totale {formatCurrency(currentImport.importi.totale)}
+              </div>
+              {currentImport.scadenze.length > 1 && (
+                <div className="text-blue-800">
+                  Scadenze: {currentImport.scadenze.map(s => `${formatDate(s.data)}${s.importo !== undefined ? ` (${formatCurrency(s.importo)})` : ""}`).join(", ")}
+                </div>
+              )}
+              {currentImport.projectSuggestion && (
+                <div className="text-blue-800">
+                  Commessa suggerita: {currentImport.projectSuggestion.code} ({currentImport.projectSuggestion.reason})
+                </div>
+              )}
+              {currentImport.duplicate && (
+                <div className="flex items-center gap-1 font-medium text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  Possibile duplicato: fattura {currentImport.duplicate.numeroFattura} del {formatDate(currentImport.duplicate.dataEmissione)} già registrata per questo {config.entityLabel.toLowerCase()}
+                </div>
+              )}
+              {currentImport.allegati.length > 0 && !formData.allegato && (
+                <div>Allegato PDF: {currentImport.allegati[0].nome} (salvato alla conferma)</div>
+              )}
+              {currentImport.warnings.map((warning, i) => (
+                <div key={i} className="text-amber-700">{warning}</div>
+              ))}
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -504,13 +823,31 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="numeroFattura">Numero Fattura *</Label>
-                <Input
-                  id="numeroFattura"
-                  value={formData.numeroFattura}
-                  onChange={(e) => setFormData(prev => ({ ...prev, numeroFattura: e.target.value }))}
-                  required
-                />
+                <Label htmlFor="numeroFattura">Numero Fattura {numerazioneAutomatica ? "" : "*"}</Label>
+                <div className="flex gap-2">
+                  {numerazioneAutomatica && serieNumerazione.length > 1 && (
+                    <Select
+                      value={formData.serie || ""}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, serie: value }))}
+                    >
+                      <SelectTrigger className="w-[110px]">
+                        <SelectValue placeholder="Serie" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {serieNumerazione.map(s => (
+                          <SelectItem key={s.id} value={s.codice}>{s.codice}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    id="numeroFattura"
+                    value={formData.numeroFattura}
+                    placeholder={numerazioneAutomatica && prossimoNumero ? `Automatico: ${prossimoNumero.numeroFattura}` : undefined}
+                    onChange={(e) => setFormData(prev => ({ ...prev, numeroFattura: e.target.value }))}
+                    required={!numerazioneAutomatica}
+                  />
+                </div>
               </div>
             </div>
 
@@ -646,37 +983,45 @@ export default function GenericInvoiceManager({ config }: GenericInvoiceManagerP
               />
             </div>
 
-            <div className="flex items-center justify-between">
-              <Label htmlFor="status">{config.statusLabels.true}</Label>
-              <Switch
-                id="status"
-                checked={formData[config.statusField] || false}
-                onCheckedChange={(checked) => {
-                  const dateField = config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento';
-                  setFormData(prev => ({
-                    ...prev,
-                    [config.statusField]: checked,
-                    [dateField]: checked ? getTodayISO() : ""
-                  }));
-                }}
-              />
-            </div>
+            {isNotaCredito(formData) ? null : (editingInvoice?.statoPagamento?.pagamentiCount ?? 0) > 0 ? (
+              <p className="text-sm text-gray-500">
+                Stato gestito dai pagamenti registrati ({STATO_PAGAMENTO_CONFIG[getStato(editingInvoice!)].label.toLowerCase()})
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="status">{config.statusLabels.true}</Label>
+                  <Switch
+                    id="status"
+                    checked={formData[config.statusField] || false}
+                    onCheckedChange={(checked) => {
+                      const dateField = config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento';
+                      setFormData(prev => ({
+                        ...prev,
+                        [config.statusField]: checked,
+                        [dateField]: checked ? getTodayISO() : ""
+                      }));
+                    }}
+                  />
+                </div>
 
-            {formData[config.statusField] && (
-              <div className="space-y-2">
-                <Label htmlFor="dateStatus">
-                  Data {config.statusField === 'incassata' ? 'Incasso' : 'Pagamento'}
-                </Label>
-                <Input
-                  id="dateStatus"
-                  type="date"
-                  value={formData[config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento'] || ""}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    [config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento']: e.target.value
-                  }))}
-                />
-              </div>
+                {formData[config.statusField] && (
+                  <div className="space-y-2">
+                    <Label htmlFor="dateStatus">
+                      Data {config.statusField === 'incassata' ? 'Incasso' : 'Pagamento'}
+                    </Label>
+                    <Input
+                      id="dateStatus"
+                      type="date"
+                      value={formData[config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento'] || ""}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        [config.statusField === 'incassata' ? 'dataIncasso' : 'dataPagamento']: e.target.value
+                      }))}
+                    />
+                  </div>
+                )}
+              </>
             )}
 
             <div className="space-y-2">
@@ -4,7 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { TrendingUp, TrendingDown, Clock, Euro, Users, AlertTriangle } from "lucide-react";
-import { type Project } from "@shared/schema";
+import { type Project, type ProjectMetadata } from "@shared/schema";
 import { useState } from "react";
 
 interface ProjectResource {
@@ -16,12 +16,6 @@ interface ProjectResource {
   costoOrario: number;
 }
 
-interface ProjectMetadata {
-  importoOpere?: number;
-  importoServizio?: number;
-  prestazioni?: string[];
-}
-
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
 
 export default function KpiDashboard() {
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import { METODI_PAGAMENTO, type InvoicePaymentStatus, type PagamentoFattura } from "@shared/schema";
+import { formatCurrency, formatDate, getTodayISO } from "@/lib/financial-utils";
+
+export const STATO_PAGAMENTO_CONFIG = {
+  non_pagata: { label: "Non pagata", variant: "secondary" as const },
+  parziale: { label: "Parziale", variant: "outline" as const },
+  saldata: { label: "Saldata", variant: "default" as const }
+};
+
+const METODO_LABELS: Record<typeof METODI_PAGAMENTO[number], string> = {
+  bonifico: "Bonifico",
+  riba: "RiBa",
+  assegno: "Assegno",
+  contanti: "Contanti",
+  carta: "Carta",
+  compensazione: "Compensazione",
+  altro: "Altro"
+};
+
+interface PagamentiFatturaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  apiEndpoint: string; // es. /api/fatture-emesse
+  queryKey: string; // query della lista fatture da aggiornare
+  invoice: { id: string; numeroFattura: string } | null;
+  amountInCents: boolean;
+  title: string; // "Incassi" / "Pagamenti"
+  onClearLegacyFlag?: () => void;
+}
+
+export default function PagamentiFatturaDialog({
+  open,
+  onOpenChange,
+  apiEndpoint,
+  queryKey,
+  invoice,
+  amountInCents,
+  title,
+  onClearLegacyFlag
+}: PagamentiFatturaDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({ data: getTodayISO(), importo: 0, metodo: "bonifico", note: "" });
+
+  // Importi in centesimi per le fatture ingresso: il form lavora sempre in euro
+  const toEuro = (value: number) => (amountInCents ? value / 100 : value);
+  const fromEuro = (value: number) => (amountInCents ? Math.round(value * 100) : value);
+
+  const pagamentiUrl = invoice ? `${apiEndpoint}/${invoice.id}/pagamenti` : "";
+  const { data, isLoading } = useQuery<{ pagamenti: PagamentoFattura[]; statoPagamento: InvoicePaymentStatus }>({
+    queryKey: [queryKey, invoice?.id, "pagamenti"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", pagamentiUrl);
+      return response.json();
+    },
+    enabled: open && !!invoice
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [queryKey] });
+    queryClient.invalidateQueries({ queryKey: ["cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-in-scadenza"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(pagamentiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          importo: fromEuro(formData.importo),
+          note: formData.note || undefined
+        }),
+        credentials: "include"
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = body.details ? Object.values(body.details).flat().join("; ") : "";
+        throw new Error(details || body.error || "Failed to create");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      refresh();
+      setFormData({ data: getTodayISO(), importo: 0, metodo: "bonifico", note: "" });
+      toast({ title: "Successo", description: "Pagamento registrato" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (pagamentoId: string) => {
+      await apiRequest("DELETE", `${pagamentiUrl}/${pagamentoId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Successo", description: "Pagamento eliminato" });
+    },
+    onError: () => {
+      toast({ title: "Errore", description: "Errore durante l'eliminazione", variant: "destructive" });
+    }
+  });
+
+  const stato = data?.statoPagamento;
+  const pagamenti = data?.pagamenti ?? [];
+  const legacyPaid = stato?.stato === "saldata" && pagamenti.length === 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title} fattura {invoice?.numeroFattura}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !stato ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Dovuto</div>
+                <div className="font-semibold">{formatCurrency(toEuro(stato.dovuto))}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Pagato</div>
+                <div className="font-semibold text-green-600">{formatCurrency(toEuro(stato.pagato))}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Residuo</div>
+                <div className="font-semibold text-orange-600">{formatCurrency(toEuro(stato.residuo))}</div>
+              </div>
+            </div>
+
+            {legacyPaid && (
+              <div className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <span>Segnata come saldata senza pagamenti registrati</span>
+                {onClearLegacyFlag && (
+                  <Button variant="outline" size="sm" onClick={onClearLegacyFlag}>
+                    Segna come non pagata
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {pagamenti.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Metodo</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead className="text-right">Importo</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pagamenti.map(p => (
+                    <TableRow key={p.id}>
+                      <TableCell>{formatDate(p.data)}</TableCell>
+                      <TableCell>{METODO_LABELS[p.metodo]}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">{p.note}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(toEuro(p.importo))}</TableCell>
+                      <TableCell className="text-right">
+                        {/* I pagamenti da riconciliazione si annullano dalla sezione Banca */}
+                        {p.movimentoId ? (
+                          <Badge variant="secondary">Banca</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm("Eliminare questo pagamento?")) deleteMutation.mutate(p.id);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {!legacyPaid && stato.residuo > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="pagamento-data">Data *</Label>
+                    <Input
+                      id="pagamento-data"
+                      type="date"
+                      value={formData.data}
+                      onChange={(e) => setFormData(prev => ({ ...prev, data: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="pagamento-importo">Importo (€) *</Label>
+                    <Input
+                      id="pagamento-importo"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={formData.importo || ""}
+                      onChange={(e) => setFormData(prev => ({ ...prev, importo: parseFloat(e.target.value) || 0 }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Metodo</Label>
+                    <Select
+                      value={formData.metodo}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, metodo: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {METODI_PAGAMENTO.map(m => (
+                          <SelectItem key={m} value={m}>{METODO_LABELS[m]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="pagamento-note">Note</Label>
+                  <Input
+                    id="pagamento-note"
+                    placeholder="Acconto, SAL n. 1, saldo..."
+                    value={formData.note}
+                    onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setFormData(prev => ({ ...prev, importo: toEuro(stato.residuo) }))}
+                  >
+                    Salda residuo
+                  </Button>
+                  <Button type="submit" disabled={createMutation.isPending}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Registra
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {stato.stato !== "non_pagata" && (
+              <div className="flex justify-end">
+                <Badge variant={STATO_PAGAMENTO_CONFIG[stato.stato].variant}>
+                  {STATO_PAGAMENTO_CONFIG[stato.stato].label}
+                </Badge>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
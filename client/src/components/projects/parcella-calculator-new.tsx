@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,96 +9,242 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Calculator, FileText, Copy, Check } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Calculator, FileText, Copy, Check, Plus, X, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import type { CalcoloParcella, Client, InsertRevisionePreventivo, Preventivo } from "@shared/schema";
 import {
-  CATEGORIE_DM143,
-  calcolaParcella,
-  calcolaFattura,
+  CATEGORIE_OPERE,
+  FASI_PRESTAZIONE,
+  ID_OPERE,
+  findIdOpera,
   formatEuro,
-  type ParcellaInput,
-  type ParcellaResult,
-  type FatturaCalculation
-} from "@/lib/parcella-calculator-complete";
+  parametroP,
+  percentualeMassimaSpese,
+  prestazioniPerOpera,
+  type CategoriaOpera,
+  type CompensoResult,
+  type FasePrestazione,
+  type OperaParcella
+} from "@shared/parcella";
 
 type WizardStep = 'categoria' | 'prestazioni' | 'calcolo' | 'risultato';
 
-export default function ParcellaCalculator() {
+const GRUPPI = ['progettazione', 'direzione', 'sicurezza', 'collaudo', 'altro'] as const;
+
+const nuovaOpera = (): OperaParcella => ({ idOpera: 'E.20', importoOpere: 0, prestazioni: [] });
+
+interface SalvaPreventivoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preventivo?: Preventivo;
+  revisione: InsertRevisionePreventivo | null;
+  onSaved?: (preventivo: Preventivo) => void;
+}
+
+// Nuovo preventivo (cliente e oggetto) o nuova revisione di quello indicato
+function SalvaPreventivoDialog({ open, onOpenChange, preventivo, revisione, onSaved }: SalvaPreventivoDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [clientId, setClientId] = useState("");
+  const [oggetto, setOggetto] = useState("");
+  const [city, setCity] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: open && !preventivo
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { ...revisione!, note: note || undefined };
+      const response = preventivo
+        ? await apiRequest("POST", `/api/preventivi/${preventivo.id}/revisioni`, data)
+        : await apiRequest("POST", "/api/preventivi", { clientId, oggetto, city: city || undefined, revisione: data });
+      return response.json() as Promise<Preventivo>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/preventivi"] });
+      toast({
+        title: "Successo",
+        description: preventivo
+          ? `Revisione ${saved.revisioni.length} del preventivo ${saved.numero} salvata`
+          : `Preventivo ${saved.numero} salvato`
+      });
+      onOpenChange(false);
+      setNote("");
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {preventivo ? `Nuova revisione - ${preventivo.numero}` : "Salva come preventivo"}
+          </DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          {!preventivo && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="preventivo-cliente">Cliente *</Label>
+                <Select
+                  value={clientId}
+                  onValueChange={(value) => {
+                    setClientId(value);
+                    setCity(clients.find(c => c.id === value)?.city ?? "");
+                  }}
+                >
+                  <SelectTrigger id="preventivo-cliente">
+                    <SelectValue placeholder="Seleziona un cliente..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        {client.sigla} - {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="preventivo-oggetto">Oggetto *</Label>
+                <Input id="preventivo-oggetto" value={oggetto} onChange={(e) => setOggetto(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="preventivo-citta">Città</Label>
+                <Input id="preventivo-citta" value={city} onChange={(e) => setCity(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="preventivo-note">Note</Label>
+            <Textarea id="preventivo-note" value={note} onChange={(e) => setNote(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annulla
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending || !revisione || (!preventivo && (!clientId || !oggetto))}
+            >
+              Salva
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ParcellaCalculatorProps {
+  preventivo?: Preventivo; // parte dall'ultima revisione e salva una nuova revisione
+  onSaved?: (preventivo: Preventivo) => void;
+}
+
+export default function ParcellaCalculator({ preventivo, onSaved }: ParcellaCalculatorProps = {}) {
+  const { toast } = useToast();
+  const ultima = preventivo?.revisioni[preventivo.revisioni.length - 1];
   const [currentStep, setCurrentStep] = useState<WizardStep>('categoria');
   const [copied, setCopied] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
 
-  // Dati input
-  const [importoOpere, setImportoOpere] = useState<number>(0);
-  const [categoria, setCategoria] = useState<string>('E');
-  const [articolazione, setArticolazione] = useState<string>('01');
-  const [complessita, setComplessita] = useState<'minima' | 'bassa' | 'media' | 'alta' | 'altissima'>('media');
-
-  // Prestazioni selezionate
-  const [prestazioni, setPrestazioni] = useState<ParcellaInput['prestazioni']>({});
+  // Dati input: una riga per ogni categoria d'opera (ID opera + importo)
+  const [opere, setOpere] = useState<OperaParcella[]>(ultima?.opere ?? [nuovaOpera()]);
+  const [percentualeSpese, setPercentualeSpese] = useState<number | undefined>(ultima?.percentualeSpese);
+  const [sconto, setSconto] = useState(ultima?.sconto ?? 0);
 
-  // Risultati
-  const [risultatoParcella, setRisultatoParcella] = useState<ParcellaResult | null>(null);
-  const [risultatoFattura, setRisultatoFattura] = useState<FatturaCalculation | null>(null);
+  // Risultato calcolato dal server (/api/parcella/calcola)
+  const [risultato, setRisultato] = useState<CompensoResult | null>(null);
+  const risultatoParcella = risultato?.parcella ?? null;
+  const risultatoFattura = risultato?.fattura ?? null;
+  const importoSconto = risultato?.importoSconto ?? 0;
 
   // Parametri fattura
-  const [aliquotaCPA, setAliquotaCPA] = useState(4);
-  const [aliquotaIVA, setAliquotaIVA] = useState(22);
-  const [aliquotaRitenuta, setAliquotaRitenuta] = useState(20);
-
-  const handlePrestazioneToggle = (key: string) => {
-    setPrestazioni(prev => ({
-      ...prev,
-      [key]: !prev[key as keyof typeof prev]
+  const [aliquotaCPA, setAliquotaCPA] = useState(ultima?.aliquotaCPA ?? 4);
+  const [aliquotaIVA, setAliquotaIVA] = useState(ultima?.aliquotaIVA ?? 22);
+  const [aliquotaRitenuta, setAliquotaRitenuta] = useState(ultima?.aliquotaRitenuta ?? 20);
+
+  const importoTotale = opere.reduce((sum, o) => sum + o.importoOpere, 0);
+  const massimoSpese = percentualeMassimaSpese(importoTotale);
+
+  const updateOpera = (index: number, changes: Partial<OperaParcella>) => {
+    setOpere(prev => prev.map((o, i) => (i === index ? { ...o, ...changes } : o)));
+  };
+
+  const handlePrestazioneToggle = (index: number, codice: string) => {
+    setOpere(prev => prev.map((o, i) => i !== index ? o : {
+      ...o,
+      prestazioni: o.prestazioni.includes(codice)
+        ? o.prestazioni.filter(c => c !== codice)
+        : [...o.prestazioni, codice]
     }));
   };
 
-  const handleCalcola = () => {
-    const input: ParcellaInput = {
-      importoOpere,
-      categoria,
-      articolazione,
-      prestazioni,
-      complessita
-    };
-
-    const risultato = calcolaParcella(input);
-    setRisultatoParcella(risultato);
-
-    const fattura = calcolaFattura(
-      risultato.compensoTotale,
-      aliquotaCPA,
-      aliquotaIVA,
-      aliquotaRitenuta
-    );
-    setRisultatoFattura(fattura);
-
-    setCurrentStep('risultato');
+  // Input del calcolo, salvato così com'è nella revisione del preventivo
+  const calcolo: CalcoloParcella = {
+    opere: opere.filter(o => o.prestazioni.length > 0),
+    percentualeSpese,
+    sconto,
+    aliquotaCPA,
+    aliquotaIVA,
+    aliquotaRitenuta
   };
 
+  const calcolaMutation = useMutation({
+    mutationFn: async (input: CalcoloParcella) => {
+      const response = await apiRequest("POST", "/api/parcella/calcola", input);
+      return response.json() as Promise<CompensoResult>;
+    },
+    onSuccess: (result) => {
+      setRisultato(result);
+      setCurrentStep('risultato');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il calcolo"), variant: "destructive" });
+    }
+  });
+
   const handleReset = () => {
     setCurrentStep('categoria');
-    setImportoOpere(0);
-    setCategoria('E');
-    setArticolazione('01');
-    setComplessita('media');
-    setPrestazioni({});
-    setRisultatoParcella(null);
-    setRisultatoFattura(null);
+    setOpere([nuovaOpera()]);
+    setPercentualeSpese(undefined);
+    setSconto(0);
+    setRisultato(null);
   };
 
   const handleCopyRiepilogo = () => {
     if (!risultatoParcella || !risultatoFattura) return;
 
     const testo = `
-CALCOLO PARCELLA PROFESSIONALE - DM 143/2013
+CALCOLO PARCELLA PROFESSIONALE - DM 17/06/2016
 
 ${risultatoParcella.note.join('\n')}
 
 PRESTAZIONI RICHIESTE:
 ${Object.values(risultatoParcella.compensi).map(c =>
-  `- ${c.prestazione}: ${c.percentuale.toFixed(2)}% = ${formatEuro(c.importo)}`
+  `- ${c.idOpera} ${c.prestazione}: G ${c.G.toFixed(2)} × Q ${c.Q.toFixed(4)} × P ${(c.P * 100).toFixed(4)}% = ${formatEuro(c.importo)}`
 ).join('\n')}
 
-COMPENSO TOTALE: ${formatEuro(risultatoParcella.compensoTotale)}
+COMPENSO PRESTAZIONI: ${formatEuro(risultatoParcella.compensoPrestazioni)}
+SPESE E ONERI ACCESSORI (${risultatoParcella.percentualeSpese.toFixed(2)}%): ${formatEuro(risultatoParcella.speseOneri)}
+COMPENSO TOTALE: ${formatEuro(risultatoParcella.compensoTotale)}${sconto > 0 ? `
+SCONTO (${sconto}%): -${formatEuro(importoSconto)}` : ''}
 
 FATTURA:
 Compenso netto: ${formatEuro(risultatoFattura.compensoNetto)}
@@ -114,8 +261,6 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const categoriaSelezionata = CATEGORIE_DM143[categoria as keyof typeof CATEGORIE_DM143];
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -125,7 +270,7 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
             <Calculator className="w-6 h-6" />
             Calcolatore Parcella Professionale
           </h2>
-          <p className="text-gray-600 mt-1">DM 17 giugno 2016 (ex DM 143/2013)</p>
+          <p className="text-gray-600 mt-1">DM 17 giugno 2016 (ex DM 143/2013) - CP = V × G × Q × P</p>
         </div>
         {currentStep === 'risultato' && (
           <Button onClick={handleReset} variant="outline">
@@ -148,85 +293,82 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
 
       <Card>
         <CardContent className="p-6">
-          {/* Step 1: Categoria e Importo */}
+          {/* Step 1: Categorie d'opera e importi */}
           {currentStep === 'categoria' && (
             <div className="space-y-6">
               <div>
-                <h3 className="text-lg font-semibold mb-4">1. Seleziona Categoria e Importo Opere</h3>
-
-                <div className="grid gap-6 md:grid-cols-2">
-                  <div>
-                    <Label htmlFor="importoOpere">Importo Opere (€) *</Label>
-                    <Input
-                      id="importoOpere"
-                      type="number"
-                      value={importoOpere || ''}
-                      onChange={(e) => setImportoOpere(parseFloat(e.target.value) || 0)}
-                      placeholder="es. 500000"
-                      className="text-lg font-semibold"
-                    />
-                  </div>
-
-                  <div>
-                    <Label htmlFor="categoria">Categoria Opera *</Label>
-                    <Select value={categoria} onValueChange={(v) => {
-                      setCategoria(v);
-                      setArticolazione('01');
-                    }}>
-                      <SelectTrigger id="categoria">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {Object.entries(CATEGORIE_DM143).map(([key, cat]) => (
-                          <SelectItem key={key} value={key}>
-                            {key} - {cat.nome}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {categoriaSelezionata && (
-                      <p className="text-xs text-gray-600 mt-1">{categoriaSelezionata.descrizione}</p>
-                    )}
-                  </div>
-                </div>
-
-                <div className="mt-4">
-                  <Label htmlFor="articolazione">Articolazione / Fascia di Importo *</Label>
-                  <Select value={articolazione} onValueChange={setArticolazione}>
-                    <SelectTrigger id="articolazione">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {categoriaSelezionata && Object.entries(categoriaSelezionata.articolazioni).map(([key, desc]) => (
-                        <SelectItem key={key} value={key}>
-                          {categoria}.{key} - {desc}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <h3 className="text-lg font-semibold mb-1">1. Categorie d'Opera e Importi</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Per le opere con più categorie indicare una riga per ogni ID opera con il relativo costo (V).
+                </p>
+
+                <div className="space-y-4">
+                  {opere.map((opera, index) => {
+                    const idOpera = findIdOpera(opera.idOpera);
+                    return (
+                      <div key={index} className="p-4 border rounded-lg space-y-2">
+                        <div className="grid gap-4 md:grid-cols-[1fr_220px_auto] items-end">
+                          <div>
+                            <Label htmlFor={`idOpera-${index}`}>ID Opera *</Label>
+                            <Select
+                              value={opera.idOpera}
+                              onValueChange={(v) => updateOpera(index, { idOpera: v, prestazioni: [] })}
+                            >
+                              <SelectTrigger id={`idOpera-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ID_OPERE.map((o) => (
+                                  <SelectItem key={o.codice} value={o.codice}>
+                                    {o.codice} - {CATEGORIE_OPERE[o.categoria]} - {o.destinazione} (G {o.G.toFixed(2)})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label htmlFor={`importoOpere-${index}`}>Importo Opere (€) *</Label>
+                            <Input
+                              id={`importoOpere-${index}`}
+                              type="number"
+                              value={opera.importoOpere || ''}
+                              onChange={(e) => updateOpera(index, { importoOpere: parseFloat(e.target.value) || 0 })}
+                              placeholder="es. 500000"
+                              className="font-semibold"
+                            />
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOpere(prev => prev.filter((_, i) => i !== index))}
+                            disabled={opere.length === 1}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        {idOpera && (
+                          <p className="text-xs text-gray-600">{idOpera.descrizione}</p>
+                        )}
+                        {opera.importoOpere > 0 && (
+                          <p className="text-xs text-gray-500">
+                            Parametro base P = {(parametroP(opera.importoOpere) * 100).toFixed(4)}%
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
 
-                <div className="mt-4">
-                  <Label htmlFor="complessita">Grado di Complessità *</Label>
-                  <Select value={complessita} onValueChange={(v: any) => setComplessita(v)}>
-                    <SelectTrigger id="complessita">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="minima">Minima (0.75x)</SelectItem>
-                      <SelectItem value="bassa">Bassa (0.85x)</SelectItem>
-                      <SelectItem value="media">Media (1.0x)</SelectItem>
-                      <SelectItem value="alta">Alta (1.2x)</SelectItem>
-                      <SelectItem value="altissima">Altissima (1.4x)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                <Button variant="outline" size="sm" className="mt-4" onClick={() => setOpere(prev => [...prev, nuovaOpera()])}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Aggiungi categoria
+                </Button>
               </div>
 
               <div className="flex justify-end">
                 <Button
                   onClick={() => setCurrentStep('prestazioni')}
-                  disabled={importoOpere <= 0}
+                  disabled={opere.some(o => o.importoOpere <= 0)}
                 >
                   Avanti: Seleziona Prestazioni
                 </Button>
@@ -234,7 +376,7 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
             </div>
           )}
 
-          {/* Step 2: Prestazioni */}
+          {/* Step 2: Prestazioni (codici Q) */}
           {currentStep === 'prestazioni' && (
             <div className="space-y-6">
               <div className="flex items-center justify-between">
@@ -245,114 +387,73 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
               </div>
 
               <ScrollArea className="h-[500px] pr-4">
-                <div className="space-y-6">
-                  {/* Progettazione */}
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-3">📐 PROGETTAZIONE</h4>
-                    <div className="space-y-2">
-                      {[
-                        { key: 'rp', label: 'Relazione Paesaggistica' },
-                        { key: 'rilievo', label: 'Rilievo e Restituzione Grafica' },
-                        { key: 'pfte', label: 'Progetto di Fattibilità Tecnico-Economica (PFTE)' },
-                        { key: 'definitivo', label: 'Progettazione Definitiva' },
-                        { key: 'esecutivo', label: 'Progettazione Esecutiva' }
-                      ].map(({ key, label }) => (
-                        <label key={key} className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={prestazioni[key as keyof typeof prestazioni] || false}
-                            onChange={() => handlePrestazioneToggle(key)}
-                            className="w-4 h-4"
-                          />
-                          <span className="text-sm">{label}</span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Direzione e Coordinamento */}
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-3">👷 DIREZIONE E COORDINAMENTO</h4>
-                    <div className="space-y-2">
-                      {[
-                        { key: 'dl', label: 'Direzione Lavori' },
-                        { key: 'dlStrutture', label: 'Direzione Lavori Strutture' },
-                        { key: 'dlImpianti', label: 'Direzione Lavori Impianti' },
-                        { key: 'mis', label: 'Misura e Contabilità Lavori' },
-                        { key: 'coordinamento', label: 'Coordinamento Sicurezza Progettazione (CSP)' },
-                        { key: 'coordinamentoEsecuzione', label: 'Coordinamento Sicurezza Esecuzione (CSE)' }
-                      ].map(({ key, label }) => (
-                        <label key={key} className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={prestazioni[key as keyof typeof prestazioni] || false}
-                            onChange={() => handlePrestazioneToggle(key)}
-                            className="w-4 h-4"
-                          />
-                          <span className="text-sm">{label}</span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Collaudi e Verifiche */}
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-3">✅ COLLAUDI E VERIFICHE</h4>
-                    <div className="space-y-2">
-                      {[
-                        { key: 'collaudo', label: 'Collaudo Tecnico-Amministrativo' },
-                        { key: 'collaudoStatico', label: 'Collaudo Statico' },
-                        { key: 'verificaProgetto', label: 'Verifica di Progetto' }
-                      ].map(({ key, label }) => (
-                        <label key={key} className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={prestazioni[key as keyof typeof prestazioni] || false}
-                            onChange={() => handlePrestazioneToggle(key)}
-                            className="w-4 h-4"
-                          />
-                          <span className="text-sm">{label}</span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Altre Prestazioni */}
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-3">📋 ALTRE PRESTAZIONI</h4>
-                    <div className="space-y-2">
-                      {[
-                        { key: 'durc', label: 'Attestazione Rispetto Norme Sicurezza (DURC)' },
-                        { key: 'praticheVVF', label: 'Pratiche Vigili del Fuoco (VVF)' },
-                        { key: 'certificazioneEnergetica', label: 'Certificazione Energetica (APE)' },
-                        { key: 'sue', label: 'Sicurezza e Salute (SUE)' },
-                        { key: 'pareriEnti', label: 'Acquisizione Pareri Enti e Autorità' },
-                        { key: 'perizia', label: 'Perizia Estimativa / CTU' },
-                        { key: 'valutatoreImmobiliare', label: 'Valutazione Immobiliare' },
-                        { key: 'due', label: 'Documento Unico Regolarità Edilizia (DUE)' }
-                      ].map(({ key, label }) => (
-                        <label key={key} className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={prestazioni[key as keyof typeof prestazioni] || false}
-                            onChange={() => handlePrestazioneToggle(key)}
-                            className="w-4 h-4"
-                          />
-                          <span className="text-sm">{label}</span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
+                <div className="space-y-8">
+                  {opere.map((opera, index) => {
+                    const categoria = findIdOpera(opera.idOpera)?.categoria as CategoriaOpera;
+                    const disponibili = prestazioniPerOpera(opera.idOpera);
+                    return (
+                      <div key={index} className="space-y-4">
+                        <h4 className="font-semibold text-gray-900">
+                          {opera.idOpera} - {CATEGORIE_OPERE[categoria]} ({formatEuro(opera.importoOpere)})
+                        </h4>
+                        {(Object.keys(FASI_PRESTAZIONE) as FasePrestazione[]).map((fase) => {
+                          const prestazioniFase = disponibili.filter(p => p.fase === fase);
+                          if (prestazioniFase.length === 0) return null;
+                          return (
+                            <div key={fase}>
+                              <h5 className="font-semibold text-sm text-gray-700 mb-2">
+                                {fase}) {FASI_PRESTAZIONE[fase].toUpperCase()}
+                              </h5>
+                              <div className="space-y-2">
+                                {prestazioniFase.map((p) => (
+                                  <label key={p.codice} className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
+                                    <input
+                                      type="checkbox"
+                                      checked={opera.prestazioni.includes(p.codice)}
+                                      onChange={() => handlePrestazioneToggle(index, p.codice)}
+                                      className="w-4 h-4"
+                                    />
+                                    <span className="text-sm flex-1">
+                                      <span className="font-mono text-xs text-gray-500 mr-2">{p.codice}</span>
+                                      {p.descrizione}
+                                    </span>
+                                    <span className="text-xs text-gray-500">Q {p.Q[categoria]!.toFixed(4)}</span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })}
                 </div>
               </ScrollArea>
 
+              <div className="max-w-xs">
+                <Label htmlFor="spese">Spese e oneri accessori (%)</Label>
+                <Input
+                  id="spese"
+                  type="number"
+                  value={percentualeSpese ?? ''}
+                  onChange={(e) => setPercentualeSpese(e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+                  placeholder={massimoSpese.toFixed(2)}
+                  min="0"
+                  max={massimoSpese.toFixed(2)}
+                  step="0.01"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Massimo {massimoSpese.toFixed(2)}% per opere di {formatEuro(importoTotale)} (vuoto = massimo)
+                </p>
+              </div>
+
               <div className="flex justify-between pt-4">
                 <Button variant="outline" onClick={() => setCurrentStep('categoria')}>
                   Indietro
                 </Button>
                 <Button
                   onClick={() => setCurrentStep('calcolo')}
-                  disabled={Object.values(prestazioni).filter(Boolean).length === 0}
+                  disabled={opere.every(o => o.prestazioni.length === 0)}
                 >
                   Avanti: Parametri Fattura
                 </Button>
@@ -412,13 +513,31 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
                   />
                   <p className="text-xs text-gray-500 mt-1">Di solito 20%</p>
                 </div>
+
+                <div>
+                  <Label htmlFor="sconto">Sconto (%)</Label>
+                  <Input
+                    id="sconto"
+                    type="number"
+                    value={sconto}
+                    onChange={(e) => setSconto(parseFloat(e.target.value) || 0)}
+                    min="0"
+                    max="100"
+                    step="0.5"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Sul compenso totale, prima di CPA e IVA</p>
+                </div>
               </div>
 
               <div className="flex justify-between pt-4">
                 <Button variant="outline" onClick={() => setCurrentStep('prestazioni')}>
                   Indietro
                 </Button>
-                <Button onClick={handleCalcola} className="bg-secondary hover:bg-secondary/90">
+                <Button
+                  onClick={() => calcolaMutation.mutate(calcolo)}
+                  disabled={calcolaMutation.isPending}
+                  className="bg-secondary hover:bg-secondary/90"
+                >
                   <Calculator className="w-4 h-4 mr-2" />
                   Calcola Parcella
                 </Button>
@@ -455,24 +574,29 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
 
               {/* Compensi per Gruppo */}
               <Tabs defaultValue="all">
-                <TabsList className="grid w-full grid-cols-5">
+                <TabsList className="grid w-full grid-cols-6">
                   <TabsTrigger value="all">Tutte</TabsTrigger>
                   <TabsTrigger value="progettazione">Prog.</TabsTrigger>
                   <TabsTrigger value="direzione">Dir.</TabsTrigger>
                   <TabsTrigger value="sicurezza">Sic.</TabsTrigger>
+                  <TabsTrigger value="collaudo">Coll.</TabsTrigger>
                   <TabsTrigger value="altro">Altro</TabsTrigger>
                 </TabsList>
 
-                {['all', 'progettazione', 'direzione', 'sicurezza', 'altro'].map(gruppo => (
+                {['all', ...GRUPPI].map(gruppo => (
                   <TabsContent key={gruppo} value={gruppo} className="space-y-2 mt-4">
-                    {Object.values(risultatoParcella.compensi)
-                      .filter(c => gruppo === 'all' || c.gruppo === gruppo)
-                      .map((compenso, i) => (
-                        <div key={i} className="flex items-center justify-between p-3 border rounded-lg">
+                    {Object.entries(risultatoParcella.compensi)
+                      .filter(([, c]) => gruppo === 'all' || c.gruppo === gruppo)
+                      .map(([key, compenso]) => (
+                        <div key={key} className="flex items-center justify-between p-3 border rounded-lg">
                           <div>
-                            <div className="font-medium">{compenso.prestazione}</div>
+                            <div className="font-medium">
+                              <span className="text-gray-500 mr-2">{compenso.idOpera}</span>
+                              {compenso.prestazione}
+                            </div>
                             <div className="text-sm text-gray-600">
-                              {compenso.percentuale.toFixed(2)}% su €{importoOpere.toLocaleString('it-IT')}
+                              V {formatEuro(compenso.V)} × G {compenso.G.toFixed(2)} × Q {compenso.Q.toFixed(4)} × P {(compenso.P * 100).toFixed(4)}%
+                              {' '}= {compenso.percentuale.toFixed(4)}%
                             </div>
                           </div>
                           <div className="text-right">
@@ -498,9 +622,22 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
                   <div className="text-4xl font-bold text-secondary">
                     {formatEuro(risultatoParcella.compensoTotale)}
                   </div>
-                  <p className="text-sm text-gray-600 mt-1">
-                    Percentuale totale: {risultatoParcella.percentualeTotale.toFixed(2)}%
-                  </p>
+                  <div className="text-sm text-gray-600 mt-2 space-y-1">
+                    <div className="flex justify-between">
+                      <span>Compenso prestazioni ({risultatoParcella.percentualeTotale.toFixed(2)}% delle opere):</span>
+                      <span className="font-semibold">{formatEuro(risultatoParcella.compensoPrestazioni)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Spese e oneri accessori ({risultatoParcella.percentualeSpese.toFixed(2)}%):</span>
+                      <span className="font-semibold">{formatEuro(risultatoParcella.speseOneri)}</span>
+                    </div>
+                    {sconto > 0 && (
+                      <div className="flex justify-between text-red-600">
+                        <span>Sconto ({sconto}%):</span>
+                        <span className="font-semibold">-{formatEuro(importoSconto)}</span>
+                      </div>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -547,15 +684,27 @@ NETTO A PAGARE: ${formatEuro(risultatoFattura.nettoAPagare)}
                 </CardContent>
               </Card>
 
-              <div className="flex justify-end">
-                <Button onClick={handleReset}>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleReset}>
                   Nuovo Calcolo
                 </Button>
+                <Button onClick={() => setIsSaveOpen(true)}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {preventivo ? `Salva revisione ${preventivo.revisioni.length + 1}` : 'Salva come preventivo'}
+                </Button>
               </div>
             </div>
           )}
         </CardContent>
       </Card>
+
+      <SalvaPreventivoDialog
+        open={isSaveOpen}
+        onOpenChange={setIsSaveOpen}
+        preventivo={preventivo}
+        revisione={risultato && calcolo}
+        onSaved={onSaved}
+      />
     </div>
   );
 }
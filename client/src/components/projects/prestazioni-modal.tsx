@@ -5,8 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { type Project, type ProjectMetadata, type ProjectPrestazioni } from "@shared/schema";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { Calculator } from "lucide-react";
+import { type CalcoloParcella, type Project, type ProjectMetadata, type ProjectPrestazioni } from "@shared/schema";
+import { codiciDaCommessa, idOperaDaClasse, type CompensoResult } from "@shared/parcella";
 import { 
   getAllPrestazioni, 
   getAllLivelliProgettazione,
@@ -74,6 +76,61 @@ export default function PrestazioniModal({ project, isOpen, onClose }: Prestazio
     },
   });
 
+  // Stima del compenso secondo il DM 17/06/2016 (stesso calcolo del Calcolo Parcella)
+  const stimaCompensoMutation = useMutation({
+    mutationFn: async (data: CalcoloParcella) => {
+      const response = await apiRequest("POST", "/api/parcella/calcola", data);
+      return response.json() as Promise<CompensoResult>;
+    },
+    onSuccess: ({ fattura }, { opere }) => {
+      const importoOpere = opere[0].importoOpere;
+      setFormData(prev => ({
+        ...prev,
+        importoServizio: fattura.compensoNetto,
+        percentualeParcella: Math.min(100, Math.round(fattura.compensoNetto / importoOpere * 10000) / 100),
+      }));
+      toast({
+        title: "Compenso stimato",
+        description: `Compenso DM 17/06/2016 (spese incluse): ${formatImporto(fattura.compensoNetto)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Errore",
+        description: errorDescription(error, "Errore durante il calcolo del compenso"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStimaCompenso = () => {
+    const idOpera = idOperaDaClasse(formData.classeDM143);
+    if (!idOpera || !formData.importoOpere) {
+      toast({
+        title: "Dati mancanti",
+        description: "Indica una classe DM valida e l'importo opere per stimare il compenso",
+        variant: "destructive",
+      });
+      return;
+    }
+    const codici = codiciDaCommessa(idOpera, formData.prestazioni, formData.livelloProgettazione);
+    if (codici.length === 0) {
+      toast({
+        title: "Dati mancanti",
+        description: "Nessuna delle prestazioni selezionate ha un corrispettivo nel DM 17/06/2016",
+        variant: "destructive",
+      });
+      return;
+    }
+    stimaCompensoMutation.mutate({
+      opere: [{ idOpera, importoOpere: formData.importoOpere, prestazioni: codici }],
+      sconto: 0,
+      aliquotaCPA: 4,
+      aliquotaIVA: 22,
+      aliquotaRitenuta: 20,
+    });
+  };
+
   // Handlers
   const handlePrestazioneChange = (prestazioneId: string, checked: boolean) => {
     setFormData(prev => ({
@@ -302,6 +359,18 @@ export default function PrestazioniModal({ project, isOpen, onClose }: Prestazio
               </div>
             </div>
 
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleStimaCompenso}
+              disabled={stimaCompensoMutation.isPending}
+              data-testid="button-stima-compenso"
+            >
+              <Calculator className="h-4 w-4 mr-1" />
+              Stima compenso da DM 17/06/2016
+            </Button>
+
             {/* Riepilogo importi */}
             {(formData.importoOpere || formData.importoServizio) && (
               <div className="mt-4 p-3 bg-white border border-gray-200 rounded-lg">
@@ -0,0 +1,647 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/financial-utils";
+import { Eye, FileDown, FilePlus, FolderPlus, GitCompare, Plus, Settings, Trash2 } from "lucide-react";
+import type {
+  Client,
+  InsertModelloOfferta,
+  Preventivo,
+  Project,
+  RataOfferta,
+  RevisionePreventivo,
+  StatoPreventivo
+} from "@shared/schema";
+import ParcellaCalculator from "./parcella-calculator-new";
+
+export const STATI_PREVENTIVO: Record<StatoPreventivo, { label: string; className: string }> = {
+  bozza: { label: "Bozza", className: "bg-gray-100 text-gray-700" },
+  inviato: { label: "Inviato", className: "bg-blue-100 text-blue-700" },
+  accettato: { label: "Accettato", className: "bg-green-100 text-green-700" },
+  rifiutato: { label: "Rifiutato", className: "bg-red-100 text-red-700" }
+};
+
+const ultimaRevisione = (preventivo: Preventivo) => preventivo.revisioni[preventivo.revisioni.length - 1];
+
+const SEGNAPOSTO_OFFERTA = [
+  "cliente", "oggetto", "numero", "data", "validita", "importoOpere", "compensoNetto", "totale", "studio"
+];
+
+// Lettera di offerta in PDF generata dal server (ultima revisione se non indicata)
+async function scaricaOfferta(preventivo: Preventivo, revisione?: number) {
+  const query = revisione ? `?revisione=${revisione}` : "";
+  const response = await fetch(`/api/preventivi/${preventivo.id}/pdf${query}`, { credentials: "include" });
+  if (!response.ok) throw new Error(`${response.status}`);
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const fileName = disposition.match(/filename="?([^"]+)"?/)?.[1] || `${preventivo.numero}.pdf`;
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// Confronto tra due revisioni
+// ============================================
+interface ConfrontoRevisioniProps {
+  a: RevisionePreventivo;
+  b: RevisionePreventivo;
+}
+
+function ConfrontoRevisioni({ a, b }: ConfrontoRevisioniProps) {
+  const chiavi = Array.from(new Set([...Object.keys(a.parcella.compensi), ...Object.keys(b.parcella.compensi)]));
+  const importoOpere = (r: RevisionePreventivo) => r.opere.reduce((sum, o) => sum + o.importoOpere, 0);
+
+  const totali: Array<{ label: string; a: number; b: number }> = [
+    { label: "Importo opere", a: importoOpere(a), b: importoOpere(b) },
+    { label: "Compenso prestazioni", a: a.parcella.compensoPrestazioni, b: b.parcella.compensoPrestazioni },
+    { label: "Spese e oneri accessori", a: a.parcella.speseOneri, b: b.parcella.speseOneri },
+    { label: "Sconto", a: -a.importoSconto, b: -b.importoSconto },
+    { label: "Compenso netto", a: a.fattura.compensoNetto, b: b.fattura.compensoNetto },
+    { label: "CPA", a: a.fattura.cpa, b: b.fattura.cpa },
+    { label: "IVA", a: a.fattura.iva, b: b.fattura.iva },
+    { label: "Totale con IVA", a: a.fattura.totaleConIVA, b: b.fattura.totaleConIVA }
+  ];
+
+  const riga = (key: string, label: string, valoreA: number | undefined, valoreB: number | undefined, bold = false) => {
+    const delta = (valoreB ?? 0) - (valoreA ?? 0);
+    return (
+      <TableRow key={key} className={bold ? "font-semibold bg-gray-50" : ""}>
+        <TableCell className="text-sm">{label}</TableCell>
+        <TableCell className="text-right">{valoreA === undefined ? "-" : formatCurrency(valoreA)}</TableCell>
+        <TableCell className="text-right">{valoreB === undefined ? "-" : formatCurrency(valoreB)}</TableCell>
+        <TableCell className={`text-right ${delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-gray-400"}`}>
+          {Math.abs(delta) < 0.005 ? "=" : `${delta > 0 ? "+" : ""}${formatCurrency(delta)}`}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Voce</TableHead>
+            <TableHead className="text-right">Rev. {a.numero}</TableHead>
+            <TableHead className="text-right">Rev. {b.numero}</TableHead>
+            <TableHead className="text-right">Differenza</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {chiavi.map((key) => {
+            const compenso = b.parcella.compensi[key] ?? a.parcella.compensi[key];
+            return riga(
+              key,
+              `${compenso.idOpera} ${compenso.prestazione}`,
+              a.parcella.compensi[key]?.importo,
+              b.parcella.compensi[key]?.importo
+            );
+          })}
+          {totali.map((t) => riga(t.label, t.label, t.a, t.b, true))}
+        </TableBody>
+      </Table>
+      {(a.sconto !== b.sconto || a.parcella.percentualeSpese !== b.parcella.percentualeSpese) && (
+        <p className="text-xs text-gray-500 mt-2">
+          Sconto {a.sconto}% → {b.sconto}%, spese e oneri {a.parcella.percentualeSpese.toFixed(2)}% → {b.parcella.percentualeSpese.toFixed(2)}%
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Dettaglio preventivo: revisioni e confronto
+// ============================================
+function PreventivoDettaglio({ preventivo }: { preventivo: Preventivo }) {
+  const { toast } = useToast();
+  const [revA, setRevA] = useState(1);
+  const [revB, setRevB] = useState(preventivo.revisioni.length);
+
+  useEffect(() => {
+    setRevA(Math.max(1, preventivo.revisioni.length - 1));
+    setRevB(preventivo.revisioni.length);
+  }, [preventivo.id, preventivo.revisioni.length]);
+
+  const trova = (numero: number) => preventivo.revisioni.find(r => r.numero === numero);
+
+  const scarica = (numero: number) => {
+    scaricaOfferta(preventivo, numero).catch(() => {
+      toast({ title: "Errore", description: "Errore durante la generazione della lettera di offerta", variant: "destructive" });
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rev.</TableHead>
+              <TableHead>Data</TableHead>
+              <TableHead>Opere</TableHead>
+              <TableHead className="text-right">Compenso</TableHead>
+              <TableHead className="text-right">Sconto</TableHead>
+              <TableHead className="text-right">Netto</TableHead>
+              <TableHead className="text-right">Totale con IVA</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preventivo.revisioni.map((r) => (
+              <TableRow key={r.numero}>
+                <TableCell className="font-medium">{r.numero}</TableCell>
+                <TableCell>{formatDate(r.data)}</TableCell>
+                <TableCell className="text-sm">{r.parcella.categoria}</TableCell>
+                <TableCell className="text-right">{formatCurrency(r.parcella.compensoTotale)}</TableCell>
+                <TableCell className="text-right">{r.sconto > 0 ? `${r.sconto}%` : "-"}</TableCell>
+                <TableCell className="text-right">{formatCurrency(r.fattura.compensoNetto)}</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(r.fattura.totaleConIVA)}</TableCell>
+                <TableCell className="text-sm text-gray-600">{r.note}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" title="Lettera di offerta (PDF)" onClick={() => scarica(r.numero)}>
+                    <FileDown className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {preventivo.revisioni.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-blue-500" />
+            <span className="font-semibold">Confronta</span>
+            {[{ value: revA, set: setRevA }, { value: revB, set: setRevB }].map((sel, i) => (
+              <Select key={i} value={String(sel.value)} onValueChange={(v) => sel.set(Number(v))}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {preventivo.revisioni.map((r) => (
+                    <SelectItem key={r.numero} value={String(r.numero)}>Rev. {r.numero}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+          {trova(revA) && trova(revB) && <ConfrontoRevisioni a={trova(revA)!} b={trova(revB)!} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Conversione in commessa
+// ============================================
+interface ConvertiDialogProps {
+  preventivo: Preventivo | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ConvertiDialog({ preventivo, onOpenChange }: ConvertiDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  const [template, setTemplate] = useState<"LUNGO" | "BREVE">("LUNGO");
+
+  const convertiMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/preventivi/${preventivo!.id}/converti`, {
+        code: code || undefined,
+        template
+      });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/preventivi"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      toast({ title: "Successo", description: `Commessa ${project.code} creata dal preventivo` });
+      setCode("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante la creazione della commessa"), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={!!preventivo} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Crea commessa da {preventivo?.numero}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            La commessa riprende cliente, oggetto, classe DM, importo opere, compenso e prestazioni dall'ultima revisione.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="converti-codice">Codice commessa</Label>
+            <Input
+              id="converti-codice"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Generato automaticamente"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="converti-template">Template cartelle</Label>
+            <Select value={template} onValueChange={(v) => setTemplate(v as "LUNGO" | "BREVE")}>
+              <SelectTrigger id="converti-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="LUNGO">LUNGO</SelectItem>
+                <SelectItem value="BREVE">BREVE</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Annulla
+          </Button>
+          <Button onClick={() => convertiMutation.mutate()} disabled={convertiMutation.isPending}>
+            Crea commessa
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================
+// Modello della lettera di offerta
+// ============================================
+interface ModelloOffertaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ModelloOffertaDialog({ open, onOpenChange }: ModelloOffertaDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<InsertModelloOfferta | null>(null);
+
+  const { data: modello } = useQuery<InsertModelloOfferta>({
+    queryKey: ["modello-offerta"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/settings/offerta");
+      return response.json();
+    },
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (open && modello) {
+      setForm({ ...modello, rate: modello.rate.map(r => ({ ...r })) });
+    }
+  }, [open, modello]);
+
+  const salvaMutation = useMutation({
+    mutationFn: async (data: InsertModelloOfferta) => {
+      const response = await apiRequest("PUT", "/api/settings/offerta", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["modello-offerta"] });
+      onOpenChange(false);
+      toast({ title: "Successo", description: "Modello della lettera di offerta salvato" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  const update = (changes: Partial<InsertModelloOfferta>) => setForm(prev => prev && { ...prev, ...changes });
+  const updateRata = (index: number, changes: Partial<RataOfferta>) => {
+    setForm(prev => prev && { ...prev, rate: prev.rate.map((r, i) => (i === index ? { ...r, ...changes } : r)) });
+  };
+  const totaleRate = form?.rate.reduce((sum, r) => sum + r.percentuale, 0) ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modello lettera di offerta</DialogTitle>
+        </DialogHeader>
+
+        {!form ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-gray-500">
+              Segnaposto disponibili: {SEGNAPOSTO_OFFERTA.map(s => `{{${s}}}`).join(", ")}
+            </p>
+            <div className="space-y-1">
+              <Label>Oggetto</Label>
+              <Input value={form.oggetto} onChange={(e) => update({ oggetto: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Introduzione</Label>
+              <Textarea rows={5} value={form.introduzione} onChange={(e) => update({ introduzione: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Condizioni ed esclusioni</Label>
+              <Textarea rows={4} value={form.condizioni} onChange={(e) => update({ condizioni: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Chiusura</Label>
+              <Textarea rows={2} value={form.chiusura} onChange={(e) => update({ chiusura: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Firmatario</Label>
+                <Input value={form.firmaNome} onChange={(e) => update({ firmaNome: e.target.value })} placeholder="Ing. Mario Rossi" />
+              </div>
+              <div className="space-y-1">
+                <Label>Qualifica</Label>
+                <Input value={form.firmaQualifica} onChange={(e) => update({ firmaQualifica: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Validità (giorni)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={form.giorniValidita}
+                  onChange={(e) => update({ giorniValidita: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="offerta-note-dm"
+                checked={form.mostraNoteDM}
+                onCheckedChange={(checked) => update({ mostraNoteDM: checked })}
+              />
+              <Label htmlFor="offerta-note-dm">Riporta le note del DM 17/06/2016</Label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Rate di pagamento (% del compenso netto)</Label>
+                <span className={`text-sm ${Math.abs(totaleRate - 100) < 0.01 ? "text-gray-500" : "text-red-600"}`}>
+                  Totale {totaleRate}%
+                </span>
+              </div>
+              {form.rate.map((rata, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={rata.descrizione}
+                    onChange={(e) => updateRata(index, { descrizione: e.target.value })}
+                    placeholder="Alla consegna del progetto"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    className="w-24"
+                    value={rata.percentuale}
+                    onChange={(e) => updateRata(index, { percentuale: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={form.rate.length === 1}
+                    onClick={() => update({ rate: form.rate.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ rate: [...form.rate, { descrizione: "", percentuale: 0 }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Aggiungi rata
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Annulla
+          </Button>
+          <Button onClick={() => form && salvaMutation.mutate(form)} disabled={!form || salvaMutation.isPending}>
+            Salva modello
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================
+// Elenco preventivi
+// ============================================
+export default function Preventivi() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dettaglioId, setDettaglioId] = useState<string | null>(null);
+  const [revisioneId, setRevisioneId] = useState<string | null>(null);
+  const [daConvertire, setDaConvertire] = useState<Preventivo | null>(null);
+  const [isModelloOpen, setIsModelloOpen] = useState(false);
+
+  const { data: preventivi = [], isLoading } = useQuery<Preventivo[]>({ queryKey: ["/api/preventivi"] });
+  const { data: clients = [] } = useQuery<Client[]>({ queryKey: ["/api/clients"] });
+  const { data: projects = [] } = useQuery<Project[]>({ queryKey: ["/api/projects"] });
+
+  const dettaglio = preventivi.find(p => p.id === dettaglioId);
+  const inRevisione = preventivi.find(p => p.id === revisioneId);
+  const nomeCliente = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    return client ? `${client.sigla} - ${client.name}` : clientId;
+  };
+
+  const statoMutation = useMutation({
+    mutationFn: async ({ id, stato }: { id: string; stato: StatoPreventivo }) => {
+      const response = await apiRequest("PATCH", `/api/preventivi/${id}/stato`, { stato });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/preventivi"] });
+      toast({ title: "Successo", description: "Stato del preventivo aggiornato" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'aggiornamento"), variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/preventivi/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/preventivi"] });
+      toast({ title: "Successo", description: "Preventivo eliminato" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'eliminazione"), variant: "destructive" });
+    }
+  });
+
+  const scarica = (preventivo: Preventivo) => {
+    scaricaOfferta(preventivo).catch(() => {
+      toast({ title: "Errore", description: "Errore durante la generazione della lettera di offerta", variant: "destructive" });
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between gap-4">
+          <div>
+            <h3 className="font-semibold">Preventivi</h3>
+            <p className="text-sm text-gray-500">
+              I preventivi si creano dal Calcolo Parcella; ogni modifica viene salvata come nuova revisione
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setIsModelloOpen(true)}>
+            <Settings className="h-4 w-4 mr-1" />
+            Modello lettera
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : preventivi.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">Nessun preventivo salvato</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Numero</TableHead>
+                  <TableHead>Cliente</TableHead>
+                  <TableHead>Oggetto</TableHead>
+                  <TableHead>Rev.</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead className="text-right">Compenso netto</TableHead>
+                  <TableHead className="text-right">Totale con IVA</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preventivi.map((p) => {
+                  const revisione = ultimaRevisione(p);
+                  const commessa = projects.find(pr => pr.id === p.projectId);
+                  return (
+                    <TableRow key={p.id}>
+                      <TableCell className="font-medium">{p.numero}</TableCell>
+                      <TableCell>{nomeCliente(p.clientId)}</TableCell>
+                      <TableCell>
+                        {p.oggetto}
+                        {commessa && <div className="text-xs text-green-700">Commessa {commessa.code}</div>}
+                      </TableCell>
+                      <TableCell>{revisione.numero}</TableCell>
+                      <TableCell>
+                        {p.projectId ? (
+                          <Badge className={STATI_PREVENTIVO[p.stato].className}>{STATI_PREVENTIVO[p.stato].label}</Badge>
+                        ) : (
+                          <Select
+                            value={p.stato}
+                            onValueChange={(stato) => statoMutation.mutate({ id: p.id, stato: stato as StatoPreventivo })}
+                          >
+                            <SelectTrigger className={`h-8 w-32 ${STATI_PREVENTIVO[p.stato].className}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(STATI_PREVENTIVO).map(([key, { label }]) => (
+                                <SelectItem key={key} value={key}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(revisione.fattura.compensoNetto)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(revisione.fattura.totaleConIVA)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" title="Revisioni" onClick={() => setDettaglioId(p.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Lettera di offerta (PDF)" onClick={() => scarica(p)}>
+                          <FileDown className="h-4 w-4" />
+                        </Button>
+                        {p.stato !== "accettato" && (
+                          <Button variant="ghost" size="sm" title="Nuova revisione" onClick={() => setRevisioneId(p.id)}>
+                            <FilePlus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {p.stato === "accettato" && !p.projectId && (
+                          <Button variant="ghost" size="sm" title="Crea commessa" onClick={() => setDaConvertire(p)}>
+                            <FolderPlus className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Elimina"
+                          onClick={() => {
+                            if (confirm(`Eliminare il preventivo ${p.numero} con tutte le revisioni?`)) {
+                              deleteMutation.mutate(p.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dettaglio} onOpenChange={(open) => !open && setDettaglioId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dettaglio?.numero} - {dettaglio?.oggetto}</DialogTitle>
+          </DialogHeader>
+          {dettaglio && <PreventivoDettaglio preventivo={dettaglio} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!inRevisione} onOpenChange={(open) => !open && setRevisioneId(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nuova revisione - {inRevisione?.numero}</DialogTitle>
+          </DialogHeader>
+          {inRevisione && (
+            <ParcellaCalculator
+              key={inRevisione.id}
+              preventivo={inRevisione}
+              onSaved={() => setRevisioneId(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConvertiDialog preventivo={daConvertire} onOpenChange={(open) => !open && setDaConvertire(null)} />
+      <ModelloOffertaDialog open={isModelloOpen} onOpenChange={setIsModelloOpen} />
+    </Card>
+  );
+}
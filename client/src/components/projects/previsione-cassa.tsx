@@ -0,0 +1,308 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { AlertTriangle, CalendarClock, ChevronDown, ChevronRight, Plus, Save, Trash2 } from "lucide-react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { OriginePrevisione, PrevisioneCassa as PrevisioneCassaData, Project, RataCompenso } from "@shared/schema";
+import { formatCurrency, formatDate, getTodayISO } from "@/lib/financial-utils";
+
+const ORIGINE_LABELS: Record<OriginePrevisione, string> = {
+  fattura_emessa: "Fattura emessa",
+  fattura_ingresso: "Fattura ingresso",
+  fattura_consulente: "Fattura consulente",
+  costo_generale: "Costo generale",
+  costo_ricorrente: "Costo ricorrente",
+  rata_compenso: "Rata prevista"
+};
+
+const formatMese = (mese: string) =>
+  new Date(`${mese}-01`).toLocaleDateString("it-IT", { month: "short", year: "numeric" });
+
+const nuovaRata = (): RataCompenso => ({ descrizione: "", data: getTodayISO(), importo: 0, fatturata: false });
+
+export default function PrevisioneCassa() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [saldoIniziale, setSaldoIniziale] = useState("");
+  const [espansi, setEspansi] = useState<Set<string>>(new Set());
+  const [isRateOpen, setIsRateOpen] = useState(false);
+  const [projectId, setProjectId] = useState("");
+  const [rate, setRate] = useState<RataCompenso[]>([]);
+
+  const { data: previsione, isLoading } = useQuery<PrevisioneCassaData>({
+    queryKey: ["previsione-cassa"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/previsione-cassa");
+      return response.json();
+    }
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["projects"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/projects");
+      return response.json();
+    }
+  });
+
+  useEffect(() => {
+    if (previsione) setSaldoIniziale(String(previsione.saldoIniziale));
+  }, [previsione?.saldoIniziale]);
+
+  useEffect(() => {
+    const project = projects.find(p => p.id === projectId);
+    setRate(project?.metadata?.pianoIncassi ?? []);
+  }, [projectId, projects]);
+
+  const saldoMutation = useMutation({
+    mutationFn: async (saldo: number) => {
+      const response = await apiRequest("PUT", "/api/settings/previsione-cassa", { saldoIniziale: saldo });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+      toast({ title: "Successo", description: "Saldo iniziale aggiornato" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  const rateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/projects/${projectId}/piano-incassi`, { rate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setIsRateOpen(false);
+      toast({ title: "Successo", description: "Rate previste aggiornate" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  const toggle = (mese: string) => {
+    setEspansi(prev => {
+      const next = new Set(prev);
+      if (next.has(mese)) next.delete(mese);
+      else next.add(mese);
+      return next;
+    });
+  };
+
+  const updateRata = (index: number, changes: Partial<RataCompenso>) => {
+    setRate(prev => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const chartData = (previsione?.mesi ?? []).map(m => ({
+    mese: formatMese(m.mese),
+    entrate: m.entrate,
+    uscite: -m.uscite,
+    saldo: m.saldoFinale
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="saldo-iniziale">Saldo bancario iniziale</Label>
+            <Input
+              id="saldo-iniziale"
+              type="number"
+              step="0.01"
+              className="w-[180px]"
+              value={saldoIniziale}
+              onChange={(e) => setSaldoIniziale(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            disabled={saldoMutation.isPending || saldoIniziale === ""}
+            onClick={() => saldoMutation.mutate(parseFloat(saldoIniziale) || 0)}
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Salva
+          </Button>
+          {previsione?.saldoAggiornatoIl && (
+            <span className="text-xs text-gray-500 pb-2">aggiornato il {formatDate(previsione.saldoAggiornatoIl)}</span>
+          )}
+        </div>
+        <Button variant="outline" onClick={() => setIsRateOpen(true)}>
+          <CalendarClock className="h-4 w-4 mr-1" />
+          Rate previste
+        </Button>
+      </div>
+
+      {previsione && previsione.mesiNegativi.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          Saldo previsto negativo in {previsione.mesiNegativi.length} mes{previsione.mesiNegativi.length === 1 ? "e" : "i"}
+          {" "}({previsione.mesiNegativi.map(formatMese).join(", ")}). Minimo {formatCurrency(previsione.saldoMinimo.saldo)} a {formatMese(previsione.saldoMinimo.mese)}.
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Previsione a 12 mesi</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-[300px] bg-gray-200 rounded animate-pulse"></div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="mese" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#dc2626" />
+                <Bar dataKey="entrate" fill="#16a34a" name="Entrate" />
+                <Bar dataKey="uscite" fill="#f97316" name="Uscite" />
+                <Line type="monotone" dataKey="saldo" stroke="#2563eb" strokeWidth={2} name="Saldo previsto" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mese</TableHead>
+                <TableHead className="text-right">Saldo iniziale</TableHead>
+                <TableHead className="text-right">Entrate</TableHead>
+                <TableHead className="text-right">Uscite</TableHead>
+                <TableHead className="text-right">Saldo finale</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(previsione?.mesi ?? []).map(m => {
+                const aperto = espansi.has(m.mese);
+                return (
+                  <Fragment key={m.mese}>
+                    <TableRow
+                      className={`cursor-pointer ${m.negativo ? "bg-red-50 hover:bg-red-100" : "hover:bg-gray-50"}`}
+                      onClick={() => toggle(m.mese)}
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1">
+                          {aperto ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {formatMese(m.mese)}
+                          <Badge variant="secondary" className="ml-1">{m.voci.length}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(m.saldoIniziale)}</TableCell>
+                      <TableCell className="text-right text-green-700">{formatCurrency(m.entrate)}</TableCell>
+                      <TableCell className="text-right text-orange-600">{formatCurrency(m.uscite)}</TableCell>
+                      <TableCell className={`text-right font-semibold ${m.negativo ? "text-red-600" : ""}`}>
+                        {formatCurrency(m.saldoFinale)}
+                      </TableCell>
+                    </TableRow>
+                    {aperto && m.voci.map((voce, i) => (
+                      <TableRow key={`${m.mese}-${i}`} className="bg-gray-50 text-sm">
+                        <TableCell className="pl-10">
+                          {formatDate(voce.data)}
+                          {voce.scaduta && <Badge variant="destructive" className="ml-2">Scaduta</Badge>}
+                        </TableCell>
+                        <TableCell colSpan={2}>
+                          <div>{ORIGINE_LABELS[voce.origine]} · {voce.controparte}</div>
+                          <div className="text-xs text-gray-500 truncate max-w-[320px]">{voce.descrizione}</div>
+                        </TableCell>
+                        <TableCell colSpan={2} className={`text-right font-semibold ${voce.importo > 0 ? "text-green-700" : "text-orange-600"}`}>
+                          {formatCurrency(voce.importo)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isRateOpen} onOpenChange={setIsRateOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Rate di compenso previste</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleziona la commessa" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.code} - {p.object}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {projectId && (
+              <>
+                {rate.map((rata, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_150px_130px_auto_auto] items-center gap-2">
+                    <Input
+                      placeholder="Descrizione (es. acconto, SAL 1, saldo)"
+                      value={rata.descrizione}
+                      onChange={(e) => updateRata(i, { descrizione: e.target.value })}
+                    />
+                    <Input type="date" value={rata.data} onChange={(e) => updateRata(i, { data: e.target.value })} />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      className="text-right"
+                      value={rata.importo || ""}
+                      onChange={(e) => updateRata(i, { importo: parseFloat(e.target.value) || 0 })}
+                    />
+                    <label className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={rata.fatturata}
+                        onCheckedChange={(value) => updateRata(i, { fatturata: value === true })}
+                      />
+                      Fatturata
+                    </label>
+                    <Button variant="ghost" size="sm" onClick={() => setRate(prev => prev.filter((_, j) => j !== i))}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => setRate(prev => [...prev, nuovaRata()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Aggiungi rata
+                </Button>
+                <p className="text-xs text-gray-500">
+                  Importi da incassare (IVA inclusa). Segnare come fatturate le rate già emesse: sono previste dalle fatture.
+                </p>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRateOpen(false)}>Annulla</Button>
+            <Button disabled={!projectId || rateMutation.isPending} onClick={() => rateMutation.mutate()}>
+              Salva
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { type Project, type ProjectMetadata, type Communication, type Deadline } from "@shared/schema";
+import { User } from "@/hooks/useAuth";
 import EditProjectForm from "./edit-project-form";
 import PrestazioniModal from "./prestazioni-modal";
 import FatturazioneModal from "./fatturazione-modal";
@@ -37,7 +38,17 @@ import {
   type TipoRapportoType 
 } from "@/lib/prestazioni-utils";
 
-export default function ProjectsTable() {
+interface ProjectsTableProps {
+  user?: User | null;
+}
+
+// Helper per verificare se l'utente è admin
+const isUserAdmin = (user: User | null | undefined) => {
+  return user?.role === "admin" || user?.role === "amministratore" as any;
+};
+
+export default function ProjectsTable({ user }: ProjectsTableProps) {
+  const isAdmin = isUserAdmin(user);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [yearFilter, setYearFilter] = useState<string>("all");
@@ -533,31 +544,34 @@ export default function ProjectsTable() {
                     {showFatturazione && (
                       <td className="py-4 px-4" data-testid={`project-fatturazione-${project.id}`}>
                         <div
-                          className="flex flex-col gap-1 cursor-pointer hover:bg-gray-50 p-1 rounded transition-colors"
-                          onClick={() => setSelectedProjectForFatturazione(project)}
-                          title="Clicca per gestire fatturazione"
+                          className={`flex flex-col gap-1 p-1 rounded ${isAdmin ? "cursor-pointer hover:bg-gray-50 transition-colors" : ""}`}
+                          onClick={isAdmin ? () => setSelectedProjectForFatturazione(project) : undefined}
+                          title={isAdmin ? "Clicca per gestire fatturazione" : undefined}
                         >
-                          {project.fatturato ? (
+                          {project.billing && project.billing.fatturato > 0 ? (
                             <div className="flex items-center gap-1">
                               <span className="text-xs px-1.5 py-0.5 bg-blue-100 text-blue-800 rounded font-medium">
                                 ✓ Fatturato
                               </span>
-                              {project.importoFatturato && project.importoFatturato > 0 && (
-                                <span className="text-xs text-gray-600">
-                                  €{(project.importoFatturato / 100).toFixed(2)}
-                                </span>
-                              )}
+                              <span className="text-xs text-gray-600">
+                                €{project.billing.fatturato.toFixed(2)}
+                              </span>
                             </div>
                           ) : (
                             <span className="text-xs text-gray-400 italic">Non fatturato</span>
                           )}
-                          {project.pagato && (
+                          {project.billing && project.billing.fatturato > 0 && project.billing.daIncassare <= 0 && (
                             <span className="text-xs px-1.5 py-0.5 bg-green-100 text-green-800 rounded font-medium">
                               ✓ Pagato
                             </span>
                           )}
-                          {project.fatturato && !project.pagato && (
-                            <span className="text-xs text-orange-600 font-medium">⏳ Da incassare</span>
+                          {project.billing && project.billing.daIncassare > 0 && (
+                            <span className="text-xs text-orange-600 font-medium">
+                              ⏳ Da incassare €{project.billing.daIncassare.toFixed(2)}
+                            </span>
+                          )}
+                          {project.billing?.source === 'override' && (
+                            <span className="text-xs text-amber-700 italic" title="Valori inseriti manualmente">✎ manuale</span>
                           )}
                         </div>
                       </td>
@@ -571,16 +585,17 @@ export default function ProjectsTable() {
                           }
 
                           const commDate = new Date(lastComm.communicationDate);
-                          const icon = lastComm.direction === 'in' ? '📩' : '📤';
+                          const icon = lastComm.direction === 'incoming' ? '📩' : lastComm.direction === 'internal' ? '📝' : '📤';
                           const typeLabel = lastComm.type === 'email' ? 'Email' :
                                            lastComm.type === 'pec' ? 'PEC' :
-                                           lastComm.type === 'phone' ? 'Tel' :
+                                           lastComm.type === 'telefono' ? 'Tel' :
+                                           lastComm.type === 'raccomandata' ? 'Raccomandata' :
                                            lastComm.type === 'meeting' ? 'Riunione' : 'Altro';
 
                           return (
                             <div className="flex flex-col gap-1">
                               <div className="flex items-center gap-1">
-                                <span title={lastComm.direction === 'in' ? 'In entrata' : 'In uscita'}>{icon}</span>
+                                <span title={lastComm.direction === 'incoming' ? 'In entrata' : lastComm.direction === 'internal' ? 'Interna' : 'In uscita'}>{icon}</span>
                                 <span className="text-xs px-1.5 py-0.5 bg-gray-100 rounded font-medium">
                                   {typeLabel}
                                 </span>
@@ -719,12 +734,14 @@ export default function ProjectsTable() {
         />
       )}
 
-      {/* Fatturazione Modal */}
-      <FatturazioneModal
-        project={selectedProjectForFatturazione}
-        open={!!selectedProjectForFatturazione}
-        onClose={() => setSelectedProjectForFatturazione(null)}
-      />
+      {/* Fatturazione Modal (solo admin: il server rifiuta billingOverride dagli operativi) */}
+      {isAdmin && (
+        <FatturazioneModal
+          project={selectedProjectForFatturazione}
+          open={!!selectedProjectForFatturazione}
+          onClose={() => setSelectedProjectForFatturazione(null)}
+        />
+      )}
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!projectToDelete} onOpenChange={(open) => !open && setProjectToDelete(null)}>
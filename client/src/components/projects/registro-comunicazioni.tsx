@@ -31,7 +31,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { type Project } from "@shared/schema";
+import { type Project, type Communication } from "@shared/schema";
 import {
   Mail,
   Phone,
@@ -55,23 +55,11 @@ import {
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
 
-interface Communication {
-  id: string;
-  projectId: string;
+// Comunicazione arricchita con i dati della commessa per la visualizzazione
+type EnrichedCommunication = Communication & {
   projectCode?: string;
   projectClient?: string;
-  type: 'email' | 'pec' | 'raccomandata' | 'telefono' | 'meeting' | 'nota_interna';
-  direction: 'incoming' | 'outgoing' | 'internal';
-  subject: string;
-  body?: string;
-  recipient?: string;
-  sender?: string;
-  attachments?: { name: string; size: number }[];
-  tags?: string[];
-  isImportant: boolean;
-  communicationDate: Date;
-  createdBy?: string;
-}
+};
 
 const TYPE_CONFIG = {
   email: { label: 'Email', icon: <Mail className="h-4 w-4" />, color: 'bg-blue-100 text-blue-700' },
@@ -307,7 +295,7 @@ function CommunicationForm({
 }
 
 function CommunicationCard({ comm, onEdit, onDelete }: {
-  comm: Communication;
+  comm: EnrichedCommunication;
   onEdit: () => void;
   onDelete: () => void;
 }) {
@@ -0,0 +1,449 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { Check, EyeOff, Link2, Trash2, Undo2, Upload } from "lucide-react";
+import type {
+  CandidatoRiconciliazione,
+  ImportEstrattoConto,
+  MovimentoBancario,
+  StatoMovimento,
+  TipoDocumentoRiconciliabile
+} from "@shared/schema";
+import { formatCurrency, formatDate } from "@/lib/financial-utils";
+
+const STATO_LABELS: Record<StatoMovimento, string> = {
+  da_riconciliare: "Da riconciliare",
+  riconciliato: "Riconciliato",
+  ignorato: "Ignorato"
+};
+
+const TIPO_LABELS: Record<TipoDocumentoRiconciliabile, string> = {
+  emesse: "Fattura emessa",
+  ingresso: "Fattura ingresso",
+  consulenti: "Fattura consulente",
+  "costi-generali": "Costo generale"
+};
+
+const chiave = (c: { tipo: TipoDocumentoRiconciliabile; documentoId: string }) => `${c.tipo}:${c.documentoId}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export default function RiconciliazioneBancaria() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [stato, setStato] = useState<StatoMovimento | "tutti">("da_riconciliare");
+  const [selected, setSelected] = useState<MovimentoBancario | null>(null);
+  // Documenti selezionati nel dialog di abbinamento: chiave -> importo
+  const [selezione, setSelezione] = useState<Record<string, string>>({});
+
+  const { data: movimenti = [], isLoading } = useQuery<MovimentoBancario[]>({
+    queryKey: ["movimenti-bancari", stato],
+    queryFn: async () => {
+      const query = stato === "tutti" ? "" : `?stato=${stato}`;
+      const response = await apiRequest("GET", `/api/movimenti-bancari${query}`);
+      return response.json();
+    }
+  });
+
+  const { data: candidati = [], isLoading: isLoadingCandidati } = useQuery<CandidatoRiconciliazione[]>({
+    queryKey: ["movimenti-bancari", selected?.id, "candidati"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/movimenti-bancari/${selected!.id}/candidati`);
+      return response.json();
+    },
+    enabled: !!selected
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["movimenti-bancari"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-emesse"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-ingresso"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-consulenti"] });
+    queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
+    queryClient.invalidateQueries({ queryKey: ["cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-in-scadenza"] });
+    queryClient.invalidateQueries({ queryKey: ["solleciti"] });
+    queryClient.invalidateQueries({ queryKey: ["aging"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Errore", description: errorDescription(error, fallback), variant: "destructive" });
+  };
+
+  const riconciliaMutation = useMutation({
+    mutationFn: async ({ movimento, abbinamenti }: {
+      movimento: MovimentoBancario;
+      abbinamenti: Array<{ tipo: TipoDocumentoRiconciliabile; documentoId: string; importo: number }>;
+    }) => {
+      const response = await apiRequest("POST", `/api/movimenti-bancari/${movimento.id}/riconcilia`, { abbinamenti });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setSelected(null);
+      toast({ title: "Successo", description: "Movimento riconciliato e pagamenti registrati" });
+    },
+    onError: onError("Errore durante la riconciliazione")
+  });
+
+  const annullaMutation = useMutation({
+    mutationFn: async (movimento: MovimentoBancario) => {
+      const response = await apiRequest("DELETE", `/api/movimenti-bancari/${movimento.id}/riconcilia`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Successo", description: "Riconciliazione annullata" });
+    },
+    onError: onError("Errore durante l'annullamento")
+  });
+
+  const statoMutation = useMutation({
+    mutationFn: async ({ movimento, stato }: { movimento: MovimentoBancario; stato: "da_riconciliare" | "ignorato" }) => {
+      const response = await apiRequest("PATCH", `/api/movimenti-bancari/${movimento.id}`, { stato });
+      return response.json();
+    },
+    onSuccess: () => refresh(),
+    onError: onError("Errore durante l'aggiornamento")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (movimento: MovimentoBancario) => {
+      await apiRequest("DELETE", `/api/movimenti-bancari/${movimento.id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Successo", description: "Movimento eliminato" });
+    },
+    onError: onError("Errore durante l'eliminazione")
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const response = await fetch("/api/movimenti-bancari/import", {
+        method: "POST",
+        body,
+        credentials: "include"
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.details?.join("; ") || data?.message || data?.error || "Import non riuscito");
+      }
+
+      const result: ImportEstrattoConto = data;
+      refresh();
+      toast({
+        title: "Successo",
+        description: `${result.importati} movimenti importati${result.duplicati ? `, ${result.duplicati} già presenti` : ""}`
+      });
+    } catch (error) {
+      toast({
+        title: "Errore nell'import dell'estratto conto",
+        description: error instanceof Error ? error.message : "Impossibile leggere il file",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const openAbbina = (movimento: MovimentoBancario) => {
+    setSelected(movimento);
+    setSelezione(movimento.proposta
+      ? { [chiave(movimento.proposta)]: String(Math.min(Math.abs(movimento.importo), movimento.proposta.residuo)) }
+      : {});
+  };
+
+  const toggleCandidato = (candidato: CandidatoRiconciliazione, checked: boolean) => {
+    setSelezione(prev => {
+      const next = { ...prev };
+      if (!checked) {
+        delete next[chiave(candidato)];
+        return next;
+      }
+      // Propone il minore tra residuo del documento e importo ancora da abbinare
+      const assegnato = Object.values(next).reduce((sum, v) => sum + (parseFloat(v) || 0), 0);
+      const daAbbinare = round2(Math.abs(selected!.importo) - assegnato);
+      next[chiave(candidato)] = String(Math.max(0, Math.min(candidato.residuo, daAbbinare)));
+      return next;
+    });
+  };
+
+  const abbinamenti = candidati
+    .filter(c => selezione[chiave(c)] !== undefined)
+    .map(c => ({ tipo: c.tipo, documentoId: c.documentoId, importo: parseFloat(selezione[chiave(c)]) || 0 }));
+  const totaleAbbinato = round2(abbinamenti.reduce((sum, a) => sum + a.importo, 0));
+  const differenza = selected ? round2(Math.abs(selected.importo) - totaleAbbinato) : 0;
+
+  const renderStato = (movimento: MovimentoBancario) => {
+    if (movimento.stato === "riconciliato") return <Badge className="bg-green-100 text-green-800">Riconciliato</Badge>;
+    if (movimento.stato === "ignorato") return <Badge variant="secondary">Ignorato</Badge>;
+    return <Badge variant="outline">Da riconciliare</Badge>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <Select value={stato} onValueChange={(value) => setStato(value as StatoMovimento | "tutti")}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STATO_LABELS) as StatoMovimento[]).map(s => (
+              <SelectItem key={s} value={s}>{STATO_LABELS[s]}</SelectItem>
+            ))}
+            <SelectItem value="tutti">Tutti</SelectItem>
+          </SelectContent>
+        </Select>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.xml"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button disabled={isImporting} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            {isImporting ? "Lettura..." : "Importa estratto conto"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-4 animate-pulse space-y-2">
+              <div className="h-10 bg-gray-200 rounded"></div>
+              <div className="h-10 bg-gray-200 rounded"></div>
+            </div>
+          ) : movimenti.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              Nessun movimento. Importa un estratto conto CSV o CAMT.053 dalla banca.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrizione</TableHead>
+                    <TableHead className="text-right">Importo</TableHead>
+                    <TableHead>Abbinamento</TableHead>
+                    <TableHead>Stato</TableHead>
+                    <TableHead className="text-right">Azioni</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movimenti.map(movimento => (
+                    <TableRow key={movimento.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(movimento.data)}</TableCell>
+                      <TableCell>
+                        <div className="max-w-[320px] truncate" title={movimento.descrizione}>{movimento.descrizione}</div>
+                        {movimento.controparte && <div className="text-xs text-gray-500">{movimento.controparte}</div>}
+                      </TableCell>
+                      <TableCell className={`text-right font-semibold whitespace-nowrap ${movimento.importo > 0 ? "text-green-700" : "text-red-700"}`}>
+                        {formatCurrency(movimento.importo)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {movimento.stato === "riconciliato" ? (
+                          <span>{movimento.abbinamenti.length} document{movimento.abbinamenti.length === 1 ? "o" : "i"}</span>
+                        ) : movimento.proposta ? (
+                          <div>
+                            <div>{TIPO_LABELS[movimento.proposta.tipo]} {movimento.proposta.numero}</div>
+                            <div className="text-xs text-gray-500">
+                              {movimento.proposta.controparte} · residuo {formatCurrency(movimento.proposta.residuo)} · {movimento.proposta.punteggio}%
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{renderStato(movimento)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {movimento.stato === "da_riconciliare" && (
+                          <>
+                            {movimento.proposta && Math.abs(movimento.proposta.residuo - Math.abs(movimento.importo)) < 0.005 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Conferma proposta"
+                                disabled={riconciliaMutation.isPending}
+                                onClick={() => riconciliaMutation.mutate({
+                                  movimento,
+                                  abbinamenti: [{
+                                    tipo: movimento.proposta!.tipo,
+                                    documentoId: movimento.proposta!.documentoId,
+                                    importo: Math.abs(movimento.importo)
+                                  }]
+                                })}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" title="Abbina documenti" onClick={() => openAbbina(movimento)}>
+                              <Link2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Ignora"
+                              onClick={() => statoMutation.mutate({ movimento, stato: "ignorato" })}
+                            >
+                              <EyeOff className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {movimento.stato === "ignorato" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Riporta da riconciliare"
+                            onClick={() => statoMutation.mutate({ movimento, stato: "da_riconciliare" })}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {movimento.stato === "riconciliato" ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Annulla riconciliazione"
+                            onClick={() => {
+                              if (confirm("Annullare la riconciliazione? I pagamenti registrati verranno eliminati.")) {
+                                annullaMutation.mutate(movimento);
+                              }
+                            }}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Elimina"
+                            onClick={() => {
+                              if (confirm("Eliminare il movimento?")) {
+                                deleteMutation.mutate(movimento);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Abbina movimento</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="rounded-lg bg-gray-50 p-3 text-sm">
+                <div className="flex justify-between">
+                  <span>{formatDate(selected.data)} {selected.controparte}</span>
+                  <span className="font-semibold">{formatCurrency(selected.importo)}</span>
+                </div>
+                <div className="text-gray-500">{selected.descrizione}</div>
+              </div>
+
+              {isLoadingCandidati ? (
+                <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+              ) : candidati.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">
+                  Nessun documento aperto compatibile con il movimento
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead></TableHead>
+                      <TableHead>Documento</TableHead>
+                      <TableHead className="text-right">Residuo</TableHead>
+                      <TableHead className="text-right w-[140px]">Importo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidati.map(candidato => {
+                      const key = chiave(candidato);
+                      const checked = selezione[key] !== undefined;
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Checkbox checked={checked} onCheckedChange={(value) => toggleCandidato(candidato, value === true)} />
+                          </TableCell>
+                          <TableCell>
+                            <div>{TIPO_LABELS[candidato.tipo]} {candidato.numero} · {candidato.controparte}</div>
+                            <div className="text-xs text-gray-500" title={candidato.motivi.join(", ")}>
+                              {candidato.dataScadenza && `Scad. ${formatDate(candidato.dataScadenza)} · `}
+                              {candidato.punteggio}% {candidato.motivi.join(", ")}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(candidato.residuo)}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              className="text-right"
+                              disabled={!checked || candidato.tipo === "costi-generali"}
+                              value={selezione[key] ?? ""}
+                              onChange={(e) => setSelezione(prev => ({ ...prev, [key]: e.target.value }))}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex justify-between text-sm">
+                <span>Abbinato: <strong>{formatCurrency(totaleAbbinato)}</strong></span>
+                <span className={differenza === 0 ? "text-green-700" : "text-red-600"}>
+                  Differenza: {formatCurrency(differenza)}
+                </span>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Annulla</Button>
+            <Button
+              disabled={!selected || abbinamenti.length === 0 || differenza !== 0 || riconciliaMutation.isPending}
+              onClick={() => riconciliaMutation.mutate({ movimento: selected!, abbinamenti })}
+            >
+              Riconcilia
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
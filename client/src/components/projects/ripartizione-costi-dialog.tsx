@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { Plus, X } from "lucide-react";
+import type {
+  CostoGenerale,
+  CriterioRipartizione,
+  ImpostazioniRipartizione,
+  InsertImpostazioniRipartizione,
+  Project
+} from "@shared/schema";
+import { CATEGORIE } from "./serie-costi-generali";
+
+export const CRITERIO_LABELS: Record<CriterioRipartizione, string> = {
+  ore: "Ore lavorate",
+  fatturato: "Fatturato",
+  percentuale: "Percentuali fisse"
+};
+
+type Categoria = CostoGenerale["categoria"];
+
+interface RipartizioneCostiDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: Project[];
+}
+
+export default function RipartizioneCostiDialog({ open, onOpenChange, projects }: RipartizioneCostiDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<InsertImpostazioniRipartizione>({
+    criterio: "ore",
+    regole: [],
+    quote: [],
+    categorieEscluse: []
+  });
+
+  const { data: impostazioni } = useQuery<ImpostazioniRipartizione>({
+    queryKey: ["/api/settings/ripartizione-costi"],
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (open && impostazioni) {
+      setFormData({
+        criterio: impostazioni.criterio,
+        regole: impostazioni.regole,
+        quote: impostazioni.quote,
+        categorieEscluse: impostazioni.categorieEscluse
+      });
+    }
+  }, [open, impostazioni]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertImpostazioniRipartizione) => {
+      const response = await apiRequest("PUT", "/api/settings/ripartizione-costi", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/ripartizione-costi"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ripartizione-costi"] });
+      toast({ title: "Successo", description: "Criteri di ripartizione salvati" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  const criterioCategoria = (categoria: Categoria) =>
+    formData.regole.find(r => r.categoria === categoria)?.criterio ?? "default";
+
+  const setCriterioCategoria = (categoria: Categoria, criterio: CriterioRipartizione | "default") => {
+    setFormData(prev => ({
+      ...prev,
+      regole: [
+        ...prev.regole.filter(r => r.categoria !== categoria),
+        ...(criterio === "default" ? [] : [{ categoria, criterio }])
+      ]
+    }));
+  };
+
+  const toggleEsclusa = (categoria: Categoria, esclusa: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      categorieEscluse: esclusa
+        ? [...prev.categorieEscluse, categoria]
+        : prev.categorieEscluse.filter(c => c !== categoria)
+    }));
+  };
+
+  const usaPercentuali = formData.criterio === "percentuale" || formData.regole.some(r => r.criterio === "percentuale");
+  const totalePercentuali = formData.quote.reduce((sum, q) => sum + q.percentuale, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Criteri di ripartizione dei costi generali</DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(formData);
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-gray-500">
+            I costi generali di ogni mese sono ripartiti sulle commesse con ore lavorate o fatturato nello stesso mese,
+            oppure secondo le percentuali fisse indicate. Le percentuali valgono solo nei mesi in cui la commessa è attiva
+            (dalla prima attività registrata, fino all'ultima se conclusa o sospesa); i costi con data futura non sono ripartiti.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="criterio">Criterio predefinito</Label>
+            <Select
+              value={formData.criterio}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, criterio: value as CriterioRipartizione }))}
+            >
+              <SelectTrigger id="criterio">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CRITERIO_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Criterio per categoria</Label>
+            {(Object.keys(CATEGORIE) as Categoria[]).map((categoria) => {
+              const esclusa = formData.categorieEscluse.includes(categoria);
+              return (
+                <div key={categoria} className="grid grid-cols-[1fr_200px_110px] items-center gap-2">
+                  <span className="text-sm">{CATEGORIE[categoria]}</span>
+                  <Select
+                    value={criterioCategoria(categoria)}
+                    onValueChange={(value) => setCriterioCategoria(categoria, value as CriterioRipartizione | "default")}
+                    disabled={esclusa}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Predefinito</SelectItem>
+                      {Object.entries(CRITERIO_LABELS).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <Checkbox checked={esclusa} onCheckedChange={(checked) => toggleEsclusa(categoria, checked === true)} />
+                    Escludi
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+
+          {usaPercentuali && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Percentuali fisse per commessa</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({ ...prev, quote: [...prev.quote, { projectId: "", percentuale: 0 }] }))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Aggiungi
+                </Button>
+              </div>
+              {formData.quote.map((quota, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={quota.projectId}
+                    onValueChange={(value) => setFormData(prev => ({
+                      ...prev,
+                      quote: prev.quote.map((q, i) => (i === index ? { ...q, projectId: value } : q))
+                    }))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Seleziona commessa" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.code} - {project.client}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-28"
+                    value={quota.percentuale}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      quote: prev.quote.map((q, i) => (i === index ? { ...q, percentuale: parseFloat(e.target.value) || 0 } : q))
+                    }))}
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ ...prev, quote: prev.quote.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className={`text-xs ${totalePercentuali > 100 ? "text-red-600" : "text-gray-500"}`}>
+                Totale {totalePercentuali.toFixed(2)}%: la quota restante non viene ripartita
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annulla
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              Salva
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
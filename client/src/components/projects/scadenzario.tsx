@@ -35,7 +35,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { type Project } from "@shared/schema";
+import { type Project, type Deadline } from "@shared/schema";
 import {
   CalendarIcon,
   Clock,
@@ -51,20 +51,11 @@ import {
 import { format, formatDistanceToNow, isPast, isFuture, isToday, addDays } from "date-fns";
 import { it } from "date-fns/locale";
 
-interface Deadline {
-  id: string;
-  projectId: string;
-  title: string;
-  description?: string;
-  dueDate: Date;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'pending' | 'completed' | 'overdue' | 'cancelled';
-  type: 'general' | 'deposito' | 'collaudo' | 'scadenza_assicurazione' | 'milestone';
-  notifyDaysBefore?: number;
-  completedAt?: Date;
+// Scadenza arricchita con i dati della commessa per la visualizzazione
+type EnrichedDeadline = Deadline & {
   projectCode?: string;
   projectClient?: string;
-}
+};
 
 const PRIORITY_CONFIG = {
   low: { label: 'Bassa', color: 'bg-gray-100 text-gray-700', icon: '🟢' },
@@ -213,12 +204,14 @@ function DeadlineForm({
 }
 
 function DeadlineCard({ deadline, onComplete, onDelete, onEdit }: {
-  deadline: Deadline;
+  deadline: EnrichedDeadline;
   onComplete: () => void;
   onDelete: () => void;
   onEdit: () => void;
 }) {
-  const isOverdue = isPast(new Date(deadline.dueDate)) && deadline.status === 'pending';
+  // Lo stato "overdue" è calcolato dal server
+  const isOverdue = deadline.status === 'overdue';
+  const isOpen = deadline.status === 'pending' || isOverdue;
   const daysUntil = Math.ceil((new Date(deadline.dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
   const isUpcoming = daysUntil <= (deadline.notifyDaysBefore || 7) && daysUntil > 0;
 
@@ -227,8 +220,8 @@ function DeadlineCard({ deadline, onComplete, onDelete, onEdit }: {
 
   return (
     <Card className={`${
-      isOverdue && deadline.status === 'pending' ? 'border-red-300 bg-red-50' :
-      isUpcoming && deadline.status === 'pending' ? 'border-orange-300 bg-orange-50' :
+      isOverdue ? 'border-red-300 bg-red-50' :
+      isUpcoming && isOpen ? 'border-orange-300 bg-orange-50' :
       deadline.status === 'completed' ? 'border-green-300 bg-green-50' :
       'border-gray-200'
     }`}>
@@ -256,7 +249,7 @@ function DeadlineCard({ deadline, onComplete, onDelete, onEdit }: {
               <CalendarIcon className="h-4 w-4" />
               <span>{format(new Date(deadline.dueDate), 'dd MMM yyyy', { locale: it })}</span>
             </div>
-            {deadline.status === 'pending' && (
+            {isOpen && (
               <div className={`flex items-center gap-1 ${
                 isOverdue ? 'text-red-600' :
                 isUpcoming ? 'text-orange-600' :
@@ -277,7 +270,7 @@ function DeadlineCard({ deadline, onComplete, onDelete, onEdit }: {
           )}
 
           <div className="flex items-center gap-2 pt-2 border-t">
-            {deadline.status === 'pending' && (
+            {isOpen && (
               <Button
                 size="sm"
                 variant="outline"
@@ -452,7 +445,7 @@ export default function Scadenzario() {
   });
 
   // Conta scadenze per categoria
-  const overdueCount = enrichedDeadlines.filter(d => isPast(new Date(d.dueDate)) && d.status === 'pending').length;
+  const overdueCount = enrichedDeadlines.filter(d => d.status === 'overdue').length;
   const upcomingCount = enrichedDeadlines.filter(d => {
     const daysUntil = Math.ceil((new Date(d.dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
     return daysUntil <= 7 && daysUntil > 0 && d.status === 'pending';
@@ -522,7 +515,7 @@ export default function Scadenzario() {
               <div>
                 <p className="text-sm text-blue-700 font-medium">In Programma</p>
                 <p className="text-3xl font-bold text-blue-900">
-                  {enrichedDeadlines.filter(d => d.status === 'pending').length - overdueCount - upcomingCount}
+                  {enrichedDeadlines.filter(d => d.status === 'pending').length - upcomingCount}
                 </p>
               </div>
               <CalendarIcon className="h-8 w-8 text-blue-600" />
@@ -0,0 +1,490 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { Plus, Pencil, Trash2, Euro, RefreshCw, X } from "lucide-react";
+import type { CostoGenerale, InsertSerieCostoGenerale, SerieCostoGenerale, VariazioneImporto } from "@shared/schema";
+import { formatCurrency, formatDate } from "@/lib/financial-utils";
+
+export const CATEGORIE: Record<CostoGenerale["categoria"], string> = {
+  noleggio_auto: "Noleggio Auto",
+  fitto_ufficio: "Fitto Ufficio",
+  energia: "Energia",
+  internet_dati: "Internet/Dati",
+  giardiniere: "Giardiniere",
+  pulizie: "Pulizie",
+  multe: "Multe",
+  assicurazioni: "Assicurazioni",
+  commercialista: "Commercialista",
+  altro: "Altro"
+};
+
+export const PERIODICITA: Record<SerieCostoGenerale["periodicita"], string> = {
+  mensile: "Mensile",
+  bimestrale: "Bimestrale",
+  trimestrale: "Trimestrale",
+  semestrale: "Semestrale",
+  annuale: "Annuale"
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Importo in vigore oggi, tenendo conto delle variazioni
+const importoCorrente = (serie: SerieCostoGenerale) =>
+  serie.variazioniImporto
+    .filter(v => v.dal <= today())
+    .sort((a, b) => a.dal.localeCompare(b.dal))
+    .pop()?.importo ?? serie.importo;
+
+const emptyForm = (): InsertSerieCostoGenerale => ({
+  categoria: "altro",
+  fornitore: "",
+  descrizione: "",
+  periodicita: "mensile",
+  dataInizio: today(),
+  dataFine: "",
+  giorniScadenza: 0,
+  importo: 0,
+  variazioniImporto: [],
+  attiva: true,
+  note: ""
+});
+
+export function useSerieCostiGenerali() {
+  return useQuery<SerieCostoGenerale[]>({
+    queryKey: ["costi-generali", "serie"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/costi-generali/serie");
+      return response.json();
+    }
+  });
+}
+
+function useRefreshCostiGenerali() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["costi-generali"] });
+    queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+    queryClient.invalidateQueries({ queryKey: ["aging"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ripartizione-costi"] });
+    queryClient.invalidateQueries({ queryKey: ["cash-flow"] });
+  };
+}
+
+interface SerieCostoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  serie?: SerieCostoGenerale | null;
+}
+
+// Creazione o modifica dell'intera serie: le occorrenze future non pagate e
+// non modificate singolarmente vengono aggiornate dal server
+export function SerieCostoDialog({ open, onOpenChange, serie }: SerieCostoDialogProps) {
+  const { toast } = useToast();
+  const refresh = useRefreshCostiGenerali();
+  const [formData, setFormData] = useState<InsertSerieCostoGenerale>(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(serie ? {
+      categoria: serie.categoria,
+      fornitore: serie.fornitore,
+      descrizione: serie.descrizione,
+      periodicita: serie.periodicita,
+      dataInizio: serie.dataInizio,
+      dataFine: serie.dataFine || "",
+      giorniScadenza: serie.giorniScadenza,
+      importo: serie.importo,
+      variazioniImporto: serie.variazioniImporto,
+      attiva: serie.attiva,
+      note: serie.note || ""
+    } : emptyForm());
+  }, [open, serie]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSerieCostoGenerale) => {
+      const body = { ...data, dataFine: data.dataFine || undefined, note: data.note || undefined };
+      const response = serie
+        ? await apiRequest("PUT", `/api/costi-generali/serie/${serie.id}`, body)
+        : await apiRequest("POST", "/api/costi-generali/serie", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Successo",
+        description: serie ? "Serie aggiornata: modificate le occorrenze future" : "Serie creata e occorrenze generate"
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio della serie"), variant: "destructive" });
+    }
+  });
+
+  const setVariazione = (index: number, patch: Partial<VariazioneImporto>) => {
+    setFormData(prev => ({
+      ...prev,
+      variazioniImporto: prev.variazioniImporto.map((v, i) => (i === index ? { ...v, ...patch } : v))
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{serie ? "Modifica Serie Ricorrente" : "Nuova Serie Ricorrente"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="serie-categoria">Categoria *</Label>
+              <Select
+                value={formData.categoria}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, categoria: value as InsertSerieCostoGenerale["categoria"] }))}
+              >
+                <SelectTrigger id="serie-categoria">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORIE).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serie-fornitore">Fornitore *</Label>
+              <Input
+                id="serie-fornitore"
+                value={formData.fornitore}
+                onChange={(e) => setFormData(prev => ({ ...prev, fornitore: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="serie-descrizione">Descrizione *</Label>
+            <Input
+              id="serie-descrizione"
+              value={formData.descrizione}
+              onChange={(e) => setFormData(prev => ({ ...prev, descrizione: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="serie-periodicita">Periodicità *</Label>
+              <Select
+                value={formData.periodicita}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, periodicita: value as InsertSerieCostoGenerale["periodicita"] }))}
+              >
+                <SelectTrigger id="serie-periodicita">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PERIODICITA).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serie-dataInizio">Dal *</Label>
+              <Input
+                id="serie-dataInizio"
+                type="date"
+                value={formData.dataInizio}
+                onChange={(e) => setFormData(prev => ({ ...prev, dataInizio: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serie-dataFine">Al</Label>
+              <Input
+                id="serie-dataFine"
+                type="date"
+                value={formData.dataFine}
+                onChange={(e) => setFormData(prev => ({ ...prev, dataFine: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="serie-importo">Importo *</Label>
+              <div className="relative">
+                <Euro className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="serie-importo"
+                  type="number"
+                  step="0.01"
+                  className="pl-9"
+                  value={formData.importo}
+                  onChange={(e) => setFormData(prev => ({ ...prev, importo: parseFloat(e.target.value) || 0 }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serie-giorniScadenza">Scadenza (giorni dalla data)</Label>
+              <Input
+                id="serie-giorniScadenza"
+                type="number"
+                min="0"
+                value={formData.giorniScadenza}
+                onChange={(e) => setFormData(prev => ({ ...prev, giorniScadenza: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Variazioni di importo</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  variazioniImporto: [...prev.variazioniImporto, { dal: today(), importo: prev.importo }]
+                }))}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Aggiungi
+              </Button>
+            </div>
+            {formData.variazioniImporto.length === 0 ? (
+              <p className="text-sm text-gray-500">Nessuna variazione: l'importo è costante per tutta la serie</p>
+            ) : (
+              formData.variazioniImporto.map((variazione, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 w-8">Dal</span>
+                  <Input
+                    type="date"
+                    value={variazione.dal}
+                    onChange={(e) => setVariazione(index, { dal: e.target.value })}
+                    required
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={variazione.importo}
+                    onChange={(e) => setVariazione(index, { importo: parseFloat(e.target.value) || 0 })}
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      variazioniImporto: prev.variazioniImporto.filter((_, i) => i !== index)
+                    }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="serie-attiva">Serie attiva</Label>
+            <Switch
+              id="serie-attiva"
+              checked={formData.attiva}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, attiva: checked }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="serie-note">Note</Label>
+            <Textarea
+              id="serie-note"
+              value={formData.note}
+              onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+            />
+          </div>
+
+          {serie && (
+            <p className="text-xs text-gray-500">
+              Le modifiche si applicano alle occorrenze future non pagate e non modificate singolarmente.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annulla
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {serie ? "Aggiorna serie" : "Crea serie"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function SerieCostiGenerali() {
+  const { toast } = useToast();
+  const refresh = useRefreshCostiGenerali();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSerie, setEditingSerie] = useState<SerieCostoGenerale | null>(null);
+
+  const { data: serie = [], isLoading } = useSerieCostiGenerali();
+
+  const generaMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/costi-generali/serie/genera");
+      return response.json() as Promise<{ generati: number }>;
+    },
+    onSuccess: ({ generati }) => {
+      refresh();
+      toast({
+        title: "Successo",
+        description: generati > 0 ? `Generati ${generati} costi ricorrenti` : "Nessuna nuova occorrenza da generare"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante la generazione"), variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/costi-generali/serie/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Successo", description: "Serie eliminata" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'eliminazione"), variant: "destructive" });
+    }
+  });
+
+  const openDialog = (s: SerieCostoGenerale | null) => {
+    setEditingSerie(s);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between gap-2">
+          <div>
+            <h3 className="font-semibold flex items-center gap-2">
+              <RefreshCw className="h-4 w-4 text-blue-500" />
+              Serie ricorrenti
+            </h3>
+            <p className="text-sm text-gray-500">
+              Le occorrenze vengono generate automaticamente con 60 giorni di anticipo
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => generaMutation.mutate()} disabled={generaMutation.isPending}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Genera ora
+            </Button>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Nuova Serie
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : serie.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">Nessuna serie ricorrente</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead>Fornitore</TableHead>
+                  <TableHead>Descrizione</TableHead>
+                  <TableHead>Periodicità</TableHead>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead className="text-right">Importo attuale</TableHead>
+                  <TableHead>Prossima da generare</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {serie.map((s) => (
+                  <TableRow key={s.id} className={s.attiva ? "" : "opacity-60"}>
+                    <TableCell>{CATEGORIE[s.categoria]}</TableCell>
+                    <TableCell>{s.fornitore}</TableCell>
+                    <TableCell className="max-w-[200px] truncate">{s.descrizione}</TableCell>
+                    <TableCell>{PERIODICITA[s.periodicita]}</TableCell>
+                    <TableCell>
+                      {formatDate(s.dataInizio)} - {s.dataFine ? formatDate(s.dataFine) : "senza fine"}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(importoCorrente(s))}
+                      {s.variazioniImporto.length > 0 && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          {s.variazioniImporto.length} variazion{s.variazioniImporto.length === 1 ? "e" : "i"}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {!s.attiva ? (
+                        <Badge variant="secondary">Sospesa</Badge>
+                      ) : s.prossimaOccorrenza ? (
+                        formatDate(s.prossimaOccorrenza)
+                      ) : (
+                        <span className="text-gray-500">Conclusa</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(s)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm("Eliminare la serie? Le occorrenze future non pagate verranno rimosse, quelle passate restano come costi singoli.")) {
+                              deleteMutation.mutate(s.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <SerieCostoDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} serie={editingSerie} />
+    </Card>
+  );
+}
@@ -0,0 +1,511 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { AlertTriangle, Clock, Copy, Gavel, Mail, Plus, Send, Settings, Trash2, Undo2 } from "lucide-react";
+import {
+  CANALI_SOLLECITO,
+  type AnteprimaSollecito,
+  type FatturaEmessa,
+  type LivelloSollecito,
+  type Sollecito
+} from "@shared/schema";
+import { formatCurrency, formatDate, getTodayISO } from "@/lib/financial-utils";
+
+const CANALE_LABELS: Record<typeof CANALI_SOLLECITO[number], string> = {
+  email: "Email",
+  pec: "PEC",
+  raccomandata: "Raccomandata"
+};
+
+const SEGNAPOSTO = [
+  "cliente", "numeroFattura", "dataEmissione", "dataScadenza", "importo",
+  "importoTotale", "giorniRitardo", "commessa", "studio", "iban"
+];
+
+type Canale = typeof CANALI_SOLLECITO[number];
+
+export default function Solleciti() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<FatturaEmessa | null>(null);
+  const [livello, setLivello] = useState(1);
+  const [lettera, setLettera] = useState({ data: getTodayISO(), canale: "email" as Canale, destinatario: "", oggetto: "", testo: "" });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [livelliForm, setLivelliForm] = useState<LivelloSollecito[]>([]);
+
+  const { data: fatture = [], isLoading } = useQuery<FatturaEmessa[]>({
+    queryKey: ["solleciti"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/solleciti");
+      return response.json();
+    }
+  });
+
+  const { data: impostazioni } = useQuery<{ livelli: LivelloSollecito[] }>({
+    queryKey: ["impostazioni-solleciti"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/settings/solleciti");
+      return response.json();
+    }
+  });
+  const livelli = impostazioni?.livelli ?? [];
+
+  const { data: storico = [] } = useQuery<Sollecito[]>({
+    queryKey: ["solleciti", selected?.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/solleciti/${selected!.id}`);
+      return response.json();
+    },
+    enabled: !!selected
+  });
+
+  const { data: anteprima } = useQuery<AnteprimaSollecito>({
+    queryKey: ["solleciti", selected?.id, "anteprima", livello],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/solleciti/${selected!.id}/anteprima?livello=${livello}`);
+      return response.json();
+    },
+    enabled: !!selected
+  });
+
+  // La lettera compilata resta modificabile prima della registrazione
+  useEffect(() => {
+    if (anteprima) {
+      setLettera(prev => ({
+        ...prev,
+        canale: anteprima.canale,
+        destinatario: anteprima.destinatario ?? "",
+        oggetto: anteprima.oggetto,
+        testo: anteprima.testo
+      }));
+    }
+  }, [anteprima]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["solleciti"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-emesse"] });
+    queryClient.invalidateQueries({ queryKey: ["cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["previsione-cassa"] });
+    queryClient.invalidateQueries({ queryKey: ["fatture-in-scadenza"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/communications"] });
+  };
+
+  const sollecitoMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/solleciti/${selected!.id}`, {
+        livello,
+        ...lettera,
+        destinatario: lettera.destinatario || undefined
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setSelected(null);
+      toast({ title: "Successo", description: "Sollecito registrato nelle comunicazioni della commessa" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante la registrazione"), variant: "destructive" });
+    }
+  });
+
+  const contenziosoMutation = useMutation({
+    mutationFn: async ({ fattura, inContenzioso }: { fattura: FatturaEmessa; inContenzioso: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/fatture-emesse/${fattura.id}`, {
+        inContenzioso,
+        dataContenzioso: inContenzioso ? getTodayISO() : ""
+      });
+      return response.json();
+    },
+    onSuccess: (_, { inContenzioso }) => {
+      refresh();
+      toast({
+        title: "Successo",
+        description: inContenzioso ? "Fattura passata in contenzioso" : "Fattura riportata nel flusso dei solleciti"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante l'aggiornamento"), variant: "destructive" });
+    }
+  });
+
+  const livelliMutation = useMutation({
+    mutationFn: async (data: LivelloSollecito[]) => {
+      const response = await apiRequest("PUT", "/api/settings/solleciti", { livelli: data });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["impostazioni-solleciti"] });
+      queryClient.invalidateQueries({ queryKey: ["solleciti"] });
+      setIsSettingsOpen(false);
+      toast({ title: "Successo", description: "Livelli di sollecito salvati" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: errorDescription(error, "Errore durante il salvataggio"), variant: "destructive" });
+    }
+  });
+
+  const openSollecito = (fattura: FatturaEmessa) => {
+    const stato = fattura.statoSollecito;
+    const prossimo = Math.min((stato?.ultimoLivello ?? 0) + 1, Math.max(livelli.length, 1));
+    setLivello(Math.max(prossimo, stato?.livelloDovuto ?? 1, 1));
+    setLettera({ data: getTodayISO(), canale: "email", destinatario: "", oggetto: "", testo: "" });
+    setSelected(fattura);
+  };
+
+  const openSettings = () => {
+    setLivelliForm(livelli.map(l => ({ ...l })));
+    setIsSettingsOpen(true);
+  };
+
+  const updateLivello = (index: number, changes: Partial<LivelloSollecito>) => {
+    setLivelliForm(prev => prev.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+  };
+
+  const copyTesto = async () => {
+    await navigator.clipboard.writeText(`${lettera.oggetto}\n\n${lettera.testo}`);
+    toast({ title: "Successo", description: "Testo copiato negli appunti" });
+  };
+
+  const attive = fatture.filter(f => !f.inContenzioso);
+  const contenzioso = fatture.filter(f => f.inContenzioso);
+  const daInviare = attive.filter(f => f.statoSollecito?.daInviare);
+  const residuo = (list: FatturaEmessa[]) => list.reduce((acc, f) => acc + (f.statoPagamento?.residuo ?? 0), 0);
+  const titoloLivello = (n: number) => livelli[n - 1]?.titolo ?? `Livello ${n}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Fatture emesse scadute e non saldate. Livelli attivi:{" "}
+          {livelli.map(l => `${l.titolo} (+${l.giorni} gg)`).join(", ")}
+        </p>
+        <Button variant="outline" onClick={openSettings}>
+          <Settings className="h-4 w-4 mr-1" />
+          Livelli di sollecito
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Scaduto da incassare</span>
+              <Clock className="h-4 w-4 text-orange-500" />
+            </div>
+            <p className="text-2xl font-bold text-orange-600">{formatCurrency(residuo(attive))}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Solleciti da inviare</span>
+              <Mail className="h-4 w-4 text-blue-500" />
+            </div>
+            <p className="text-2xl font-bold">{daInviare.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">In contenzioso</span>
+              <Gavel className="h-4 w-4 text-red-500" />
+            </div>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(residuo(contenzioso))}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-4 animate-pulse space-y-2">
+              <div className="h-10 bg-gray-200 rounded"></div>
+              <div className="h-10 bg-gray-200 rounded"></div>
+            </div>
+          ) : fatture.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Nessuna fattura scaduta da sollecitare</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fattura</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Scadenza</TableHead>
+                    <TableHead className="text-right">Ritardo</TableHead>
+                    <TableHead className="text-right">Residuo</TableHead>
+                    <TableHead>Ultimo sollecito</TableHead>
+                    <TableHead className="text-center">Stato</TableHead>
+                    <TableHead className="text-right">Azioni</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...attive, ...contenzioso].map(fattura => {
+                    const stato = fattura.statoSollecito;
+                    return (
+                      <TableRow key={fattura.id} className={fattura.inContenzioso ? "bg-red-50" : undefined}>
+                        <TableCell className="font-medium">{fattura.numeroFattura}</TableCell>
+                        <TableCell>{fattura.cliente}</TableCell>
+                        <TableCell>{formatDate(fattura.dataScadenzaPagamento)}</TableCell>
+                        <TableCell className="text-right">{stato?.giorniRitardo} gg</TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatCurrency(fattura.statoPagamento?.residuo ?? fattura.importoTotale)}
+                        </TableCell>
+                        <TableCell>
+                          {stato?.ultimoLivello ? (
+                            <div className="text-sm">
+                              {titoloLivello(stato.ultimoLivello)}
+                              <div className="text-xs text-gray-500">{stato.dataUltimoSollecito && formatDate(stato.dataUltimoSollecito)}</div>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {fattura.inContenzioso ? (
+                            <Badge variant="destructive">
+                              In contenzioso{fattura.dataContenzioso ? ` dal ${formatDate(fattura.dataContenzioso)}` : ""}
+                            </Badge>
+                          ) : stato?.daInviare ? (
+                            <Badge variant="outline" className="border-orange-300 text-orange-700">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {titoloLivello(stato.livelloDovuto)}
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">In attesa</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {!fattura.inContenzioso && (
+                              <Button variant="ghost" size="sm" title="Prepara sollecito" onClick={() => openSollecito(fattura)}>
+                                <Send className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={fattura.inContenzioso ? "Rimuovi dal contenzioso" : "Passa in contenzioso"}
+                              onClick={() => {
+                                const message = fattura.inContenzioso
+                                  ? "Riportare la fattura nel flusso ordinario dei solleciti?"
+                                  : "Passare la fattura in contenzioso? Sarà esclusa da solleciti e previsioni di incasso.";
+                                if (confirm(message)) {
+                                  contenziosoMutation.mutate({ fattura, inContenzioso: !fattura.inContenzioso });
+                                }
+                              }}
+                            >
+                              {fattura.inContenzioso
+                                ? <Undo2 className="h-4 w-4" />
+                                : <Gavel className="h-4 w-4 text-red-500" />}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preparazione e registrazione del sollecito */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sollecito fattura {selected?.numeroFattura} - {selected?.cliente}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Livello</Label>
+                <Select value={String(livello)} onValueChange={(value) => setLivello(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {livelli.map((l, i) => (
+                      <SelectItem key={i} value={String(i + 1)}>{i + 1}. {l.titolo} (+{l.giorni} gg)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Canale</Label>
+                <Select value={lettera.canale} onValueChange={(value) => setLettera(prev => ({ ...prev, canale: value as Canale }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CANALI_SOLLECITO.map(c => (
+                      <SelectItem key={c} value={c}>{CANALE_LABELS[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sollecito-data">Data invio</Label>
+                <Input
+                  id="sollecito-data"
+                  type="date"
+                  value={lettera.data}
+                  onChange={(e) => setLettera(prev => ({ ...prev, data: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sollecito-destinatario">Destinatario</Label>
+              <Input
+                id="sollecito-destinatario"
+                value={lettera.destinatario}
+                placeholder="Email, PEC o indirizzo del cliente"
+                onChange={(e) => setLettera(prev => ({ ...prev, destinatario: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sollecito-oggetto">Oggetto</Label>
+              <Input
+                id="sollecito-oggetto"
+                value={lettera.oggetto}
+                onChange={(e) => setLettera(prev => ({ ...prev, oggetto: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sollecito-testo">Testo</Label>
+              <Textarea
+                id="sollecito-testo"
+                rows={12}
+                value={lettera.testo}
+                onChange={(e) => setLettera(prev => ({ ...prev, testo: e.target.value }))}
+              />
+            </div>
+
+            {storico.length > 0 && (
+              <div className="border-t pt-3">
+                <h4 className="text-sm font-semibold mb-2">Solleciti inviati</h4>
+                <div className="space-y-1 text-sm">
+                  {storico.map(s => (
+                    <div key={s.id} className="flex justify-between">
+                      <span>{formatDate(s.data)} - {titoloLivello(s.livello)} ({CANALE_LABELS[s.canale]})</span>
+                      <span className="text-gray-500">{s.createdBy}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={copyTesto} disabled={!lettera.testo}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copia testo
+            </Button>
+            <Button onClick={() => sollecitoMutation.mutate()} disabled={sollecitoMutation.isPending || !lettera.testo}>
+              <Send className="h-4 w-4 mr-1" />
+              Registra invio
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Configurazione dei livelli */}
+      <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Livelli di sollecito</DialogTitle>
+          </DialogHeader>
+
+          <p className="text-xs text-gray-500">
+            Segnaposto disponibili: {SEGNAPOSTO.map(s => `{{${s}}}`).join(", ")}
+          </p>
+
+          <div className="space-y-4">
+            {livelliForm.map((l, index) => (
+              <Card key={index}>
+                <CardHeader className="py-3 flex flex-row items-center justify-between">
+                  <CardTitle className="text-base">Livello {index + 1}</CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={livelliForm.length === 1}
+                    onClick={() => setLivelliForm(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label>Giorni dalla scadenza</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={l.giorni}
+                        onChange={(e) => updateLivello(index, { giorni: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Titolo</Label>
+                      <Input value={l.titolo} onChange={(e) => updateLivello(index, { titolo: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Canale</Label>
+                      <Select value={l.canale} onValueChange={(value) => updateLivello(index, { canale: value as Canale })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CANALI_SOLLECITO.map(c => (
+                            <SelectItem key={c} value={c}>{CANALE_LABELS[c]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Oggetto</Label>
+                    <Input value={l.oggetto} onChange={(e) => updateLivello(index, { oggetto: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Testo</Label>
+                    <Textarea rows={8} value={l.testo} onChange={(e) => updateLivello(index, { testo: e.target.value })} />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setLivelliForm(prev => [
+                ...prev,
+                { ...prev[prev.length - 1], giorni: (prev[prev.length - 1]?.giorni ?? 0) + 30, titolo: "" }
+              ])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Aggiungi livello
+            </Button>
+            <Button onClick={() => livelliMutation.mutate(livelliForm)} disabled={livelliMutation.isPending}>
+              Salva
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Save } from "lucide-react";
+import type { FirmSettings, InsertFirmSettings } from "@shared/schema";
+
+type FormState = Record<keyof InsertFirmSettings, string>;
+
+const EMPTY_FORM: FormState = {
+  denominazione: "",
+  partitaIva: "",
+  codiceFiscale: "",
+  regimeFiscale: "RF01",
+  indirizzo: "",
+  numeroCivico: "",
+  cap: "",
+  comune: "",
+  provincia: "",
+  nazione: "IT",
+  email: "",
+  telefono: "",
+  iban: "",
+  istitutoFinanziario: "",
+  tipoCassa: "TC04",
+  tipoRitenuta: "RT01",
+  aliquotaCPA: "4",
+  aliquotaIVA: "22",
+  aliquotaRitenuta: "20"
+};
+
+const NUMERIC_FIELDS = ["aliquotaCPA", "aliquotaIVA", "aliquotaRitenuta"] as const;
+
+function toForm(settings: FirmSettings): FormState {
+  const form = { ...EMPTY_FORM };
+  for (const key of Object.keys(EMPTY_FORM) as Array<keyof FormState>) {
+    const value = settings[key];
+    if (value !== undefined && value !== null) form[key] = String(value);
+  }
+  return form;
+}
+
+// I campi vuoti non vengono inviati: lo schema li tratta come opzionali
+function toPayload(form: FormState): Record<string, string | number> {
+  const payload: Record<string, string | number> = {};
+  for (const [key, value] of Object.entries(form)) {
+    const trimmed = value.trim();
+    if (trimmed === "") continue;
+    payload[key] = (NUMERIC_FIELDS as readonly string[]).includes(key) ? Number(trimmed) : trimmed;
+  }
+  return payload;
+}
+
+export default function FirmSettingsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<FormState>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+
+  // 404 = dati studio non ancora configurati
+  const { data: settings, isLoading } = useQuery<FirmSettings | null>({
+    queryKey: ["settings-firm"],
+    queryFn: async () => {
+      const response = await fetch("/api/settings/firm", { credentials: "include" });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    }
+  });
+
+  useEffect(() => {
+    if (settings) setFormData(toForm(settings));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Record<string, string | number>) => {
+      const response = await fetch("/api/settings/firm", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include"
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setFieldErrors(body.details ?? {});
+        throw new Error(body.error || "Failed to save");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      setFieldErrors({});
+      queryClient.invalidateQueries({ queryKey: ["settings-firm"] });
+      toast({ title: "Successo", description: "Dati studio salvati con successo" });
+    },
+    onError: () => {
+      toast({ title: "Errore", description: "Controlla i campi evidenziati", variant: "destructive" });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(toPayload(formData));
+  };
+
+  const field = (key: keyof FormState, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <Label htmlFor={`firm-${key}`}>{label}</Label>
+      <Input
+        id={`firm-${key}`}
+        value={formData[key]}
+        onChange={(e) => setFormData(prev => ({ ...prev, [key]: e.target.value }))}
+        className={fieldErrors[key] ? "border-red-500" : undefined}
+        data-testid={`input-firm-${key}`}
+        {...props}
+      />
+      {fieldErrors[key] && <p className="text-xs text-red-600 mt-1">{fieldErrors[key].join(", ")}</p>}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-10 bg-gray-200 rounded"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Building2 className="h-6 w-6" />
+            Dati Studio
+          </h2>
+          <p className="text-gray-600">
+            Dati del cedente/prestatore usati per generare la FatturaPA delle fatture emesse
+          </p>
+        </div>
+        <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-firm-settings">
+          <Save className="h-4 w-4 mr-1" />
+          Salva
+        </Button>
+      </div>
+
+      {!settings && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          Dati studio non ancora configurati: la generazione XML delle fatture non è disponibile.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Anagrafica</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-3">{field("denominazione", "Denominazione *")}</div>
+          {field("partitaIva", "Partita IVA *", { maxLength: 11 })}
+          {field("codiceFiscale", "Codice Fiscale", { maxLength: 16 })}
+          {field("regimeFiscale", "Regime Fiscale", { placeholder: "RF01" })}
+          {field("email", "Email", { type: "email" })}
+          {field("telefono", "Telefono")}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Sede</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">{field("indirizzo", "Indirizzo *")}</div>
+          {field("numeroCivico", "Numero Civico")}
+          {field("cap", "CAP *", { maxLength: 5 })}
+          {field("comune", "Comune *")}
+          {field("provincia", "Provincia", { maxLength: 2, placeholder: "TO" })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Fiscale e Pagamenti</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {field("tipoCassa", "Tipo Cassa", { placeholder: "TC04" })}
+          <div>
+            <Label>Tipo Ritenuta</Label>
+            <Select
+              value={formData.tipoRitenuta}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, tipoRitenuta: value }))}
+            >
+              <SelectTrigger data-testid="select-firm-tipoRitenuta">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="RT01">RT01 - Persone fisiche</SelectItem>
+                <SelectItem value="RT02">RT02 - Persone giuridiche</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div />
+          {field("aliquotaCPA", "Aliquota CPA %", { type: "number", step: "0.01", min: 0 })}
+          {field("aliquotaIVA", "Aliquota IVA %", { type: "number", step: "0.01", min: 0 })}
+          {field("aliquotaRitenuta", "Aliquota Ritenuta %", { type: "number", step: "0.01", min: 0 })}
+          <div className="md:col-span-2">{field("iban", "IBAN")}</div>
+          {field("istitutoFinanziario", "Istituto Finanziario")}
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
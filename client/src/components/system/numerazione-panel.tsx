@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/financial-utils";
+import { Plus, Pencil, Trash2, ListOrdered, AlertTriangle, CheckCircle } from "lucide-react";
+import type { NumerazioneReport, SerieNumerazione } from "@shared/schema";
+
+const EMPTY_FORM = { codice: "", descrizione: "", formato: "{n}/{yyyy}", predefinita: false };
+
+// Anteprima lato client del formato (stessa sostituzione del server)
+const anteprimaFormato = (formato: string, codice: string, anno: number, progressivo: number) =>
+  formato
+    .replace(/\{(n+)\}/g, (_, n: string) => String(progressivo).padStart(n.length, "0"))
+    .replace(/\{yyyy\}/g, String(anno))
+    .replace(/\{yy\}/g, String(anno).slice(-2))
+    .replace(/\{serie\}/g, codice);
+
+export default function NumerazionePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSerie, setEditingSerie] = useState<SerieNumerazione | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [anno, setAnno] = useState(new Date().getFullYear());
+
+  const { data: serie = [], isLoading } = useQuery<SerieNumerazione[]>({
+    queryKey: ["numerazione-serie"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/settings/numerazione/serie");
+      return response.json();
+    }
+  });
+
+  const { data: report } = useQuery<NumerazioneReport>({
+    queryKey: ["numerazione-report", anno],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/settings/numerazione/report?anno=${anno}`);
+      return response.json();
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const response = await fetch(
+        editingSerie ? `/api/settings/numerazione/serie/${editingSerie.id}` : "/api/settings/numerazione/serie",
+        {
+          method: editingSerie ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+          credentials: "include"
+        }
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        setFieldErrors(body.details ?? {});
+        throw new Error(body.error || "Failed to save");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["numerazione-serie"] });
+      queryClient.invalidateQueries({ queryKey: ["numerazione-report"] });
+      toast({ title: "Successo", description: "Serie salvata con successo" });
+      resetForm();
+    },
+    onError: () => {
+      toast({ title: "Errore", description: "Controlla i campi evidenziati", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/settings/numerazione/serie/${id}`, {
+        method: "DELETE",
+        credentials: "include"
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Errore durante l'eliminazione");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["numerazione-serie"] });
+      queryClient.invalidateQueries({ queryKey: ["numerazione-report"] });
+      toast({ title: "Successo", description: "Serie eliminata" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Errore", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFieldErrors({});
+    setEditingSerie(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (s: SerieNumerazione) => {
+    setEditingSerie(s);
+    setFormData({ codice: s.codice, descrizione: s.descrizione, formato: s.formato, predefinita: s.predefinita });
+    setFieldErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const fieldError = (key: string) =>
+    fieldErrors[key] && <p className="text-xs text-red-600 mt-1">{fieldErrors[key].join(", ")}</p>;
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-10 bg-gray-200 rounded"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <ListOrdered className="h-6 w-6" />
+            Numerazione Fatture
+          </h2>
+          <p className="text-gray-600">
+            Serie sezionali per le fatture emesse: il progressivo riparte da 1 ogni anno
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} data-testid="button-new-serie">
+          <Plus className="h-4 w-4 mr-1" />
+          Nuova Serie
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Serie</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {serie.length === 0 ? (
+            <p className="text-sm text-gray-500 p-4">
+              Nessuna serie configurata: le fatture sono numerate con il formato predefinito {"{n}/{yyyy}"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Codice</TableHead>
+                  <TableHead>Descrizione</TableHead>
+                  <TableHead>Formato</TableHead>
+                  <TableHead>Esempio</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {serie.map(s => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">
+                      {s.codice}
+                      {s.predefinita && <Badge variant="secondary" className="ml-2">Predefinita</Badge>}
+                    </TableCell>
+                    <TableCell>{s.descrizione}</TableCell>
+                    <TableCell className="font-mono text-sm">{s.formato}</TableCell>
+                    <TableCell className="font-mono text-sm">{anteprimaFormato(s.formato, s.codice, anno, 1)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(s)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Eliminare la serie ${s.codice}?`)) deleteMutation.mutate(s.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Controllo numerazione</CardTitle>
+          <Input
+            type="number"
+            className="w-28"
+            value={anno}
+            onChange={(e) => setAnno(parseInt(e.target.value) || new Date().getFullYear())}
+            data-testid="input-numerazione-anno"
+          />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report?.serie.map(s => {
+            const ok = s.mancanti.length === 0 && s.duplicati.length === 0 && s.fuoriOrdine.length === 0;
+            return (
+              <div key={s.codice} className="rounded-lg border p-3 text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{s.codice} - {s.descrizione}</span>
+                  <span className="text-gray-500">
+                    {s.documenti} documenti · ultimo progressivo {s.ultimoProgressivo}
+                  </span>
+                </div>
+                {ok ? (
+                  <div className="flex items-center gap-1 text-green-700">
+                    <CheckCircle className="h-4 w-4" />
+                    Numerazione continua
+                  </div>
+                ) : (
+                  <>
+                    {s.mancanti.length > 0 && (
+                      <div className="flex items-center gap-1 text-red-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        Numeri mancanti: {s.mancanti.map(({ da, a }) => da === a
+                          ? anteprimaFormato(s.formato, s.codice, anno, da)
+                          : `${anteprimaFormato(s.formato, s.codice, anno, da)} – ${anteprimaFormato(s.formato, s.codice, anno, a)}`
+                        ).join(", ")}
+                      </div>
+                    )}
+                    {s.duplicati.length > 0 && (
+                      <div className="flex items-center gap-1 text-red-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        Numeri duplicati: {s.duplicati.join(", ")}
+                      </div>
+                    )}
+                    {s.fuoriOrdine.length > 0 && (
+                      <div className="flex items-center gap-1 text-amber-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        Date fuori ordine: {s.fuoriOrdine.map(f => `${f.numeroFattura} (${formatDate(f.dataEmissione)})`).join(", ")}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+          {report && report.nonRiconosciute.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              Numeri non riconducibili a una serie:{" "}
+              {report.nonRiconosciute.map(f => f.numeroFattura).join(", ")}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : resetForm())}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSerie ? "Modifica Serie" : "Nuova Serie"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="serie-codice">Codice *</Label>
+                <Input
+                  id="serie-codice"
+                  value={formData.codice}
+                  maxLength={10}
+                  placeholder="PA"
+                  onChange={(e) => setFormData(prev => ({ ...prev, codice: e.target.value.toUpperCase() }))}
+                  required
+                />
+                {fieldError("codice")}
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="serie-descrizione">Descrizione *</Label>
+                <Input
+                  id="serie-descrizione"
+                  value={formData.descrizione}
+                  placeholder="Fatture verso Pubblica Amministrazione"
+                  onChange={(e) => setFormData(prev => ({ ...prev, descrizione: e.target.value }))}
+                  required
+                />
+                {fieldError("descrizione")}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="serie-formato">Formato *</Label>
+              <Input
+                id="serie-formato"
+                value={formData.formato}
+                className="font-mono"
+                onChange={(e) => setFormData(prev => ({ ...prev, formato: e.target.value }))}
+                required
+              />
+              {fieldError("formato")}
+              <p className="text-xs text-gray-500 mt-1">
+                {"{n}"} progressivo, {"{nnn}"} con zeri, {"{yyyy}"}/{"{yy}"} anno, {"{serie}"} codice. Esempio:{" "}
+                <span className="font-mono">{anteprimaFormato(formData.formato, formData.codice, anno, 7)}</span>
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="serie-predefinita">Serie predefinita</Label>
+              <Switch
+                id="serie-predefinita"
+                checked={formData.predefinita}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, predefinita: checked }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Annulla
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                Salva
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
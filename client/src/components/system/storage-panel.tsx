@@ -1,9 +1,48 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type ImportMode = "merge" | "replace";
+
+interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  errors: string[];
+  collections: Record<string, {
+    total: number;
+    added: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+    conflicts: string[];
+    invalid: Array<{ id?: string; index: number }>;
+  }>;
+  attachments: { total: number; added: number; unchanged: number; conflicts: string[] };
+}
+
+// Il dry-run restituisce il report anche quando l'archivio non è valido (400)
+async function previewImport(archive: unknown, mode: ImportMode): Promise<ImportReport> {
+  const res = await fetch(`/api/import?mode=${mode}&dryRun=true`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(archive),
+    credentials: "include",
+  });
+  if (res.status !== 200 && res.status !== 400) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+  return res.json();
+}
 
 export default function StoragePanel() {
   const { toast } = useToast();
+  const [archive, setArchive] = useState<unknown>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
 
   const handleExportAllData = async () => {
     try {
@@ -31,6 +70,19 @@ export default function StoragePanel() {
     }
   };
 
+  const loadPreview = async (data: unknown, importMode: ImportMode) => {
+    try {
+      setReport(await previewImport(data, importMode));
+    } catch (error) {
+      setArchive(null);
+      toast({
+        title: "Errore nell'import",
+        description: "Impossibile analizzare il file di backup",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleImportData = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -40,20 +92,14 @@ export default function StoragePanel() {
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const data = JSON.parse(text);
-        
-        await apiRequest("POST", "/api/import", data);
-        updateStorageInfo();
-        
-        toast({
-          title: "Import completato",
-          description: "I dati sono stati importati con successo",
-        });
+        const data = JSON.parse(await file.text());
+        setArchive(data);
+        setMode("merge");
+        await loadPreview(data, "merge");
       } catch (error) {
         toast({
           title: "Errore nell'import",
-          description: "Si è verificato un errore durante l'importazione",
+          description: "Il file selezionato non è un JSON valido",
           variant: "destructive",
         });
       }
@@ -61,6 +107,39 @@ export default function StoragePanel() {
     input.click();
   };
 
+  const handleModeChange = async (newMode: ImportMode) => {
+    setMode(newMode);
+    if (archive) await loadPreview(archive, newMode);
+  };
+
+  const closePreview = () => {
+    setArchive(null);
+    setReport(null);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!archive) return;
+    setImporting(true);
+    try {
+      await apiRequest("POST", `/api/import?mode=${mode}`, archive);
+      await queryClient.invalidateQueries();
+      closePreview();
+
+      toast({
+        title: "Import completato",
+        description: "I dati sono stati importati con successo",
+      });
+    } catch (error) {
+      toast({
+        title: "Errore nell'import",
+        description: "Si è verificato un errore durante l'importazione",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   return (
     <div data-testid="storage-panel">
       <h3 className="text-2xl font-bold text-gray-900 mb-6">Gestione Dati</h3>
@@ -108,6 +187,90 @@ export default function StoragePanel() {
           </div>
         </div>
       </div>
+
+      {/* Anteprima import (dry-run) */}
+      <Dialog open={report !== null} onOpenChange={(open) => !open && closePreview()}>
+        <DialogContent className="max-w-2xl" data-testid="import-preview">
+          <DialogHeader>
+            <DialogTitle>Anteprima import</DialogTitle>
+            <DialogDescription>
+              Verifica le modifiche prima di applicarle. In modalità "Sostituisci" i record non presenti nel backup vengono eliminati.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === "merge" ? "default" : "outline"}
+              onClick={() => handleModeChange("merge")}
+              data-testid="import-mode-merge"
+            >
+              Unisci
+            </Button>
+            <Button
+              variant={mode === "replace" ? "default" : "outline"}
+              onClick={() => handleModeChange("replace")}
+              data-testid="import-mode-replace"
+            >
+              Sostituisci
+            </Button>
+          </div>
+
+          {report && report.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              <div className="font-semibold mb-1">Il backup non può essere importato:</div>
+              <ul className="list-disc list-inside">
+                {report.errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {report && (
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-1">Collezione</th>
+                    <th className="py-1 text-right">Nuovi</th>
+                    <th className="py-1 text-right">Aggiornati</th>
+                    <th className="py-1 text-right">Invariati</th>
+                    <th className="py-1 text-right">Rimossi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(report.collections).map(([name, c]) => (
+                    <tr key={name} className="border-b last:border-0">
+                      <td className="py-1">{name}</td>
+                      <td className="py-1 text-right">{c.added}</td>
+                      <td className="py-1 text-right">{c.updated}</td>
+                      <td className="py-1 text-right">{c.unchanged}</td>
+                      <td className="py-1 text-right">{c.removed}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-1">allegati PDF</td>
+                    <td className="py-1 text-right">{report.attachments.added}</td>
+                    <td className="py-1 text-right">{report.attachments.conflicts.length}</td>
+                    <td className="py-1 text-right">{report.attachments.unchanged}</td>
+                    <td className="py-1 text-right">-</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closePreview}>Annulla</Button>
+            <Button
+              onClick={handleConfirmImport}
+              disabled={importing || !report || report.errors.length > 0}
+              className="button-g2-primary"
+              data-testid="import-confirm"
+            >
+              {importing ? "Importazione..." : "Conferma import"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -2,6 +2,7 @@
  * Utility functions condivise per calcoli finanziari
  * Usate da: fatture, costi, dashboards
  */
+import type { InvoicePaymentStatus } from "@shared/schema";
 
 // Formattazione valuta in Euro (formato italiano)
 export const formatCurrency = (amount: number): string => {
@@ -48,6 +49,8 @@ interface PayableItem {
   importoTotale?: number;
   pagata?: boolean;
   incassata?: boolean;
+  statoPagamento?: InvoicePaymentStatus; // fatture: pagamenti parziali registrati
+  tipoDocumento?: string; // fatture emesse: TD04 = nota di credito
 }
 
 // Calcolo totali per liste di fatture/costi
@@ -62,12 +65,19 @@ export const calculateTotals = <T extends PayableItem>(
   paidCount: number;
   pendingCount: number;
 } => {
-  const getAmount = (item: T) => item[amountField] || 0;
-  const isPaid = (item: T) => item.pagata || item.incassata || false;
+  // Le note di credito riducono il totale
+  const getAmount = (item: T) => (item.tipoDocumento === 'TD04' ? -1 : 1) * (item[amountField] || 0);
+  const isPaid = (item: T) => item.statoPagamento
+    ? item.statoPagamento.stato === 'saldata'
+    : item.pagata || item.incassata || false;
+  // Con i pagamenti parziali conta l'importo effettivamente pagato
+  const getPaidAmount = (item: T) => item.statoPagamento
+    ? item.statoPagamento.pagato
+    : isPaid(item) ? getAmount(item) : 0;
 
   const total = items.reduce((sum, item) => sum + getAmount(item), 0);
   const paidItems = items.filter(isPaid);
-  const paid = paidItems.reduce((sum, item) => sum + getAmount(item), 0);
+  const paid = items.reduce((sum, item) => sum + getPaidAmount(item), 0);
 
   return {
     total,
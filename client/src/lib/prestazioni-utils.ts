@@ -1,4 +1,4 @@
-import type { ProjectPrestazioni } from "@shared/schema";
+import { type ProjectPrestazioni, projectPrestazioniSchema, CLASSE_DM143_REGEX } from "@shared/schema";
 
 // Configurazione prestazioni professionali
 export const PRESTAZIONI_CONFIG = {
@@ -130,8 +130,7 @@ export function validateClasseDM143(classe?: string): boolean {
   if (!classe) return true; // Opzionale
   
   // Esempi di classi valide: E22, IA03, S05, etc.
-  const pattern = /^[A-Z]{1,2}[0-9]{1,2}$/;
-  return pattern.test(classe);
+  return CLASSE_DM143_REGEX.test(classe);
 }
 
 // Funzione per renderizzare badge prestazioni
@@ -188,41 +187,15 @@ export function calcolaImportoTotale(importoOpere?: number, importoServizio?: nu
   return (importoOpere || 0) + (importoServizio || 0);
 }
 
-// Funzione per validare i dati prestazioni
+// Funzione per validare i dati prestazioni (stesse regole della route
+// PUT /api/projects/:id/prestazioni)
 export function validatePrestazioniData(data: ProjectPrestazioni): {
   isValid: boolean;
   errors: string[];
 } {
-  const errors: string[] = [];
-  
-  // Almeno una prestazione deve essere selezionata
-  if (!data.prestazioni || data.prestazioni.length === 0) {
-    errors.push('Almeno una prestazione deve essere selezionata');
-  }
-  
-  // Se progettazione è selezionata, richiedere livello
-  if (hasProgettazione(data.prestazioni) && (!data.livelloProgettazione || data.livelloProgettazione.length === 0)) {
-    errors.push('Se la progettazione è selezionata, è necessario specificare il livello');
-  }
-  
-  // Validare importi
-  if (data.importoOpere && data.importoOpere < 0) {
-    errors.push('L\'importo opere deve essere maggiore o uguale a 0');
-  }
-  
-  if (data.importoServizio && data.importoServizio < 0) {
-    errors.push('L\'importo servizio deve essere maggiore o uguale a 0');
-  }
-  
-  if (data.percentualeParcella && (data.percentualeParcella < 0 || data.percentualeParcella > 100)) {
-    errors.push('La percentuale parcella deve essere tra 0 e 100');
-  }
-  
-  // Validare classe DM 143
-  if (data.classeDM143 && !validateClasseDM143(data.classeDM143)) {
-    errors.push('Formato classe DM 143/2013 non valido (es: E22, IA03, S05)');
-  }
-  
+  const result = projectPrestazioniSchema.safeParse(data);
+  const errors = result.success ? [] : result.error.issues.map(issue => issue.message);
+
   return {
     isValid: errors.length === 0,
     errors
@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// Messaggio leggibile da un errore di apiRequest ("400: {error, details}")
+export function errorDescription(error: Error, fallback: string): string {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    const details = body.details ? Object.values(body.details).flat().join("; ") : "";
+    return details || body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
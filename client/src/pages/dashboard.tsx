@@ -10,6 +10,7 @@ import NewProjectForm from "@/components/projects/new-project-form";
 import ProjectsTable from "@/components/projects/projects-table";
 import ClientsTable from "@/components/projects/clients-table";
 import ParcellaCalculator from "@/components/projects/parcella-calculator-new";
+import Preventivi from "@/components/projects/preventivi";
 import Scadenzario from "@/components/projects/scadenzario";
 import RegistroComunicazioni from "@/components/projects/registro-comunicazioni";
 import GestioneRisorse from "@/components/projects/gestione-risorse";
@@ -22,10 +23,16 @@ import {
 import CostiVivi from "@/components/projects/costi-vivi";
 import CostiGenerali from "@/components/projects/costi-generali";
 import CentroCostoDashboard from "@/components/projects/centro-costo-dashboard";
+import Solleciti from "@/components/projects/solleciti";
+import AgingReport from "@/components/projects/aging-report";
+import RiconciliazioneBancaria from "@/components/projects/riconciliazione-bancaria";
+import PrevisioneCassa from "@/components/projects/previsione-cassa";
 import StoragePanel from "@/components/system/storage-panel";
 import UsersManagement from "@/components/system/users-management";
 import ProfiliCostoManagement from "@/components/system/profili-costo-management";
 import ActivityLogViewer from "@/components/system/activity-log-viewer";
+import FirmSettingsPanel from "@/components/system/firm-settings-panel";
+import NumerazionePanel from "@/components/system/numerazione-panel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { type Project } from "@shared/schema";
 import { User } from "@/hooks/useAuth";
@@ -80,11 +87,13 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                 {/* First Row - Economic Dashboard */}
                 <EconomicDashboardCard />
 
-                {/* Widget Fatture in Scadenza */}
-                <div className="grid gap-6 lg:grid-cols-2">
-                  <FattureScadenzaWidget />
-                  <CashFlowDashboard isAdmin={isAdmin} />
-                </div>
+                {/* Widget Fatture in Scadenza (solo ADMIN: importi delle fatture emesse) */}
+                {isAdmin && (
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    <FattureScadenzaWidget />
+                    <CashFlowDashboard isAdmin={isAdmin} />
+                  </div>
+                )}
 
                 {/* Second Row - Recent Projects */}
                 <RecentProjectsTable />
@@ -114,7 +123,7 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                   </div>
 
                   <TabsContent value="lista" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
-                    <ProjectsTable />
+                    <ProjectsTable user={user} />
                   </TabsContent>
 
                   {isAdmin && (
@@ -143,6 +152,18 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                       <TabsTrigger value="fatture-consulenti" className={tabTriggerClass} data-testid="tab-fatture-consulenti">
                         Fatture Consulenti
                       </TabsTrigger>
+                      <TabsTrigger value="solleciti" className={tabTriggerClass} data-testid="tab-solleciti">
+                        Solleciti
+                      </TabsTrigger>
+                      <TabsTrigger value="aging" className={tabTriggerClass} data-testid="tab-aging">
+                        Crediti/Debiti
+                      </TabsTrigger>
+                      <TabsTrigger value="previsione" className={tabTriggerClass} data-testid="tab-previsione">
+                        Previsione
+                      </TabsTrigger>
+                      <TabsTrigger value="banca" className={tabTriggerClass} data-testid="tab-banca">
+                        Banca
+                      </TabsTrigger>
                       <TabsTrigger value="costi-generali" className={tabTriggerClass} data-testid="tab-costi-generali">
                         Costi Generali
                       </TabsTrigger>
@@ -167,6 +188,22 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                     <FattureConsulentiManager />
                   </TabsContent>
 
+                  <TabsContent value="solleciti" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                    <Solleciti />
+                  </TabsContent>
+
+                  <TabsContent value="aging" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                    <AgingReport />
+                  </TabsContent>
+
+                  <TabsContent value="previsione" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                    <PrevisioneCassa />
+                  </TabsContent>
+
+                  <TabsContent value="banca" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                    <RiconciliazioneBancaria />
+                  </TabsContent>
+
                   <TabsContent value="costi-generali" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
                     <CostiGenerali />
                   </TabsContent>
@@ -236,6 +273,9 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                       <TabsTrigger value="parcella" className={tabTriggerClass} data-testid="tab-parcella">
                         Calcolo Parcella
                       </TabsTrigger>
+                      <TabsTrigger value="preventivi" className={tabTriggerClass} data-testid="tab-preventivi">
+                        Preventivi
+                      </TabsTrigger>
                     </TabsList>
                   </div>
 
@@ -246,6 +286,10 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                   <TabsContent value="parcella" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
                     <ParcellaCalculator />
                   </TabsContent>
+
+                  <TabsContent value="preventivi" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                    <Preventivi />
+                  </TabsContent>
                 </Tabs>
               </div>
             )}
@@ -269,6 +313,16 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                           Profili Costo
                         </TabsTrigger>
                       )}
+                      {isAdmin && (
+                        <TabsTrigger value="dati-studio" className={tabTriggerClass} data-testid="tab-dati-studio">
+                          Dati Studio
+                        </TabsTrigger>
+                      )}
+                      {isAdmin && (
+                        <TabsTrigger value="numerazione" className={tabTriggerClass} data-testid="tab-numerazione">
+                          Numerazione
+                        </TabsTrigger>
+                      )}
                       <TabsTrigger value="activity-log" className={tabTriggerClass} data-testid="tab-activity-log">
                         Log Attività
                       </TabsTrigger>
@@ -291,6 +345,18 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                     </TabsContent>
                   )}
 
+                  {isAdmin && (
+                    <TabsContent value="dati-studio" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                      <FirmSettingsPanel />
+                    </TabsContent>
+                  )}
+
+                  {isAdmin && (
+                    <TabsContent value="numerazione" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
+                      <NumerazionePanel />
+                    </TabsContent>
+                  )}
+
                   <TabsContent value="activity-log" className="bg-white rounded-b-2xl shadow-lg border border-t-0 border-gray-100 p-6 mt-0">
                     <ActivityLogViewer userId={isAdmin ? undefined : user?.id} showAll={isAdmin} />
                   </TabsContent>
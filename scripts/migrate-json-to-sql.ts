@@ -0,0 +1,55 @@
+// Migrazione una tantum: carica ogni file JSON di data/ nella tabella `records`
+// del database PostgreSQL (STORAGE_BACKEND=postgres).
+//
+// Uso: DATABASE_URL=postgresql://... npm run db:migrate-json [-- --dry-run]
+//
+// Ogni collezione viene sostituita interamente dal contenuto del relativo file,
+// quindi lo script può essere rilanciato senza creare duplicati.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SQLStorage } from '../server/sql-storage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', 'data');
+const dryRun = process.argv.includes('--dry-run');
+
+async function migrate() {
+  const files = (await fs.readdir(DATA_DIR)).filter(f => f.endsWith('.json')).sort();
+  let totale = 0;
+
+  for (const file of files) {
+    const collection = path.basename(file, '.json');
+    const content = await fs.readFile(path.join(DATA_DIR, file), 'utf-8');
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      console.error(`❌ ${file}: JSON non valido, saltato`);
+      continue;
+    }
+
+    if (!Array.isArray(data) || data.some(item => typeof item?.id !== 'string')) {
+      console.warn(`⚠️ ${file}: non è un array di record con id, saltato`);
+      continue;
+    }
+
+    if (!dryRun) {
+      await new SQLStorage<{ id: string }>(collection).writeAll(data);
+    }
+    totale += data.length;
+    console.log(`✅ ${collection}: ${data.length} record${dryRun ? ' (dry-run)' : ''}`);
+  }
+
+  console.log(`📦 Migrazione completata: ${totale} record da ${files.length} file`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Migrazione fallita:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { AgingReport, AgingSezione } from '@shared/schema';
+import { agingCsv, fasciaAging } from './aging';
+
+const fasce = { a_scadere: 0, '0_30': 0, '31_60': 0, '61_90': 0, oltre_90: 0 };
+
+function sezione(nome: string, descrizione: string, residuo: number): AgingSezione {
+  return {
+    totale: residuo,
+    fasce: { ...fasce, '0_30': residuo },
+    controparti: [{
+      nome,
+      totale: residuo,
+      fasce: { ...fasce, '0_30': residuo },
+      documenti: [{
+        id: 'f1',
+        tipo: 'emessa',
+        numero: '12/2026',
+        descrizione,
+        dataDocumento: '2026-09-01T00:00:00.000Z',
+        dataScadenza: '2026-09-30',
+        giorniScaduto: 19,
+        fascia: '0_30',
+        residuo,
+      }],
+    }],
+  };
+}
+
+const vuota: AgingSezione = { totale: 0, fasce, controparti: [] };
+
+describe('fasciaAging', () => {
+  it('assegna le fasce per giorni di ritardo', () => {
+    expect(fasciaAging(-1)).toBe('a_scadere');
+    expect(fasciaAging(0)).toBe('0_30');
+    expect(fasciaAging(31)).toBe('31_60');
+    expect(fasciaAging(90)).toBe('61_90');
+    expect(fasciaAging(91)).toBe('oltre_90');
+  });
+});
+
+describe('agingCsv', () => {
+  it('usa ";" e la virgola decimale, con BOM e righe CRLF', () => {
+    const report: AgingReport = { dataRiferimento: '2026-10-19', crediti: sezione('Rossi', 'Progetto; fase 1', 1220.5), debiti: vuota };
+    const csv = agingCsv(report);
+
+    expect(csv.startsWith('﻿Sezione;Controparte;')).toBe(true);
+    expect(csv.split('\r\n')[1]).toBe(
+      'Crediti;Rossi;Fattura emessa;12/2026;"Progetto; fase 1";2026-09-01;2026-09-30;19;0-30 gg;1220,5;'
+    );
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+39 011', '-2+3', '@SUM(A1)'])(
+    'neutralizza il testo che inizia come una formula: %s',
+    testo => {
+      const report: AgingReport = { dataRiferimento: '2026-10-19', crediti: sezione(testo, testo, 100), debiti: vuota };
+      const [, controparte, , , descrizione] = agingCsv(report).split('\r\n')[1].split(';');
+      const atteso = /[";]/.test(testo) ? `"'${testo.replace(/"/g, '""')}"` : `'${testo}`;
+      expect(controparte).toBe(atteso);
+      expect(descrizione).toBe(atteso);
+    }
+  );
+
+  it('lascia invariati gli importi negativi (numeri, non testo)', () => {
+    const report: AgingReport = { dataRiferimento: '2026-10-19', crediti: sezione('Rossi', 'Nota', -50), debiti: vuota };
+    expect(agingCsv(report).split('\r\n')[1]).toContain(';-50;');
+  });
+});
@@ -0,0 +1,219 @@
+import type {
+  AgingControparte,
+  AgingDocumento,
+  AgingFascia,
+  AgingReport,
+  AgingSezione,
+  AgingTotali
+} from '@shared/schema';
+import { AGING_FASCE } from '@shared/schema';
+import { costiGeneraliStorage, fattureConsulentiStorage, fattureEmesseStorage, fattureIngressoStorage } from './storage.js';
+import { isNotaCredito, withPaymentStatus } from './payments.js';
+import { giorniRitardo } from './solleciti.js';
+import type { XlsxCell, XlsxSheet } from './xlsx.js';
+
+// ============================================================================
+// Scadenzario crediti / debiti per fasce di anzianità
+// ============================================================================
+// Documenti aperti (residuo > 0) alla data di riferimento, raggruppati per
+// cliente o fornitore. Le fatture ingresso sono in centesimi: qui tutto in euro.
+
+export const FASCIA_LABELS: Record<AgingFascia, string> = {
+  a_scadere: 'A scadere',
+  '0_30': '0-30 gg',
+  '31_60': '31-60 gg',
+  '61_90': '61-90 gg',
+  oltre_90: 'Oltre 90 gg',
+};
+
+const TIPO_LABELS: Record<AgingDocumento['tipo'], string> = {
+  emessa: 'Fattura emessa',
+  ingresso: 'Fattura ingresso',
+  consulente: 'Fattura consulente',
+  costo_generale: 'Costo generale',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function fasciaAging(giorniScaduto: number): AgingFascia {
+  if (giorniScaduto < 0) return 'a_scadere';
+  if (giorniScaduto <= 30) return '0_30';
+  if (giorniScaduto <= 60) return '31_60';
+  if (giorniScaduto <= 90) return '61_90';
+  return 'oltre_90';
+}
+
+const totaliVuoti = (): AgingTotali =>
+  Object.fromEntries(AGING_FASCE.map(f => [f, 0])) as AgingTotali;
+
+export type DocumentoAperto = Omit<AgingDocumento, 'giorniScaduto' | 'fascia'> & { controparte: string };
+
+function sezione(documenti: DocumentoAperto[], riferimento: Date): AgingSezione {
+  const perControparte = new Map<string, AgingControparte>();
+  const fasce = totaliVuoti();
+
+  for (const { controparte, ...documento } of documenti) {
+    const giorniScaduto = giorniRitardo(documento.dataScadenza, riferimento);
+    const doc: AgingDocumento = { ...documento, giorniScaduto, fascia: fasciaAging(giorniScaduto) };
+    const nome = controparte.trim() || 'Non indicato';
+    const gruppo = perControparte.get(nome.toUpperCase())
+      ?? { nome, totale: 0, fasce: totaliVuoti(), documenti: [] };
+
+    gruppo.documenti.push(doc);
+    gruppo.totale = round2(gruppo.totale + doc.residuo);
+    gruppo.fasce[doc.fascia] = round2(gruppo.fasce[doc.fascia] + doc.residuo);
+    fasce[doc.fascia] = round2(fasce[doc.fascia] + doc.residuo);
+    perControparte.set(nome.toUpperCase(), gruppo);
+  }
+
+  const controparti = Array.from(perControparte.values())
+    .map(c => ({ ...c, documenti: c.documenti.sort((a, b) => b.giorniScaduto - a.giorniScaduto) }))
+    .sort((a, b) => b.totale - a.totale);
+
+  return {
+    totale: round2(controparti.reduce((sum, c) => sum + c.totale, 0)),
+    fasce,
+    controparti,
+  };
+}
+
+// Documenti con residuo da incassare (crediti) o da pagare (debiti)
+export async function documentiAperti(): Promise<{ crediti: DocumentoAperto[]; debiti: DocumentoAperto[] }> {
+  const emesse = await withPaymentStatus('emesse', await fattureEmesseStorage.readAll());
+  const crediti: DocumentoAperto[] = emesse
+    .filter(f => !isNotaCredito(f) && (f.statoPagamento?.residuo ?? 0) > 0)
+    .map(f => ({
+      id: f.id,
+      tipo: 'emessa',
+      controparte: f.cliente,
+      numero: f.numeroFattura,
+      descrizione: f.descrizione,
+      projectId: f.projectId,
+      dataDocumento: f.dataEmissione,
+      dataScadenza: f.dataScadenzaPagamento,
+      residuo: f.statoPagamento!.residuo,
+      inContenzioso: f.inContenzioso || undefined,
+    }));
+
+  const ingresso = await withPaymentStatus('ingresso', await fattureIngressoStorage.readAll());
+  const consulenti = await withPaymentStatus('consulenti', await fattureConsulentiStorage.readAll());
+  const costiGenerali = await costiGeneraliStorage.readAll();
+  const debiti: DocumentoAperto[] = [
+    ...ingresso
+      .filter(f => (f.statoPagamento?.residuo ?? 0) > 0)
+      .map(f => ({
+        id: f.id,
+        tipo: 'ingresso' as const,
+        controparte: f.fornitore,
+        numero: f.numeroFattura,
+        descrizione: f.descrizione,
+        projectId: f.projectId,
+        dataDocumento: f.dataEmissione,
+        dataScadenza: f.dataScadenzaPagamento,
+        residuo: round2(f.statoPagamento!.residuo / 100),
+      })),
+    ...consulenti
+      .filter(f => (f.statoPagamento?.residuo ?? 0) > 0)
+      .map(f => ({
+        id: f.id,
+        tipo: 'consulente' as const,
+        controparte: f.consulente,
+        numero: f.numeroFattura,
+        descrizione: f.descrizione,
+        projectId: f.projectId,
+        dataDocumento: f.dataEmissione,
+        dataScadenza: f.dataScadenzaPagamento,
+        residuo: f.statoPagamento!.residuo,
+      })),
+    // Costi generali senza scadenza: scadono alla data del documento
+    ...costiGenerali
+      .filter(c => !c.pagato)
+      .map(c => ({
+        id: c.id,
+        tipo: 'costo_generale' as const,
+        controparte: c.fornitore,
+        numero: '',
+        descrizione: c.descrizione,
+        dataDocumento: c.data,
+        dataScadenza: c.dataScadenza || c.data,
+        residuo: c.importo,
+      })),
+  ];
+
+  return { crediti, debiti };
+}
+
+export async function buildAgingReport(dataRiferimento: string): Promise<AgingReport> {
+  const riferimento = new Date(dataRiferimento);
+  const { crediti, debiti } = await documentiAperti();
+  return {
+    dataRiferimento,
+    crediti: sezione(crediti, riferimento),
+    debiti: sezione(debiti, riferimento),
+  };
+}
+
+// ============================================================================
+// Esportazione CSV / XLSX
+// ============================================================================
+const INTESTAZIONE_DOCUMENTI = [
+  'Sezione', 'Controparte', 'Tipo', 'Numero', 'Descrizione', 'Data documento',
+  'Scadenza', 'Giorni scaduto', 'Fascia', 'Residuo', 'Contenzioso'
+];
+
+function righeDocumenti(nomeSezione: string, dati: AgingSezione): XlsxCell[][] {
+  return dati.controparti.flatMap(c => c.documenti.map(d => [
+    nomeSezione,
+    c.nome,
+    TIPO_LABELS[d.tipo],
+    d.numero,
+    d.descrizione,
+    d.dataDocumento.slice(0, 10),
+    d.dataScadenza.slice(0, 10),
+    d.giorniScaduto,
+    FASCIA_LABELS[d.fascia],
+    d.residuo,
+    d.inContenzioso ? 'Sì' : '',
+  ]));
+}
+
+function righeRiepilogo(nomeSezione: string, dati: AgingSezione): XlsxCell[][] {
+  return [
+    ...dati.controparti.map(c => [nomeSezione, c.nome, ...AGING_FASCE.map(f => c.fasce[f]), c.totale]),
+    [nomeSezione, 'Totale', ...AGING_FASCE.map(f => dati.fasce[f]), dati.totale],
+  ];
+}
+
+// Separatore ";" e virgola decimale per l'apertura diretta in Excel italiano.
+// Il testo che Excel leggerebbe come formula (descrizioni e controparti
+// inserite dagli utenti che iniziano con = + - @) è preceduto da un apice.
+export function agingCsv(report: AgingReport): string {
+  const cella = (value: XlsxCell) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value).replace('.', ',');
+    const testo = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[";\n\r]/.test(testo) ? `"${testo.replace(/"/g, '""')}"` : testo;
+  };
+  const righe = [
+    INTESTAZIONE_DOCUMENTI,
+    ...righeDocumenti('Crediti', report.crediti),
+    ...righeDocumenti('Debiti', report.debiti),
+  ];
+  // BOM per il riconoscimento della codifica UTF-8
+  return '\uFEFF' + righe.map(r => r.map(cella).join(';')).join('\r\n') + '\r\n';
+}
+
+export function agingSheets(report: AgingReport): XlsxSheet[] {
+  return [
+    {
+      name: 'Riepilogo',
+      rows: [
+        ['Sezione', 'Controparte', ...AGING_FASCE.map(f => FASCIA_LABELS[f]), 'Totale'],
+        ...righeRiepilogo('Crediti', report.crediti),
+        ...righeRiepilogo('Debiti', report.debiti),
+      ],
+    },
+    { name: 'Crediti', rows: [INTESTAZIONE_DOCUMENTI, ...righeDocumenti('Crediti', report.crediti)] },
+    { name: 'Debiti', rows: [INTESTAZIONE_DOCUMENTI, ...righeDocumenti('Debiti', report.debiti)] },
+  ];
+}
@@ -0,0 +1,98 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import session from 'express-session';
+import type { Request, Response, NextFunction } from 'express';
+import type { UserWithPassword, User } from '@shared/schema';
+import { usersStorage } from './storage.js';
+import { PersistentSessionStore } from './session-store.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Formato hash salvato in users.json: scrypt$<salt hex>$<hash hex>
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+
+declare module 'express-session' {
+  interface SessionData {
+    userId?: string;
+  }
+}
+
+// ============================================================================
+// Password hashing
+// ============================================================================
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+// Verifica la password; le password legacy in chiaro vengono confrontate
+// direttamente (needsRehash = true) per permetterne la migrazione al login
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    const valid = a.length === b.length && timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, saltHex, hashHex] = stored.split('$');
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return { valid: timingSafeEqual(actual, expected), needsRehash: false };
+}
+
+export function toPublicUser(user: UserWithPassword): User {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// ============================================================================
+// Session middleware
+// ============================================================================
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('⚠️ SESSION_SECRET non impostato: le sessioni non sopravviveranno al riavvio');
+  }
+  return randomBytes(32).toString('hex');
+}
+
+export const sessionMiddleware = session({
+  name: 'g2.sid',
+  secret: getSessionSecret(),
+  store: new PersistentSessionStore(),
+  resave: false,
+  saveUninitialized: false,
+  rolling: true,
+  cookie: {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production' && process.env.SESSION_COOKIE_SECURE !== 'false',
+    maxAge: 8 * 60 * 60 * 1000 // 8 ore
+  }
+});
+
+// Protegge tutte le API tranne login/status/logout e carica l'utente
+// corrente in req.currentUser (usato dai controlli di autorizzazione)
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.session.userId ? await usersStorage.findById(req.session.userId) : undefined;
+    if (!user || !user.active) {
+      delete req.session.userId;
+      return res.status(401).json({ error: 'Non autenticato' });
+    }
+    req.currentUser = toPublicUser(user);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
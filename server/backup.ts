@@ -0,0 +1,413 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import {
+  insertProjectSchema,
+  insertClientSchema,
+  insertFatturaIngressoSchema,
+  insertCostoVivoSchema,
+  insertPrestazioneSchema,
+  insertUserSchema,
+  insertDeadlineSchema,
+  insertCommunicationSchema,
+  insertTagSchema,
+  insertProjectResourceSchema,
+  insertActivityLogSchema,
+  insertProfiloCostoSchema,
+  insertFatturaEmessaSchema,
+  insertFatturaConsulenteSchema,
+  insertCostoGeneraleSchema,
+  firmSettingsSchema,
+  insertPagamentoFatturaSchema,
+  insertSerieNumerazioneSchema,
+  impostazioniSollecitiSchema,
+  insertSollecitoSchema,
+  TIPI_FATTURA_PAGAMENTO,
+  STATI_MOVIMENTO,
+  impostazioniPrevisioneSchema,
+  insertSerieCostoGeneraleSchema,
+  impostazioniRipartizioneSchema,
+  insertRevisionePreventivoSchema,
+  parcellaCalcolataSchema,
+  STATI_PREVENTIVO,
+  modelloOffertaSchema
+} from '@shared/schema';
+import {
+  type DataStorage,
+  projectsStorage,
+  clientsStorage,
+  fattureIngressoStorage,
+  costiViviStorage,
+  prestazioniStorage,
+  usersStorage,
+  deadlinesStorage,
+  communicationsStorage,
+  tagsStorage,
+  projectTagsStorage,
+  fileRoutingsStorage,
+  projectResourcesStorage,
+  activityLogsStorage,
+  profiliCostoStorage,
+  fattureEmesseStorage,
+  fattureConsulentiStorage,
+  costiGeneraliStorage,
+  firmSettingsStorage,
+  pagamentiFattureStorage,
+  serieNumerazioneStorage,
+  impostazioniSollecitiStorage,
+  sollecitiStorage,
+  movimentiBancariStorage,
+  impostazioniPrevisioneStorage,
+  serieCostiGeneraliStorage,
+  impostazioniRipartizioneStorage,
+  preventiviStorage,
+  modelloOffertaStorage
+} from './storage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const UPLOADS_PDF_DIR = path.join(__dirname, '..', 'uploads', 'pdf');
+
+export const BACKUP_FORMAT = 'g2-backup';
+export const BACKUP_VERSION = 1;
+
+// Dimensione massima dell'archivio accettato da POST /api/import
+export const BACKUP_MAX_SIZE = '100mb';
+
+// ============================================================================
+// Collezioni incluse nel backup
+// ============================================================================
+// Ogni record viene validato con lo schema insert + id; i campi extra
+// (createdAt, updatedAt, ...) sono mantenuti.
+type AnyStorage = DataStorage<{ id: string }>;
+
+interface BackupCollection {
+  storage: AnyStorage;
+  schema: z.ZodTypeAny;
+}
+
+const withId = <T extends z.AnyZodObject>(schema: T) =>
+  schema.extend({ id: z.string().min(1) }).passthrough();
+
+export const BACKUP_COLLECTIONS: Record<string, BackupCollection> = {
+  'projects': { storage: projectsStorage, schema: withId(insertProjectSchema) },
+  'clients': { storage: clientsStorage, schema: withId(insertClientSchema) },
+  'fatture-ingresso': { storage: fattureIngressoStorage, schema: withId(insertFatturaIngressoSchema) },
+  'costi-vivi': { storage: costiViviStorage, schema: withId(insertCostoVivoSchema) },
+  'prestazioni': { storage: prestazioniStorage, schema: withId(insertPrestazioneSchema) },
+  // Ruoli legacy ("amministratore", "collaboratore") ancora presenti in users.json
+  'users': {
+    storage: usersStorage,
+    schema: withId(insertUserSchema.extend({
+      role: z.enum(['admin', 'operativo', 'amministratore', 'collaboratore'])
+    }))
+  },
+  'deadlines': { storage: deadlinesStorage, schema: withId(insertDeadlineSchema) },
+  'communications': { storage: communicationsStorage, schema: withId(insertCommunicationSchema) },
+  'tags': { storage: tagsStorage, schema: withId(insertTagSchema) },
+  'project-tags': {
+    storage: projectTagsStorage,
+    schema: withId(z.object({ projectId: z.string().min(1), tagId: z.string().min(1) }))
+  },
+  // I routing salvati dal vecchio client non seguono insertFileRoutingSchema
+  'file-routings': {
+    storage: fileRoutingsStorage,
+    schema: withId(z.object({ projectId: z.string().min(1), fileName: z.string().min(1) }))
+  },
+  'project-resources': { storage: projectResourcesStorage, schema: withId(insertProjectResourceSchema) },
+  'activity-logs': { storage: activityLogsStorage, schema: withId(insertActivityLogSchema) },
+  'profili-costo': { storage: profiliCostoStorage, schema: withId(insertProfiloCostoSchema) },
+  'fatture-emesse': { storage: fattureEmesseStorage, schema: withId(insertFatturaEmessaSchema) },
+  'fatture-consulenti': { storage: fattureConsulentiStorage, schema: withId(insertFatturaConsulenteSchema) },
+  'costi-generali': { storage: costiGeneraliStorage, schema: withId(insertCostoGeneraleSchema) },
+  'serie-costi-generali': {
+    storage: serieCostiGeneraliStorage,
+    schema: withId(insertSerieCostoGeneraleSchema.innerType().extend({
+      occorrenzeEscluse: z.array(z.string())
+    }))
+  },
+  'firm-settings': { storage: firmSettingsStorage, schema: withId(firmSettingsSchema) },
+  'pagamenti-fatture': {
+    storage: pagamentiFattureStorage,
+    schema: withId(insertPagamentoFatturaSchema.extend({
+      fatturaTipo: z.enum(TIPI_FATTURA_PAGAMENTO),
+      fatturaId: z.string().min(1)
+    }))
+  },
+  'serie-numerazione': { storage: serieNumerazioneStorage, schema: withId(insertSerieNumerazioneSchema) },
+  'impostazioni-solleciti': { storage: impostazioniSollecitiStorage, schema: withId(impostazioniSollecitiSchema) },
+  'solleciti': {
+    storage: sollecitiStorage,
+    schema: withId(insertSollecitoSchema.extend({
+      fatturaId: z.string().min(1),
+      projectId: z.string().min(1)
+    }))
+  },
+  'movimenti-bancari': {
+    storage: movimentiBancariStorage,
+    schema: withId(z.object({
+      data: z.string().min(1),
+      importo: z.number(),
+      descrizione: z.string(),
+      hash: z.string().min(1),
+      stato: z.enum(STATI_MOVIMENTO),
+      abbinamenti: z.array(z.object({ documentoId: z.string().min(1) }).passthrough())
+    }))
+  },
+  'impostazioni-previsione': { storage: impostazioniPrevisioneStorage, schema: withId(impostazioniPrevisioneSchema) },
+  'impostazioni-ripartizione': { storage: impostazioniRipartizioneStorage, schema: withId(impostazioniRipartizioneSchema.innerType()) },
+  'preventivi': {
+    storage: preventiviStorage,
+    schema: withId(z.object({
+      numero: z.string().min(1),
+      clientId: z.string().min(1),
+      oggetto: z.string().min(1),
+      stato: z.enum(STATI_PREVENTIVO),
+      revisioni: z.array(insertRevisionePreventivoSchema.extend({ parcella: parcellaCalcolataSchema }).passthrough()).min(1)
+    }))
+  },
+  'modello-offerta': { storage: modelloOffertaStorage, schema: withId(modelloOffertaSchema) },
+};
+
+// ============================================================================
+// Archive format
+// ============================================================================
+export const backupArchiveSchema = z.object({
+  manifest: z.object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.number().int(),
+    createdAt: z.string(),
+    collections: z.record(z.object({
+      count: z.number().int().min(0),
+      sha256: z.string(),
+    })),
+    attachments: z.array(z.object({
+      name: z.string(),
+      size: z.number().int().min(0),
+      sha256: z.string(),
+    })),
+  }),
+  collections: z.record(z.array(z.object({ id: z.string() }).passthrough())),
+  attachments: z.array(z.object({
+    name: z.string(),
+    data: z.string(), // base64
+  })),
+});
+
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface CollectionImportReport {
+  total: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  conflicts: string[]; // id presenti sia nel backup che nei dati correnti, con contenuto diverso
+  invalid: Array<{ id?: string; index: number; errors: Record<string, string[]> }>;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  errors: string[];
+  collections: Record<string, CollectionImportReport>;
+  attachments: { total: number; added: number; unchanged: number; conflicts: string[] };
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+// I dati legacy usano null per i campi opzionali non compilati
+const withoutNulls = (record: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null));
+
+// Solo nomi file semplici: niente path traversal fuori da uploads/pdf
+const isSafeAttachmentName = (name: string) =>
+  name === path.basename(name) && name !== '.' && name !== '..' && !name.startsWith('.');
+
+async function listAttachments(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(UPLOADS_PDF_DIR, { withFileTypes: true });
+    return entries.filter(e => e.isFile()).map(e => e.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+export async function createBackup(): Promise<BackupArchive> {
+  const collections: BackupArchive['collections'] = {};
+  const manifestCollections: BackupArchive['manifest']['collections'] = {};
+
+  for (const [name, { storage }] of Object.entries(BACKUP_COLLECTIONS)) {
+    const records = await storage.readAll();
+    collections[name] = records;
+    manifestCollections[name] = { count: records.length, sha256: sha256(JSON.stringify(records)) };
+  }
+
+  const attachments: BackupArchive['attachments'] = [];
+  const manifestAttachments: BackupArchive['manifest']['attachments'] = [];
+  for (const name of await listAttachments()) {
+    const content = await fs.readFile(path.join(UPLOADS_PDF_DIR, name));
+    attachments.push({ name, data: content.toString('base64') });
+    manifestAttachments.push({ name, size: content.length, sha256: sha256(content) });
+  }
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      collections: manifestCollections,
+      attachments: manifestAttachments,
+    },
+    collections,
+    attachments,
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+// Valida l'intero archivio prima di scrivere: con errori (checksum, schema)
+// non viene applicato nulla. In dry-run restituisce solo l'anteprima.
+export async function restoreBackup(
+  input: unknown,
+  options: { mode: ImportMode; dryRun: boolean }
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    mode: options.mode,
+    dryRun: options.dryRun,
+    applied: false,
+    errors: [],
+    collections: {},
+    attachments: { total: 0, added: 0, unchanged: 0, conflicts: [] },
+  };
+
+  const parsed = backupArchiveSchema.safeParse(input);
+  if (!parsed.success) {
+    report.errors.push('Archivio non valido: formato di backup non riconosciuto');
+    return report;
+  }
+  const archive = parsed.data;
+  // Si lavora sui record originali: il parse zod riordina le chiavi e
+  // altererebbe checksum e confronti
+  const rawCollections = (input as { collections: Record<string, unknown[]> }).collections;
+
+  if (archive.manifest.version > BACKUP_VERSION) {
+    report.errors.push(`Versione backup ${archive.manifest.version} non supportata (massima ${BACKUP_VERSION})`);
+    return report;
+  }
+
+  // Collezioni: checksum, validazione schema, confronto con i dati correnti
+  const planned: Array<[AnyStorage, Array<{ id: string }>]> = [];
+  for (const name of Object.keys(archive.collections)) {
+    const records = rawCollections[name] as Array<{ id: string }>;
+    const collection = BACKUP_COLLECTIONS[name];
+    if (!collection) {
+      report.errors.push(`Collezione sconosciuta: ${name}`);
+      continue;
+    }
+
+    const expected = archive.manifest.collections[name];
+    if (!expected || expected.sha256 !== sha256(JSON.stringify(records)) || expected.count !== records.length) {
+      report.errors.push(`Checksum non valido per la collezione ${name}`);
+    }
+
+    const collectionReport: CollectionImportReport = {
+      total: records.length, added: 0, updated: 0, unchanged: 0, removed: 0, conflicts: [], invalid: [],
+    };
+    report.collections[name] = collectionReport;
+
+    records.forEach((record, index) => {
+      const result = collection.schema.safeParse(withoutNulls(record));
+      if (!result.success) {
+        collectionReport.invalid.push({
+          id: record.id,
+          index,
+          errors: result.error.flatten().fieldErrors as Record<string, string[]>,
+        });
+      }
+    });
+    if (collectionReport.invalid.length > 0) {
+      report.errors.push(`${collectionReport.invalid.length} record non validi nella collezione ${name}`);
+    }
+
+    const current = await collection.storage.readAll();
+    const currentById = new Map(current.map(r => [r.id, r]));
+    const incomingById = new Map(records.map(r => [r.id, r]));
+
+    for (const record of records) {
+      const existing = currentById.get(record.id);
+      if (!existing) {
+        collectionReport.added++;
+      } else if (JSON.stringify(existing) === JSON.stringify(record)) {
+        collectionReport.unchanged++;
+      } else {
+        collectionReport.updated++;
+        collectionReport.conflicts.push(record.id);
+      }
+    }
+
+    let result: Array<{ id: string }>;
+    if (options.mode === 'replace') {
+      collectionReport.removed = current.filter(r => !incomingById.has(r.id)).length;
+      result = records;
+    } else {
+      // merge: i record del backup sostituiscono quelli con lo stesso id
+      result = current.map(r => incomingById.get(r.id) ?? r);
+      result.push(...records.filter(r => !currentById.has(r.id)));
+    }
+    planned.push([collection.storage, result]);
+  }
+
+  // Allegati: checksum e confronto con i file presenti
+  const manifestAttachments = new Map(archive.manifest.attachments.map(a => [a.name, a]));
+  const plannedAttachments: Array<[string, Buffer]> = [];
+  report.attachments.total = archive.attachments.length;
+  for (const attachment of archive.attachments) {
+    if (!isSafeAttachmentName(attachment.name)) {
+      report.errors.push(`Nome allegato non valido: ${attachment.name}`);
+      continue;
+    }
+    const content = Buffer.from(attachment.data, 'base64');
+    const expected = manifestAttachments.get(attachment.name);
+    if (!expected || expected.sha256 !== sha256(content) || expected.size !== content.length) {
+      report.errors.push(`Checksum non valido per l'allegato ${attachment.name}`);
+      continue;
+    }
+
+    const target = path.join(UPLOADS_PDF_DIR, attachment.name);
+    const existing = await fs.readFile(target).catch(() => null);
+    if (!existing) {
+      report.attachments.added++;
+      plannedAttachments.push([target, content]);
+    } else if (sha256(existing) === expected.sha256) {
+      report.attachments.unchanged++;
+    } else {
+      report.attachments.conflicts.push(attachment.name);
+      plannedAttachments.push([target, content]);
+    }
+  }
+
+  if (options.dryRun || report.errors.length > 0) {
+    return report;
+  }
+
+  await fs.mkdir(UPLOADS_PDF_DIR, { recursive: true });
+  for (const [target, content] of plannedAttachments) {
+    await fs.writeFile(target, content);
+  }
+  for (const [storage, records] of planned) {
+    await storage.writeAll(records);
+  }
+  report.applied = true;
+  return report;
+}
@@ -0,0 +1,74 @@
+import type { Project, ProjectBilling, FatturaEmessa } from '@shared/schema';
+import { fattureEmesseStorage } from './storage.js';
+import { isNotaCredito, withPaymentStatus } from './payments.js';
+
+// ============================================================================
+// Stato di fatturazione delle commesse
+// ============================================================================
+// Calcolato dalle fatture emesse collegate alla commessa (importi imponibili,
+// confrontati con metadata.importoServizio), al netto delle note di credito.
+// L'incassato conta anche i pagamenti parziali (statoPagamento).
+// Un override manuale, se presente, sostituisce fatturato/incassato ed è
+// segnalato con source = 'override'.
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const latest = (dates: Array<string | undefined | null>) =>
+  dates.filter((d): d is string => !!d).sort().pop();
+
+export function computeProjectBilling(project: Project, fatture: FatturaEmessa[]): ProjectBilling {
+  const documenti = fatture.filter(f => f.projectId === project.id);
+  const linked = documenti.filter(f => !isNotaCredito(f));
+  const noteCredito = documenti.filter(isNotaCredito);
+  const stornato = (fattura: FatturaEmessa) => noteCredito
+    .filter(nc => nc.fatturaRiferimentoId === fattura.id)
+    .reduce((sum, nc) => sum + nc.importo, 0);
+  // I pagamenti sono sul netto a pagare (CPA, IVA, ritenuta): la quota
+  // incassata dell'imponibile è proporzionale a pagato / dovuto
+  const incassatoImponibile = (fattura: FatturaEmessa) => {
+    const stato = fattura.statoPagamento;
+    if (!stato || stato.dovuto <= 0) return 0;
+    return (fattura.importo - stornato(fattura)) * Math.min(1, stato.pagato / stato.dovuto);
+  };
+  const incassate = linked.filter(f => (f.statoPagamento?.pagato ?? 0) > 0);
+  const importoServizio = project.metadata?.importoServizio;
+  const override = project.billingOverride;
+
+  let billing: ProjectBilling;
+  if (override) {
+    const fatturato = override.fatturato ? override.importoFatturato / 100 : 0;
+    const incassato = override.pagato ? override.importoPagato / 100 : 0;
+    billing = {
+      source: 'override',
+      fattureCount: linked.length,
+      fatturato,
+      incassato,
+      daIncassare: round2(Math.max(0, fatturato - incassato)),
+      dataUltimaFattura: override.dataFattura ?? undefined,
+      dataUltimoIncasso: override.dataPagamento ?? undefined,
+    };
+  } else {
+    const fatturato = round2(linked.reduce((sum, f) => sum + f.importo - stornato(f), 0));
+    const incassato = round2(incassate.reduce((sum, f) => sum + incassatoImponibile(f), 0));
+    billing = {
+      source: 'fatture',
+      fattureCount: linked.length,
+      fatturato,
+      incassato,
+      daIncassare: round2(fatturato - incassato),
+      dataUltimaFattura: latest(linked.map(f => f.dataEmissione)),
+      dataUltimoIncasso: latest(incassate.map(f => f.statoPagamento?.dataUltimoPagamento)),
+    };
+  }
+
+  if (importoServizio !== undefined) {
+    billing.importoServizio = importoServizio;
+    billing.residuoDaFatturare = round2(Math.max(0, importoServizio - billing.fatturato));
+  }
+  return billing;
+}
+
+export async function withBilling(projects: Project[]): Promise<Project[]> {
+  const fatture = await withPaymentStatus('emesse', await fattureEmesseStorage.readAll());
+  return projects.map(project => ({ ...project, billing: computeProjectBilling(project, fatture) }));
+}
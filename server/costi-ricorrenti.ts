@@ -0,0 +1,261 @@
+import { randomUUID } from 'crypto';
+import type { CostoGenerale, InsertSerieCostoGenerale, SerieCostoGenerale } from '@shared/schema';
+import { PERIODICITA } from '@shared/schema';
+import { costiGeneraliStorage, serieCostiGeneraliStorage } from './storage.js';
+
+// ============================================================================
+// Costi generali ricorrenti
+// ============================================================================
+// Le serie generano le occorrenze come normali costi generali (serieId +
+// dataOccorrenza). Una modifica alla serie si applica solo alle occorrenze
+// future, non pagate e non modificate singolarmente.
+//
+// Le operazioni che leggono le occorrenze esistenti e poi creano quelle
+// mancanti avvengono in sequenza per serie (withSerieLock): il generatore
+// periodico e le modifiche dall'interfaccia non devono creare due volte la
+// stessa occorrenza.
+
+export const GIORNI_ANTICIPO_GENERAZIONE = 60;
+const INTERVALLO_GENERAZIONE_MS = 12 * 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MESI_PERIODICITA: Record<typeof PERIODICITA[number], number> = {
+  mensile: 1,
+  bimestrale: 2,
+  trimestrale: 3,
+  semestrale: 6,
+  annuale: 12,
+};
+
+// Campi della serie: modificarli su una singola occorrenza la stacca dalla serie
+const CAMPI_SERIE = ['categoria', 'fornitore', 'descrizione', 'data', 'dataScadenza', 'importo'] as const;
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+const serieQueues = new Map<string, Promise<unknown>>();
+
+function withSerieLock<T>(serieId: string, fn: () => Promise<T>): Promise<T> {
+  const run = (serieQueues.get(serieId) ?? Promise.resolve()).then(fn, fn);
+  const queue = run.catch(() => undefined);
+  serieQueues.set(serieId, queue);
+  // Coda esaurita: la si rimuove per non accumulare serie eliminate
+  queue.then(() => {
+    if (serieQueues.get(serieId) === queue) serieQueues.delete(serieId);
+  });
+  return run;
+}
+
+// Stesso giorno del mese, limitato all'ultimo giorno (31/01 + 1 mese = 28/02)
+export function addMonths(data: string, mesi: number): string {
+  const [anno, mese, giorno] = data.slice(0, 10).split('-').map(Number);
+  const target = new Date(Date.UTC(anno, mese - 1 + mesi, 1));
+  const ultimoGiorno = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(giorno, ultimoGiorno));
+  return target.toISOString().slice(0, 10);
+}
+
+export const addDays = (data: string, giorni: number) =>
+  new Date(new Date(data.slice(0, 10)).getTime() + giorni * MS_PER_DAY).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to.slice(0, 10)).getTime() - new Date(from.slice(0, 10)).getTime()) / MS_PER_DAY);
+
+export const limiteGenerazione = (oggi: string) => addDays(oggi, GIORNI_ANTICIPO_GENERAZIONE);
+
+// Date previste dalla serie tra dal e al (inclusi), entro la data di fine
+export function dateOccorrenze(serie: InsertSerieCostoGenerale, al: string, dal = serie.dataInizio): string[] {
+  const passo = MESI_PERIODICITA[serie.periodicita];
+  const date: string[] = [];
+  for (let k = 0; ; k++) {
+    const data = addMonths(serie.dataInizio, k * passo);
+    if (data > al || (serie.dataFine && data > serie.dataFine)) break;
+    if (data >= dal) date.push(data);
+  }
+  return date;
+}
+
+export function importoAllaData(serie: InsertSerieCostoGenerale, data: string): number {
+  const variazione = serie.variazioniImporto
+    .filter(v => v.dal <= data)
+    .sort((a, b) => a.dal.localeCompare(b.dal))
+    .pop();
+  return variazione?.importo ?? serie.importo;
+}
+
+// Campi dell'occorrenza derivati dalla serie
+function campiOccorrenza(serie: SerieCostoGenerale, dataOccorrenza: string) {
+  return {
+    categoria: serie.categoria,
+    fornitore: serie.fornitore,
+    descrizione: serie.descrizione,
+    data: dataOccorrenza,
+    dataScadenza: addDays(dataOccorrenza, serie.giorniScadenza),
+    importo: importoAllaData(serie, dataOccorrenza),
+    ricorrente: true,
+    periodicita: serie.periodicita,
+  };
+}
+
+// Da chiamare con il lock della serie già acquisito
+async function creaOccorrenzeMancanti(serie: SerieCostoGenerale, oggi: string): Promise<CostoGenerale[]> {
+  if (!serie.attiva) return [];
+  const esistenti = new Set((await costiGeneraliStorage.findByField('serieId', serie.id)).map(c => c.dataOccorrenza));
+  const escluse = new Set(serie.occorrenzeEscluse);
+
+  const create: CostoGenerale[] = [];
+  for (const data of dateOccorrenze(serie, limiteGenerazione(oggi))) {
+    if (esistenti.has(data) || escluse.has(data)) continue;
+    create.push(await costiGeneraliStorage.create({
+      id: randomUUID(),
+      ...campiOccorrenza(serie, data),
+      pagato: false,
+      note: serie.note,
+      serieId: serie.id,
+      dataOccorrenza: data,
+    }));
+  }
+  return create;
+}
+
+// La serie viene riletta sotto lock: chi l'ha letta prima di una modifica o
+// di un'eliminazione non deve generare occorrenze non più previste
+export function generaOccorrenze(serie: SerieCostoGenerale, oggi = todayISO()): Promise<CostoGenerale[]> {
+  return withSerieLock(serie.id, async () => {
+    const attuale = await serieCostiGeneraliStorage.findById(serie.id);
+    return attuale ? creaOccorrenzeMancanti(attuale, oggi) : [];
+  });
+}
+
+export async function generaCostiRicorrenti(oggi = todayISO()): Promise<CostoGenerale[]> {
+  const create: CostoGenerale[] = [];
+  for (const serie of await serieCostiGeneraliStorage.readAll()) {
+    create.push(...await generaOccorrenze(serie, oggi));
+  }
+  return create;
+}
+
+// Generazione all'avvio e poi periodica
+export function avviaGeneratoreCostiRicorrenti(): void {
+  const esegui = () => {
+    generaCostiRicorrenti()
+      .then(create => {
+        if (create.length > 0) console.log(`🔁 Generati ${create.length} costi generali ricorrenti`);
+      })
+      .catch(error => console.error('Errore generazione costi ricorrenti:', error));
+  };
+  esegui();
+  setInterval(esegui, INTERVALLO_GENERAZIONE_MS).unref();
+}
+
+export async function creaSerie(dati: InsertSerieCostoGenerale, oggi = todayISO()): Promise<SerieCostoGenerale> {
+  const serie = await serieCostiGeneraliStorage.create({
+    id: randomUUID(),
+    ...dati,
+    occorrenzeEscluse: [],
+    createdAt: new Date().toISOString(),
+  });
+  await generaOccorrenze(serie, oggi);
+  return serie;
+}
+
+// Un costo ricorrente inserito a mano diventa la prima occorrenza della serie.
+// Le occorrenze già passate non vengono generate: sono state gestite a mano.
+export async function serieDaCosto(costo: CostoGenerale, oggi = todayISO()): Promise<SerieCostoGenerale> {
+  const dati: InsertSerieCostoGenerale = {
+    categoria: costo.categoria,
+    fornitore: costo.fornitore,
+    descrizione: costo.descrizione,
+    periodicita: costo.periodicita ?? 'mensile',
+    dataInizio: costo.data.slice(0, 10),
+    giorniScadenza: costo.dataScadenza ? Math.max(0, daysBetween(costo.data, costo.dataScadenza)) : 0,
+    importo: costo.importo,
+    variazioniImporto: [],
+    attiva: true,
+    note: costo.note,
+  };
+  const serie = await serieCostiGeneraliStorage.create({
+    id: randomUUID(),
+    ...dati,
+    occorrenzeEscluse: dateOccorrenze(dati, addDays(oggi, -1)).filter(d => d !== dati.dataInizio),
+    createdAt: new Date().toISOString(),
+  });
+  await costiGeneraliStorage.update(costo.id, { ricorrente: true, serieId: serie.id, dataOccorrenza: serie.dataInizio });
+  await generaOccorrenze(serie, oggi);
+  return serie;
+}
+
+// Modifica dell'intera serie: aggiorna le occorrenze future non pagate e non
+// modificate singolarmente, elimina quelle non più previste e genera le nuove
+export function aggiornaSerie(
+  serie: SerieCostoGenerale,
+  dati: InsertSerieCostoGenerale,
+  oggi = todayISO()
+): Promise<SerieCostoGenerale> {
+  return withSerieLock(serie.id, async () => {
+    const updated = (await serieCostiGeneraliStorage.update(serie.id, {
+      ...dati,
+      // Campi facoltativi rimossi dal form: vanno svuotati esplicitamente
+      dataFine: dati.dataFine ?? '',
+      note: dati.note ?? '',
+      updatedAt: new Date().toISOString(),
+    }))!;
+
+    const occorrenze = await costiGeneraliStorage.findByField('serieId', serie.id);
+    const ultima = occorrenze.reduce((max, c) => (c.dataOccorrenza! > max ? c.dataOccorrenza! : max), limiteGenerazione(oggi));
+    const previste = new Set(updated.attiva ? dateOccorrenze(updated, ultima) : []);
+
+    for (const costo of occorrenze) {
+      if (costo.pagato || costo.modificataManualmente || costo.dataOccorrenza! < oggi) continue;
+      if (previste.has(costo.dataOccorrenza!)) {
+        await costiGeneraliStorage.update(costo.id, { ...campiOccorrenza(updated, costo.dataOccorrenza!), note: updated.note });
+      } else {
+        await costiGeneraliStorage.delete(costo.id);
+      }
+    }
+
+    await creaOccorrenzeMancanti(updated, oggi);
+    return updated;
+  });
+}
+
+// Eliminazione della serie: le occorrenze future non pagate vengono rimosse,
+// le altre restano come costi generali autonomi
+export function eliminaSerie(serie: SerieCostoGenerale, oggi = todayISO()): Promise<void> {
+  return withSerieLock(serie.id, async () => {
+    for (const costo of await costiGeneraliStorage.findByField('serieId', serie.id)) {
+      if (!costo.pagato && !costo.modificataManualmente && costo.dataOccorrenza! >= oggi) {
+        await costiGeneraliStorage.delete(costo.id);
+      } else {
+        await costiGeneraliStorage.update(costo.id, { serieId: '', dataOccorrenza: '' });
+      }
+    }
+    await serieCostiGeneraliStorage.delete(serie.id);
+  });
+}
+
+// Modifica di una singola occorrenza: se cambia un campo della serie
+// l'occorrenza non segue più le modifiche all'intera serie
+export function modificaOccorrenza<T extends Partial<CostoGenerale>>(costo: CostoGenerale, updates: T): T & { modificataManualmente?: boolean } {
+  if (!costo.serieId) return updates;
+  const modificata = CAMPI_SERIE.some(campo => updates[campo] !== undefined && updates[campo] !== costo[campo]);
+  return modificata ? { ...updates, modificataManualmente: true } : updates;
+}
+
+// Un'occorrenza eliminata non deve essere rigenerata
+export async function escludiOccorrenza(costo: CostoGenerale): Promise<void> {
+  const { serieId, dataOccorrenza } = costo;
+  if (!serieId || !dataOccorrenza) return;
+  await withSerieLock(serieId, async () => {
+    const serie = await serieCostiGeneraliStorage.findById(serieId);
+    if (serie && !serie.occorrenzeEscluse.includes(dataOccorrenza)) {
+      await serieCostiGeneraliStorage.update(serie.id, { occorrenzeEscluse: [...serie.occorrenzeEscluse, dataOccorrenza] });
+    }
+  });
+}
+
+// Prima occorrenza che il generatore non ha ancora creato
+export function prossimaOccorrenza(serie: SerieCostoGenerale, oggi = todayISO()): string | undefined {
+  if (!serie.attiva) return undefined;
+  const dopo = addDays(limiteGenerazione(oggi), 1);
+  return dateOccorrenze(serie, addMonths(dopo, MESI_PERIODICITA[serie.periodicita]), dopo)[0];
+}
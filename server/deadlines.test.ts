@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Deadline } from '@shared/schema';
+import { normalizeDeadlineUpdates, withDeadlineStatus } from './deadlines';
+
+function deadline(dueDate: string, status: Deadline['status'] = 'pending'): Deadline {
+  return {
+    id: 'd1',
+    projectId: 'p1',
+    title: 'Deposito pratica',
+    dueDate,
+    priority: 'medium',
+    status,
+    type: 'deposito',
+    notifyDaysBefore: 7,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+}
+
+describe('withDeadlineStatus', () => {
+  it('non considera scaduta una scadenza del giorno, anche con orario già passato', () => {
+    expect(withDeadlineStatus(deadline('2026-10-19'), '2026-10-19').status).toBe('pending');
+    expect(withDeadlineStatus(deadline('2026-10-19T00:00:00.000Z'), '2026-10-19').status).toBe('pending');
+  });
+
+  it('segna overdue dal giorno successivo e torna pending se la data viene spostata', () => {
+    expect(withDeadlineStatus(deadline('2026-10-18T23:00:00.000Z'), '2026-10-19').status).toBe('overdue');
+    expect(withDeadlineStatus(deadline('2026-10-20', 'overdue'), '2026-10-19').status).toBe('pending');
+  });
+
+  it('lascia invariate le scadenze completate o annullate', () => {
+    expect(withDeadlineStatus(deadline('2026-01-01', 'completed'), '2026-10-19').status).toBe('completed');
+    expect(withDeadlineStatus(deadline('2026-01-01', 'cancelled'), '2026-10-19').status).toBe('cancelled');
+  });
+});
+
+describe('normalizeDeadlineUpdates', () => {
+  it('non salva mai "overdue" e allinea completedAt allo stato', () => {
+    expect(normalizeDeadlineUpdates({ status: 'overdue' })).toEqual({ status: 'pending', completedAt: null });
+    expect(normalizeDeadlineUpdates({ status: 'completed' }).completedAt).toEqual(expect.any(String));
+  });
+});
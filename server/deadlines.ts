@@ -0,0 +1,32 @@
+import type { Deadline, InsertDeadline } from '@shared/schema';
+
+// ============================================================================
+// Stato delle scadenze (Scadenzario)
+// ============================================================================
+// Una scadenza non completata/annullata è "overdue" dal giorno successivo alla
+// dueDate: si confrontano le date di calendario, non gli istanti, così che una
+// scadenza del giorno resti "pending" fino a fine giornata.
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+export function withDeadlineStatus(deadline: Deadline, oggi = todayISO()): Deadline {
+  if (deadline.status !== 'pending' && deadline.status !== 'overdue') {
+    return deadline;
+  }
+  const overdue = deadline.dueDate.slice(0, 10) < oggi;
+  return { ...deadline, status: overdue ? 'overdue' : 'pending' };
+}
+
+// Allinea completedAt allo stato; "overdue" non viene mai salvato
+export function normalizeDeadlineUpdates(updates: Partial<InsertDeadline>): Partial<InsertDeadline> {
+  const normalized = { ...updates };
+  if (normalized.status === 'overdue') {
+    normalized.status = 'pending';
+  }
+  if (normalized.status === 'completed' && !normalized.completedAt) {
+    normalized.completedAt = new Date().toISOString();
+  } else if (normalized.status === 'pending' || normalized.status === 'cancelled') {
+    normalized.completedAt = null;
+  }
+  return normalized;
+}
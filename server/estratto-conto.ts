@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+import type { ImportEstrattoConto, MovimentoBancario } from '@shared/schema';
+
+// ============================================================================
+// Import estratti conto (CSV delle banche italiane e ISO 20022 CAMT.053)
+// ============================================================================
+// I CSV non hanno un tracciato standard: l'intestazione viene cercata nelle
+// prime righe e le colonne riconosciute per nome (data, importo oppure
+// dare/avere, descrizione, ...). Importi e date in formato italiano.
+
+export class EstrattoContoError extends Error {}
+
+export type MovimentoImportato = Omit<MovimentoBancario, 'id' | 'stato' | 'abbinamenti' | 'createdAt'>;
+
+const BOM = /^\uFEFF/;
+
+// UTF-8 se valido, altrimenti Windows-1252/Latin-1 (export di home banking)
+function decode(buf: Buffer): string {
+  const utf8 = buf.toString('utf-8');
+  return (utf8.includes('\uFFFD') ? buf.toString('latin1') : utf8).replace(BOM, '');
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "1.234,56", "-1234.56", "1,234.56 €", "+50,00"
+export function parseImporto(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value.replace(/[€\s]|EUR/gi, '');
+  if (!text) return null;
+  const negative = /^-|-$|^\(.*\)$/.test(text);
+  text = text.replace(/[-+()]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  text = lastComma > lastDot
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return round2(negative ? -amount : amount);
+}
+
+// gg/mm/aaaa, gg-mm-aa, gg.mm.aaaa o ISO -> aaaa-mm-gg
+export function parseData(value: string | undefined): string | null {
+  const text = (value ?? '').trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const it = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(text);
+  if (!it) return null;
+  const anno = it[3].length === 2 ? `20${it[3]}` : it[3];
+  return `${anno}-${it[2].padStart(2, '0')}-${it[1].padStart(2, '0')}`;
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// Nomi di colonna riconosciuti, in ordine di preferenza
+const COLONNE = {
+  data: ['data contabile', 'data operazione', 'data registrazione', 'data contabilizzazione', 'data'],
+  dataValuta: ['data valuta', 'valuta'],
+  importo: ['importo', 'ammontare', 'amount'],
+  dare: ['dare', 'addebiti', 'addebito', 'uscite', 'uscita'],
+  avere: ['avere', 'accrediti', 'accredito', 'entrate', 'entrata'],
+  descrizione: ['descrizione estesa', 'descrizione operazione', 'descrizione', 'causale', 'dettagli', 'operazione'],
+  controparte: ['controparte', 'ordinante beneficiario', 'beneficiario', 'ordinante'],
+  iban: ['iban controparte', 'iban'],
+  riferimento: ['cro', 'trn', 'riferimento', 'id operazione'],
+} as const;
+
+type Colonna = keyof typeof COLONNE;
+
+function mappaColonne(header: string[]): Partial<Record<Colonna, number>> {
+  const normalized = header.map(normalizeHeader);
+  const mappa: Partial<Record<Colonna, number>> = {};
+  const usate = new Set<number>();
+  for (const colonna of Object.keys(COLONNE) as Colonna[]) {
+    for (const nome of COLONNE[colonna]) {
+      const index = normalized.findIndex((h, i) => !usate.has(i) && (h === nome || h.startsWith(`${nome} `)));
+      if (index >= 0) {
+        mappa[colonna] = index;
+        usate.add(index);
+        break;
+      }
+    }
+  }
+  return mappa;
+}
+
+function parseCsv(text: string, fonte: string): MovimentoImportato[] {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+
+  // Intestazione: prima riga (entro le prime 30) con data e importo riconosciuti
+  let headerIndex = -1;
+  let separator = ';';
+  let colonne: Partial<Record<Colonna, number>> = {};
+  for (let i = 0; i < Math.min(lines.length, 30) && headerIndex < 0; i++) {
+    for (const sep of [';', ',', '\t']) {
+      const mappa = mappaColonne(splitCsvLine(lines[i], sep));
+      if (mappa.data !== undefined && (mappa.importo !== undefined || mappa.dare !== undefined || mappa.avere !== undefined)) {
+        headerIndex = i;
+        separator = sep;
+        colonne = mappa;
+        break;
+      }
+    }
+  }
+  if (headerIndex < 0) {
+    throw new EstrattoContoError('Intestazione non riconosciuta: servono almeno le colonne data e importo (o dare/avere)');
+  }
+
+  const cella = (cells: string[], colonna: Colonna) =>
+    colonne[colonna] !== undefined ? cells[colonne[colonna]!] || undefined : undefined;
+
+  const movimenti: MovimentoImportato[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line, separator);
+    const data = parseData(cella(cells, 'data'));
+    // Righe di saldo o totali in coda: senza data valida vengono ignorate
+    if (!data) continue;
+
+    let importo = parseImporto(cella(cells, 'importo'));
+    if (importo === null) {
+      const dare = parseImporto(cella(cells, 'dare')) ?? 0;
+      const avere = parseImporto(cella(cells, 'avere')) ?? 0;
+      importo = round2(Math.abs(avere) - Math.abs(dare));
+    }
+    if (!importo) continue;
+
+    movimenti.push({
+      data,
+      dataValuta: parseData(cella(cells, 'dataValuta')) ?? undefined,
+      importo,
+      descrizione: cella(cells, 'descrizione') ?? '',
+      controparte: cella(cells, 'controparte'),
+      iban: cella(cells, 'iban')?.replace(/\s/g, '').toUpperCase(),
+      riferimento: cella(cells, 'riferimento'),
+      fonte,
+      hash: '',
+    });
+  }
+  return movimenti;
+}
+
+// ============================================================================
+// CAMT.053 (BankToCustomerStatement)
+// ============================================================================
+const camtParser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: (name) => ['Stmt', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd'].includes(name),
+});
+
+// Nodi del parser come unknown, letti con i narrowing qui sotto: un file di
+// banca può avere un elemento testuale dove ci si aspetta un gruppo
+type XmlObject = Record<string, unknown>;
+
+const isXmlObject = (value: unknown): value is XmlObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nodo figlio lungo il percorso (undefined se un passaggio non è un gruppo)
+const at = (node: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((value, key) => (isXmlObject(value) ? value[key] : undefined), node);
+
+const list = (value: unknown): XmlObject[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value]).filter(isXmlObject);
+
+const xmlText = (value: unknown): string | undefined => {
+  const text = isXmlObject(value) ? value['#text'] : value;
+  return typeof text === 'string' || typeof text === 'number' ? String(text).trim() || undefined : undefined;
+};
+
+const camtData = (value: unknown) =>
+  parseData(xmlText(at(value, 'Dt')) ?? xmlText(at(value, 'DtTm'))) ?? undefined;
+
+// Le parti possono essere dirette (v2) o dentro Pty (v8+)
+const partyName = (party: unknown) => xmlText(at(party, 'Nm')) ?? xmlText(at(party, 'Pty', 'Nm'));
+
+function parseCamt(xml: string, fonte: string): MovimentoImportato[] {
+  const doc: unknown = camtParser.parse(xml);
+  const statements = list(at(doc, 'Document', 'BkToCstmrStmt', 'Stmt'));
+  if (statements.length === 0) {
+    throw new EstrattoContoError('File XML non riconosciuto come estratto conto CAMT.053');
+  }
+
+  const movimenti: MovimentoImportato[] = [];
+  for (const stmt of statements) {
+    const contoIban = xmlText(at(stmt, 'Acct', 'Id', 'IBAN'));
+    for (const entry of list(stmt.Ntry)) {
+      const amount = parseImporto(xmlText(entry.Amt));
+      const data = camtData(entry.BookgDt);
+      if (amount === null || !data) continue;
+      const credito = xmlText(entry.CdtDbtInd) === 'CRDT';
+
+      const dettagli = list(entry.NtryDtls).flatMap(d => list(d.TxDtls));
+      const tx = dettagli[0];
+      const parti = at(tx, 'RltdPties');
+      const controparte = partyName(at(parti, credito ? 'Dbtr' : 'Cdtr'));
+      const iban = xmlText(at(parti, credito ? 'DbtrAcct' : 'CdtrAcct', 'Id', 'IBAN'));
+      const causali = dettagli
+        .flatMap(d => {
+          const ustrd = at(d, 'RmtInf', 'Ustrd');
+          return (Array.isArray(ustrd) ? ustrd : [ustrd]).map(xmlText);
+        })
+        .filter(Boolean);
+
+      movimenti.push({
+        data,
+        dataValuta: camtData(entry.ValDt),
+        importo: credito ? Math.abs(amount) : -Math.abs(amount),
+        descrizione: [...causali, xmlText(entry.AddtlNtryInf)].filter(Boolean).join(' - '),
+        controparte,
+        iban,
+        riferimento: xmlText(entry.AcctSvcrRef) ?? xmlText(at(tx, 'Refs', 'EndToEndId')),
+        contoIban,
+        fonte,
+        hash: '',
+      });
+    }
+  }
+  return movimenti;
+}
+
+// Impronta per riconoscere i movimenti già importati; le righe identiche
+// nello stesso file (es. due commissioni uguali) vengono numerate
+function assegnaHash(movimenti: MovimentoImportato[]): MovimentoImportato[] {
+  const occorrenze = new Map<string, number>();
+  return movimenti.map(m => {
+    const base = [m.contoIban ?? '', m.data, m.importo.toFixed(2), normalizeHeader(m.descrizione), m.riferimento ?? ''].join('|');
+    const n = (occorrenze.get(base) ?? 0) + 1;
+    occorrenze.set(base, n);
+    return { ...m, hash: createHash('sha1').update(`${base}#${n}`).digest('hex') };
+  });
+}
+
+export function parseEstrattoConto(
+  buf: Buffer,
+  fonte: string
+): { formato: ImportEstrattoConto['formato']; movimenti: MovimentoImportato[] } {
+  const content = decode(buf);
+  const formato = /^\s*</.test(content) ? 'camt053' : 'csv';
+  const movimenti = formato === 'camt053' ? parseCamt(content, fonte) : parseCsv(content, fonte);
+  if (movimenti.length === 0) {
+    throw new EstrattoContoError('Nessun movimento trovato nel file');
+  }
+  return { formato, movimenti: assegnaHash(movimenti) };
+}
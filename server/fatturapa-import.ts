@@ -0,0 +1,322 @@
+import { XMLParser } from 'fast-xml-parser';
+import type { FatturaConsulente, FatturaIngresso, FatturaPAImport, Project } from '@shared/schema';
+
+export type ImportTarget = FatturaPAImport['target'];
+
+export class FatturaPAImportError extends Error {}
+
+// ============================================================================
+// Busta CAdES (.p7m)
+// ============================================================================
+// Un .p7m è un CMS SignedData (DER, a volte BER a lunghezza indefinita o
+// codificato in base64) che contiene l'XML in encapContentInfo.eContent.
+// Basta un lettore ASN.1 minimale: la firma non viene verificata.
+interface Asn1Node {
+  tag: number;
+  constructed: boolean;
+  content: Buffer;
+  children: Asn1Node[];
+}
+
+function readAsn1(buf: Buffer, offset: number): { node: Asn1Node; next: number } {
+  if (offset + 2 > buf.length) throw new FatturaPAImportError('Busta p7m troncata');
+  const tag = buf[offset];
+  const constructed = (tag & 0x20) !== 0;
+  let pos = offset + 1;
+  const lengthByte = buf[pos++];
+
+  // Lunghezza indefinita (BER): figli fino al marcatore 00 00
+  if (lengthByte === 0x80) {
+    const children: Asn1Node[] = [];
+    while (!(buf[pos] === 0 && buf[pos + 1] === 0)) {
+      const { node, next } = readAsn1(buf, pos);
+      children.push(node);
+      pos = next;
+    }
+    return { node: { tag, constructed, content: buf.subarray(offset, pos), children }, next: pos + 2 };
+  }
+
+  let length = lengthByte;
+  if (lengthByte & 0x80) {
+    length = 0;
+    for (let i = 0; i < (lengthByte & 0x7f); i++) length = length * 256 + buf[pos++];
+  }
+  const end = pos + length;
+  if (end > buf.length) throw new FatturaPAImportError('Busta p7m troncata');
+
+  const content = buf.subarray(pos, end);
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    let childPos = pos;
+    while (childPos < end) {
+      const { node, next } = readAsn1(buf, childPos);
+      children.push(node);
+      childPos = next;
+    }
+  }
+  return { node: { tag, constructed, content, children }, next: end };
+}
+
+// OCTET STRING primitivo o costruito (a blocchi)
+const octets = (node: Asn1Node): Buffer =>
+  node.constructed ? Buffer.concat(node.children.map(octets)) : node.content;
+
+function unwrapP7m(buf: Buffer): Buffer {
+  const { node: contentInfo } = readAsn1(buf, 0);
+  // ContentInfo { contentType, [0] SignedData { version, digestAlgorithms, encapContentInfo, ... } }
+  const signedData = contentInfo.children[1]?.children[0];
+  const encapContentInfo = signedData?.children[2];
+  const eContent = encapContentInfo?.children[1]?.children[0];
+  if (!eContent) throw new FatturaPAImportError('Busta p7m senza contenuto firmato');
+  return octets(eContent);
+}
+
+const BOM = /^\uFEFF/;
+
+const looksLikeXml = (buf: Buffer) => /^\s*</.test(buf.subarray(0, 64).toString('utf-8').replace(BOM, ''));
+
+// L'SDI accetta anche XML in ISO-8859-1: si rispetta la dichiarazione di encoding
+function decodeXml(buf: Buffer): string {
+  const declaration = buf.subarray(0, 100).toString('latin1');
+  const latin1 = /encoding=["'](iso-8859-1|latin1|windows-1252)["']/i.test(declaration);
+  return latin1 ? buf.toString('latin1') : buf.toString('utf-8').replace(BOM, '');
+}
+
+// Restituisce l'XML della fattura, aprendo le buste p7m (anche annidate, doppia firma)
+export function extractFatturaXml(buf: Buffer): string {
+  let data = buf;
+  for (let depth = 0; depth < 3; depth++) {
+    if (looksLikeXml(data)) return decodeXml(data);
+
+    // p7m salvato in base64
+    const text = data.toString('latin1').trim();
+    if (/^[A-Za-z0-9+/=\r\n]+$/.test(text)) {
+      data = Buffer.from(text, 'base64');
+    }
+    if (data[0] !== 0x30) break;
+    data = unwrapP7m(data);
+  }
+  throw new FatturaPAImportError('Il file non è una FatturaPA XML o una busta .p7m valida');
+}
+
+// ============================================================================
+// Parsing FatturaPA
+// ============================================================================
+const ARRAY_TAGS = new Set([
+  'FatturaElettronicaBody', 'DettaglioLinee', 'DatiRiepilogo', 'DatiPagamento',
+  'DettaglioPagamento', 'Allegati', 'DatiRitenuta', 'DatiCassaPrevidenziale', 'Causale',
+  'DatiOrdineAcquisto', 'DatiContratto', 'DatiConvenzione',
+]);
+
+const parser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: true,
+  parseTagValue: false, // numeri fattura e P.IVA restano stringhe (zeri iniziali)
+  isArray: (name) => ARRAY_TAGS.has(name),
+});
+
+// Output del parser: stringhe (parseTagValue: false), oggetti e array. I nodi
+// sono unknown e letti con i narrowing qui sotto, perché un XML ricevuto può
+// avere un elemento testuale dove ci si aspetta un gruppo (e viceversa)
+type XmlObject = Record<string, unknown>;
+
+const isXmlObject = (value: unknown): value is XmlObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nodo figlio lungo il percorso (undefined se un passaggio non è un gruppo)
+const at = (node: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((value, key) => (isXmlObject(value) ? value[key] : undefined), node);
+
+const str = (value: unknown): string => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+const optStr = (value: unknown): string | undefined => str(value) || undefined;
+const items = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+const list = (value: unknown): XmlObject[] => items(value).filter(isXmlObject);
+const num = (value: unknown) => (str(value) === '' ? 0 : Number(str(value)) || 0);
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Confronto tollerante di numeri fattura ("012/2026" = "12/2026"), partite IVA
+// e nomi fornitore ("Mario Rossi" = "ROSSI MARIO")
+const tokens = (value: string | undefined) => (value ?? '').toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+const normalize = (value: string | undefined) => tokens(value).join('');
+const normalizeNumero = (value: string | undefined) => tokens(value).map(t => t.replace(/^0+(?=.)/, '')).join('/');
+const normalizeName = (value: string | undefined) => tokens(value).sort().join(' ');
+
+function denominazione(anagrafica: unknown): string {
+  const nome = str(at(anagrafica, 'Denominazione'))
+    || [str(at(anagrafica, 'Nome')), str(at(anagrafica, 'Cognome'))].filter(Boolean).join(' ');
+  return nome.trim();
+}
+
+interface ImportContext {
+  target: ImportTarget;
+  projects: Project[];
+  existing: Array<FatturaIngresso | FatturaConsulente>;
+}
+
+const supplierOf = (fattura: FatturaIngresso | FatturaConsulente) =>
+  'fornitore' in fattura ? fattura.fornitore : fattura.consulente;
+
+function sameSupplier(
+  fattura: FatturaIngresso | FatturaConsulente,
+  fornitore: FatturaPAImport['fornitore']
+): boolean {
+  if (fattura.partitaIva && fornitore.partitaIva) {
+    return normalize(fattura.partitaIva) === normalize(fornitore.partitaIva);
+  }
+  return normalizeName(supplierOf(fattura)) === normalizeName(fornitore.denominazione);
+}
+
+// Commessa suggerita: codice commessa citato nella fattura, altrimenti
+// l'ultima commessa a cui è stata associata una fattura dello stesso fornitore
+function suggestProject(
+  searchText: string,
+  fornitore: FatturaPAImport['fornitore'],
+  ctx: ImportContext
+): FatturaPAImport['projectSuggestion'] {
+  const text = searchText.toUpperCase();
+  const byCode = [...ctx.projects]
+    .sort((a, b) => (b.code?.length ?? 0) - (a.code?.length ?? 0))
+    .find(p => p.code && text.includes(p.code.toUpperCase()));
+  if (byCode) {
+    return { projectId: byCode.id, code: byCode.code, reason: 'Codice commessa citato nella fattura' };
+  }
+
+  const previous = ctx.existing
+    .filter(f => sameSupplier(f, fornitore))
+    .sort((a, b) => (a.dataEmissione ?? '').localeCompare(b.dataEmissione ?? ''))
+    .pop();
+  const project = previous && ctx.projects.find(p => p.id === previous.projectId);
+  if (project) {
+    return { projectId: project.id, code: project.code, reason: 'Ultima commessa associata a questo fornitore' };
+  }
+  return null;
+}
+
+// Il PDF resta nella proposta (base64) e viene salvato in uploads/pdf solo
+// alla conferma, così un'anteprima annullata non lascia file orfani
+function pdfAttachment(allegato: XmlObject, warnings: string[]): FatturaPAImport['allegati'][number] | null {
+  const nome = str(allegato.NomeAttachment) || 'allegato';
+  const data = Buffer.from(str(allegato.Attachment).replace(/\s/g, ''), 'base64');
+  const isPdf = str(allegato.FormatoAttachment).toUpperCase() === 'PDF'
+    || nome.toLowerCase().endsWith('.pdf')
+    || data.subarray(0, 4).toString('latin1') === '%PDF';
+
+  if (!isPdf || data.length === 0) {
+    warnings.push(`Allegato "${nome}" ignorato (solo PDF)`);
+    return null;
+  }
+  return { nome, contenuto: data.toString('base64') };
+}
+
+function parseBody(
+  body: XmlObject,
+  fornitore: FatturaPAImport['fornitore'],
+  ctx: ImportContext
+): FatturaPAImport {
+  const warnings: string[] = [];
+  const datiGenerali = at(body, 'DatiGenerali', 'DatiGeneraliDocumento');
+  const tipoDocumento = str(at(datiGenerali, 'TipoDocumento')) || 'TD01';
+  const numeroFattura = str(at(datiGenerali, 'Numero')).trim();
+  const dataEmissione = str(at(datiGenerali, 'Data')).slice(0, 10);
+
+  const linee = list(at(body, 'DatiBeniServizi', 'DettaglioLinee'));
+  const riepiloghi = list(at(body, 'DatiBeniServizi', 'DatiRiepilogo'));
+  const imponibile = round2(riepiloghi.reduce((sum, r) => sum + num(r.ImponibileImporto), 0));
+  const iva = round2(riepiloghi.reduce((sum, r) => sum + num(r.Imposta), 0));
+  const importoTotale = at(datiGenerali, 'ImportoTotaleDocumento');
+  const totale = importoTotale !== undefined ? num(importoTotale) : round2(imponibile + iva);
+  const ritenuta = round2(list(at(datiGenerali, 'DatiRitenuta')).reduce((sum, r) => sum + num(r.ImportoRitenuta), 0));
+  const cassa = round2(
+    list(at(datiGenerali, 'DatiCassaPrevidenziale')).reduce((sum, c) => sum + num(c.ImportoContributoCassa), 0)
+  );
+
+  const scadenze = list(body.DatiPagamento)
+    .flatMap(p => list(p.DettaglioPagamento))
+    .map(d => ({
+      data: str(d.DataScadenzaPagamento).slice(0, 10),
+      importo: d.ImportoPagamento !== undefined ? num(d.ImportoPagamento) : undefined,
+      modalita: optStr(d.ModalitaPagamento),
+    }))
+    .filter(s => s.data)
+    .sort((a, b) => a.data.localeCompare(b.data));
+  if (scadenze.length === 0) warnings.push('Nessuna scadenza in DatiPagamento: usata la data documento');
+
+  const allegati: FatturaPAImport['allegati'] = [];
+  for (const allegato of list(body.Allegati)) {
+    const pdf = pdfAttachment(allegato, warnings);
+    if (pdf) allegati.push(pdf);
+  }
+
+  const causale = items(at(datiGenerali, 'Causale')).map(str).join(' ').trim();
+  const descrizione = causale || linee.map(l => str(l.Descrizione).trim()).filter(Boolean).join('; ');
+
+  if (tipoDocumento === 'TD04') {
+    warnings.push('Nota di credito (TD04): verificare importo e fattura di riferimento');
+  }
+  if (!numeroFattura || !dataEmissione) warnings.push('Numero o data documento mancanti');
+
+  const riferimenti = ['DatiOrdineAcquisto', 'DatiContratto', 'DatiConvenzione']
+    .flatMap(key => list(at(body, 'DatiGenerali', key)))
+    .flatMap(d => [str(d.IdDocumento), str(d.CodiceCommessaConvenzione)]);
+  const searchText = [causale, ...linee.map(l => str(l.Descrizione)), ...riferimenti].filter(Boolean).join(' ');
+  const projectSuggestion = suggestProject(searchText, fornitore, ctx);
+
+  const duplicate = ctx.existing.find(f =>
+    normalizeNumero(f.numeroFattura) === normalizeNumero(numeroFattura) && sameSupplier(f, fornitore)
+  );
+
+  // Importo = imponibile, come per le fatture emesse; le fatture ingresso sono in centesimi
+  const importo = ctx.target === 'ingresso' ? Math.round(imponibile * 100) : imponibile;
+  const common = {
+    projectId: projectSuggestion?.projectId ?? '',
+    numeroFattura,
+    partitaIva: fornitore.partitaIva,
+    dataEmissione,
+    dataScadenzaPagamento: scadenze[0]?.data ?? dataEmissione,
+    importo,
+    descrizione: descrizione.slice(0, 500),
+    pagata: false,
+  };
+  const proposal = ctx.target === 'ingresso'
+    ? { ...common, fornitore: fornitore.denominazione, categoria: 'collaborazione_esterna' as const }
+    : { ...common, consulente: fornitore.denominazione };
+
+  return {
+    target: ctx.target,
+    tipoDocumento,
+    fornitore,
+    importi: { imponibile, iva, totale, ritenuta, cassa, nettoAPagare: round2(totale - ritenuta) },
+    scadenze,
+    allegati,
+    proposal,
+    projectSuggestion,
+    duplicate: duplicate
+      ? { id: duplicate.id, numeroFattura: duplicate.numeroFattura, dataEmissione: duplicate.dataEmissione }
+      : null,
+    warnings,
+  };
+}
+
+// Un file può contenere più documenti (lotto di fatture): una proposta per body
+export function importFatturaPA(buf: Buffer, ctx: ImportContext): FatturaPAImport[] {
+  const xml = extractFatturaXml(buf);
+
+  let root: unknown;
+  try {
+    root = at(parser.parse(xml), 'FatturaElettronica');
+  } catch (error) {
+    throw new FatturaPAImportError(`XML non leggibile: ${(error as Error).message}`);
+  }
+  if (!isXmlObject(at(root, 'FatturaElettronicaHeader'))) {
+    throw new FatturaPAImportError('Il file non contiene una FatturaElettronica');
+  }
+
+  const cedente = at(root, 'FatturaElettronicaHeader', 'CedentePrestatore', 'DatiAnagrafici');
+  const fornitore: FatturaPAImport['fornitore'] = {
+    denominazione: denominazione(at(cedente, 'Anagrafica')),
+    partitaIva: optStr(at(cedente, 'IdFiscaleIVA', 'IdCodice')),
+    codiceFiscale: optStr(at(cedente, 'CodiceFiscale')),
+  };
+
+  return list(at(root, 'FatturaElettronicaBody')).map(body => parseBody(body, fornitore, ctx));
+}
@@ -0,0 +1,15 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FATTURAPA_XSD_FILES, XSD_DIR } from './fatturapa';
+
+describe('XSD FatturaPA', () => {
+  // Il percorso è relativo alla radice del progetto, non alla cartella del
+  // modulo: deve funzionare sia da server/ (tsx) sia da dist/ (bundle)
+  it('risolve gli schemi in server/xsd dalla radice del progetto', () => {
+    expect(XSD_DIR).toBe(path.resolve(import.meta.dirname, 'xsd'));
+    for (const file of FATTURAPA_XSD_FILES) {
+      expect(existsSync(path.join(XSD_DIR, file)), file).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,276 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { validateXML } from 'xmllint-wasm';
+import type { Client, FatturaEmessa, FirmSettings } from '@shared/schema';
+import { calcolaFatturaArrotondata, type AliquoteFattura } from '@shared/fattura';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// XSD FatturaPA 1.2.2 (Agenzia delle Entrate), con l'import di xmldsig
+// risolto sul file locale. Percorso dalla radice del progetto: in produzione
+// il server è bundlato in dist/ e gli XSD restano in server/xsd
+export const XSD_DIR = path.join(__dirname, '..', 'server', 'xsd');
+const FATTURAPA_XSD = 'Schema_del_file_xml_FatturaPA_v1.2.2.xsd';
+const XMLDSIG_XSD = 'xmldsig-core-schema.xsd';
+export const FATTURAPA_XSD_FILES = [FATTURAPA_XSD, XMLDSIG_XSD];
+
+const FATTURAPA_NAMESPACE = 'http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2';
+
+export interface FatturaPAResult {
+  fileName: string;
+  xml: string;
+  errors: string[];
+}
+
+// ============================================================================
+// XML helpers
+// ============================================================================
+type XmlNode = [string, XmlContent];
+type XmlContent = string | Array<XmlNode | null | undefined | false | ''>;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// I campi testo FatturaPA ammettono solo caratteri Latin-1
+const latin = (value: string, maxLength: number) =>
+  value.normalize('NFC').replace(/[^\x20-\x7E\xA0-\xFF]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+
+const amount = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+const rate = (value: number) => value.toFixed(2);
+const isoDate = (value: string) => value.slice(0, 10);
+
+function renderXml([name, content]: XmlNode, indent = ''): string {
+  if (typeof content === 'string') {
+    return `${indent}<${name}>${escapeXml(content)}</${name}>`;
+  }
+  const children = content.filter((c): c is XmlNode => !!c);
+  return [
+    `${indent}<${name}>`,
+    ...children.map(child => renderXml(child, indent + '  ')),
+    `${indent}</${name}>`
+  ].join('\n');
+}
+
+// ============================================================================
+// Generatore
+// ============================================================================
+// Progressivo di invio (max 5 caratteri alfanumerici nel nome file SDI),
+// stabile per la stessa fattura
+function progressivoInvio(fattura: FatturaEmessa): string {
+  const hash = createHash('sha256').update(fattura.id).digest();
+  return hash.readUInt32BE(0).toString(36).toUpperCase().padStart(5, '0').slice(-5);
+}
+
+function checkAnagrafiche(client: Client): string[] {
+  const errors: string[] = [];
+  if (!client.piva && !client.cf) errors.push(`Cliente ${client.name}: partita IVA o codice fiscale obbligatori`);
+  if (!client.address) errors.push(`Cliente ${client.name}: indirizzo obbligatorio`);
+  if (!client.cap || !/^[0-9]{5}$/.test(client.cap)) errors.push(`Cliente ${client.name}: CAP mancante o non valido`);
+  if (!client.city) errors.push(`Cliente ${client.name}: comune obbligatorio`);
+  if (client.province && !/^[A-Z]{2}$/.test(client.province)) errors.push(`Cliente ${client.name}: sigla provincia non valida`);
+  return errors;
+}
+
+// Record unico delle impostazioni studio (id fisso)
+export const FIRM_SETTINGS_ID = 'default';
+
+// Aliquote della fattura, con quelle dello studio per i campi non impostati
+export function aliquoteFattura(
+  fattura: FatturaEmessa,
+  settings: AliquoteFattura
+): AliquoteFattura {
+  return {
+    aliquotaCPA: fattura.aliquotaCPA ?? settings.aliquotaCPA,
+    aliquotaIVA: fattura.aliquotaIVA ?? settings.aliquotaIVA,
+    aliquotaRitenuta: fattura.aliquotaRitenuta ?? settings.aliquotaRitenuta,
+  };
+}
+
+// Costruisce la FatturaPA (FPR12 verso privati, FPA12 se il codice
+// destinatario è un codice ufficio PA di 6 caratteri). importo della fattura
+// è il compenso: CPA, IVA e ritenuta sono calcolati con
+// calcolaFatturaArrotondata, come il dovuto dei pagamenti. Le note di credito
+// (TD04) riportano la fattura stornata in DatiFattureCollegate e non hanno
+// DatiPagamento. L'XML viene validato con l'XSD ufficiale.
+export async function generateFatturaPA(
+  fattura: FatturaEmessa,
+  client: Client,
+  settings: FirmSettings,
+  riferimento?: FatturaEmessa
+): Promise<FatturaPAResult> {
+  const progressivo = progressivoInvio(fattura);
+  const fileName = `${settings.nazione}${settings.partitaIva}_${progressivo}.xml`;
+
+  const tipoDocumento = fattura.tipoDocumento ?? 'TD01';
+  const errors = checkAnagrafiche(client);
+  if (tipoDocumento === 'TD04' && !riferimento) {
+    errors.push('Fattura di riferimento della nota di credito non trovata');
+  }
+  if (errors.length > 0) {
+    return { fileName, xml: '', errors };
+  }
+
+  const aliquote = aliquoteFattura(fattura, settings);
+  const { aliquotaCPA, aliquotaIVA, aliquotaRitenuta } = aliquote;
+  const {
+    compensoNetto: compenso,
+    cpa,
+    imponibile,
+    iva,
+    totaleConIVA: totale,
+    ritenutaAcconto: ritenuta,
+    nettoAPagare
+  } = calcolaFatturaArrotondata(fattura.importo, aliquote);
+
+  const codiceDestinatario = client.codiceDestinatario || '0000000';
+  const formato = codiceDestinatario.length === 6 ? 'FPA12' : 'FPR12';
+  // IVA 0%: N2.2 "non soggette - altri casi" (es. regime forfettario RF19);
+  // N2.1 riguarda i servizi a committenti esteri, non gestiti (cliente IT)
+  const natura = aliquotaIVA === 0 ? 'N2.2' : undefined;
+  const riferimentoNormativo = settings.regimeFiscale === 'RF19'
+    ? 'Operazione in franchigia da IVA ai sensi dell\'art. 1, commi 54-89, L. 190/2014'
+    : 'Operazione non soggetta';
+
+  const header: XmlNode = ['FatturaElettronicaHeader', [
+    ['DatiTrasmissione', [
+      ['IdTrasmittente', [
+        ['IdPaese', settings.nazione],
+        ['IdCodice', settings.codiceFiscale ?? settings.partitaIva]
+      ]],
+      ['ProgressivoInvio', progressivo],
+      ['FormatoTrasmissione', formato],
+      ['CodiceDestinatario', codiceDestinatario],
+      (settings.email || settings.telefono) && ['ContattiTrasmittente', [
+        settings.telefono && ['Telefono', latin(settings.telefono, 12)],
+        settings.email && ['Email', settings.email]
+      ]],
+      codiceDestinatario === '0000000' && client.pec && ['PECDestinatario', client.pec]
+    ]],
+    ['CedentePrestatore', [
+      ['DatiAnagrafici', [
+        ['IdFiscaleIVA', [['IdPaese', settings.nazione], ['IdCodice', settings.partitaIva]]],
+        settings.codiceFiscale && ['CodiceFiscale', settings.codiceFiscale],
+        ['Anagrafica', [['Denominazione', latin(settings.denominazione, 80)]]],
+        ['RegimeFiscale', settings.regimeFiscale]
+      ]],
+      ['Sede', [
+        ['Indirizzo', latin(settings.indirizzo, 60)],
+        settings.numeroCivico && ['NumeroCivico', latin(settings.numeroCivico, 8)],
+        ['CAP', settings.cap],
+        ['Comune', latin(settings.comune, 60)],
+        settings.provincia && ['Provincia', settings.provincia],
+        ['Nazione', settings.nazione]
+      ]]
+    ]],
+    ['CessionarioCommittente', [
+      ['DatiAnagrafici', [
+        client.piva && ['IdFiscaleIVA', [['IdPaese', 'IT'], ['IdCodice', client.piva.replace(/^IT/i, '')]]],
+        client.cf && ['CodiceFiscale', client.cf.toUpperCase()],
+        ['Anagrafica', [['Denominazione', latin(client.name, 80)]]]
+      ]],
+      ['Sede', [
+        ['Indirizzo', latin(client.address!, 60)],
+        ['CAP', client.cap!],
+        ['Comune', latin(client.city!, 60)],
+        client.province && ['Provincia', client.province],
+        ['Nazione', 'IT']
+      ]]
+    ]]
+  ]];
+
+  const body: XmlNode = ['FatturaElettronicaBody', [
+    ['DatiGenerali', [
+      ['DatiGeneraliDocumento', [
+        ['TipoDocumento', tipoDocumento],
+        ['Divisa', 'EUR'],
+        ['Data', isoDate(fattura.dataEmissione)],
+        ['Numero', latin(fattura.numeroFattura, 20)],
+        ritenuta > 0 && ['DatiRitenuta', [
+          ['TipoRitenuta', settings.tipoRitenuta],
+          ['ImportoRitenuta', amount(ritenuta)],
+          ['AliquotaRitenuta', rate(aliquotaRitenuta)],
+          ['CausalePagamento', 'A'] // prestazioni di lavoro autonomo professionale
+        ]],
+        cpa > 0 && ['DatiCassaPrevidenziale', [
+          ['TipoCassa', settings.tipoCassa],
+          ['AlCassa', rate(aliquotaCPA)],
+          ['ImportoContributoCassa', amount(cpa)],
+          ['ImponibileCassa', amount(compenso)],
+          ['AliquotaIVA', rate(aliquotaIVA)],
+          natura && ['Natura', natura]
+        ]],
+        ['ImportoTotaleDocumento', amount(totale)],
+        ['Causale', latin(fattura.descrizione, 200)]
+      ]],
+      tipoDocumento === 'TD04' && riferimento && ['DatiFattureCollegate', [
+        ['IdDocumento', latin(riferimento.numeroFattura, 20)],
+        ['Data', isoDate(riferimento.dataEmissione)]
+      ]]
+    ]],
+    ['DatiBeniServizi', [
+      ['DettaglioLinee', [
+        ['NumeroLinea', '1'],
+        ['Descrizione', latin(fattura.descrizione, 1000)],
+        ['PrezzoUnitario', amount(compenso)],
+        ['PrezzoTotale', amount(compenso)],
+        ['AliquotaIVA', rate(aliquotaIVA)],
+        ritenuta > 0 && ['Ritenuta', 'SI'],
+        natura && ['Natura', natura]
+      ]],
+      ['DatiRiepilogo', [
+        ['AliquotaIVA', rate(aliquotaIVA)],
+        natura && ['Natura', natura],
+        ['ImponibileImporto', amount(imponibile)],
+        ['Imposta', amount(iva)],
+        !natura && ['EsigibilitaIVA', 'I'],
+        natura && ['RiferimentoNormativo', riferimentoNormativo]
+      ]]
+    ]],
+    tipoDocumento === 'TD01' && ['DatiPagamento', [
+      ['CondizioniPagamento', 'TP02'],
+      ['DettaglioPagamento', [
+        ['ModalitaPagamento', 'MP05'], // bonifico
+        ['DataScadenzaPagamento', isoDate(fattura.dataScadenzaPagamento)],
+        ['ImportoPagamento', amount(nettoAPagare)],
+        settings.istitutoFinanziario && ['IstitutoFinanziario', latin(settings.istitutoFinanziario, 80)],
+        settings.iban && ['IBAN', settings.iban]
+      ]]
+    ]]
+  ]];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<p:FatturaElettronica versione="${formato}" xmlns:p="${FATTURAPA_NAMESPACE}" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">`,
+    renderXml(header, '  '),
+    renderXml(body, '  '),
+    '</p:FatturaElettronica>',
+    ''
+  ].join('\n');
+
+  return { fileName, xml, errors: await validateFatturaPA(xml, fileName) };
+}
+
+// ============================================================================
+// Validazione XSD
+// ============================================================================
+export async function validateFatturaPA(xml: string, fileName = 'fattura.xml'): Promise<string[]> {
+  const [schema, xmldsig] = await Promise.all([
+    fs.readFile(path.join(XSD_DIR, FATTURAPA_XSD), 'utf-8'),
+    fs.readFile(path.join(XSD_DIR, XMLDSIG_XSD), 'utf-8'),
+  ]);
+
+  const result = await validateXML({
+    xml: { fileName, contents: xml },
+    schema: { fileName: FATTURAPA_XSD, contents: schema },
+    preload: { fileName: XMLDSIG_XSD, contents: xmldsig },
+  });
+  return result.errors.map(e => e.message);
+}
@@ -0,0 +1,10 @@
+// Campi che update() non modifica mai, qualunque sia il contenuto di updates.
+// Modulo separato perché lo usano sia storage.ts sia sql-storage.ts, e
+// storage.ts importa SQLStorage: tenerlo lì creerebbe un import circolare.
+export const IMMUTABLE_FIELDS = ['id', 'createdAt'] as const;
+
+export function withoutImmutableFields<T>(updates: Partial<T>): Partial<T> {
+  const copy: Record<string, unknown> = { ...updates };
+  for (const field of IMMUTABLE_FIELDS) delete copy[field];
+  return copy as Partial<T>;
+}
@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { router } from './routes.js';
+import { sessionMiddleware } from './auth.js';
+import { runMigrations } from './migrations.js';
+import { avviaGeneratoreCostiRicorrenti } from './costi-ricorrenti.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -11,9 +15,20 @@ const app = express();
 const PORT = process.env.NODE_ENV === 'production' ? (process.env.PORT || 5000) : 3000;
 
 // Middleware
-app.use(express.json());
+// L'archivio di backup (/api/import) ha un parser con limite dedicato,
+// montato sulla route dopo autenticazione e autorizzazione admin
+const jsonParser = express.json();
+app.use((req: Request, res: Response, next: NextFunction) =>
+  req.path === '/api/import' ? next() : jsonParser(req, res, next)
+);
 app.use(express.urlencoded({ extended: true }));
 
+// Cookie di sessione "secure" dietro reverse proxy (Replit, nginx)
+if (process.env.NODE_ENV === 'production') {
+  app.set('trust proxy', 1);
+}
+app.use(sessionMiddleware);
+
 // CORS headers for development
 app.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
@@ -39,18 +54,30 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 // Error handling middleware
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+app.use((err: Error & { status?: number }, req: Request, res: Response, next: NextFunction) => {
   console.error('Error:', err);
+  // Limiti di upload superati (dimensione 413, numero di file/campi 400)
+  if (err instanceof multer.MulterError) {
+    return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: 'Upload non valido', message: err.message });
+  }
+  // Errori del body parser (JSON non valido 400, corpo troppo grande 413) e
+  // file rifiutati dal fileFilter (415)
+  if (err.status && err.status < 500) {
+    return res.status(err.status).json({ error: 'Invalid request body', message: err.message });
+  }
   res.status(500).json({
     error: 'Internal server error',
     message: err.message
   });
 });
 
-// Start server
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📁 Environment: ${process.env.NODE_ENV || 'development'}`);
+// Start server (dopo le migrazioni dei dati)
+runMigrations().finally(() => {
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📁 Environment: ${process.env.NODE_ENV || 'development'}`);
+  });
+  avviaGeneratoreCostiRicorrenti();
 });
 
 export default app;
@@ -0,0 +1,253 @@
+import {
+  PRESTAZIONI,
+  LIVELLI_PROGETTAZIONE,
+  type Deadline,
+  type Communication,
+  type ProjectMetadata
+} from '@shared/schema';
+import { createStorage, deadlinesStorage, communicationsStorage, projectsStorage, type DataStorage } from './storage.js';
+
+// ============================================================================
+// Migrazioni dati all'avvio
+// ============================================================================
+// Ogni migrazione è idempotente: può essere eseguita ad ogni avvio senza
+// duplicare o alterare dati già migrati.
+
+// Formato legacy di data/scadenze.json (ex /api/scadenze)
+interface LegacyScadenza {
+  id: string;
+  projectId: string;
+  titolo: string;
+  data: string;
+  tipo: 'milestone' | 'deadline' | 'reminder' | 'altro';
+  priorita?: 'bassa' | 'media' | 'alta';
+  completata?: boolean;
+  descrizione?: string;
+  note?: string;
+}
+
+// Data ISO, null se il valore legacy non è una data valida: il record viene
+// saltato (resta nel file di origine) e segnalato da warnInvalidDates
+function toISODate(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function warnInvalidDates(source: string, ids: string[]): void {
+  if (ids.length === 0) return;
+  console.warn(`⚠️ ${source}: ${ids.length} record con data non valida non migrati (id: ${ids.join(', ')})`);
+}
+
+const PRIORITA_MAP: Record<string, Deadline['priority']> = {
+  bassa: 'low',
+  media: 'medium',
+  alta: 'high'
+};
+
+// Unifica scadenze.json in deadlines.json (stesso id, quindi rieseguibile)
+async function migrateScadenzeToDeadlines(): Promise<number> {
+  const legacy = await createStorage<LegacyScadenza>('scadenze.json').readAll();
+  if (legacy.length === 0) return 0;
+
+  const existingIds = new Set((await deadlinesStorage.readAll()).map(d => d.id));
+  const now = new Date().toISOString();
+  const invalid: string[] = [];
+  let migrated = 0;
+
+  for (const s of legacy) {
+    if (existingIds.has(s.id)) continue;
+    const dueDate = toISODate(s.data);
+    if (!dueDate) {
+      invalid.push(s.id);
+      continue;
+    }
+
+    await deadlinesStorage.create({
+      id: s.id,
+      projectId: s.projectId,
+      title: s.titolo,
+      description: s.descrizione,
+      dueDate,
+      priority: PRIORITA_MAP[s.priorita ?? 'media'] ?? 'medium',
+      status: s.completata ? 'completed' : 'pending',
+      type: s.tipo === 'milestone' ? 'milestone' : 'general',
+      notifyDaysBefore: 7,
+      completedAt: null,
+      note: s.note,
+      createdAt: now,
+      updatedAt: now
+    });
+    migrated++;
+  }
+
+  warnInvalidDates('scadenze.json', invalid);
+  return migrated;
+}
+
+// Formato legacy di data/comunicazioni.json (ex /api/comunicazioni)
+interface LegacyComunicazione {
+  id: string;
+  projectId: string;
+  data: string;
+  tipo: 'email' | 'telefono' | 'riunione' | 'verbale' | 'altro';
+  oggetto: string;
+  descrizione: string;
+  partecipanti?: string;
+  allegati?: string[];
+  note?: string;
+}
+
+const TIPO_COMUNICAZIONE_MAP: Record<LegacyComunicazione['tipo'], Communication['type']> = {
+  email: 'email',
+  telefono: 'telefono',
+  riunione: 'meeting',
+  verbale: 'meeting',
+  altro: 'nota_interna'
+};
+
+function isLegacyComunicazione(record: Communication | LegacyComunicazione): record is LegacyComunicazione {
+  return 'oggetto' in record && !('subject' in record);
+}
+
+function fromLegacyComunicazione(c: LegacyComunicazione): Communication | null {
+  const communicationDate = toISODate(c.data);
+  if (!communicationDate) return null;
+  const body = [c.descrizione, c.note].filter(Boolean).join('\n\n');
+  return {
+    id: c.id,
+    projectId: c.projectId,
+    type: TIPO_COMUNICAZIONE_MAP[c.tipo] ?? 'nota_interna',
+    direction: c.tipo === 'email' || c.tipo === 'telefono' ? 'outgoing' : 'internal',
+    subject: c.oggetto,
+    body: body || undefined,
+    recipient: c.partecipanti,
+    attachments: c.allegati?.map(url => ({ name: url.split('/').pop() || url, size: 0, url })),
+    tags: [],
+    isImportant: false,
+    communicationDate
+  };
+}
+
+// Converte i record legacy di comunicazioni.json nel modello unico e vi
+// unisce data/communications.json (usato in passato dal Registro Comunicazioni)
+async function migrateCommunications(): Promise<number> {
+  const canonical = communicationsStorage as unknown as DataStorage<Communication | LegacyComunicazione>;
+  const records = await canonical.readAll();
+  const invalid: string[] = [];
+  let migrated = 0;
+
+  // I record con data non valida restano nel formato legacy
+  const converted = records.map(record => {
+    if (!isLegacyComunicazione(record)) return record;
+    const communication = fromLegacyComunicazione(record);
+    if (!communication) {
+      invalid.push(record.id);
+      return record;
+    }
+    migrated++;
+    return communication;
+  });
+
+  const existingIds = new Set(converted.map(c => c.id));
+  const extra = await createStorage<Communication>('communications.json').readAll();
+  for (const c of extra) {
+    if (existingIds.has(c.id)) continue;
+    const communicationDate = toISODate(c.communicationDate);
+    if (!communicationDate) {
+      invalid.push(c.id);
+      continue;
+    }
+    converted.push({
+      ...c,
+      tags: c.tags ?? [],
+      isImportant: c.isImportant ?? false,
+      communicationDate
+    });
+    existingIds.add(c.id);
+    migrated++;
+  }
+
+  if (migrated > 0) {
+    await canonical.writeAll(converted);
+  }
+  warnInvalidDates('comunicazioni', invalid);
+  return migrated;
+}
+
+// Normalizza i metadata dei progetti salvati prima dello schema tipizzato:
+// prestazioni/livelli come array di valori noti, importi numerici, classe DM
+// in maiuscolo, nessun valore null o stringa vuota
+function toEnumArray<T extends string>(value: unknown, allowed: readonly T[]): T[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  const normalized = items
+    .map(item => String(item).trim().toLowerCase())
+    .filter((item): item is T => (allowed as readonly string[]).includes(item));
+  return Array.from(new Set(normalized));
+}
+
+function toAmount(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  // Come parseImporto: "1.234,56" se la virgola è il separatore decimale,
+  // altrimenti "1234.56" / "1,234.56" (il punto è decimale)
+  const text = String(value).replace(/[€\s]/g, '');
+  const normalized = text.lastIndexOf(',') > text.lastIndexOf('.')
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  const parsed = Number(normalized);
+  return text && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function normalizeMetadata(metadata: Record<string, unknown>): ProjectMetadata {
+  const { prestazioni, livelloProgettazione, classeDM143, importoOpere, importoServizio, percentualeParcella, ...rest } = metadata;
+  const normalized: Record<string, unknown> = {
+    ...rest,
+    prestazioni: toEnumArray(prestazioni, PRESTAZIONI),
+    livelloProgettazione: toEnumArray(livelloProgettazione, LIVELLI_PROGETTAZIONE),
+    classeDM143: typeof classeDM143 === 'string' ? classeDM143.trim().toUpperCase() || undefined : undefined,
+    importoOpere: toAmount(importoOpere),
+    importoServizio: toAmount(importoServizio),
+    percentualeParcella: toAmount(percentualeParcella),
+  };
+
+  return Object.fromEntries(
+    Object.entries(normalized).filter(([, value]) => value !== undefined && value !== null)
+  ) as ProjectMetadata;
+}
+
+async function normalizeProjectMetadata(): Promise<number> {
+  const projects = await projectsStorage.readAll();
+  let migrated = 0;
+
+  for (const project of projects) {
+    if (!project.metadata) continue;
+    const metadata = normalizeMetadata(project.metadata);
+    if (JSON.stringify(metadata) === JSON.stringify(project.metadata)) continue;
+
+    await projectsStorage.update(project.id, { metadata });
+    migrated++;
+  }
+
+  return migrated;
+}
+
+export async function runMigrations(): Promise<void> {
+  const migrations: Array<[string, () => Promise<number>]> = [
+    ['scadenze -> deadlines', migrateScadenzeToDeadlines],
+    ['comunicazioni -> communications', migrateCommunications],
+    ['normalizzazione metadata progetti', normalizeProjectMetadata],
+  ];
+
+  for (const [name, migrate] of migrations) {
+    try {
+      const count = await migrate();
+      if (count > 0) {
+        console.log(`🔄 Migrazione ${name}: ${count} record`);
+      }
+    } catch (error) {
+      console.error(`❌ Migrazione ${name} fallita:`, error);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import type {
+  FatturaEmessa,
+  NumerazioneReport,
+  NumerazioneReportSerie,
+  NumeroFatturaAssegnato,
+  SerieNumerazione
+} from '@shared/schema';
+import { fattureEmesseStorage, serieNumerazioneStorage } from './storage.js';
+
+// ============================================================================
+// Numerazione fatture emesse
+// ============================================================================
+// Il progressivo è per serie e per anno di emissione e non viene memorizzato
+// in un contatore: il prossimo numero è il massimo progressivo usato + 1, così
+// eliminando l'ultima fattura il numero torna disponibile. Assegnazione e
+// creazione avvengono in sequenza (withNumberingLock) per non emettere
+// due volte lo stesso numero. I numeri inseriti a mano vengono riconosciuti
+// confrontandoli con il formato delle serie.
+
+export class NumerazioneError extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+  }
+}
+
+// Serie usata finché non ne viene configurata nessuna
+export const SERIE_PREDEFINITA: SerieNumerazione = {
+  id: 'default',
+  codice: 'FE',
+  descrizione: 'Fatture emesse',
+  formato: '{n}/{yyyy}',
+  predefinita: true,
+};
+
+let numberingQueue: Promise<unknown> = Promise.resolve();
+
+export function withNumberingLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = numberingQueue.then(fn, fn);
+  numberingQueue = run.catch(() => undefined);
+  return run;
+}
+
+export const annoFiscale = (dataEmissione: string) => Number(dataEmissione.slice(0, 4));
+
+const normalizeNumero = (numero: string) => numero.trim().toUpperCase();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function formatNumero(serie: SerieNumerazione, anno: number, progressivo: number): string {
+  return serie.formato
+    .replace(/\{(n+)\}/g, (_, n: string) => String(progressivo).padStart(n.length, '0'))
+    .replace(/\{yyyy\}/g, String(anno))
+    .replace(/\{yy\}/g, String(anno).slice(-2))
+    .replace(/\{serie\}/g, serie.codice);
+}
+
+// Progressivo di un numero scritto nel formato della serie, null se non corrisponde
+export function parseProgressivo(serie: SerieNumerazione, anno: number, numero: string): number | null {
+  const pattern = serie.formato
+    .split(/(\{n+\}|\{yyyy\}|\{yy\}|\{serie\})/)
+    .map(part => {
+      if (/^\{n+\}$/.test(part)) return '(\\d+)';
+      if (part === '{yyyy}') return String(anno);
+      if (part === '{yy}') return String(anno).slice(-2);
+      if (part === '{serie}') return escapeRegExp(serie.codice);
+      return escapeRegExp(part);
+    })
+    .join('');
+  const match = new RegExp(`^${pattern}$`, 'i').exec(numero.trim());
+  const progressivo = match ? Number(match[1]) : NaN;
+  return progressivo > 0 ? progressivo : null;
+}
+
+export async function elencoSerie(): Promise<SerieNumerazione[]> {
+  const serie = await serieNumerazioneStorage.readAll();
+  if (serie.length === 0) return [SERIE_PREDEFINITA];
+  return [...serie].sort((a, b) => Number(b.predefinita) - Number(a.predefinita) || a.codice.localeCompare(b.codice));
+}
+
+async function findSerie(codice?: string): Promise<SerieNumerazione> {
+  const serie = await elencoSerie();
+  const found = codice ? serie.find(s => s.codice === codice) : serie[0];
+  if (!found) {
+    throw new NumerazioneError('serie', `Serie di numerazione "${codice}" non configurata`);
+  }
+  return found;
+}
+
+interface DocumentoNumerato {
+  fattura: FatturaEmessa;
+  progressivo: number;
+}
+
+// Raggruppa per serie le fatture dell'anno: prima la serie memorizzata, poi
+// il primo formato che riconosce il numero
+function classifica(fatture: FatturaEmessa[], serie: SerieNumerazione[], anno: number) {
+  const perSerie = new Map<string, DocumentoNumerato[]>(serie.map(s => [s.codice, []]));
+  const nonRiconosciute: FatturaEmessa[] = [];
+
+  for (const fattura of fatture) {
+    if (!fattura.dataEmissione || annoFiscale(fattura.dataEmissione) !== anno) continue;
+
+    const stored = serie.find(s => s.codice === fattura.serie);
+    if (stored && fattura.progressivo) {
+      perSerie.get(stored.codice)!.push({ fattura, progressivo: fattura.progressivo });
+      continue;
+    }
+    const match = serie
+      .map(s => ({ serie: s, progressivo: parseProgressivo(s, anno, fattura.numeroFattura) }))
+      .find(m => m.progressivo !== null);
+    if (match) {
+      perSerie.get(match.serie.codice)!.push({ fattura, progressivo: match.progressivo! });
+    } else {
+      nonRiconosciute.push(fattura);
+    }
+  }
+  return { perSerie, nonRiconosciute };
+}
+
+// Prossimo numero della serie (non riservato: va creato dentro withNumberingLock)
+export async function prossimoNumero(codiceSerie: string | undefined, dataEmissione: string): Promise<NumeroFatturaAssegnato> {
+  if (!dataEmissione) {
+    throw new NumerazioneError('dataEmissione', 'La data emissione è obbligatoria per assegnare il numero');
+  }
+  const serie = await findSerie(codiceSerie);
+  const anno = annoFiscale(dataEmissione);
+  const { perSerie } = classifica(await fattureEmesseStorage.readAll(), await elencoSerie(), anno);
+  const usati = perSerie.get(serie.codice) ?? [];
+  const progressivo = usati.reduce((max, d) => Math.max(max, d.progressivo), 0) + 1;
+  return { serie: serie.codice, anno, progressivo, numeroFattura: formatNumero(serie, anno, progressivo) };
+}
+
+// Il numero deve essere unico nell'anno di emissione, anche come progressivo
+// della serie (3/2026 e 003/2026 sono lo stesso numero)
+export async function checkNumeroUnivoco(
+  fattura: Pick<FatturaEmessa, 'id' | 'numeroFattura' | 'dataEmissione' | 'serie' | 'progressivo'>
+) {
+  if (!fattura.numeroFattura || !fattura.dataEmissione) return;
+  const anno = annoFiscale(fattura.dataEmissione);
+  const numero = normalizeNumero(fattura.numeroFattura);
+  const altre = (await fattureEmesseStorage.readAll()).filter(f => f.id !== fattura.id);
+
+  const stessoNumero = altre.some(f =>
+    normalizeNumero(f.numeroFattura) === numero && annoFiscale(f.dataEmissione) === anno
+  );
+  const { perSerie } = classifica([...altre, fattura as FatturaEmessa], await elencoSerie(), anno);
+  const stessoProgressivo = Array.from(perSerie.values()).some(documenti => {
+    const proprio = documenti.find(d => d.fattura.id === fattura.id);
+    return !!proprio && documenti.some(d => d !== proprio && d.progressivo === proprio.progressivo);
+  });
+
+  if (stessoNumero || stessoProgressivo) {
+    throw new NumerazioneError('numeroFattura', `Il numero ${fattura.numeroFattura} è già stato usato nel ${anno}`);
+  }
+}
+
+// Valori espliciti e non undefined: l'update SQL (merge jsonb) ignora le
+// chiavi undefined e lascerebbe serie e progressivo precedenti
+const SENZA_SERIE = { serie: '', progressivo: null } satisfies Partial<FatturaEmessa>;
+
+// Modifica di numero o data: il numero resta unico nell'anno; un numero
+// assegnato dalla serie non può passare a un altro anno e, se riscritto a
+// mano, perde il progressivo della serie
+export async function checkNumerazioneUpdate(
+  existing: FatturaEmessa,
+  updates: Partial<FatturaEmessa>
+): Promise<Partial<FatturaEmessa>> {
+  const merged = { ...existing, ...updates };
+  const numeroCambiato = normalizeNumero(merged.numeroFattura) !== normalizeNumero(existing.numeroFattura);
+  const anno = annoFiscale(existing.dataEmissione);
+
+  if (existing.progressivo && !numeroCambiato && annoFiscale(merged.dataEmissione) !== anno) {
+    throw new NumerazioneError(
+      'dataEmissione',
+      `Il numero ${existing.numeroFattura} appartiene alla numerazione ${anno}: emettere una nuova fattura`
+    );
+  }
+  if (numeroCambiato || merged.dataEmissione !== existing.dataEmissione) {
+    await checkNumeroUnivoco(numeroCambiato ? { ...merged, ...SENZA_SERIE } : merged);
+  }
+  return numeroCambiato ? SENZA_SERIE : {};
+}
+
+// ============================================================================
+// Report buchi di numerazione
+// ============================================================================
+export async function numerazioneReport(anno: number): Promise<NumerazioneReport> {
+  const serie = await elencoSerie();
+  const { perSerie, nonRiconosciute } = classifica(await fattureEmesseStorage.readAll(), serie, anno);
+
+  const report: NumerazioneReportSerie[] = serie.map(s => {
+    const documenti = [...perSerie.get(s.codice)!].sort(
+      (a, b) => a.progressivo - b.progressivo || a.fattura.dataEmissione.localeCompare(b.fattura.dataEmissione)
+    );
+    const ultimoProgressivo = documenti.length > 0 ? documenti[documenti.length - 1].progressivo : 0;
+
+    // Intervalli tra progressivi consecutivi (ordinati), senza enumerare i
+    // numeri: un progressivo digitato per errore (es. 100000) non pesa
+    const mancanti: NumerazioneReportSerie['mancanti'] = [];
+    let precedente = 0;
+    for (const { progressivo } of documenti) {
+      if (progressivo > precedente + 1) mancanti.push({ da: precedente + 1, a: progressivo - 1 });
+      precedente = Math.max(precedente, progressivo);
+    }
+
+    const duplicati = documenti
+      .filter((d, i) => documenti.some((o, j) => j !== i && o.progressivo === d.progressivo))
+      .map(d => d.fattura.numeroFattura);
+
+    // La data di emissione non può precedere quella di un numero inferiore
+    const fuoriOrdine: NumerazioneReportSerie['fuoriOrdine'] = [];
+    let dataMassima = '';
+    for (const { fattura } of documenti) {
+      const data = fattura.dataEmissione.slice(0, 10);
+      if (data < dataMassima) {
+        fuoriOrdine.push({ numeroFattura: fattura.numeroFattura, dataEmissione: fattura.dataEmissione });
+      } else {
+        dataMassima = data;
+      }
+    }
+
+    return {
+      codice: s.codice,
+      descrizione: s.descrizione,
+      formato: s.formato,
+      documenti: documenti.length,
+      ultimoProgressivo,
+      mancanti,
+      duplicati,
+      fuoriOrdine,
+    };
+  });
+
+  return {
+    anno,
+    serie: report,
+    nonRiconosciute: nonRiconosciute.map(f => ({
+      id: f.id,
+      numeroFattura: f.numeroFattura,
+      dataEmissione: f.dataEmissione,
+    })),
+  };
+}
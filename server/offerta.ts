@@ -0,0 +1,295 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type {
+  Client,
+  FirmSettings,
+  InsertModelloOfferta,
+  Preventivo,
+  RevisionePreventivo
+} from '@shared/schema';
+import { modelloOffertaStorage } from './storage.js';
+import { decodePng, PdfDocument } from './pdf.js';
+import type { PdfImage } from './pdf.js';
+import { renderTemplate } from './solleciti.js';
+import { addDays } from './costi-ricorrenti.js';
+import { ultimaRevisione } from './preventivi.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const LOGO_PATH = path.join(__dirname, '..', 'attached_assets', 'G2 - Logo_1755532156423.png');
+
+// ============================================================================
+// Lettera di offerta (PDF del preventivo)
+// ============================================================================
+// Carta intestata con logo e dati dello studio, destinatario, dettaglio del
+// compenso per gruppo di prestazioni, riferimenti al DM 17/06/2016, rate di
+// pagamento, validità e firme. I testi vengono dal modello modificabile.
+
+export const MODELLO_OFFERTA_ID = 'default';
+
+export const MODELLO_OFFERTA_PREDEFINITO: InsertModelloOfferta = {
+  oggetto: 'Offerta per servizi di architettura e ingegneria - {{oggetto}}',
+  introduzione: `A seguito dei colloqui intercorsi, con la presente formuliamo la nostra offerta per le prestazioni professionali relative a "{{oggetto}}". Il compenso è determinato secondo il DM 17 giugno 2016 sulla base di un importo delle opere di {{importoOpere}}.`,
+  condizioni: `Sono esclusi dal compenso i contributi e i diritti dovuti agli enti, le indagini geologiche e le prove di laboratorio, nonché ogni prestazione non espressamente indicata nella presente offerta. Eventuali prestazioni aggiuntive saranno concordate preventivamente per iscritto.`,
+  chiusura: `Restando a disposizione per ogni chiarimento, porgiamo cordiali saluti.`,
+  firmaNome: '',
+  firmaQualifica: '',
+  giorniValidita: 60,
+  rate: [
+    { descrizione: "Alla sottoscrizione dell'incarico", percentuale: 30 },
+    { descrizione: 'Alla consegna degli elaborati progettuali', percentuale: 40 },
+    { descrizione: 'Alla conclusione delle prestazioni', percentuale: 30 },
+  ],
+  mostraNoteDM: true,
+};
+
+export async function getModelloOfferta(): Promise<InsertModelloOfferta> {
+  const modello = await modelloOffertaStorage.findById(MODELLO_OFFERTA_ID);
+  if (!modello) return MODELLO_OFFERTA_PREDEFINITO;
+  const { id, ...resto } = modello;
+  return resto;
+}
+
+// Il logo viene decodificato una sola volta; senza logo la lettera esce comunque
+let logoCache: Promise<PdfImage | null> | undefined;
+
+function caricaLogo(): Promise<PdfImage | null> {
+  logoCache ??= fs.readFile(LOGO_PATH)
+    .then(data => decodePng(data, 400))
+    .catch(error => {
+      console.error('Logo offerta non disponibile:', error);
+      return null;
+    });
+  return logoCache;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatEuro = (value: number) =>
+  new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+const formatData = (value: string) =>
+  value ? new Date(value.slice(0, 10)).toLocaleDateString('it-IT') : '';
+
+const formatPercentuale = (value: number) =>
+  `${value.toLocaleString('it-IT', { maximumFractionDigits: 2 })}%`;
+
+const GRUPPI_PRESTAZIONE: Array<[string, string]> = [
+  ['progettazione', 'Progettazione'],
+  ['direzione', 'Direzione dell\'esecuzione'],
+  ['sicurezza', 'Sicurezza'],
+  ['collaudo', 'Verifiche e collaudi'],
+  ['altro', 'Altre prestazioni'],
+];
+
+// Importi delle rate sul compenso netto: l'ultima rata assorbe gli arrotondamenti
+export function importiRate(modello: InsertModelloOfferta, compensoNetto: number): number[] {
+  const importi = modello.rate.map(r => round2(compensoNetto * r.percentuale / 100));
+  const resto = round2(compensoNetto - importi.reduce((sum, i) => sum + i, 0));
+  importi[importi.length - 1] = round2(importi[importi.length - 1] + resto);
+  return importi;
+}
+
+export async function buildOffertaPdf(
+  preventivo: Preventivo,
+  revisione: RevisionePreventivo,
+  client: Client,
+  studio: FirmSettings | undefined,
+  modello: InsertModelloOfferta
+): Promise<Buffer> {
+  const logo = await caricaLogo();
+  const doc = new PdfDocument();
+  const left = doc.margin;
+  const width = doc.contentWidth;
+
+  // La data della lettera è quella di invio per l'ultima revisione già inviata
+  const dataOfferta = (revisione.numero === ultimaRevisione(preventivo).numero && preventivo.dataInvio)
+    || revisione.data.slice(0, 10);
+  const importoOpere = round2(revisione.opere.reduce((sum, o) => sum + o.importoOpere, 0));
+  const valori: Record<string, string> = {
+    cliente: client.name,
+    oggetto: preventivo.oggetto,
+    numero: `${preventivo.numero} rev. ${revisione.numero}`,
+    data: formatData(dataOfferta),
+    validita: formatData(addDays(dataOfferta, modello.giorniValidita)),
+    importoOpere: formatEuro(importoOpere),
+    compensoNetto: formatEuro(revisione.fattura.compensoNetto),
+    totale: formatEuro(revisione.fattura.totaleConIVA),
+    studio: studio?.denominazione ?? '',
+  };
+
+  // Intestazione: logo a sinistra, dati dello studio a destra
+  const altezzaLogo = 64;
+  if (logo) {
+    doc.image(logo, left, doc.y, altezzaLogo * logo.width / logo.height, altezzaLogo);
+  }
+  if (studio) {
+    const colonna = { x: left + width / 2, width: width / 2, align: 'right' as const };
+    doc.paragraph(studio.denominazione, { ...colonna, font: 'bold', size: 11 });
+    const righe = [
+      [studio.indirizzo, studio.numeroCivico].filter(Boolean).join(' '),
+      `${studio.cap} ${studio.comune}${studio.provincia ? ` (${studio.provincia})` : ''}`,
+      `P.IVA ${studio.partitaIva}`,
+      [studio.telefono, studio.email].filter(Boolean).join(' - '),
+    ].filter(Boolean);
+    for (const riga of righe) doc.paragraph(riga, { ...colonna, size: 8.5, gray: 0.3 });
+  }
+  doc.y = Math.max(doc.y, doc.margin + altezzaLogo) + 10;
+  doc.line(left, doc.y, left + width, doc.y, 0.75, 0.6);
+  doc.moveDown(16);
+
+  doc.paragraph(`${studio?.comune ? `${studio.comune}, ` : ''}${valori.data}`, { align: 'right', spaceAfter: 12 });
+
+  // Destinatario
+  const destinatario = { x: left + width * 0.55, width: width * 0.45 };
+  doc.paragraph('Spett.le', { ...destinatario });
+  doc.paragraph(client.name, { ...destinatario, font: 'bold' });
+  const indirizzo = [
+    client.address,
+    [client.cap, client.city, client.province ? `(${client.province})` : ''].filter(Boolean).join(' '),
+    client.piva ? `P.IVA ${client.piva}` : '',
+    client.pec ? `PEC ${client.pec}` : client.email ?? '',
+  ].filter(Boolean) as string[];
+  for (const riga of indirizzo) doc.paragraph(riga, { ...destinatario });
+  doc.moveDown(18);
+
+  doc.paragraph(`Offerta n. ${valori.numero}`, { size: 8.5, gray: 0.4, spaceAfter: 4 });
+  doc.paragraph(`Oggetto: ${renderTemplate(modello.oggetto, valori)}`, { font: 'bold', spaceAfter: 10 });
+  doc.paragraph(renderTemplate(modello.introduzione, valori), { spaceAfter: 14 });
+
+  const titolo = (testo: string) => {
+    doc.ensureSpace(40);
+    doc.paragraph(testo, { font: 'bold', size: 11, spaceAfter: 4 });
+  };
+  const colImporto = 120;
+  const colOpera = 60;
+  const colDescrizione = width - colImporto - colOpera;
+
+  // Opere
+  titolo('Importo delle opere');
+  doc.row([
+    { text: 'Categoria e ID opera', width: width - colImporto, font: 'bold' },
+    { text: 'Importo', width: colImporto, font: 'bold', align: 'right' },
+  ], { fill: 0.92 });
+  for (const opera of revisione.opere) {
+    doc.row([
+      { text: opera.idOpera, width: width - colImporto },
+      { text: formatEuro(opera.importoOpere), width: colImporto, align: 'right' },
+    ]);
+  }
+  if (revisione.opere.length > 1) {
+    doc.row([
+      { text: 'Totale opere', width: width - colImporto, font: 'bold' },
+      { text: formatEuro(importoOpere), width: colImporto, font: 'bold', align: 'right' },
+    ]);
+  }
+  doc.moveDown(12);
+
+  // Compensi per gruppo di prestazioni
+  titolo('Corrispettivo delle prestazioni');
+  doc.row([
+    { text: 'Prestazione', width: colDescrizione, font: 'bold' },
+    { text: 'Opera', width: colOpera, font: 'bold' },
+    { text: 'Compenso', width: colImporto, font: 'bold', align: 'right' },
+  ], { fill: 0.92 });
+  const compensi = Object.values(revisione.parcella.compensi);
+  for (const [gruppo, etichetta] of GRUPPI_PRESTAZIONE) {
+    const delGruppo = compensi.filter(c => c.gruppo === gruppo);
+    if (delGruppo.length === 0) continue;
+    doc.row([{ text: etichetta, width, font: 'bold' }], { fill: 0.97 });
+    for (const compenso of delGruppo) {
+      doc.row([
+        { text: compenso.prestazione, width: colDescrizione },
+        { text: compenso.idOpera, width: colOpera },
+        { text: formatEuro(compenso.importo), width: colImporto, align: 'right' },
+      ]);
+    }
+    doc.row([
+      { text: `Totale ${etichetta.toLowerCase()}`, width: width - colImporto, font: 'italic' },
+      { text: formatEuro(round2(delGruppo.reduce((sum, c) => sum + c.importo, 0))), width: colImporto, font: 'italic', align: 'right' },
+    ]);
+  }
+  doc.moveDown(6);
+
+  // Riepilogo economico
+  const riepilogo: Array<[string, number, boolean?]> = [
+    ['Compenso per le prestazioni', revisione.parcella.compensoPrestazioni],
+    [`Spese e oneri accessori (${formatPercentuale(revisione.parcella.percentualeSpese)})`, revisione.parcella.speseOneri],
+  ];
+  if (revisione.importoSconto > 0) {
+    riepilogo.push([`Sconto (${formatPercentuale(revisione.sconto)})`, -revisione.importoSconto]);
+  }
+  riepilogo.push(
+    ['Compenso netto', revisione.fattura.compensoNetto, true],
+    [`CPA (${formatPercentuale(revisione.aliquotaCPA)})`, revisione.fattura.cpa],
+    ['Imponibile', revisione.fattura.imponibile],
+    [`IVA (${formatPercentuale(revisione.aliquotaIVA)})`, revisione.fattura.iva],
+    ['Totale', revisione.fattura.totaleConIVA, true],
+  );
+  doc.ensureSpace(riepilogo.length * 16);
+  doc.line(left, doc.y, left + width, doc.y, 0.5, 0.6);
+  for (const [voce, importo, evidenza] of riepilogo) {
+    const font = evidenza ? 'bold' as const : 'regular' as const;
+    doc.row([
+      { text: voce, width: width - colImporto, font },
+      { text: formatEuro(importo), width: colImporto, font, align: 'right' },
+    ], evidenza ? { fill: 0.95 } : {});
+  }
+  doc.moveDown(12);
+
+  if (modello.mostraNoteDM && revisione.parcella.note.length > 0) {
+    titolo('Riferimenti normativi');
+    for (const nota of revisione.parcella.note) {
+      doc.paragraph(`• ${nota}`, { font: 'italic', size: 8.5, gray: 0.25 });
+    }
+    doc.moveDown(12);
+  }
+
+  // Rate di pagamento
+  titolo('Modalità di pagamento');
+  const importi = importiRate(modello, revisione.fattura.compensoNetto);
+  const colPercentuale = 60;
+  doc.row([
+    { text: 'Rata', width: width - colImporto - colPercentuale, font: 'bold' },
+    { text: '%', width: colPercentuale, font: 'bold', align: 'right' },
+    { text: 'Importo', width: colImporto, font: 'bold', align: 'right' },
+  ], { fill: 0.92 });
+  modello.rate.forEach((rata, i) => {
+    doc.row([
+      { text: rata.descrizione, width: width - colImporto - colPercentuale },
+      { text: formatPercentuale(rata.percentuale), width: colPercentuale, align: 'right' },
+      { text: formatEuro(importi[i]), width: colImporto, align: 'right' },
+    ]);
+  });
+  doc.paragraph('Importi al netto di CPA e IVA, da corrispondere a ricevimento fattura.', { size: 8.5, gray: 0.4, spaceAfter: 12 });
+
+  doc.paragraph(`La presente offerta è valida fino al ${valori.validita}.`, { font: 'bold', spaceAfter: 10 });
+  if (modello.condizioni.trim()) {
+    doc.paragraph(renderTemplate(modello.condizioni, valori), { spaceAfter: 10 });
+  }
+  doc.paragraph(renderTemplate(modello.chiusura, valori), { spaceAfter: 30 });
+
+  // Firme: accettazione del cliente a sinistra, studio a destra
+  doc.ensureSpace(90);
+  const inizio = doc.y;
+  const colonna = width * 0.42;
+  const firmaStudio = { x: left + width - colonna, width: colonna };
+  doc.paragraph('Per accettazione', { x: left, width: colonna, font: 'bold' });
+  doc.paragraph(client.name, { x: left, width: colonna, size: 9 });
+  const fineCliente = doc.y;
+  doc.y = inizio;
+  doc.paragraph(studio?.denominazione ?? '', { ...firmaStudio, font: 'bold' });
+  if (modello.firmaNome) doc.paragraph(modello.firmaNome, { ...firmaStudio, size: 9 });
+  if (modello.firmaQualifica) doc.paragraph(modello.firmaQualifica, { ...firmaStudio, size: 9, gray: 0.3 });
+  doc.y = Math.max(doc.y, fineCliente) + 36;
+  doc.line(left, doc.y, left + colonna, doc.y);
+  doc.line(firmaStudio.x, doc.y, left + width, doc.y);
+  doc.paragraph('(timbro e firma)', { x: left, width: colonna, size: 7.5, gray: 0.4 });
+
+  const piede = [studio?.denominazione, studio ? `P.IVA ${studio.partitaIva}` : '', `Offerta ${valori.numero}`]
+    .filter(Boolean)
+    .join(' - ');
+  return doc.toBuffer((pagina, totale) => `${piede} - pag. ${pagina} di ${totale}`);
+}
@@ -0,0 +1,219 @@
+import type {
+  FatturaConsulente,
+  FatturaEmessa,
+  FatturaIngresso,
+  InvoicePaymentStatus,
+  PagamentoFattura,
+  TipoFatturaPagamento
+} from '@shared/schema';
+import { calcolaFatturaArrotondata, type AliquoteFattura } from '@shared/fattura';
+import {
+  type DataStorage,
+  fattureConsulentiStorage,
+  fattureEmesseStorage,
+  fattureIngressoStorage,
+  firmSettingsStorage,
+  pagamentiFattureStorage
+} from './storage.js';
+import { FIRM_SETTINGS_ID, aliquoteFattura } from './fatturapa.js';
+
+// ============================================================================
+// Pagamenti parziali delle fatture
+// ============================================================================
+// Lo stato (non pagata / parziale / saldata) e il residuo sono derivati dai
+// pagamenti registrati. Per le fatture senza pagamenti vale il flag legacy
+// pagata/incassata, che viene tenuto allineato ad ogni modifica dei pagamenti.
+// Le note di credito (TD04) riducono il dovuto della fattura emessa collegata
+// e non hanno pagamenti propri.
+//
+// Il dovuto delle emesse è il netto a pagare della FatturaPA (compenso + CPA +
+// IVA - ritenuta d'acconto), calcolato con le aliquote della fattura o, se
+// assenti, con quelle dello studio. importoTotale (IVA inclusa, senza CPA né
+// ritenuta) non è quanto il cliente deve versare.
+
+export type Invoice = FatturaEmessa | FatturaIngresso | FatturaConsulente;
+
+export const INVOICE_STORAGES: Record<TipoFatturaPagamento, DataStorage<Invoice>> = {
+  emesse: fattureEmesseStorage as DataStorage<Invoice>,
+  ingresso: fattureIngressoStorage as DataStorage<Invoice>,
+  consulenti: fattureConsulentiStorage as DataStorage<Invoice>,
+};
+
+// Tolleranza sugli arrotondamenti (centesimo di euro o unità per i centesimi)
+const EPSILON = 0.005;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const latest = (dates: Array<string | undefined>) =>
+  dates.filter((d): d is string => !!d).sort().pop();
+
+export const isNotaCredito = (fattura: FatturaEmessa) => fattura.tipoDocumento === 'TD04';
+
+// +1 per le fatture, -1 per le note di credito (nei totali di fatturato)
+export const segnoDocumento = (fattura: FatturaEmessa) => (isNotaCredito(fattura) ? -1 : 1);
+
+// Aliquote dello studio (FirmSettings) e, se non configurate, i loro default
+const ALIQUOTE_PREDEFINITE: AliquoteFattura = { aliquotaCPA: 4, aliquotaIVA: 22, aliquotaRitenuta: 20 };
+
+// Note di credito collegate e aliquote dello studio: tutto ciò che serve,
+// oltre alla fattura, per calcolarne il dovuto
+export interface ContestoDovuto {
+  noteCredito: FatturaEmessa[];
+  aliquote: AliquoteFattura;
+}
+
+export const nettoAPagare = (fattura: FatturaEmessa, aliquote: AliquoteFattura) =>
+  calcolaFatturaArrotondata(fattura.importo, aliquoteFattura(fattura, aliquote)).nettoAPagare;
+
+// Netto a pagare stornato dalle note di credito emesse su una fattura
+export function importoStornato(fattura: FatturaEmessa, { noteCredito, aliquote }: ContestoDovuto): number {
+  return round2(
+    noteCredito
+      .filter(nc => isNotaCredito(nc) && nc.fatturaRiferimentoId === fattura.id)
+      .reduce((sum, nc) => sum + nettoAPagare(nc, aliquote), 0)
+  );
+}
+
+// Importo da pagare: netto a pagare al netto delle note di credito per le
+// emesse (zero per le note stesse), importo per le altre
+export function importoDovuto(
+  tipo: TipoFatturaPagamento,
+  fattura: Invoice,
+  contesto: ContestoDovuto
+): number {
+  if (tipo === 'emesse') {
+    const emessa = fattura as FatturaEmessa;
+    if (isNotaCredito(emessa)) return 0;
+    return round2(Math.max(0, nettoAPagare(emessa, contesto.aliquote) - importoStornato(emessa, contesto)));
+  }
+  return fattura.importo;
+}
+
+function legacyPaid(tipo: TipoFatturaPagamento, fattura: Invoice): { paid: boolean; date?: string } {
+  if (tipo === 'emesse') {
+    const emessa = fattura as FatturaEmessa;
+    return { paid: !!emessa.incassata, date: emessa.dataIncasso || undefined };
+  }
+  const altra = fattura as FatturaIngresso | FatturaConsulente;
+  return { paid: !!altra.pagata, date: altra.dataPagamento || undefined };
+}
+
+export function computePaymentStatus(
+  tipo: TipoFatturaPagamento,
+  fattura: Invoice,
+  pagamenti: PagamentoFattura[],
+  contesto: ContestoDovuto
+): InvoicePaymentStatus {
+  const own = pagamenti.filter(p => p.fatturaTipo === tipo && p.fatturaId === fattura.id);
+  const dovuto = importoDovuto(tipo, fattura, contesto);
+
+  let pagato: number;
+  let dataUltimoPagamento: string | undefined;
+  if (own.length > 0) {
+    pagato = round2(own.reduce((sum, p) => sum + p.importo, 0));
+    dataUltimoPagamento = latest(own.map(p => p.data));
+  } else {
+    const legacy = legacyPaid(tipo, fattura);
+    pagato = legacy.paid ? dovuto : 0;
+    dataUltimoPagamento = legacy.paid ? legacy.date : undefined;
+  }
+
+  const residuo = round2(Math.max(0, dovuto - pagato));
+  // Dovuto zero (nota di credito o fattura interamente stornata): saldata
+  const stato = residuo <= EPSILON ? 'saldata' : pagato <= 0 ? 'non_pagata' : 'parziale';
+  const status: InvoicePaymentStatus = {
+    stato, pagamentiCount: own.length, dovuto, pagato, residuo, dataUltimoPagamento
+  };
+  if (tipo === 'emesse') {
+    const stornato = importoStornato(fattura as FatturaEmessa, contesto);
+    if (stornato > 0) status.stornato = stornato;
+  }
+  return status;
+}
+
+// Quanto si può ancora registrare: senza pagamenti è l'intero importo, anche
+// se la fattura era segnata come pagata con il flag legacy
+export function residuoPagabile(
+  tipo: TipoFatturaPagamento,
+  fattura: Invoice,
+  pagamenti: PagamentoFattura[],
+  contesto: ContestoDovuto
+): number {
+  return pagamenti.length > 0
+    ? computePaymentStatus(tipo, fattura, pagamenti, contesto).residuo
+    : importoDovuto(tipo, fattura, contesto);
+}
+
+// Note di credito collegate a una fattura (o tutte, senza fatturaId)
+export async function findNoteCredito(tipo: TipoFatturaPagamento, fatturaId?: string): Promise<FatturaEmessa[]> {
+  if (tipo !== 'emesse') return [];
+  const noteCredito = await fattureEmesseStorage.findByField('tipoDocumento', 'TD04');
+  return fatturaId ? noteCredito.filter(nc => nc.fatturaRiferimentoId === fatturaId) : noteCredito;
+}
+
+async function aliquoteStudio(): Promise<AliquoteFattura> {
+  const settings = await firmSettingsStorage.findById(FIRM_SETTINGS_ID);
+  if (!settings) return ALIQUOTE_PREDEFINITE;
+  const { aliquotaCPA, aliquotaIVA, aliquotaRitenuta } = settings;
+  return { aliquotaCPA, aliquotaIVA, aliquotaRitenuta };
+}
+
+// Contesto per il dovuto di una fattura (o di tutte, senza fatturaId)
+export async function contestoDovuto(tipo: TipoFatturaPagamento, fatturaId?: string): Promise<ContestoDovuto> {
+  if (tipo !== 'emesse') return { noteCredito: [], aliquote: ALIQUOTE_PREDEFINITE };
+  return { noteCredito: await findNoteCredito(tipo, fatturaId), aliquote: await aliquoteStudio() };
+}
+
+export async function withPaymentStatus<T extends Invoice>(tipo: TipoFatturaPagamento, fatture: T[]): Promise<T[]> {
+  const pagamenti = await pagamentiFattureStorage.findByField('fatturaTipo', tipo);
+  const contesto = await contestoDovuto(tipo);
+  return fatture.map(fattura => ({
+    ...fattura,
+    statoPagamento: computePaymentStatus(tipo, fattura, pagamenti, contesto)
+  }));
+}
+
+export async function findInvoicePayments(tipo: TipoFatturaPagamento, fatturaId: string): Promise<PagamentoFattura[]> {
+  const pagamenti = await pagamentiFattureStorage.findByField('fatturaId', fatturaId);
+  return pagamenti
+    .filter(p => p.fatturaTipo === tipo)
+    .sort((a, b) => a.data.localeCompare(b.data));
+}
+
+// Riallinea pagata/incassata e la data di pagamento dopo una modifica ai pagamenti
+export async function syncInvoicePaymentFlags(tipo: TipoFatturaPagamento, fatturaId: string): Promise<Invoice | null> {
+  const storage = INVOICE_STORAGES[tipo];
+  const fattura = await storage.findById(fatturaId);
+  if (!fattura) return null;
+
+  const pagamenti = await findInvoicePayments(tipo, fatturaId);
+  const saldata = pagamenti.length > 0
+    && computePaymentStatus(tipo, fattura, pagamenti, await contestoDovuto(tipo, fatturaId)).stato === 'saldata';
+  const data = saldata ? latest(pagamenti.map(p => p.data)) ?? '' : '';
+
+  const updates = tipo === 'emesse'
+    ? { incassata: saldata, dataIncasso: data }
+    : { pagata: saldata, dataPagamento: data };
+  return storage.update(fatturaId, updates as Partial<Invoice>);
+}
+
+// Dopo la modifica di una fattura con pagamenti registrati (es. importo
+// cambiato): i flag restano quelli derivati dai pagamenti
+export async function refreshPaymentFlags<T extends Invoice>(tipo: TipoFatturaPagamento, fattura: T): Promise<T> {
+  const pagamenti = await findInvoicePayments(tipo, fattura.id);
+  if (pagamenti.length === 0) return fattura;
+  return (await syncInvoicePaymentFlags(tipo, fattura.id) ?? fattura) as T;
+}
+
+// Le note di credito cambiano il dovuto della fattura collegata
+export async function refreshFatturaRiferimento(documento: FatturaEmessa): Promise<void> {
+  if (!isNotaCredito(documento) || !documento.fatturaRiferimentoId) return;
+  const fattura = await fattureEmesseStorage.findById(documento.fatturaRiferimentoId);
+  if (fattura) await refreshPaymentFlags('emesse', fattura);
+}
+
+export async function deleteInvoicePayments(tipo: TipoFatturaPagamento, fatturaId: string): Promise<void> {
+  for (const pagamento of await findInvoicePayments(tipo, fatturaId)) {
+    await pagamentiFattureStorage.delete(pagamento.id);
+  }
+}
@@ -0,0 +1,117 @@
+import { crc32, deflateSync, inflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { PdfDocument, decodePng, textWidth, wrapText } from './pdf';
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// PNG 8 bit con le righe già filtrate (primo byte di ogni riga = filtro)
+function png(width: number, height: number, colorType: number, rows: number[][]): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', deflateSync(Buffer.from(rows.flat()))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// Contenuti (decompressi) degli stream di pagina, in ordine
+function pageStreams(pdf: Buffer): string[] {
+  const text = pdf.toString('latin1');
+  const streams: string[] = [];
+  const pattern = /<< \/Filter \/FlateDecode \/Length (\d+) >>\nstream\n/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const start = match.index + match[0].length;
+    streams.push(inflateSync(pdf.subarray(start, start + Number(match[1]))).toString('latin1'));
+  }
+  return streams;
+}
+
+describe('textWidth / wrapText', () => {
+  it('misura il testo con le larghezze AFM di Helvetica', () => {
+    expect(textWidth('A', 'regular', 10)).toBeCloseTo(6.67, 5);
+    expect(textWidth('A', 'bold', 10)).toBeCloseTo(7.22, 5);
+    expect(textWidth('AA', 'regular', 20)).toBeCloseTo(26.68, 5);
+  });
+
+  it('va a capo tra le parole, su "\\n" e spezza le parole troppo lunghe', () => {
+    const width = textWidth('uno due', 'regular', 10);
+    expect(wrapText('uno due tre', 'regular', 10, width)).toEqual(['uno due', 'tre']);
+    expect(wrapText('uno\ndue', 'regular', 10, 1000)).toEqual(['uno', 'due']);
+    expect(wrapText('AAAAAA', 'regular', 10, textWidth('AAAA', 'regular', 10))).toEqual(['AAAA', 'AA']);
+  });
+});
+
+describe('decodePng', () => {
+  it('toglie i filtri di riga e separa colore e trasparenza', () => {
+    const image = decodePng(png(2, 2, 6, [
+      [0, 255, 0, 0, 255, 0, 0, 255, 128], // nessun filtro: rosso opaco, blu semitrasparente
+      [1, 0, 255, 0, 255, 0, 0, 0, 0], // Sub: verde opaco, poi uguale al pixel a sinistra
+    ]));
+
+    expect([image.width, image.height]).toEqual([2, 2]);
+    expect([...inflateSync(image.rgb)]).toEqual([255, 0, 0, 0, 0, 255, 0, 255, 0, 0, 255, 0]);
+    expect([...inflateSync(image.alpha!)]).toEqual([255, 128, 255, 255]);
+  });
+
+  it('riduce le immagini oltre maxSize con media pesata per l\'alfa', () => {
+    const image = decodePng(png(2, 1, 4, [[0, 0, 255, 200, 0]]), 1);
+    expect([image.width, image.height]).toEqual([1, 1]);
+    // Il pixel trasparente non scurisce il risultato
+    expect([...inflateSync(image.rgb)]).toEqual([0, 0, 0]);
+    expect([...inflateSync(image.alpha!)]).toEqual([128]);
+  });
+
+  it('rifiuta file non PNG e formati non supportati', () => {
+    expect(() => decodePng(Buffer.from('GIF89a-non-png'))).toThrow('File PNG non valido');
+    expect(() => decodePng(png(1, 1, 3, [[0, 0]]))).toThrow(/non supportato/);
+  });
+});
+
+describe('PdfDocument', () => {
+  it('scrive un PDF con xref coerente e testo in WinAnsi con escape', () => {
+    const doc = new PdfDocument();
+    doc.paragraph('Compenso (IVA esclusa): 1.000 €', { font: 'bold' });
+    const pdf = doc.toBuffer();
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), m => Number(m[1]));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true));
+    expect(text).toContain(`<< /Size ${offsets.length + 1} /Root 1 0 R >>`);
+
+    const [content] = pageStreams(pdf);
+    expect(content).toContain('/F2 10 Tf');
+    expect(content).toContain('(Compenso \\(IVA esclusa\\): 1.000 \x80) Tj');
+  });
+
+  it('aggiunge pagine quando lo spazio finisce, con piè di pagina numerato', () => {
+    let pagine = 0;
+    const doc = new PdfDocument(50, 60, () => { pagine++; });
+    for (let i = 1; i <= 80; i++) doc.paragraph(`Riga ${i}`);
+    const pdf = doc.toBuffer((page, total) => `Pagina ${page} di ${total}`);
+
+    expect(pagine).toBe(2);
+    expect(pdf.toString('latin1')).toContain('/Count 2');
+    const streams = pageStreams(pdf);
+    expect(streams).toHaveLength(2);
+    expect(streams[0]).toContain('(Riga 1) Tj');
+    expect(streams[1]).toContain('(Riga 80) Tj');
+    expect(streams[1]).toContain('(Pagina 2 di 2) Tj');
+  });
+});
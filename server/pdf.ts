@@ -0,0 +1,406 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+// ============================================================================
+// Esportazione PDF minimale
+// ============================================================================
+// Scrive documenti PDF 1.4 A4 senza dipendenze: font standard Helvetica in
+// WinAnsiEncoding, testo con a capo automatico, righe a colonne, linee e
+// immagini PNG (trasparenza come SMask). Le coordinate di impaginazione sono
+// in punti dall'angolo in alto a sinistra.
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+const FONTS: Record<PdfFont, { key: string; baseFont: string }> = {
+  regular: { key: 'F1', baseFont: 'Helvetica' },
+  bold: { key: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { key: 'F3', baseFont: 'Helvetica-Oblique' },
+};
+
+// Larghezze AFM (millesimi di em) dei caratteri ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Caratteri fuori da Latin-1 presenti in WinAnsiEncoding
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code < 127) return code;
+  if (WIN_ANSI[char]) return WIN_ANSI[char];
+  if (code >= 0xa0 && code <= 0xff) return code;
+  if (code === 0x202f || code === 0x2009) return 0xa0; // spazi sottili di Intl.NumberFormat
+  return 63; // ?
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code < 127) return widths[code - 32];
+  if (code === 0xa0) return 278;
+  if ((code >= 0xcc && code <= 0xcf) || (code >= 0xec && code <= 0xef)) return 278; // Ì-Ï, ì-ï
+  if (code >= 0xc0 && code <= 0xde) return 722;
+  return 556;
+}
+
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(winAnsiCode(char), font);
+  return (width * size) / 1000;
+}
+
+// Righe che stanno nella larghezza indicata; "\n" forza l'a capo
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Parola più lunga della riga: spezzata a caratteri
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const encodeText = (text: string) =>
+  Array.from(text, char => String.fromCharCode(winAnsiCode(char)))
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`);
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+// ============================================================================
+// Immagini PNG
+// ============================================================================
+export interface PdfImage {
+  width: number;
+  height: number;
+  rgb: Buffer; // compresso (FlateDecode)
+  alpha?: Buffer; // compresso, se l'immagine ha trasparenza
+}
+
+const CANALI_PNG: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// PNG a 8 bit non interlacciati (grigio, RGB, con o senza alfa). Le immagini
+// più grandi di maxSize pixel vengono ridotte con media a blocchi.
+export function decodePng(data: Buffer, maxSize = Infinity): PdfImage {
+  if (data.readUInt32BE(0) !== 0x89504e47) throw new Error('File PNG non valido');
+  let offset = 8;
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  const idat: Buffer[] = [];
+  while (offset < data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  const channels = CANALI_PNG[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) {
+    throw new Error('Formato PNG non supportato (solo 8 bit, non interlacciato, senza palette)');
+  }
+
+  // Rimozione dei filtri di riga
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+      const value = raw[src + x];
+      pixels[row + x] = filter === 1 ? value + left
+        : filter === 2 ? value + up
+        : filter === 3 ? value + ((left + up) >> 1)
+        : filter === 4 ? value + paeth(left, up, upLeft)
+        : value;
+    }
+  }
+
+  const hasAlpha = colorType === 4 || colorType === 6;
+  const scale = Math.max(1, Math.ceil(Math.max(width, height) / maxSize));
+  const outWidth = Math.ceil(width / scale);
+  const outHeight = Math.ceil(height / scale);
+  const rgb = Buffer.alloc(outWidth * outHeight * 3);
+  const alpha = Buffer.alloc(outWidth * outHeight);
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let y = oy * scale; y < Math.min(height, (oy + 1) * scale); y++) {
+        for (let x = ox * scale; x < Math.min(width, (ox + 1) * scale); x++) {
+          const p = y * stride + x * channels;
+          const gray = channels < 3;
+          const pa = hasAlpha ? pixels[p + channels - 1] : 255;
+          // Colori pesati per l'alfa: i bordi trasparenti non scuriscono il logo
+          r += pixels[p] * pa;
+          g += pixels[gray ? p : p + 1] * pa;
+          b += pixels[gray ? p : p + 2] * pa;
+          a += pa;
+          count++;
+        }
+      }
+      const o = oy * outWidth + ox;
+      rgb[o * 3] = a ? Math.round(r / a) : 255;
+      rgb[o * 3 + 1] = a ? Math.round(g / a) : 255;
+      rgb[o * 3 + 2] = a ? Math.round(b / a) : 255;
+      alpha[o] = Math.round(a / count);
+    }
+  }
+
+  return {
+    width: outWidth,
+    height: outHeight,
+    rgb: deflateSync(rgb),
+    alpha: hasAlpha ? deflateSync(alpha) : undefined,
+  };
+}
+
+// ============================================================================
+// Documento
+// ============================================================================
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  gray?: number; // 0 nero, 1 bianco
+}
+
+export interface PdfParagraphOptions extends PdfTextOptions {
+  x?: number;
+  width?: number;
+  align?: 'left' | 'right' | 'center';
+  lineHeight?: number; // multiplo della dimensione del font
+  spaceAfter?: number;
+}
+
+export interface PdfCell extends PdfTextOptions {
+  text: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export class PdfDocument {
+  readonly width = A4.width;
+  readonly height = A4.height;
+  y = 0;
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+
+  constructor(
+    readonly margin = 50,
+    readonly bottomMargin = 60,
+    private readonly onNewPage?: (doc: PdfDocument) => void
+  ) {
+    this.addPage();
+  }
+
+  get contentWidth(): number {
+    return this.width - this.margin * 2;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = this.margin;
+    this.onNewPage?.(this);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  // Nuova pagina se lo spazio verticale richiesto non c'è
+  ensureSpace(height: number): void {
+    if (this.y + height > this.height - this.bottomMargin) this.addPage();
+  }
+
+  moveDown(points: number): void {
+    this.y += points;
+  }
+
+  // y = linea di base dall'alto della pagina
+  text(text: string, x: number, y: number, { font = 'regular', size = 10, gray = 0 }: PdfTextOptions = {}): void {
+    this.ops.push(
+      `${num(gray)} g BT /${FONTS[font].key} ${num(size)} Tf 1 0 0 1 ${num(x)} ${num(this.height - y)} Tm (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5, gray = 0): void {
+    this.ops.push(
+      `${num(gray)} G ${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, gray: number): void {
+    this.ops.push(`${num(gray)} g ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(image);
+    if (index < 0) index = this.images.push(image) - 1;
+    this.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${index + 1} Do Q`);
+  }
+
+  paragraph(text: string, options: PdfParagraphOptions = {}): void {
+    const { font = 'regular', size = 10, gray = 0, x = this.margin, width = this.contentWidth, align = 'left' } = options;
+    const lineHeight = size * (options.lineHeight ?? 1.35);
+    for (const line of wrapText(text, font, size, width)) {
+      this.ensureSpace(lineHeight);
+      this.y += lineHeight;
+      const offset = align === 'left' ? 0 : width - textWidth(line, font, size);
+      this.text(line, x + (align === 'center' ? offset / 2 : offset), this.y - size * 0.25, { font, size, gray });
+    }
+    this.y += options.spaceAfter ?? 0;
+  }
+
+  // Riga a colonne: ogni cella va a capo nella propria larghezza
+  row(cells: PdfCell[], { size = 9, padding = 4, fill }: { size?: number; padding?: number; fill?: number } = {}): void {
+    const lineHeight = size * 1.3;
+    const wrapped = cells.map(cell =>
+      wrapText(cell.text, cell.font ?? 'regular', cell.size ?? size, cell.width - padding * 2)
+    );
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding;
+    this.ensureSpace(height);
+    if (fill !== undefined) {
+      this.fillRect(this.margin, this.y, cells.reduce((sum, c) => sum + c.width, 0), height, fill);
+    }
+    let x = this.margin;
+    cells.forEach((cell, i) => {
+      const font = cell.font ?? 'regular';
+      const cellSize = cell.size ?? size;
+      wrapped[i].forEach((line, n) => {
+        const lineX = cell.align === 'right'
+          ? x + cell.width - padding - textWidth(line, font, cellSize)
+          : x + padding;
+        this.text(line, lineX, this.y + padding / 2 + (n + 1) * lineHeight - size * 0.3, { font, size: cellSize, gray: cell.gray });
+      });
+      x += cell.width;
+    });
+    this.y += height;
+  }
+
+  // footer: testo a piè di pagina, con numero pagina e totale
+  toBuffer(footer?: (page: number, total: number) => string): Buffer {
+    const fontIds = { regular: 3, bold: 4, italic: 5 };
+    const firstImageId = 6;
+    const imageIds = this.images.map((image, i) => firstImageId + i * 2);
+    const firstPageId = firstImageId + this.images.length * 2;
+
+    const objects: Array<Buffer | string> = [];
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${firstPageId + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    for (const font of Object.keys(fontIds) as PdfFont[]) {
+      objects[fontIds[font]] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font].baseFont} /Encoding /WinAnsiEncoding >>`;
+    }
+
+    const stream = (dict: string, data: Buffer) =>
+      Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+    this.images.forEach((image, i) => {
+      const id = imageIds[i];
+      const common = `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+      objects[id] = stream(`${common} /ColorSpace /DeviceRGB${image.alpha ? ` /SMask ${id + 1} 0 R` : ''}`, image.rgb);
+      objects[id + 1] = image.alpha ? stream(`${common} /ColorSpace /DeviceGray`, image.alpha) : '<< >>';
+    });
+
+    const fonts = (Object.keys(fontIds) as PdfFont[]).map(f => `/${FONTS[f].key} ${fontIds[f]} 0 R`).join(' ');
+    const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ');
+    this.pages.forEach((ops, i) => {
+      const pageId = firstPageId + i * 2;
+      const content = [...ops];
+      const testo = footer?.(i + 1, this.pages.length);
+      if (testo) {
+        const size = 7.5;
+        content.push(
+          `0.5 g BT /F1 ${size} Tf 1 0 0 1 ${num((this.width - textWidth(testo, 'regular', size)) / 2)} ${num(this.bottomMargin / 2)} Tm (${encodeText(testo)}) Tj ET`
+        );
+      }
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << ${fonts} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = stream('/Filter /FlateDecode', deflateSync(Buffer.from(content.join('\n'), 'latin1')));
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = length;
+      const body = objects[id];
+      const chunk = Buffer.concat([
+        Buffer.from(`${id} 0 obj\n`, 'latin1'),
+        typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+    }
+
+    const xref = [
+      'xref',
+      `0 ${objects.length}`,
+      '0000000000 65535 f ',
+      ...offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length} /Root 1 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,163 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { User } from '@shared/schema';
+import type { DataStorage } from './storage.js';
+
+// ============================================================================
+// Ruoli e azioni
+// ============================================================================
+export type Role = 'admin' | 'operativo';
+export type Action = 'read' | 'create' | 'update' | 'delete';
+
+const ALL: Action[] = ['read', 'create', 'update', 'delete'];
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: User;
+    }
+  }
+}
+
+// Supporta anche i ruoli legacy presenti in users.json
+export function normalizeRole(role: string | undefined): Role {
+  return role === 'admin' || role === 'amministratore' ? 'admin' : 'operativo';
+}
+
+// ============================================================================
+// Matrice permessi (ruolo × risorsa × azione)
+// ============================================================================
+// La risorsa è il primo segmento del path dopo /api. Le risorse non elencate
+// sono riservate agli admin.
+export const PERMISSIONS: Record<string, Partial<Record<Role, Action[]>>> = {
+  'projects': { admin: ALL, operativo: ['read', 'update'] },
+  'generate-code': { admin: ALL },
+  'clients': { admin: ALL, operativo: ['read'] },
+  'fatture-ingresso': { admin: ALL, operativo: ['read'] },
+  'costi-vivi': { admin: ALL, operativo: ALL }, // operativo: solo i propri record
+  'prestazioni': { admin: ALL, operativo: ALL }, // operativo: solo i propri record
+  'deadlines': { admin: ALL, operativo: ALL },
+  'communications': { admin: ALL, operativo: ALL },
+  'tags': { admin: ALL, operativo: ALL },
+  'project-tags': { admin: ALL, operativo: ALL },
+  'project-resources': { admin: ALL, operativo: ALL },
+  'onedrive': { admin: ALL, operativo: ['read'] },
+  'upload': { admin: ALL, operativo: ['create'] },
+  'activity-logs': { admin: ALL, operativo: ['read', 'create'] }, // operativo: solo il proprio log
+  'account': { admin: ALL, operativo: ['create'] }, // POST change-password della propria utenza
+  'parcella': { admin: ALL, operativo: ['create'] }, // solo calcolo, nessun dato salvato
+
+  // Solo ADMIN
+  'users': { admin: ALL },
+  'profili-costo': { admin: ALL },
+  'fatture-emesse': { admin: ALL },
+  'fatture-consulenti': { admin: ALL },
+  'cash-flow': { admin: ALL }, // importi delle fatture emesse e consulenti
+  'fatture-in-scadenza': { admin: ALL },
+  'costi-generali': { admin: ALL },
+  'solleciti': { admin: ALL },
+  'aging': { admin: ALL },
+  'movimenti-bancari': { admin: ALL },
+  'previsione-cassa': { admin: ALL },
+  'ripartizione-costi': { admin: ALL },
+  'preventivi': { admin: ALL },
+  'settings': { admin: ALL },
+  'export': { admin: ALL },
+  'import': { admin: ALL },
+};
+
+export function can(role: Role, resource: string, action: Action): boolean {
+  return PERMISSIONS[resource]?.[role]?.includes(action) ?? role === 'admin';
+}
+
+function actionForMethod(method: string): Action {
+  switch (method.toUpperCase()) {
+    case 'GET':
+    case 'HEAD':
+      return 'read';
+    case 'POST':
+      return 'create';
+    case 'PUT':
+    case 'PATCH':
+      return 'update';
+    case 'DELETE':
+      return 'delete';
+    default:
+      return 'read';
+  }
+}
+
+// Path relativo al mount /api, es. "/costi-vivi/123" -> "costi-vivi"
+function resourceForPath(apiPath: string): string {
+  if (/^\/users\/[^/]+\/change-password$/.test(apiPath)) return 'account';
+  return apiPath.split('/')[1] ?? '';
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+// Applicato a tutte le route /api dopo requireAuth
+export function authorize(req: Request, res: Response, next: NextFunction) {
+  const user = req.currentUser;
+  if (!user) {
+    return res.status(401).json({ error: 'Non autenticato' });
+  }
+
+  const resource = resourceForPath(req.path);
+  const action = actionForMethod(req.method);
+  if (!can(normalizeRole(user.role), resource, action)) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Permessi insufficienti per questa operazione'
+    });
+  }
+  next();
+}
+
+export function isAdmin(req: Request): boolean {
+  return normalizeRole(req.currentUser?.role) === 'admin';
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (isAdmin(req)) return next();
+  res.status(403).json({ error: 'Forbidden', message: 'Operazione riservata agli amministratori' });
+}
+
+// Consente l'accesso all'admin o all'utente il cui id è in req.params[param]
+export function requireSelfOrAdmin(param: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isAdmin(req) || req.params[param] === req.currentUser?.id) return next();
+    res.status(403).json({ error: 'Forbidden', message: 'Puoi operare solo sulla tua utenza' });
+  };
+}
+
+// Regola di proprietà per gli operativi: possono creare record solo a proprio
+// nome e modificare/eliminare solo i record con `field` uguale al proprio id
+export function requireOwnership<T extends { id: string }>(storage: DataStorage<T>, field: keyof T & string = 'userId' as keyof T & string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (isAdmin(req)) return next();
+
+    const userId = req.currentUser?.id;
+    const forbidden = () => res.status(403).json({
+      error: 'Forbidden',
+      message: 'Puoi modificare solo i record inseriti da te'
+    });
+
+    try {
+      if (req.body && field in req.body && req.body[field] !== userId) {
+        return forbidden();
+      }
+
+      if (req.method === 'POST') {
+        req.body = { ...req.body, [field]: userId };
+        return next();
+      }
+
+      const record = await storage.findById(req.params.id);
+      if (!record) return next(); // la route risponde 404
+      if (record[field] !== userId) return forbidden();
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
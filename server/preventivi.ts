@@ -0,0 +1,169 @@
+import { randomUUID } from 'crypto';
+import type {
+  ConvertiPreventivo,
+  InsertPreventivo,
+  InsertRevisionePreventivo,
+  Preventivo,
+  Project,
+  ProjectMetadata,
+  RevisionePreventivo,
+  StatoPreventivo
+} from '@shared/schema';
+import { PRESTAZIONI, LIVELLI_PROGETTAZIONE, insertProjectSchema } from '@shared/schema';
+import { ParcellaError, calcolaCompenso, livelloProgettazione, prestazioneCommessa } from '@shared/parcella';
+import { clientsStorage, preventiviStorage, projectsStorage } from './storage.js';
+
+// ============================================================================
+// Preventivi e revisioni
+// ============================================================================
+// Il client invia opere, prestazioni, sconto e aliquote; parcella e riepilogo
+// fattura della revisione sono ricalcolati qui. Una nuova revisione riporta
+// il preventivo in bozza; un preventivo accettato non si modifica più.
+
+export class PreventivoError extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+// PREV-2026-001: progressivo per anno
+async function prossimoNumero(anno: number): Promise<string> {
+  const prefisso = `PREV-${anno}-`;
+  const ultimo = (await preventiviStorage.readAll())
+    .filter(p => p.numero.startsWith(prefisso))
+    .reduce((max, p) => Math.max(max, parseInt(p.numero.slice(prefisso.length), 10) || 0), 0);
+  return `${prefisso}${String(ultimo + 1).padStart(3, '0')}`;
+}
+
+function creaRevisione(input: InsertRevisionePreventivo, numero: number, createdBy?: string): RevisionePreventivo {
+  try {
+    return {
+      ...input,
+      ...calcolaCompenso(input),
+      numero,
+      data: new Date().toISOString(),
+      createdBy,
+    };
+  } catch (error) {
+    if (error instanceof ParcellaError) throw new PreventivoError('opere', error.message);
+    throw error;
+  }
+}
+
+export const ultimaRevisione = (preventivo: Preventivo) => preventivo.revisioni[preventivo.revisioni.length - 1];
+
+export async function creaPreventivo(data: InsertPreventivo, createdBy?: string): Promise<Preventivo> {
+  if (!await clientsStorage.findById(data.clientId)) {
+    throw new PreventivoError('clientId', 'Cliente non trovato');
+  }
+  const now = new Date().toISOString();
+  const preventivo: Preventivo = {
+    id: randomUUID(),
+    numero: await prossimoNumero(new Date().getFullYear()),
+    clientId: data.clientId,
+    oggetto: data.oggetto,
+    city: data.city,
+    stato: 'bozza',
+    revisioni: [creaRevisione(data.revisione, 1, createdBy)],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return preventiviStorage.create(preventivo);
+}
+
+export async function aggiungiRevisione(
+  preventivo: Preventivo,
+  input: InsertRevisionePreventivo,
+  createdBy?: string
+): Promise<Preventivo> {
+  if (preventivo.stato === 'accettato') {
+    throw new PreventivoError('stato', 'Il preventivo è già stato accettato');
+  }
+  const revisione = creaRevisione(input, ultimaRevisione(preventivo).numero + 1, createdBy);
+  const updated = await preventiviStorage.update(preventivo.id, {
+    revisioni: [...preventivo.revisioni, revisione],
+    stato: 'bozza',
+    dataInvio: '',
+    dataEsito: '',
+    updatedAt: new Date().toISOString(),
+  });
+  return updated!;
+}
+
+export async function cambiaStato(preventivo: Preventivo, stato: StatoPreventivo): Promise<Preventivo> {
+  if (preventivo.projectId) {
+    throw new PreventivoError('stato', 'Il preventivo è già stato convertito in commessa');
+  }
+  const oggi = todayISO();
+  const updated = await preventiviStorage.update(preventivo.id, {
+    stato,
+    dataInvio: stato === 'bozza' ? '' : stato === 'inviato' ? oggi : preventivo.dataInvio || oggi,
+    dataEsito: stato === 'accettato' || stato === 'rifiutato' ? oggi : '',
+    updatedAt: new Date().toISOString(),
+  });
+  return updated!;
+}
+
+// ============================================================================
+// Conversione in commessa
+// ============================================================================
+export function metadataDaPreventivo(preventivo: Preventivo): ProjectMetadata {
+  const revisione = ultimaRevisione(preventivo);
+  const codici = revisione.opere.flatMap(o => o.prestazioni);
+  const prestazioni = PRESTAZIONI.filter(p => codici.some(c => prestazioneCommessa(c) === p));
+  const livelli = LIVELLI_PROGETTAZIONE.filter(l => codici.some(c => livelloProgettazione(c) === l));
+  const operaPrincipale = revisione.opere.reduce((max, o) => (o.importoOpere > max.importoOpere ? o : max));
+  const importoOpere = round2(revisione.opere.reduce((sum, o) => sum + o.importoOpere, 0));
+  const importoServizio = revisione.fattura.compensoNetto;
+
+  return {
+    prestazioni,
+    ...(prestazioni.includes('progettazione') ? { livelloProgettazione: livelli } : {}),
+    classeDM143: operaPrincipale.idOpera.replace('.', ''),
+    importoOpere,
+    importoServizio,
+    percentualeParcella: importoOpere > 0 ? Math.min(100, round2(importoServizio / importoOpere * 100)) : undefined,
+    preventivoId: preventivo.id,
+  };
+}
+
+export async function convertiInCommessa(
+  preventivo: Preventivo,
+  options: ConvertiPreventivo & { code: string; year: number }
+): Promise<Project> {
+  if (preventivo.stato !== 'accettato') {
+    throw new PreventivoError('stato', 'Solo un preventivo accettato può diventare una commessa');
+  }
+  if (preventivo.projectId) {
+    throw new PreventivoError('stato', 'Il preventivo è già stato convertito in commessa');
+  }
+  const client = await clientsStorage.findById(preventivo.clientId);
+  if (!client) {
+    throw new PreventivoError('clientId', 'Cliente non trovato');
+  }
+  if ((await projectsStorage.findByField('code', options.code)).length > 0) {
+    throw new PreventivoError('code', `Il codice ${options.code} è già usato da un'altra commessa`);
+  }
+
+  const validationResult = insertProjectSchema.safeParse({
+    code: options.code,
+    client: client.sigla,
+    city: preventivo.city || client.city || '',
+    object: preventivo.oggetto,
+    year: options.year,
+    template: options.template,
+    metadata: metadataDaPreventivo(preventivo),
+  });
+  if (!validationResult.success) {
+    const [field, messages] = Object.entries(validationResult.error.flatten().fieldErrors)[0] ?? ['project', []];
+    throw new PreventivoError(field, messages?.[0] ?? 'Dati commessa non validi');
+  }
+
+  const project = await projectsStorage.create({ id: randomUUID(), ...validationResult.data });
+  await preventiviStorage.update(preventivo.id, { projectId: project.id, updatedAt: new Date().toISOString() });
+  return project;
+}
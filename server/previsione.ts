@@ -0,0 +1,177 @@
+import type {
+  CostoGenerale,
+  MesePrevisione,
+  OriginePrevisione,
+  PrevisioneCassa,
+  SerieCostoGenerale,
+  VocePrevisione
+} from '@shared/schema';
+import {
+  clientsStorage,
+  costiGeneraliStorage,
+  impostazioniPrevisioneStorage,
+  projectsStorage,
+  serieCostiGeneraliStorage
+} from './storage.js';
+import { documentiAperti, type DocumentoAperto } from './aging.js';
+import {
+  MESI_PERIODICITA,
+  addDays,
+  addMonths,
+  dateOccorrenze,
+  daysBetween,
+  importoAllaData,
+  limiteGenerazione
+} from './costi-ricorrenti.js';
+
+// ============================================================================
+// Previsione di cassa mensile
+// ============================================================================
+// Dodici mesi a partire da quello della data di riferimento. Le voci con
+// scadenza già passata vanno nel primo mese; quelle oltre l'orizzonte sono
+// escluse. Importi in euro (le fatture ingresso arrivano già convertite).
+
+export const IMPOSTAZIONI_PREVISIONE_ID = 'default';
+export const MESI_PREVISIONE = 12;
+
+const ORIGINE_DOCUMENTO: Record<DocumentoAperto['tipo'], OriginePrevisione> = {
+  emessa: 'fattura_emessa',
+  ingresso: 'fattura_ingresso',
+  consulente: 'fattura_consulente',
+  costo_generale: 'costo_generale',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const meseDi = (data: string) => data.slice(0, 7);
+
+export async function getSaldoIniziale(): Promise<{ saldoIniziale: number; updatedAt?: string }> {
+  const impostazioni = await impostazioniPrevisioneStorage.findById(IMPOSTAZIONI_PREVISIONE_ID);
+  return { saldoIniziale: impostazioni?.saldoIniziale ?? 0, updatedAt: impostazioni?.updatedAt };
+}
+
+// Occorrenze delle serie oltre l'orizzonte del generatore (quelle già
+// generate sono costi generali aperti)
+export function occorrenzeSerie(serie: SerieCostoGenerale[], dal: string, al: string, oggi: string): VocePrevisione[] {
+  const daGenerare = addDays(limiteGenerazione(oggi), 1);
+  return serie
+    .filter(s => s.attiva)
+    .flatMap(s => dateOccorrenze(s, `${al}-31`, daGenerare > dal ? daGenerare : dal)
+      .filter(data => !s.occorrenzeEscluse.includes(data))
+      .map(data => ({
+        origine: 'costo_ricorrente' as const,
+        descrizione: s.descrizione,
+        controparte: s.fornitore,
+        data: addDays(data, s.giorniScadenza),
+        importo: -importoAllaData(s, data),
+      })));
+}
+
+// Costi ricorrenti inseriti senza serie: prossime occorrenze dopo l'ultima
+// registrata. Sono raggruppati per categoria, fornitore e periodicità; la
+// scadenza mantiene lo scostamento dell'ultima occorrenza.
+export function occorrenzeRicorrenti(costi: CostoGenerale[], dal: string, al: string): VocePrevisione[] {
+  const ultime = new Map<string, CostoGenerale>();
+  for (const costo of costi.filter(c => c.ricorrente && c.periodicita && !c.serieId)) {
+    const chiave = [costo.categoria, costo.fornitore.trim().toUpperCase(), costo.periodicita].join('|');
+    const ultima = ultime.get(chiave);
+    if (!ultima || costo.data > ultima.data) ultime.set(chiave, costo);
+  }
+
+  const voci: VocePrevisione[] = [];
+  for (const ultima of Array.from(ultime.values())) {
+    const passo = MESI_PERIODICITA[ultima.periodicita!];
+    const scostamento = ultima.dataScadenza ? daysBetween(ultima.data, ultima.dataScadenza) : 0;
+    for (let k = 1; ; k++) {
+      const data = addDays(addMonths(ultima.data, k * passo), scostamento);
+      if (meseDi(data) > meseDi(al)) break;
+      if (data < dal) continue;
+      voci.push({
+        origine: 'costo_ricorrente',
+        descrizione: ultima.descrizione,
+        controparte: ultima.fornitore,
+        data,
+        importo: -ultima.importo,
+      });
+    }
+  }
+  return voci;
+}
+
+export async function buildPrevisioneCassa(dataRiferimento: string): Promise<PrevisioneCassa> {
+  const mesi = Array.from({ length: MESI_PREVISIONE }, (_, i) => meseDi(addMonths(`${meseDi(dataRiferimento)}-01`, i)));
+  const inizio = `${mesi[0]}-01`;
+  const ultimoMese = mesi[mesi.length - 1];
+
+  const voci: VocePrevisione[] = [];
+
+  // Crediti e debiti aperti; i crediti in contenzioso non sono previsti in incasso
+  const { crediti, debiti } = await documentiAperti();
+  for (const doc of [...crediti.filter(d => !d.inContenzioso), ...debiti]) {
+    voci.push({
+      origine: ORIGINE_DOCUMENTO[doc.tipo],
+      descrizione: doc.numero ? `${doc.numero} - ${doc.descrizione}` : doc.descrizione,
+      controparte: doc.controparte,
+      projectId: doc.projectId,
+      documentoId: doc.id,
+      data: (doc.dataScadenza || doc.dataDocumento).slice(0, 10),
+      importo: doc.tipo === 'emessa' ? doc.residuo : -doc.residuo,
+    });
+  }
+
+  voci.push(...occorrenzeRicorrenti(await costiGeneraliStorage.readAll(), inizio, ultimoMese));
+  voci.push(...occorrenzeSerie(await serieCostiGeneraliStorage.readAll(), inizio, ultimoMese, dataRiferimento));
+
+  // Rate di compenso previste nei metadata di commessa, non ancora fatturate
+  const nomiCliente = new Map((await clientsStorage.readAll()).map(c => [c.sigla, c.name]));
+  for (const project of await projectsStorage.readAll()) {
+    for (const rata of (project.metadata?.pianoIncassi ?? []).filter(r => !r.fatturata)) {
+      voci.push({
+        origine: 'rata_compenso',
+        descrizione: `${project.code} - ${rata.descrizione}`,
+        controparte: nomiCliente.get(project.client) ?? project.client,
+        projectId: project.id,
+        data: rata.data.slice(0, 10),
+        importo: rata.importo,
+      });
+    }
+  }
+
+  const perMese = new Map<string, VocePrevisione[]>(mesi.map(m => [m, []]));
+  for (const voce of voci) {
+    if (voce.data < dataRiferimento) {
+      perMese.get(mesi[0])!.push({ ...voce, scaduta: true });
+    } else if (meseDi(voce.data) <= ultimoMese) {
+      perMese.get(meseDi(voce.data))!.push(voce);
+    }
+  }
+
+  const { saldoIniziale, updatedAt } = await getSaldoIniziale();
+  let saldo = saldoIniziale;
+  const risultato: MesePrevisione[] = mesi.map(mese => {
+    const vociMese = perMese.get(mese)!.sort((a, b) => a.data.localeCompare(b.data));
+    const entrate = round2(vociMese.filter(v => v.importo > 0).reduce((sum, v) => sum + v.importo, 0));
+    const uscite = round2(-vociMese.filter(v => v.importo < 0).reduce((sum, v) => sum + v.importo, 0));
+    const saldoMese = saldo;
+    saldo = round2(saldo + entrate - uscite);
+    return {
+      mese,
+      saldoIniziale: saldoMese,
+      entrate,
+      uscite,
+      saldoFinale: saldo,
+      negativo: saldo < 0,
+      voci: vociMese,
+    };
+  });
+
+  const minimo = risultato.reduce((min, m) => (m.saldoFinale < min.saldoFinale ? m : min), risultato[0]);
+  return {
+    dataRiferimento,
+    saldoIniziale,
+    saldoAggiornatoIl: updatedAt,
+    mesi: risultato,
+    mesiNegativi: risultato.filter(m => m.negativo).map(m => m.mese),
+    saldoMinimo: { mese: minimo.mese, saldo: minimo.saldoFinale },
+  };
+}
@@ -0,0 +1,257 @@
+import { randomUUID } from 'crypto';
+import type {
+  AbbinamentoMovimento,
+  CandidatoRiconciliazione,
+  MovimentoBancario,
+  PagamentoFattura,
+  Riconciliazione,
+  TipoDocumentoRiconciliabile,
+  TipoFatturaPagamento
+} from '@shared/schema';
+import { clientsStorage, costiGeneraliStorage, movimentiBancariStorage, pagamentiFattureStorage } from './storage.js';
+import { documentiAperti, type DocumentoAperto } from './aging.js';
+import { syncInvoicePaymentFlags } from './payments.js';
+
+// ============================================================================
+// Riconciliazione movimenti bancari
+// ============================================================================
+// Ogni documento aperto nella stessa direzione del movimento riceve un
+// punteggio da importo, numero documento nella causale, nome della
+// controparte, IBAN già usato per la stessa controparte e data compatibile.
+// La conferma registra i pagamenti con la data contabile della banca.
+
+export class RiconciliazioneError extends Error {}
+
+const EPSILON = 0.005;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const PUNTEGGIO_MINIMO = 30;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const TIPO_DOCUMENTO: Record<DocumentoAperto['tipo'], TipoDocumentoRiconciliabile> = {
+  emessa: 'emesse',
+  ingresso: 'ingresso',
+  consulente: 'consulenti',
+  costo_generale: 'costi-generali',
+};
+
+// Forme societarie e parole comuni che non identificano la controparte
+const STOP_WORDS = new Set(['SRL', 'SRLS', 'SPA', 'SNC', 'SAS', 'SOC', 'COOP', 'STUDIO', 'DITTA', 'DEI', 'DEL', 'DELLA', 'E', 'DI']);
+
+const tokens = (value: string | undefined) =>
+  (value ?? '').toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^A-Z0-9]+/).filter(Boolean);
+
+const stripZeros = (token: string) => token.replace(/^0+(?=.)/, '');
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to.slice(0, 10)).getTime() - new Date(from.slice(0, 10)).getTime()) / MS_PER_DAY);
+
+// Numero documento nella causale: sequenza di token consecutiva ("FT 12/2026", "fattura n. 012-2026")
+function numeroInCausale(numero: string, causale: string[]): boolean {
+  const parti = tokens(numero).map(stripZeros);
+  if (parti.length === 0 || (parti.length === 1 && parti[0].length < 3)) return false;
+  const testo = causale.map(stripZeros);
+  return testo.some((_, i) => parti.every((p, j) => testo[i + j] === p));
+}
+
+function nomeInCausale(nomi: string[], causale: Set<string>): boolean {
+  return nomi.some(nome => {
+    const significativi = tokens(nome).filter(t => t.length >= 3 && !STOP_WORDS.has(t));
+    if (significativi.length === 0) return false;
+    const trovati = significativi.filter(t => causale.has(t)).length;
+    return trovati / significativi.length >= 0.5;
+  });
+}
+
+interface ContestoRiconciliazione {
+  crediti: DocumentoAperto[];
+  debiti: DocumentoAperto[];
+  nomiCliente: Map<string, string>; // sigla -> ragione sociale
+  ibanNoti: Map<string, Set<string>>; // IBAN -> controparti già riconciliate
+}
+
+const chiaveControparte = (nome: string) => tokens(nome).join(' ');
+
+export async function contestoRiconciliazione(): Promise<ContestoRiconciliazione> {
+  const { crediti, debiti } = await documentiAperti();
+  const clients = await clientsStorage.readAll();
+  const nomiCliente = new Map(clients.map(c => [c.sigla.toUpperCase(), c.name]));
+
+  // Controparti dei documenti già abbinati, per IBAN del movimento
+  const ibanNoti = new Map<string, Set<string>>();
+  for (const movimento of await movimentiBancariStorage.findByField('stato', 'riconciliato')) {
+    if (!movimento.iban) continue;
+    for (const a of movimento.abbinamenti.filter(a => a.controparte)) {
+      const noti = ibanNoti.get(movimento.iban) ?? new Set<string>();
+      noti.add(chiaveControparte(a.controparte!));
+      ibanNoti.set(movimento.iban, noti);
+    }
+  }
+
+  return { crediti, debiti, nomiCliente, ibanNoti };
+}
+
+export function candidatiMovimento(movimento: MovimentoBancario, ctx: ContestoRiconciliazione): CandidatoRiconciliazione[] {
+  const importo = Math.abs(movimento.importo);
+  const documenti = movimento.importo > 0 ? ctx.crediti : ctx.debiti;
+  const causale = [...tokens(movimento.descrizione), ...tokens(movimento.controparte)];
+  const causaleSet = new Set(causale);
+
+  return documenti
+    .map(doc => {
+      const motivi: string[] = [];
+      let punteggio = 0;
+
+      if (Math.abs(doc.residuo - importo) < EPSILON) {
+        punteggio += 50;
+        motivi.push('Importo uguale al residuo');
+      } else if (importo < doc.residuo && doc.tipo !== 'costo_generale') {
+        punteggio += 15;
+        motivi.push('Possibile pagamento parziale');
+      }
+
+      if (doc.numero && numeroInCausale(doc.numero, causale)) {
+        punteggio += 30;
+        motivi.push(`Numero ${doc.numero} nella causale`);
+      }
+
+      const nomi = [doc.controparte, ctx.nomiCliente.get(doc.controparte.toUpperCase()) ?? ''];
+      if (nomeInCausale(nomi, causaleSet)) {
+        punteggio += 25;
+        motivi.push('Nome controparte nella causale');
+      }
+
+      if (movimento.iban && ctx.ibanNoti.get(movimento.iban)?.has(chiaveControparte(doc.controparte))) {
+        punteggio += 25;
+        motivi.push('IBAN già usato da questa controparte');
+      }
+
+      // Finestra: da pochi giorni prima del documento a 120 giorni dalla scadenza
+      const dalDocumento = daysBetween(doc.dataDocumento, movimento.data);
+      const dallaScadenza = daysBetween(doc.dataScadenza, movimento.data);
+      if (dalDocumento < -5) {
+        punteggio -= 30;
+      } else if (dallaScadenza <= 120) {
+        punteggio += 10;
+        motivi.push('Data compatibile con la scadenza');
+      }
+
+      return {
+        tipo: TIPO_DOCUMENTO[doc.tipo],
+        documentoId: doc.id,
+        numero: doc.numero,
+        controparte: ctx.nomiCliente.get(doc.controparte.toUpperCase()) ?? doc.controparte,
+        descrizione: doc.descrizione,
+        dataScadenza: doc.dataScadenza,
+        residuo: doc.residuo,
+        punteggio: Math.max(0, Math.min(100, punteggio)),
+        motivi,
+      };
+    })
+    .filter(c => c.punteggio >= PUNTEGGIO_MINIMO)
+    .sort((a, b) => b.punteggio - a.punteggio || a.residuo - b.residuo)
+    .slice(0, 10);
+}
+
+// ============================================================================
+// Conferma e annullamento
+// ============================================================================
+const TIPI_FATTURA: Partial<Record<TipoDocumentoRiconciliabile, TipoFatturaPagamento>> = {
+  emesse: 'emesse',
+  ingresso: 'ingresso',
+  consulenti: 'consulenti',
+};
+
+export async function riconciliaMovimento(
+  movimento: MovimentoBancario,
+  { abbinamenti }: Riconciliazione
+): Promise<MovimentoBancario> {
+  if (movimento.stato === 'riconciliato') {
+    throw new RiconciliazioneError('Il movimento è già riconciliato');
+  }
+  const totale = round2(abbinamenti.reduce((sum, a) => sum + a.importo, 0));
+  if (Math.abs(totale - Math.abs(movimento.importo)) > EPSILON) {
+    throw new RiconciliazioneError(
+      `La somma degli abbinamenti (${totale.toFixed(2)}) deve essere uguale all'importo del movimento (${Math.abs(movimento.importo).toFixed(2)})`
+    );
+  }
+  if (new Set(abbinamenti.map(a => `${a.tipo}:${a.documentoId}`)).size !== abbinamenti.length) {
+    throw new RiconciliazioneError('Lo stesso documento è indicato più volte');
+  }
+
+  // Verifica tutti gli abbinamenti prima di registrare qualcosa
+  const { crediti, debiti } = await documentiAperti();
+  const aperti = movimento.importo > 0 ? crediti : debiti;
+  for (const a of abbinamenti) {
+    const doc = aperti.find(d => TIPO_DOCUMENTO[d.tipo] === a.tipo && d.id === a.documentoId);
+    if (!doc) {
+      throw new RiconciliazioneError(
+        movimento.importo > 0
+          ? 'Un accredito si può abbinare solo a fatture emesse non saldate'
+          : 'Un addebito si può abbinare solo a fatture passive o costi generali non pagati'
+      );
+    }
+    if (a.importo > doc.residuo + EPSILON) {
+      throw new RiconciliazioneError(`L'importo abbinato supera il residuo del documento ${doc.numero || doc.descrizione} (${doc.residuo.toFixed(2)})`);
+    }
+    if (a.tipo === 'costi-generali' && Math.abs(a.importo - doc.residuo) > EPSILON) {
+      throw new RiconciliazioneError(`Il costo generale "${doc.descrizione}" non ammette pagamenti parziali`);
+    }
+  }
+
+  const registrati: AbbinamentoMovimento[] = [];
+  for (const a of abbinamenti) {
+    const doc = aperti.find(d => TIPO_DOCUMENTO[d.tipo] === a.tipo && d.id === a.documentoId)!;
+    const tipoFattura = TIPI_FATTURA[a.tipo];
+    if (!tipoFattura) {
+      await costiGeneraliStorage.update(a.documentoId, { pagato: true, dataPagamento: movimento.data });
+      registrati.push({ ...a, controparte: doc.controparte });
+      continue;
+    }
+
+    const pagamento: PagamentoFattura = {
+      id: randomUUID(),
+      fatturaTipo: tipoFattura,
+      fatturaId: a.documentoId,
+      data: movimento.data,
+      // Le fatture ingresso sono in centesimi
+      importo: tipoFattura === 'ingresso' ? Math.round(a.importo * 100) : a.importo,
+      metodo: 'bonifico',
+      note: `Riconciliazione bancaria: ${movimento.descrizione}`.slice(0, 200),
+      movimentoId: movimento.id,
+      createdAt: new Date().toISOString(),
+    };
+    await pagamentiFattureStorage.create(pagamento);
+    await syncInvoicePaymentFlags(tipoFattura, a.documentoId);
+    registrati.push({ ...a, controparte: doc.controparte, pagamentoId: pagamento.id });
+  }
+
+  const updated = await movimentiBancariStorage.update(movimento.id, {
+    stato: 'riconciliato',
+    abbinamenti: registrati,
+    dataRiconciliazione: new Date().toISOString(),
+  });
+  return updated!;
+}
+
+// Rimuove i pagamenti generati e riapre i costi generali
+export async function annullaRiconciliazione(movimento: MovimentoBancario): Promise<MovimentoBancario> {
+  for (const a of movimento.abbinamenti) {
+    const tipoFattura = TIPI_FATTURA[a.tipo];
+    if (!tipoFattura) {
+      await costiGeneraliStorage.update(a.documentoId, { pagato: false, dataPagamento: '' });
+      continue;
+    }
+    if (a.pagamentoId && await pagamentiFattureStorage.findById(a.pagamentoId)) {
+      await pagamentiFattureStorage.delete(a.pagamentoId);
+    }
+    await syncInvoicePaymentFlags(tipoFattura, a.documentoId);
+  }
+
+  const updated = await movimentiBancariStorage.update(movimento.id, {
+    stato: 'da_riconciliare',
+    abbinamenti: [],
+    dataRiconciliazione: '',
+  });
+  return updated!;
+}
@@ -0,0 +1,166 @@
+import type {
+  CostoGenerale,
+  CriterioRipartizione,
+  ImpostazioniRipartizione,
+  MeseRipartizione,
+  OverheadCommessa,
+  Project,
+  RipartizioneOverhead
+} from '@shared/schema';
+import { impostazioniRipartizioneSchema } from '@shared/schema';
+import {
+  costiGeneraliStorage,
+  costiViviStorage,
+  fattureEmesseStorage,
+  impostazioniRipartizioneStorage,
+  prestazioniStorage,
+  projectsStorage
+} from './storage.js';
+import { isNotaCredito } from './payments.js';
+
+// ============================================================================
+// Ripartizione costi generali (overhead) sulle commesse
+// ============================================================================
+// Per ogni mese i costi generali sono divisi per criterio e ripartiti sulle
+// commesse attive con ore o fatturato nel mese (o con le percentuali fisse).
+// Quello che non trova una base di ripartizione resta "non ripartito".
+//
+// Sono ripartiti solo i costi già sostenuti (data fino a oggi): le occorrenze
+// dei costi ricorrenti generate in anticipo restano fuori finché non maturano.
+
+export const IMPOSTAZIONI_RIPARTIZIONE_ID = 'default';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const meseDi = (data: string) => data.slice(0, 7);
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+export async function getImpostazioniRipartizione(): Promise<ImpostazioniRipartizione> {
+  const impostazioni = await impostazioniRipartizioneStorage.findById(IMPOSTAZIONI_RIPARTIZIONE_ID);
+  return impostazioni ?? { ...impostazioniRipartizioneSchema.parse({}), id: IMPOSTAZIONI_RIPARTIZIONE_ID };
+}
+
+// mese -> projectId -> base (ore o fatturato imponibile)
+function basiPerMese(voci: Array<{ projectId: string; data: string; valore: number }>): Map<string, Map<string, number>> {
+  const basi = new Map<string, Map<string, number>>();
+  for (const { projectId, data, valore } of voci) {
+    if (!data) continue;
+    const mese = basi.get(meseDi(data)) ?? new Map<string, number>();
+    mese.set(projectId, (mese.get(projectId) ?? 0) + valore);
+    basi.set(meseDi(data), mese);
+  }
+  return basi;
+}
+
+// Commessa attiva nel mese: dal primo mese con ore, fatture emesse o costi
+// vivi in poi; per le commesse concluse o sospese fino all'ultimo mese con
+// attività. Una commessa in corso senza attività registrate è sempre attiva.
+function commesseAttive(
+  projects: Project[],
+  voci: Array<{ projectId: string; data: string }>
+): (projectId: string, mese: string) => boolean {
+  const estremi = new Map<string, { primo: string; ultimo: string }>();
+  for (const { projectId, data } of voci) {
+    if (!data) continue;
+    const mese = meseDi(data);
+    const periodo = estremi.get(projectId);
+    estremi.set(projectId, periodo
+      ? { primo: mese < periodo.primo ? mese : periodo.primo, ultimo: mese > periodo.ultimo ? mese : periodo.ultimo }
+      : { primo: mese, ultimo: mese });
+  }
+  const inCorso = new Set(projects.filter(p => p.status === 'in_corso').map(p => p.id));
+  const esistenti = new Set(projects.map(p => p.id));
+
+  return (projectId, mese) => {
+    if (!esistenti.has(projectId)) return false;
+    const periodo = estremi.get(projectId);
+    if (!periodo) return inCorso.has(projectId);
+    return mese >= periodo.primo && (inCorso.has(projectId) || mese <= periodo.ultimo);
+  };
+}
+
+// Query: dal / al nel formato YYYY-MM (facoltativi)
+export async function buildRipartizioneOverhead(
+  dal?: string,
+  al?: string,
+  oggi = todayISO()
+): Promise<RipartizioneOverhead> {
+  const impostazioni = await getImpostazioniRipartizione();
+  const nelPeriodo = (mese: string) => (!dal || mese >= dal) && (!al || mese <= al);
+  const criterioDi = (costo: CostoGenerale): CriterioRipartizione =>
+    impostazioni.regole.find(r => r.categoria === costo.categoria)?.criterio ?? impostazioni.criterio;
+
+  // mese -> criterio -> costi da ripartire
+  const costiPerMese = new Map<string, Map<CriterioRipartizione, number>>();
+  for (const costo of await costiGeneraliStorage.readAll()) {
+    const mese = meseDi(costo.data);
+    if (impostazioni.categorieEscluse.includes(costo.categoria) || !nelPeriodo(mese) || costo.data > oggi) continue;
+    const perCriterio = costiPerMese.get(mese) ?? new Map<CriterioRipartizione, number>();
+    perCriterio.set(criterioDi(costo), (perCriterio.get(criterioDi(costo)) ?? 0) + costo.importo);
+    costiPerMese.set(mese, perCriterio);
+  }
+
+  const [projects, prestazioni, fatture, costiVivi] = await Promise.all([
+    projectsStorage.readAll(),
+    prestazioniStorage.readAll(),
+    fattureEmesseStorage.readAll(),
+    costiViviStorage.readAll()
+  ]);
+  const ore = basiPerMese(prestazioni.map(p => ({ projectId: p.projectId, data: p.data, valore: p.oreLavoro })));
+  // Le note di credito riducono il fatturato del mese
+  const fatturato = basiPerMese(fatture
+    .map(f => ({ projectId: f.projectId, data: f.dataEmissione, valore: isNotaCredito(f) ? -f.importo : f.importo })));
+  const percentuali = new Map(impostazioni.quote.map(q => [q.projectId, q.percentuale]));
+  const attiva = commesseAttive(projects, [
+    ...prestazioni,
+    ...fatture.map(f => ({ projectId: f.projectId, data: f.dataEmissione })),
+    ...costiVivi
+  ]);
+
+  const commesse = new Map<string, OverheadCommessa>();
+  const mesi: MeseRipartizione[] = [];
+  for (const mese of Array.from(costiPerMese.keys()).sort()) {
+    let costiMese = 0;
+    let ripartito = 0;
+    for (const [criterio, importo] of Array.from(costiPerMese.get(mese)!.entries())) {
+      costiMese += importo;
+      const basi = criterio === 'ore' ? ore.get(mese) : criterio === 'fatturato' ? fatturato.get(mese) : percentuali;
+      const positive = Array.from(basi?.entries() ?? [])
+        .filter(([projectId, base]) => base > 0 && attiva(projectId, mese));
+      const totaleBase = criterio === 'percentuale' ? 100 : positive.reduce((sum, [, base]) => sum + base, 0);
+      if (totaleBase <= 0) continue;
+
+      for (const [projectId, base] of positive) {
+        const quota = round2(importo * base / totaleBase);
+        if (quota === 0) continue;
+        const commessa = commesse.get(projectId) ?? { projectId, totale: 0, quote: [] };
+        commessa.quote.push({ mese, criterio, base: round2(base), importo: quota });
+        commessa.totale = round2(commessa.totale + quota);
+        commesse.set(projectId, commessa);
+        ripartito += quota;
+      }
+    }
+    mesi.push({
+      mese,
+      costi: round2(costiMese),
+      ripartito: round2(ripartito),
+      nonRipartito: round2(costiMese - ripartito),
+    });
+  }
+
+  return {
+    dal,
+    al,
+    totaleCosti: round2(mesi.reduce((sum, m) => sum + m.costi, 0)),
+    totaleRipartito: round2(mesi.reduce((sum, m) => sum + m.ripartito, 0)),
+    totaleNonRipartito: round2(mesi.reduce((sum, m) => sum + m.nonRipartito, 0)),
+    mesi,
+    commesse: Array.from(commesse.values()).sort((a, b) => b.totale - a.totale),
+  };
+}
+
+export async function overheadCommessa(projectId: string): Promise<OverheadCommessa> {
+  const { commesse } = await buildRipartizioneOverhead();
+  return commesse.find(c => c.projectId === projectId) ?? { projectId, totale: 0, quote: [] };
+}
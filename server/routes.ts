@@ -1,5 +1,6 @@
-import { Router } from 'express';
+import express, { Router, type Request, type Response } from 'express';
 import { randomUUID } from 'crypto';
+import { z } from 'zod';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -11,8 +12,8 @@ import {
   costiViviStorage,
   prestazioniStorage,
   usersStorage,
-  scadenzeStorage,
-  comunicazioniStorage,
+  deadlinesStorage,
+  communicationsStorage,
   tagsStorage,
   projectTagsStorage,
   fileRoutingsStorage,
@@ -21,47 +22,208 @@ import {
   profiliCostoStorage,
   fattureEmesseStorage,
   fattureConsulentiStorage,
-  costiGeneraliStorage
+  costiGeneraliStorage,
+  firmSettingsStorage,
+  pagamentiFattureStorage,
+  serieNumerazioneStorage,
+  impostazioniSollecitiStorage,
+  sollecitiStorage,
+  movimentiBancariStorage,
+  impostazioniPrevisioneStorage,
+  serieCostiGeneraliStorage,
+  impostazioniRipartizioneStorage,
+  preventiviStorage,
+  modelloOffertaStorage
 } from './storage.js';
 
 import type {
-  InsertProject,
+  ProjectMetadata,
   InsertClient,
   InsertFatturaIngresso,
   InsertCostoVivo,
   InsertPrestazione,
   InsertUser,
-  InsertScadenza,
-  InsertComunicazione,
+  Deadline,
+  Communication,
   InsertTag,
   InsertProjectResource,
   InsertActivityLog,
   InsertProfiloCosto,
   InsertFatturaEmessa,
   InsertFatturaConsulente,
-  InsertCostoGenerale
+  InsertCostoGenerale,
+  FatturaEmessa,
+  FatturaIngresso,
+  FatturaConsulente,
+  InvoicePaymentStatus,
+  TipoFatturaPagamento,
+  Project,
+  Sollecito,
+  MovimentoBancario,
+  ImportEstrattoConto
 } from '@shared/schema';
 
 import {
   insertProjectSchema,
+  projectPrestazioniSchema,
   insertClientSchema,
   insertFatturaIngressoSchema,
   insertCostoVivoSchema,
   insertPrestazioneSchema,
   insertUserSchema,
-  insertScadenzaSchema,
-  insertComunicazioneSchema,
+  insertDeadlineSchema,
+  insertCommunicationSchema,
   insertTagSchema,
   insertProjectResourceSchema,
   insertActivityLogSchema,
   insertProfiloCostoSchema,
   insertFatturaEmessaSchema,
-  insertFatturaConsulentiSchema,
-  insertCostoGeneraleSchema
+  insertFatturaConsulenteSchema,
+  insertCostoGeneraleSchema,
+  firmSettingsSchema,
+  insertPagamentoFatturaSchema,
+  insertSerieNumerazioneSchema,
+  insertSollecitoSchema,
+  impostazioniSollecitiSchema,
+  riconciliazioneSchema,
+  impostazioniPrevisioneSchema,
+  pianoIncassiSchema,
+  insertSerieCostoGeneraleSchema,
+  impostazioniRipartizioneSchema,
+  insertPreventivoSchema,
+  insertRevisionePreventivoSchema,
+  statoPreventivoSchema,
+  convertiPreventivoSchema,
+  modelloOffertaSchema,
+  calcoloParcellaSchema,
+  TIPI_FATTURA_PAGAMENTO
 } from '@shared/schema';
+import { hashPassword, verifyPassword, toPublicUser, requireAuth } from './auth.js';
+import { authorize, isAdmin, requireAdmin, requireSelfOrAdmin, requireOwnership } from './permissions.js';
+import { BACKUP_MAX_SIZE, createBackup, restoreBackup, type ImportMode } from './backup.js';
+import { withBilling } from './billing.js';
+import { FIRM_SETTINGS_ID, generateFatturaPA } from './fatturapa.js';
+import {
+  NumerazioneError,
+  checkNumerazioneUpdate,
+  checkNumeroUnivoco,
+  numerazioneReport,
+  prossimoNumero,
+  withNumberingLock
+} from './numerazione.js';
+import { importFatturaPA, FatturaPAImportError, type ImportTarget } from './fatturapa-import.js';
+import {
+  INVOICE_STORAGES,
+  computePaymentStatus,
+  contestoDovuto,
+  deleteInvoicePayments,
+  findInvoicePayments,
+  findNoteCredito,
+  isNotaCredito,
+  refreshFatturaRiferimento,
+  refreshPaymentFlags,
+  residuoPagabile,
+  syncInvoicePaymentFlags,
+  withPaymentStatus
+} from './payments.js';
+import {
+  IMPOSTAZIONI_SOLLECITI_ID,
+  anteprimaSollecito,
+  deleteSolleciti,
+  fattureDaSollecitare,
+  findSolleciti,
+  getLivelliSollecito,
+  isScaduta
+} from './solleciti.js';
+import { agingCsv, agingSheets, buildAgingReport } from './aging.js';
+import { buildXlsx, XLSX_CONTENT_TYPE } from './xlsx.js';
+import { parseEstrattoConto, EstrattoContoError } from './estratto-conto.js';
+import {
+  RiconciliazioneError,
+  annullaRiconciliazione,
+  candidatiMovimento,
+  contestoRiconciliazione,
+  riconciliaMovimento
+} from './riconciliazione.js';
+import { buildPrevisioneCassa, getSaldoIniziale, IMPOSTAZIONI_PREVISIONE_ID } from './previsione.js';
+import {
+  aggiornaSerie,
+  creaSerie,
+  eliminaSerie,
+  escludiOccorrenza,
+  generaCostiRicorrenti,
+  modificaOccorrenza,
+  prossimaOccorrenza,
+  serieDaCosto
+} from './costi-ricorrenti.js';
+import { normalizeDeadlineUpdates, withDeadlineStatus } from './deadlines.js';
+import {
+  buildRipartizioneOverhead,
+  getImpostazioniRipartizione,
+  IMPOSTAZIONI_RIPARTIZIONE_ID,
+  overheadCommessa
+} from './ripartizione-costi.js';
+import {
+  PreventivoError,
+  aggiungiRevisione,
+  cambiaStato,
+  convertiInCommessa,
+  creaPreventivo,
+  ultimaRevisione
+} from './preventivi.js';
+import { MODELLO_OFFERTA_ID, buildOffertaPdf, getModelloOfferta } from './offerta.js';
+import { ParcellaError, calcolaCompenso } from '@shared/parcella';
 
 export const router = Router();
 
+// ============================================================================
+// Authentication guard
+// ============================================================================
+// Tutte le API richiedono una sessione valida, tranne /api/auth/*, e sono
+// soggette alla matrice permessi ruolo × risorsa × azione (permissions.ts)
+router.use('/api', (req, res, next) => {
+  if (req.path.startsWith('/auth/')) return next();
+  requireAuth(req, res, (err?: unknown) => {
+    if (err) return next(err);
+    authorize(req, res, next);
+  });
+});
+router.use('/uploads', requireAuth);
+
+// ============================================================================
+// Validazione aggiornamenti (PUT/PATCH)
+// ============================================================================
+// Valida il body con lo schema insert in versione parziale (i campi non
+// previsti vengono scartati). id e createdAt non sono modificabili: un id
+// diverso da quello della route (req.params[idParam]) è un errore, createdAt
+// viene ignorato (lo storage li protegge comunque). In caso di errore risponde
+// 400 e ritorna null.
+function validateUpdate<S extends z.AnyZodObject>(
+  schema: S,
+  req: Request,
+  res: Response,
+  idParam = 'id'
+): Partial<z.infer<S>> | null {
+  const { id, createdAt, ...body } = req.body ?? {};
+
+  const validationResult = schema.partial().safeParse(body);
+  const fieldErrors: Record<string, string[] | undefined> = validationResult.success
+    ? {}
+    : validationResult.error.flatten().fieldErrors;
+  if (id !== undefined && id !== req.params[idParam]) {
+    fieldErrors.id = ["L'id non è modificabile"];
+  }
+
+  if (!validationResult.success || fieldErrors.id) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: fieldErrors
+    });
+    return null;
+  }
+  return validationResult.data as Partial<z.infer<S>>;
+}
+
 // ============================================================================
 // File Upload Configuration
 // ============================================================================
@@ -86,11 +248,14 @@ const storage = multer.diskStorage({
   }
 });
 
+// Rifiuto del fileFilter: il gestore errori risponde 415 con il messaggio
+const fileTypeNotAllowed = (message: string) => Object.assign(new Error(message), { status: 415 });
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   if (file.mimetype === 'application/pdf') {
     cb(null, true);
   } else {
-    cb(new Error('Solo file PDF sono consentiti'));
+    cb(fileTypeNotAllowed('Solo file PDF sono consentiti'));
   }
 };
 
@@ -137,6 +302,37 @@ router.use('/uploads', (req, res, next) => {
 // ============================================================================
 // Code Generation Route
 // ============================================================================
+// Codice commessa CLIENTE-CITTA-AANN (NN = progressivo delle commesse dell'anno)
+async function generaCodiceCommessa(client: string, city: string, year: number): Promise<string> {
+  // Generate client abbreviation (first 3-4 letters uppercase)
+  const clientAbbr = client
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '')
+    .substring(0, 4);
+
+  // Generate city abbreviation (first 2-3 letters uppercase)
+  const cityAbbr = city
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '')
+    .substring(0, 3);
+
+  // Format year as 2 digits
+  const yearStr = String(year).padStart(2, '0');
+
+  // Find existing projects for this year to generate progressive number
+  const allProjects = await projectsStorage.readAll();
+  const projectsThisYear = allProjects.filter(p => {
+    const projectYear = p.code.match(/\d{2}(\d{2})$/)?.[1];
+    return projectYear === yearStr;
+  });
+
+  // Generate progressive number
+  const progressive = String(projectsThisYear.length + 1).padStart(2, '0');
+
+  // Generate final code: CLIENTE-CITTA-AANNN
+  return `${clientAbbr}-${cityAbbr}-${yearStr}${progressive}`;
+}
+
 router.post('/api/generate-code', async (req, res) => {
   try {
     const { client, city, year } = req.body;
@@ -145,35 +341,7 @@ router.post('/api/generate-code', async (req, res) => {
       return res.status(400).json({ error: 'Client, city and year are required' });
     }
 
-    // Generate client abbreviation (first 3-4 letters uppercase)
-    const clientAbbr = client
-      .toUpperCase()
-      .replace(/[^A-Z]/g, '')
-      .substring(0, 4);
-
-    // Generate city abbreviation (first 2-3 letters uppercase)
-    const cityAbbr = city
-      .toUpperCase()
-      .replace(/[^A-Z]/g, '')
-      .substring(0, 3);
-
-    // Format year as 2 digits
-    const yearStr = String(year).padStart(2, '0');
-
-    // Find existing projects for this year to generate progressive number
-    const allProjects = await projectsStorage.readAll();
-    const projectsThisYear = allProjects.filter(p => {
-      const projectYear = p.code.match(/\d{2}(\d{2})$/)?.[1];
-      return projectYear === yearStr;
-    });
-
-    // Generate progressive number
-    const progressive = String(projectsThisYear.length + 1).padStart(2, '0');
-
-    // Generate final code: CLIENTE-CITTA-AANNN
-    const code = `${clientAbbr}-${cityAbbr}-${yearStr}${progressive}`;
-
-    res.json({ code });
+    res.json({ code: await generaCodiceCommessa(client, city, year) });
   } catch (error) {
     console.error('Code generation error:', error);
     res.status(500).json({ error: 'Failed to generate project code' });
@@ -186,7 +354,7 @@ router.post('/api/generate-code', async (req, res) => {
 router.get('/api/projects', async (req, res) => {
   try {
     const projects = await projectsStorage.readAll();
-    res.json(projects);
+    res.json(await withBilling(projects));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch projects' });
   }
@@ -198,7 +366,8 @@ router.get('/api/projects/:id', async (req, res) => {
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
-    res.json(project);
+    const [projectWithBilling] = await withBilling([project]);
+    res.json(projectWithBilling);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch project' });
   }
@@ -232,9 +401,23 @@ router.post('/api/projects', async (req, res) => {
   }
 });
 
+// billingOverride sostituisce fatturato/incassato derivati dalle fatture
+// emesse, riservate agli admin: un operativo non può impostarlo né rimuoverlo
+function forbidBillingOverride(req: Request, res: Response): boolean {
+  if (isAdmin(req) || !req.body || !('billingOverride' in req.body)) return false;
+  res.status(403).json({
+    error: 'Forbidden',
+    message: 'Solo gli amministratori possono modificare lo stato di fatturazione'
+  });
+  return true;
+}
+
 router.put('/api/projects/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertProject> = req.body;
+    if (forbidBillingOverride(req, res)) return;
+    const updates = validateUpdate(insertProjectSchema, req, res);
+    if (!updates) return;
+
     const updated = await projectsStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Project not found' });
@@ -245,6 +428,81 @@ router.put('/api/projects/:id', async (req, res) => {
   }
 });
 
+// Aggiornamento parziale. billingOverride (FatturazioneModal) viene marcato
+// con data e autore; null rimuove l'override e torna ai valori da fatture
+router.patch('/api/projects/:id', async (req, res) => {
+  try {
+    if (forbidBillingOverride(req, res)) return;
+    const updates = validateUpdate(insertProjectSchema, req, res);
+    if (!updates) return;
+
+    if (updates.billingOverride) {
+      updates.billingOverride = {
+        ...updates.billingOverride,
+        updatedAt: new Date().toISOString(),
+        updatedBy: req.currentUser?.nome
+      };
+    }
+
+    const updated = await projectsStorage.update(req.params.id, updates);
+    if (!updated) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const [projectWithBilling] = await withBilling([updated]);
+    res.json(projectWithBilling);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update project' });
+  }
+});
+
+// Prestazioni professionali: aggiorna i campi prestazioni in project.metadata
+// mantenendo gli altri campi eventualmente presenti
+router.put('/api/projects/:id/prestazioni', async (req, res) => {
+  try {
+    const result = projectPrestazioniSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Validation error', details: result.error.flatten().fieldErrors });
+    }
+
+    const project = await projectsStorage.findById(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const { prestazioni, livelloProgettazione, classeDM143, importoOpere, importoServizio, percentualeParcella, ...otherMetadata } =
+      project.metadata ?? {};
+    const metadata: ProjectMetadata = { ...otherMetadata, ...result.data };
+    if (!metadata.classeDM143) delete metadata.classeDM143;
+
+    const updated = await projectsStorage.update(req.params.id, { metadata });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update project prestazioni' });
+  }
+});
+
+// Rate di compenso previste (previsione di cassa): sostituisce
+// project.metadata.pianoIncassi mantenendo gli altri metadata
+router.put('/api/projects/:id/piano-incassi', async (req, res) => {
+  try {
+    const result = pianoIncassiSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Validation error', details: result.error.flatten().fieldErrors });
+    }
+
+    const project = await projectsStorage.findById(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const metadata: ProjectMetadata = { ...project.metadata, pianoIncassi: result.data.rate };
+    const updated = await projectsStorage.update(req.params.id, { metadata });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update piano incassi' });
+  }
+});
+
 router.delete('/api/projects/:id', async (req, res) => {
   try {
     const deleted = await projectsStorage.delete(req.params.id);
@@ -308,17 +566,9 @@ router.post('/api/clients', async (req, res) => {
 
 router.put('/api/clients/:id', async (req, res) => {
   try {
-    // Validate input data with Zod schema (partial for updates)
-    const validationResult = insertClientSchema.partial().safeParse(req.body);
-    if (!validationResult.success) {
-      const errors = validationResult.error.flatten();
-      return res.status(400).json({
-        error: 'Validation error',
-        details: errors.fieldErrors
-      });
-    }
+    const updates = validateUpdate(insertClientSchema, req, res);
+    if (!updates) return;
 
-    const updates = validationResult.data;
     const updated = await clientsStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Client not found' });
@@ -365,7 +615,7 @@ router.delete('/api/clients/:id', async (req, res) => {
 router.get('/api/fatture-ingresso', async (req, res) => {
   try {
     const fatture = await fattureIngressoStorage.readAll();
-    res.json(fatture);
+    res.json(await withPaymentStatus('ingresso', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture ingresso' });
   }
@@ -377,7 +627,8 @@ router.get('/api/fatture-ingresso/:id', async (req, res) => {
     if (!fattura) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(fattura);
+    const [fatturaConStato] = await withPaymentStatus('ingresso', [fattura]);
+    res.json(fatturaConStato);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fattura' });
   }
@@ -386,7 +637,7 @@ router.get('/api/fatture-ingresso/:id', async (req, res) => {
 router.get('/api/fatture-ingresso/project/:projectId', async (req, res) => {
   try {
     const fatture = await fattureIngressoStorage.findByField('projectId', req.params.projectId);
-    res.json(fatture);
+    res.json(await withPaymentStatus('ingresso', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture for project' });
   }
@@ -408,12 +659,14 @@ router.post('/api/fatture-ingresso', async (req, res) => {
 
 router.put('/api/fatture-ingresso/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaIngresso> = req.body;
+    const updates = validateUpdate(insertFatturaIngressoSchema, req, res);
+    if (!updates) return;
+
     const updated = await fattureIngressoStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    res.json(await refreshPaymentFlags('ingresso', updated));
   } catch (error) {
     res.status(500).json({ error: 'Failed to update fattura' });
   }
@@ -421,12 +674,14 @@ router.put('/api/fatture-ingresso/:id', async (req, res) => {
 
 router.patch('/api/fatture-ingresso/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaIngresso> = req.body;
+    const updates = validateUpdate(insertFatturaIngressoSchema, req, res);
+    if (!updates) return;
+
     const updated = await fattureIngressoStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    res.json(await refreshPaymentFlags('ingresso', updated));
   } catch (error) {
     res.status(500).json({ error: 'Failed to update fattura' });
   }
@@ -438,6 +693,7 @@ router.delete('/api/fatture-ingresso/:id', async (req, res) => {
     if (!deleted) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
+    await deleteInvoicePayments('ingresso', req.params.id);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: 'Failed to delete fattura' });
@@ -477,7 +733,7 @@ router.get('/api/costi-vivi/project/:projectId', async (req, res) => {
   }
 });
 
-router.post('/api/costi-vivi', async (req, res) => {
+router.post('/api/costi-vivi', requireOwnership(costiViviStorage), async (req, res) => {
   try {
     const costoData: InsertCostoVivo = req.body;
     const costo = {
@@ -491,9 +747,11 @@ router.post('/api/costi-vivi', async (req, res) => {
   }
 });
 
-router.put('/api/costi-vivi/:id', async (req, res) => {
+router.put('/api/costi-vivi/:id', requireOwnership(costiViviStorage), async (req, res) => {
   try {
-    const updates: Partial<InsertCostoVivo> = req.body;
+    const updates = validateUpdate(insertCostoVivoSchema, req, res);
+    if (!updates) return;
+
     const updated = await costiViviStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Costo not found' });
@@ -504,7 +762,7 @@ router.put('/api/costi-vivi/:id', async (req, res) => {
   }
 });
 
-router.delete('/api/costi-vivi/:id', async (req, res) => {
+router.delete('/api/costi-vivi/:id', requireOwnership(costiViviStorage), async (req, res) => {
   try {
     const deleted = await costiViviStorage.delete(req.params.id);
     if (!deleted) {
@@ -549,7 +807,7 @@ router.get('/api/prestazioni/project/:projectId', async (req, res) => {
   }
 });
 
-router.post('/api/prestazioni', async (req, res) => {
+router.post('/api/prestazioni', requireOwnership(prestazioniStorage), async (req, res) => {
   try {
     const prestazioneData: InsertPrestazione = req.body;
     const prestazione = {
@@ -563,9 +821,11 @@ router.post('/api/prestazioni', async (req, res) => {
   }
 });
 
-router.put('/api/prestazioni/:id', async (req, res) => {
+router.put('/api/prestazioni/:id', requireOwnership(prestazioniStorage), async (req, res) => {
   try {
-    const updates: Partial<InsertPrestazione> = req.body;
+    const updates = validateUpdate(insertPrestazioneSchema, req, res);
+    if (!updates) return;
+
     const updated = await prestazioniStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Prestazione not found' });
@@ -576,7 +836,7 @@ router.put('/api/prestazioni/:id', async (req, res) => {
   }
 });
 
-router.delete('/api/prestazioni/:id', async (req, res) => {
+router.delete('/api/prestazioni/:id', requireOwnership(prestazioniStorage), async (req, res) => {
   try {
     const deleted = await prestazioniStorage.delete(req.params.id);
     if (!deleted) {
@@ -589,104 +849,193 @@ router.delete('/api/prestazioni/:id', async (req, res) => {
 });
 
 // ============================================================================
-// Scadenze Routes
+// Deadlines Routes (Scadenzario)
 // ============================================================================
-router.get('/api/scadenze', async (req, res) => {
+router.get('/api/deadlines', async (req, res) => {
+  try {
+    const { projectId } = req.query;
+    const deadlines = typeof projectId === 'string'
+      ? await deadlinesStorage.findByField('projectId', projectId)
+      : await deadlinesStorage.readAll();
+    res.json(deadlines.map(deadline => withDeadlineStatus(deadline)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch deadlines' });
+  }
+});
+
+router.get('/api/deadlines/:id', async (req, res) => {
   try {
-    const scadenze = await scadenzeStorage.readAll();
-    res.json(scadenze);
+    const deadline = await deadlinesStorage.findById(req.params.id);
+    if (!deadline) {
+      return res.status(404).json({ error: 'Deadline not found' });
+    }
+    res.json(withDeadlineStatus(deadline));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch scadenze' });
+    res.status(500).json({ error: 'Failed to fetch deadline' });
   }
 });
 
-router.post('/api/scadenze', async (req, res) => {
+router.post('/api/deadlines', async (req, res) => {
   try {
-    const scadenzaData: InsertScadenza = req.body;
-    const scadenza = {
+    const validationResult = insertDeadlineSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const now = new Date().toISOString();
+    const deadline = {
+      ...normalizeDeadlineUpdates(validationResult.data),
       id: randomUUID(),
-      ...scadenzaData
-    };
-    await scadenzeStorage.create(scadenza);
-    res.status(201).json(scadenza);
+      createdAt: now,
+      updatedAt: now
+    } as Deadline;
+    await deadlinesStorage.create(deadline);
+    res.status(201).json(withDeadlineStatus(deadline));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create scadenza' });
+    console.error('Deadline creation error:', error);
+    res.status(500).json({ error: 'Failed to create deadline' });
   }
 });
 
-router.put('/api/scadenze/:id', async (req, res) => {
+const updateDeadline = async (req: Request, res: Response) => {
   try {
-    const updates: Partial<InsertScadenza> = req.body;
-    const updated = await scadenzeStorage.update(req.params.id, updates);
+    const updates = validateUpdate(insertDeadlineSchema, req, res);
+    if (!updates) return;
+
+    const updated = await deadlinesStorage.update(req.params.id, {
+      ...normalizeDeadlineUpdates(updates),
+      updatedAt: new Date().toISOString()
+    });
     if (!updated) {
-      return res.status(404).json({ error: 'Scadenza not found' });
+      return res.status(404).json({ error: 'Deadline not found' });
     }
-    res.json(updated);
+    res.json(withDeadlineStatus(updated));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update scadenza' });
+    console.error('Deadline update error:', error);
+    res.status(500).json({ error: 'Failed to update deadline' });
   }
-});
+};
+
+router.put('/api/deadlines/:id', updateDeadline);
+router.patch('/api/deadlines/:id', updateDeadline);
 
-router.delete('/api/scadenze/:id', async (req, res) => {
+router.delete('/api/deadlines/:id', async (req, res) => {
   try {
-    const deleted = await scadenzeStorage.delete(req.params.id);
+    const deleted = await deadlinesStorage.delete(req.params.id);
     if (!deleted) {
-      return res.status(404).json({ error: 'Scadenza not found' });
+      return res.status(404).json({ error: 'Deadline not found' });
     }
     res.status(204).send();
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete scadenza' });
+    res.status(500).json({ error: 'Failed to delete deadline' });
   }
 });
 
 // ============================================================================
-// Comunicazioni Routes
+// Communications Routes (Registro Comunicazioni)
 // ============================================================================
-router.get('/api/comunicazioni', async (req, res) => {
+// Filtri: projectId, type, direction, tag, from/to (su communicationDate)
+router.get('/api/communications', async (req, res) => {
+  try {
+    const { projectId, type, direction, tag, from, to } = req.query;
+    const filter: Partial<Communication> = {};
+    if (typeof projectId === 'string') filter.projectId = projectId;
+    if (typeof type === 'string') filter.type = type as Communication['type'];
+    if (typeof direction === 'string') filter.direction = direction as Communication['direction'];
+
+    const fromTime = typeof from === 'string' ? new Date(from).getTime() : NaN;
+    const toTime = typeof to === 'string' ? new Date(to).getTime() : NaN;
+
+    const communications = (await communicationsStorage.findWhere(filter))
+      .filter(c => {
+        const time = new Date(c.communicationDate).getTime();
+        if (!isNaN(fromTime) && time < fromTime) return false;
+        if (!isNaN(toTime) && time > toTime) return false;
+        if (typeof tag === 'string' && !c.tags?.includes(tag)) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(b.communicationDate).getTime() - new Date(a.communicationDate).getTime());
+
+    res.json(communications);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch communications' });
+  }
+});
+
+router.get('/api/communications/:id', async (req, res) => {
   try {
-    const comunicazioni = await comunicazioniStorage.readAll();
-    res.json(comunicazioni);
+    const communication = await communicationsStorage.findById(req.params.id);
+    if (!communication) {
+      return res.status(404).json({ error: 'Communication not found' });
+    }
+    res.json(communication);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch comunicazioni' });
+    res.status(500).json({ error: 'Failed to fetch communication' });
   }
 });
 
-router.post('/api/comunicazioni', async (req, res) => {
+router.post('/api/communications', async (req, res) => {
   try {
-    const comunicazioneData: InsertComunicazione = req.body;
-    const comunicazione = {
+    const validationResult = insertCommunicationSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const now = new Date().toISOString();
+    const communication: Communication = {
       id: randomUUID(),
-      ...comunicazioneData
+      ...validationResult.data,
+      createdBy: validationResult.data.createdBy || req.currentUser?.nome,
+      createdAt: now,
+      updatedAt: now
     };
-    await comunicazioniStorage.create(comunicazione);
-    res.status(201).json(comunicazione);
+    await communicationsStorage.create(communication);
+    res.status(201).json(communication);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create comunicazione' });
+    console.error('Communication creation error:', error);
+    res.status(500).json({ error: 'Failed to create communication' });
   }
 });
 
-router.put('/api/comunicazioni/:id', async (req, res) => {
+const updateCommunication = async (req: Request, res: Response) => {
   try {
-    const updates: Partial<InsertComunicazione> = req.body;
-    const updated = await comunicazioniStorage.update(req.params.id, updates);
+    const updates = validateUpdate(insertCommunicationSchema, req, res);
+    if (!updates) return;
+
+    const updated = await communicationsStorage.update(req.params.id, {
+      ...updates,
+      updatedAt: new Date().toISOString()
+    });
     if (!updated) {
-      return res.status(404).json({ error: 'Comunicazione not found' });
+      return res.status(404).json({ error: 'Communication not found' });
     }
     res.json(updated);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update comunicazione' });
+    console.error('Communication update error:', error);
+    res.status(500).json({ error: 'Failed to update communication' });
   }
-});
+};
+
+router.put('/api/communications/:id', updateCommunication);
+router.patch('/api/communications/:id', updateCommunication);
 
-router.delete('/api/comunicazioni/:id', async (req, res) => {
+router.delete('/api/communications/:id', async (req, res) => {
   try {
-    const deleted = await comunicazioniStorage.delete(req.params.id);
+    const deleted = await communicationsStorage.delete(req.params.id);
     if (!deleted) {
-      return res.status(404).json({ error: 'Comunicazione not found' });
+      return res.status(404).json({ error: 'Communication not found' });
     }
     res.status(204).send();
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete comunicazione' });
+    res.status(500).json({ error: 'Failed to delete communication' });
   }
 });
 
@@ -704,12 +1053,27 @@ router.get('/api/users', async (req, res) => {
   }
 });
 
+// Il form Gestione Utenti usa ancora i ruoli legacy
+const userSchema = insertUserSchema.extend({
+  role: z.enum(['admin', 'operativo', 'amministratore', 'collaboratore']).default('operativo')
+});
+
 router.post('/api/users', async (req, res) => {
   try {
-    const userData: InsertUser = req.body;
+    const validationResult = userSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const userData = validationResult.data as InsertUser;
     const user = {
       id: randomUUID(),
       ...userData,
+      password: await hashPassword(userData.password),
       createdAt: new Date().toISOString()
     };
     await usersStorage.create(user);
@@ -722,8 +1086,17 @@ router.post('/api/users', async (req, res) => {
 
 router.put('/api/users/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertUser> = req.body;
-    const updated = await usersStorage.update(req.params.id, updates);
+    // Password vuota dal form di modifica = password invariata
+    if (req.body && !req.body.password) {
+      delete req.body.password;
+    }
+    const updates = validateUpdate(userSchema, req, res);
+    if (!updates) return;
+
+    if (updates.password) {
+      updates.password = await hashPassword(updates.password);
+    }
+    const updated = await usersStorage.update(req.params.id, updates as Partial<InsertUser>);
     if (!updated) {
       return res.status(404).json({ error: 'User not found' });
     }
@@ -752,10 +1125,15 @@ router.delete('/api/users/:id', async (req, res) => {
 router.post('/api/auth/login', async (req, res) => {
   try {
     const { username, password } = req.body;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ success: false, error: 'Username e password sono obbligatori' });
+    }
+
     const users = await usersStorage.readAll();
-    const user = users.find(u => u.username.trim() === username.trim() && u.password === password);
+    const user = users.find(u => u.username.trim() === username.trim());
+    const check = user ? await verifyPassword(password, user.password) : { valid: false, needsRehash: false };
 
-    if (!user) {
+    if (!user || !check.valid) {
       return res.status(401).json({ success: false, error: 'Credenziali non valide' });
     }
 
@@ -763,27 +1141,61 @@ router.post('/api/auth/login', async (req, res) => {
       return res.status(401).json({ success: false, error: 'Utente disattivato' });
     }
 
-    const { password: _, ...userWithoutPassword } = user;
-    res.json({
-      success: true,
-      user: userWithoutPassword
+    // Migrazione trasparente delle password legacy salvate in chiaro
+    if (check.needsRehash) {
+      await usersStorage.update(user.id, { password: await hashPassword(password) });
+    }
+
+    // Nuovo id di sessione al login (evita session fixation)
+    req.session.regenerate((err) => {
+      if (err) {
+        return res.status(500).json({ success: false, error: 'Errore durante il login' });
+      }
+      req.session.userId = user.id;
+      req.session.save((saveErr) => {
+        if (saveErr) {
+          return res.status(500).json({ success: false, error: 'Errore durante il login' });
+        }
+        res.json({
+          success: true,
+          user: toPublicUser(user)
+        });
+      });
     });
   } catch (error) {
     res.status(500).json({ success: false, error: 'Errore durante il login' });
   }
 });
 
-router.get('/api/auth/status', (req, res) => {
-  // For now, always return not authenticated
-  // In a real app, this would check session/token
-  res.json({
-    authenticated: false,
-    user: null
-  });
+router.get('/api/auth/status', async (req, res) => {
+  try {
+    const user = req.session.userId ? await usersStorage.findById(req.session.userId) : undefined;
+
+    // Utente eliminato o disattivato dopo il login: la sessione non è più valida
+    if (!user || !user.active) {
+      if (req.session.userId) {
+        delete req.session.userId;
+      }
+      return res.json({ authenticated: false, user: null });
+    }
+
+    res.json({
+      authenticated: true,
+      user: toPublicUser(user)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to check auth status' });
+  }
 });
 
 router.post('/api/auth/logout', (req, res) => {
-  res.json({ success: true });
+  req.session.destroy((err) => {
+    if (err) {
+      return res.status(500).json({ success: false, error: 'Errore durante il logout' });
+    }
+    res.clearCookie('g2.sid');
+    res.json({ success: true });
+  });
 });
 
 // ============================================================================
@@ -905,7 +1317,10 @@ router.post('/api/project-resources', async (req, res) => {
 
 router.put('/api/project-resources/:id', async (req, res) => {
   try {
-    const updated = await projectResourcesStorage.update(req.params.id, req.body);
+    const updates = validateUpdate(insertProjectResourceSchema, req, res);
+    if (!updates) return;
+
+    const updated = await projectResourcesStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Resource not found' });
     }
@@ -942,7 +1357,7 @@ router.get('/api/onedrive/mappings', async (req, res) => {
 // ============================================================================
 // Activity Logs Routes (Log personale utente)
 // ============================================================================
-router.get('/api/activity-logs', async (req, res) => {
+router.get('/api/activity-logs', requireAdmin, async (req, res) => {
   try {
     const logs = await activityLogsStorage.readAll();
     res.json(logs);
@@ -951,7 +1366,7 @@ router.get('/api/activity-logs', async (req, res) => {
   }
 });
 
-router.get('/api/activity-logs/user/:userId', async (req, res) => {
+router.get('/api/activity-logs/user/:userId', requireSelfOrAdmin('userId'), async (req, res) => {
   try {
     const logs = await activityLogsStorage.findByField('userId', req.params.userId);
     // Ordina per timestamp decrescente
@@ -962,7 +1377,7 @@ router.get('/api/activity-logs/user/:userId', async (req, res) => {
   }
 });
 
-router.post('/api/activity-logs', async (req, res) => {
+router.post('/api/activity-logs', requireOwnership(activityLogsStorage), async (req, res) => {
   try {
     const logData: InsertActivityLog = req.body;
     const log = {
@@ -1017,7 +1432,9 @@ router.post('/api/profili-costo', async (req, res) => {
 
 router.put('/api/profili-costo/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertProfiloCosto> = req.body;
+    const updates = validateUpdate(insertProfiloCostoSchema, req, res);
+    if (!updates) return;
+
     const updated = await profiliCostoStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Profilo not found' });
@@ -1046,7 +1463,7 @@ router.delete('/api/profili-costo/:id', async (req, res) => {
 router.get('/api/fatture-emesse', async (req, res) => {
   try {
     const fatture = await fattureEmesseStorage.readAll();
-    res.json(fatture);
+    res.json(await withPaymentStatus('emesse', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture emesse' });
   }
@@ -1058,7 +1475,8 @@ router.get('/api/fatture-emesse/:id', async (req, res) => {
     if (!fattura) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(fattura);
+    const [fatturaConStato] = await withPaymentStatus('emesse', [fattura]);
+    res.json(fatturaConStato);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fattura' });
   }
@@ -1067,71 +1485,223 @@ router.get('/api/fatture-emesse/:id', async (req, res) => {
 router.get('/api/fatture-emesse/project/:projectId', async (req, res) => {
   try {
     const fatture = await fattureEmesseStorage.findByField('projectId', req.params.projectId);
-    res.json(fatture);
+    res.json(await withPaymentStatus('emesse', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture for project' });
   }
 });
 
+// Una nota di credito (TD04) storna una fattura (TD01) della stessa commessa,
+// per al massimo il totale non ancora stornato da altre note
+async function notaCreditoErrors(
+  documento: Partial<FatturaEmessa>,
+  id?: string
+): Promise<Record<string, string[]> | null> {
+  if (documento.tipoDocumento !== 'TD04') {
+    return documento.fatturaRiferimentoId
+      ? { fatturaRiferimentoId: ['Solo le note di credito fanno riferimento a una fattura'] }
+      : null;
+  }
+  if (id && (await findNoteCredito('emesse', id)).length > 0) {
+    return { tipoDocumento: ['La fattura ha note di credito collegate'] };
+  }
+
+  const riferimento = documento.fatturaRiferimentoId
+    ? await fattureEmesseStorage.findById(documento.fatturaRiferimentoId)
+    : null;
+  if (!riferimento || isNotaCredito(riferimento)) {
+    return { fatturaRiferimentoId: ['Fattura di riferimento non trovata'] };
+  }
+  if (riferimento.projectId !== documento.projectId) {
+    return { fatturaRiferimentoId: ['La fattura di riferimento appartiene a un\'altra commessa'] };
+  }
+
+  // Confronto sui compensi: CPA, IVA e ritenuta ne sono proporzionali
+  const altreNote = (await findNoteCredito('emesse', riferimento.id)).filter(nc => nc.id !== id);
+  const giaStornato = altreNote.reduce((sum, nc) => sum + nc.importo, 0);
+  const stornabile = Math.round((riferimento.importo - giaStornato) * 100) / 100;
+  if ((documento.importo ?? 0) > stornabile + 0.005) {
+    return { importo: [`La nota di credito supera l'importo ancora stornabile della fattura (${stornabile})`] };
+  }
+  return null;
+}
+
 router.post('/api/fatture-emesse', async (req, res) => {
   try {
     const fatturaData: InsertFatturaEmessa = req.body;
-    const fattura = {
-      id: randomUUID(),
-      ...fatturaData
-    };
-    await fattureEmesseStorage.create(fattura);
+    const errors = await notaCreditoErrors(fatturaData);
+    if (errors) {
+      return res.status(400).json({ error: 'Validation error', details: errors });
+    }
+
+    // Senza numero la fattura prende il prossimo della serie; assegnazione e
+    // creazione nello stesso lock per non duplicare i numeri
+    const { serie, progressivo, ...dati } = fatturaData;
+    const fattura = await withNumberingLock(async () => {
+      const assegnato = dati.numeroFattura ? undefined : await prossimoNumero(serie, dati.dataEmissione);
+      const nuova: FatturaEmessa = {
+        id: randomUUID(),
+        ...dati,
+        ...(assegnato && {
+          numeroFattura: assegnato.numeroFattura,
+          serie: assegnato.serie,
+          progressivo: assegnato.progressivo
+        })
+      };
+      await checkNumeroUnivoco(nuova);
+      return fattureEmesseStorage.create(nuova);
+    });
+    await refreshFatturaRiferimento(fattura);
     res.status(201).json(fattura);
   } catch (error) {
+    if (error instanceof NumerazioneError) {
+      return res.status(400).json({ error: 'Validation error', details: { [error.field]: [error.message] } });
+    }
     res.status(500).json({ error: 'Failed to create fattura' });
   }
 });
 
 router.put('/api/fatture-emesse/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaEmessa> = req.body;
-    const updated = await fattureEmesseStorage.update(req.params.id, updates);
+    const updates = validateUpdate(insertFatturaEmessaSchema, req, res);
+    if (!updates) return;
+
+    const existing = await fattureEmesseStorage.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+    const errors = await notaCreditoErrors({ ...existing, ...updates }, existing.id);
+    if (errors) {
+      return res.status(400).json({ error: 'Validation error', details: errors });
+    }
+
+    const updated = await withNumberingLock(async () => {
+      const numerazione = await checkNumerazioneUpdate(existing, updates);
+      return fattureEmesseStorage.update(req.params.id, { ...updates, ...numerazione });
+    });
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    await refreshFatturaRiferimento(existing);
+    await refreshFatturaRiferimento(updated);
+    res.json(await refreshPaymentFlags('emesse', updated));
   } catch (error) {
+    if (error instanceof NumerazioneError) {
+      return res.status(400).json({ error: 'Validation error', details: { [error.field]: [error.message] } });
+    }
     res.status(500).json({ error: 'Failed to update fattura' });
   }
 });
 
 router.patch('/api/fatture-emesse/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaEmessa> = req.body;
-    const updated = await fattureEmesseStorage.update(req.params.id, updates);
+    const updates = validateUpdate(insertFatturaEmessaSchema, req, res);
+    if (!updates) return;
+
+    const existing = await fattureEmesseStorage.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+    const errors = await notaCreditoErrors({ ...existing, ...updates }, existing.id);
+    if (errors) {
+      return res.status(400).json({ error: 'Validation error', details: errors });
+    }
+
+    const updated = await withNumberingLock(async () => {
+      const numerazione = await checkNumerazioneUpdate(existing, updates);
+      return fattureEmesseStorage.update(req.params.id, { ...updates, ...numerazione });
+    });
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    await refreshFatturaRiferimento(existing);
+    await refreshFatturaRiferimento(updated);
+    res.json(await refreshPaymentFlags('emesse', updated));
   } catch (error) {
+    if (error instanceof NumerazioneError) {
+      return res.status(400).json({ error: 'Validation error', details: { [error.field]: [error.message] } });
+    }
     res.status(500).json({ error: 'Failed to update fattura' });
   }
 });
 
 router.delete('/api/fatture-emesse/:id', async (req, res) => {
   try {
-    const deleted = await fattureEmesseStorage.delete(req.params.id);
-    if (!deleted) {
+    const fattura = await fattureEmesseStorage.findById(req.params.id);
+    if (!fattura) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
+    if ((await findNoteCredito('emesse', fattura.id)).length > 0) {
+      return res.status(400).json({ error: 'Eliminare prima le note di credito collegate alla fattura' });
+    }
+
+    await fattureEmesseStorage.delete(fattura.id);
+    await deleteInvoicePayments('emesse', fattura.id);
+    await deleteSolleciti(fattura.id);
+    await refreshFatturaRiferimento(fattura);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: 'Failed to delete fattura' });
   }
 });
 
+// Il cliente è l'anagrafica della commessa (project.client = sigla), in
+// alternativa quella indicata in fattura
+async function findClienteFattura(fattura: FatturaEmessa, project: Project | undefined) {
+  const clients = await clientsStorage.readAll();
+  return clients.find(c => c.sigla === project?.client) ??
+    clients.find(c => c.sigla === fattura.cliente || c.name === fattura.cliente);
+}
+
+// FatturaPA XML per l'invio tramite SDI
+router.get('/api/fatture-emesse/:id/fatturapa', async (req, res) => {
+  try {
+    const fattura = await fattureEmesseStorage.findById(req.params.id);
+    if (!fattura) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+
+    const settings = await firmSettingsStorage.findById(FIRM_SETTINGS_ID);
+    if (!settings) {
+      return res.status(422).json({
+        error: 'FatturaPA non valida',
+        details: ['Dati dello studio non configurati (Sistema > Dati Studio)']
+      });
+    }
+
+    const project = await projectsStorage.findById(fattura.projectId);
+    const client = await findClienteFattura(fattura, project);
+    if (!client) {
+      return res.status(422).json({
+        error: 'FatturaPA non valida',
+        details: [`Anagrafica cliente non trovata per "${fattura.cliente}"`]
+      });
+    }
+
+    const riferimento = fattura.fatturaRiferimentoId
+      ? await fattureEmesseStorage.findById(fattura.fatturaRiferimentoId)
+      : undefined;
+    const result = await generateFatturaPA(fattura, client, settings, riferimento ?? undefined);
+    if (result.errors.length > 0) {
+      return res.status(422).json({ error: 'FatturaPA non valida', details: result.errors });
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    res.send(result.xml);
+  } catch (error) {
+    console.error('FatturaPA generation error:', error);
+    res.status(500).json({ error: 'Failed to generate FatturaPA' });
+  }
+});
+
 // ============================================================================
 // Fatture Consulenti Routes (solo ADMIN visibilità e inserimento)
 // ============================================================================
 router.get('/api/fatture-consulenti', async (req, res) => {
   try {
     const fatture = await fattureConsulentiStorage.readAll();
-    res.json(fatture);
+    res.json(await withPaymentStatus('consulenti', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture consulenti' });
   }
@@ -1143,7 +1713,8 @@ router.get('/api/fatture-consulenti/:id', async (req, res) => {
     if (!fattura) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(fattura);
+    const [fatturaConStato] = await withPaymentStatus('consulenti', [fattura]);
+    res.json(fatturaConStato);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fattura' });
   }
@@ -1152,7 +1723,7 @@ router.get('/api/fatture-consulenti/:id', async (req, res) => {
 router.get('/api/fatture-consulenti/project/:projectId', async (req, res) => {
   try {
     const fatture = await fattureConsulentiStorage.findByField('projectId', req.params.projectId);
-    res.json(fatture);
+    res.json(await withPaymentStatus('consulenti', fatture));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch fatture for project' });
   }
@@ -1174,12 +1745,14 @@ router.post('/api/fatture-consulenti', async (req, res) => {
 
 router.put('/api/fatture-consulenti/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaConsulente> = req.body;
+    const updates = validateUpdate(insertFatturaConsulenteSchema, req, res);
+    if (!updates) return;
+
     const updated = await fattureConsulentiStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    res.json(await refreshPaymentFlags('consulenti', updated));
   } catch (error) {
     res.status(500).json({ error: 'Failed to update fattura' });
   }
@@ -1187,12 +1760,14 @@ router.put('/api/fatture-consulenti/:id', async (req, res) => {
 
 router.patch('/api/fatture-consulenti/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertFatturaConsulente> = req.body;
+    const updates = validateUpdate(insertFatturaConsulenteSchema, req, res);
+    if (!updates) return;
+
     const updated = await fattureConsulentiStorage.update(req.params.id, updates);
     if (!updated) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
-    res.json(updated);
+    res.json(await refreshPaymentFlags('consulenti', updated));
   } catch (error) {
     res.status(500).json({ error: 'Failed to update fattura' });
   }
@@ -1204,6 +1779,7 @@ router.delete('/api/fatture-consulenti/:id', async (req, res) => {
     if (!deleted) {
       return res.status(404).json({ error: 'Fattura not found' });
     }
+    await deleteInvoicePayments('consulenti', req.params.id);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: 'Failed to delete fattura' });
@@ -1211,50 +1787,724 @@ router.delete('/api/fatture-consulenti/:id', async (req, res) => {
 });
 
 // ============================================================================
-// Costi Generali Routes
+// Import FatturaPA ricevute (XML / .p7m) -> fatture ingresso e consulenti
 // ============================================================================
-router.get('/api/costi-generali', async (req, res) => {
-  try {
-    const costi = await costiGeneraliStorage.readAll();
-    res.json(costi);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch costi generali' });
+// Restituisce le proposte senza salvarle: la conferma passa dal POST standard
+const fatturaPAUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (/\.(xml|p7m)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(fileTypeNotAllowed('Sono consentiti solo file FatturaPA .xml o .p7m'));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB max
   }
 });
 
-router.get('/api/costi-generali/:id', async (req, res) => {
-  try {
-    const costo = await costiGeneraliStorage.findById(req.params.id);
-    if (!costo) {
-      return res.status(404).json({ error: 'Costo not found' });
+function importFatturaPARoute(target: ImportTarget) {
+  return async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'Nessun file caricato' });
+      }
+
+      const [projects, existing] = await Promise.all([
+        projectsStorage.readAll(),
+        target === 'ingresso' ? fattureIngressoStorage.readAll() : fattureConsulentiStorage.readAll()
+      ]);
+      const documents = importFatturaPA(req.file.buffer, { target, projects, existing });
+      res.json({ fileName: req.file.originalname, documents });
+    } catch (error) {
+      if (error instanceof FatturaPAImportError) {
+        return res.status(422).json({ error: 'FatturaPA non leggibile', details: [error.message] });
+      }
+      console.error('FatturaPA import error:', error);
+      res.status(500).json({ error: 'Failed to import FatturaPA' });
     }
-    res.json(costo);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch costo' });
-  }
-});
+  };
+}
 
-router.post('/api/costi-generali', async (req, res) => {
-  try {
-    const costoData: InsertCostoGenerale = req.body;
-    const costo = {
-      id: randomUUID(),
+router.post('/api/fatture-ingresso/import', fatturaPAUpload.single('file'), importFatturaPARoute('ingresso'));
+router.post('/api/fatture-consulenti/import', fatturaPAUpload.single('file'), importFatturaPARoute('consulenti'));
+
+// ============================================================================
+// Pagamenti Fatture Routes (acconti, SAL, saldo)
+// ============================================================================
+// Sotto-collezione per fattura: /api/fatture-<tipo>/:id/pagamenti. I permessi
+// sono quelli della fattura. Un pagamento non può superare il residuo.
+// I pagamenti registrati dalla riconciliazione si annullano dal movimento
+const PAGAMENTO_RICONCILIATO_ERROR =
+  'Pagamento registrato dalla riconciliazione bancaria: annullare la riconciliazione del movimento';
+
+const INVOICE_ROUTES: Record<TipoFatturaPagamento, string> = {
+  emesse: '/api/fatture-emesse',
+  ingresso: '/api/fatture-ingresso',
+  consulenti: '/api/fatture-consulenti'
+};
+
+function residuoError(res: Response, residuo: number) {
+  return res.status(400).json({
+    error: 'Validation error',
+    details: { importo: [`L'importo supera il residuo della fattura (${residuo})`] }
+  });
+}
+
+for (const tipo of TIPI_FATTURA_PAGAMENTO) {
+  const base = INVOICE_ROUTES[tipo];
+  const invoiceStorage = INVOICE_STORAGES[tipo];
+
+  router.get(`${base}/:id/pagamenti`, async (req, res) => {
+    try {
+      const fattura = await invoiceStorage.findById(req.params.id);
+      if (!fattura) {
+        return res.status(404).json({ error: 'Fattura not found' });
+      }
+      const pagamenti = await findInvoicePayments(tipo, fattura.id);
+      const contesto = await contestoDovuto(tipo, fattura.id);
+      res.json({ pagamenti, statoPagamento: computePaymentStatus(tipo, fattura, pagamenti, contesto) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch pagamenti' });
+    }
+  });
+
+  router.post(`${base}/:id/pagamenti`, async (req, res) => {
+    try {
+      const validationResult = insertPagamentoFatturaSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const errors = validationResult.error.flatten();
+        return res.status(400).json({
+          error: 'Validation error',
+          details: errors.fieldErrors
+        });
+      }
+
+      const fattura = await invoiceStorage.findById(req.params.id);
+      if (!fattura) {
+        return res.status(404).json({ error: 'Fattura not found' });
+      }
+      const residuo = residuoPagabile(
+        tipo,
+        fattura,
+        await findInvoicePayments(tipo, fattura.id),
+        await contestoDovuto(tipo, fattura.id)
+      );
+      if (validationResult.data.importo > residuo + 0.005) {
+        return residuoError(res, residuo);
+      }
+
+      const pagamento = await pagamentiFattureStorage.create({
+        id: randomUUID(),
+        fatturaTipo: tipo,
+        fatturaId: fattura.id,
+        ...validationResult.data,
+        createdAt: new Date().toISOString()
+      });
+      await syncInvoicePaymentFlags(tipo, fattura.id);
+      res.status(201).json(pagamento);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create pagamento' });
+    }
+  });
+
+  router.put(`${base}/:id/pagamenti/:pagamentoId`, async (req, res) => {
+    try {
+      const updates = validateUpdate(insertPagamentoFatturaSchema, req, res, 'pagamentoId');
+      if (!updates) return;
+
+      const fattura = await invoiceStorage.findById(req.params.id);
+      const pagamenti = fattura ? await findInvoicePayments(tipo, fattura.id) : [];
+      const pagamento = pagamenti.find(p => p.id === req.params.pagamentoId);
+      if (!fattura || !pagamento) {
+        return res.status(404).json({ error: 'Pagamento not found' });
+      }
+      if (pagamento.movimentoId) {
+        return res.status(400).json({ error: PAGAMENTO_RICONCILIATO_ERROR });
+      }
+
+      if (updates.importo !== undefined) {
+        const residuo = residuoPagabile(
+          tipo,
+          fattura,
+          pagamenti.filter(p => p.id !== pagamento.id),
+          await contestoDovuto(tipo, fattura.id)
+        );
+        if (updates.importo > residuo + 0.005) {
+          return residuoError(res, residuo);
+        }
+      }
+
+      const updated = await pagamentiFattureStorage.update(pagamento.id, updates);
+      await syncInvoicePaymentFlags(tipo, fattura.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update pagamento' });
+    }
+  });
+
+  router.delete(`${base}/:id/pagamenti/:pagamentoId`, async (req, res) => {
+    try {
+      const pagamento = await pagamentiFattureStorage.findById(req.params.pagamentoId);
+      if (!pagamento || pagamento.fatturaTipo !== tipo || pagamento.fatturaId !== req.params.id) {
+        return res.status(404).json({ error: 'Pagamento not found' });
+      }
+      if (pagamento.movimentoId) {
+        return res.status(400).json({ error: PAGAMENTO_RICONCILIATO_ERROR });
+      }
+      await pagamentiFattureStorage.delete(pagamento.id);
+      await syncInvoicePaymentFlags(tipo, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete pagamento' });
+    }
+  });
+}
+
+// ============================================================================
+// Movimenti Bancari e Riconciliazione Routes (solo ADMIN)
+// ============================================================================
+const estrattoContoUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|txt|xml)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(fileTypeNotAllowed('Sono consentiti solo estratti conto .csv o CAMT.053 .xml'));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB max
+  }
+});
+
+// I movimenti già presenti (stessa impronta) vengono scartati
+router.post('/api/movimenti-bancari/import', estrattoContoUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Nessun file caricato' });
+    }
+
+    const { formato, movimenti } = parseEstrattoConto(req.file.buffer, req.file.originalname);
+    const esistenti = new Set((await movimentiBancariStorage.readAll()).map(m => m.hash));
+    const now = new Date().toISOString();
+    const importati: MovimentoBancario[] = [];
+    for (const movimento of movimenti.filter(m => !esistenti.has(m.hash))) {
+      importati.push(await movimentiBancariStorage.create({
+        id: randomUUID(),
+        ...movimento,
+        stato: 'da_riconciliare',
+        abbinamenti: [],
+        createdAt: now
+      }));
+    }
+
+    const result: ImportEstrattoConto = {
+      fonte: req.file.originalname,
+      formato,
+      importati: importati.length,
+      duplicati: movimenti.length - importati.length,
+      movimenti: importati
+    };
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof EstrattoContoError) {
+      return res.status(422).json({ error: 'Estratto conto non leggibile', details: [error.message] });
+    }
+    console.error('Bank statement import error:', error);
+    res.status(500).json({ error: 'Failed to import estratto conto' });
+  }
+});
+
+// Query: stato. I movimenti da riconciliare riportano il miglior candidato
+router.get('/api/movimenti-bancari', async (req, res) => {
+  try {
+    let movimenti = await movimentiBancariStorage.readAll();
+    if (typeof req.query.stato === 'string' && req.query.stato) {
+      movimenti = movimenti.filter(m => m.stato === req.query.stato);
+    }
+
+    const ctx = movimenti.some(m => m.stato === 'da_riconciliare') ? await contestoRiconciliazione() : null;
+    res.json(movimenti
+      .map(m => (ctx && m.stato === 'da_riconciliare' ? { ...m, proposta: candidatiMovimento(m, ctx)[0] } : m))
+      .sort((a, b) => b.data.localeCompare(a.data)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch movimenti bancari' });
+  }
+});
+
+router.get('/api/movimenti-bancari/:id/candidati', async (req, res) => {
+  try {
+    const movimento = await movimentiBancariStorage.findById(req.params.id);
+    if (!movimento) {
+      return res.status(404).json({ error: 'Movimento not found' });
+    }
+    res.json(candidatiMovimento(movimento, await contestoRiconciliazione()));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch candidati' });
+  }
+});
+
+// Conferma: uno o più documenti (suddivisione) per l'intero importo del movimento
+router.post('/api/movimenti-bancari/:id/riconcilia', async (req, res) => {
+  try {
+    const validationResult = riconciliazioneSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const movimento = await movimentiBancariStorage.findById(req.params.id);
+    if (!movimento) {
+      return res.status(404).json({ error: 'Movimento not found' });
+    }
+    res.json(await riconciliaMovimento(movimento, validationResult.data));
+  } catch (error) {
+    if (error instanceof RiconciliazioneError) {
+      return res.status(400).json({ error: 'Validation error', details: { abbinamenti: [error.message] } });
+    }
+    console.error('Reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to reconcile movimento' });
+  }
+});
+
+router.delete('/api/movimenti-bancari/:id/riconcilia', async (req, res) => {
+  try {
+    const movimento = await movimentiBancariStorage.findById(req.params.id);
+    if (!movimento) {
+      return res.status(404).json({ error: 'Movimento not found' });
+    }
+    if (movimento.stato !== 'riconciliato') {
+      return res.status(400).json({ error: 'Il movimento non è riconciliato' });
+    }
+    res.json(await annullaRiconciliazione(movimento));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to undo reconciliation' });
+  }
+});
+
+// Solo cambio di stato tra da_riconciliare e ignorato (commissioni, giroconti, ...)
+router.patch('/api/movimenti-bancari/:id', async (req, res) => {
+  try {
+    const validationResult = z.object({ stato: z.enum(['da_riconciliare', 'ignorato']) }).safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const movimento = await movimentiBancariStorage.findById(req.params.id);
+    if (!movimento) {
+      return res.status(404).json({ error: 'Movimento not found' });
+    }
+    if (movimento.stato === 'riconciliato') {
+      return res.status(400).json({ error: 'Annullare prima la riconciliazione del movimento' });
+    }
+    res.json(await movimentiBancariStorage.update(movimento.id, validationResult.data));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update movimento' });
+  }
+});
+
+router.delete('/api/movimenti-bancari/:id', async (req, res) => {
+  try {
+    const movimento = await movimentiBancariStorage.findById(req.params.id);
+    if (!movimento) {
+      return res.status(404).json({ error: 'Movimento not found' });
+    }
+    if (movimento.stato === 'riconciliato') {
+      return res.status(400).json({ error: 'Annullare prima la riconciliazione del movimento' });
+    }
+    await movimentiBancariStorage.delete(movimento.id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete movimento' });
+  }
+});
+
+// ============================================================================
+// Solleciti Fatture Emesse Routes (solo ADMIN)
+// ============================================================================
+// Fatture scadute non saldate (anche in contenzioso) con livello dovuto e ultimo sollecito
+router.get('/api/solleciti', async (req, res) => {
+  try {
+    res.json(await fattureDaSollecitare(await fattureEmesseStorage.readAll()));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch solleciti' });
+  }
+});
+
+router.get('/api/solleciti/:fatturaId', async (req, res) => {
+  try {
+    const fattura = await fattureEmesseStorage.findById(req.params.fatturaId);
+    if (!fattura) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+    res.json(await findSolleciti(fattura.id));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch solleciti' });
+  }
+});
+
+// Lettera del livello richiesto (default: livello successivo all'ultimo inviato)
+// compilata con i dati di cliente, commessa, fattura e studio
+router.get('/api/solleciti/:fatturaId/anteprima', async (req, res) => {
+  try {
+    const fattura = await fattureEmesseStorage.findById(req.params.fatturaId);
+    if (!fattura) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+
+    const livelli = await getLivelliSollecito();
+    const ultimoLivello = (await findSolleciti(fattura.id)).reduce((max, s) => Math.max(max, s.livello), 0);
+    const livello = Number(req.query.livello) || Math.min(ultimoLivello + 1, livelli.length);
+    if (!Number.isInteger(livello) || livello < 1 || livello > livelli.length) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: { livello: [`Livello non valido (1-${livelli.length})`] }
+      });
+    }
+
+    const [conStato] = await withPaymentStatus('emesse', [fattura]);
+    const project = await projectsStorage.findById(fattura.projectId);
+    const client = await findClienteFattura(fattura, project);
+    const settings = await firmSettingsStorage.findById(FIRM_SETTINGS_ID);
+    res.json(anteprimaSollecito(livello, livelli, conStato, project, client, settings));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to render sollecito' });
+  }
+});
+
+// Registra il sollecito inviato e la relativa comunicazione sulla commessa
+router.post('/api/solleciti/:fatturaId', async (req, res) => {
+  try {
+    const validationResult = insertSollecitoSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const fattura = await fattureEmesseStorage.findById(req.params.fatturaId);
+    if (!fattura) {
+      return res.status(404).json({ error: 'Fattura not found' });
+    }
+    const [conStato] = await withPaymentStatus('emesse', [fattura]);
+    if (fattura.inContenzioso || !isScaduta(conStato)) {
+      return res.status(400).json({
+        error: fattura.inContenzioso
+          ? 'La fattura è in contenzioso: i solleciti sono sospesi'
+          : 'La fattura non è scaduta o risulta già saldata'
+      });
+    }
+    const livelli = await getLivelliSollecito();
+    if (validationResult.data.livello > livelli.length) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: { livello: [`Livello non valido (1-${livelli.length})`] }
+      });
+    }
+
+    const now = new Date().toISOString();
+    const { canale, oggetto, testo, destinatario, data } = validationResult.data;
+    const communication: Communication = {
+      id: randomUUID(),
+      projectId: fattura.projectId,
+      type: canale,
+      direction: 'outgoing',
+      subject: oggetto,
+      body: testo,
+      recipient: destinatario,
+      tags: ['sollecito'],
+      isImportant: validationResult.data.livello === livelli.length,
+      communicationDate: data,
+      createdBy: req.currentUser?.nome,
+      createdAt: now,
+      updatedAt: now
+    };
+    await communicationsStorage.create(communication);
+
+    const sollecito: Sollecito = {
+      id: randomUUID(),
+      ...validationResult.data,
+      fatturaId: fattura.id,
+      projectId: fattura.projectId,
+      communicationId: communication.id,
+      createdBy: req.currentUser?.nome,
+      createdAt: now
+    };
+    await sollecitiStorage.create(sollecito);
+    res.status(201).json(sollecito);
+  } catch (error) {
+    console.error('Sollecito creation error:', error);
+    res.status(500).json({ error: 'Failed to create sollecito' });
+  }
+});
+
+router.get('/api/settings/solleciti', async (req, res) => {
+  try {
+    res.json({ livelli: await getLivelliSollecito() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch impostazioni solleciti' });
+  }
+});
+
+router.put('/api/settings/solleciti', async (req, res) => {
+  try {
+    const validationResult = impostazioniSollecitiSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: { ...errors.fieldErrors, ...(errors.formErrors.length ? { livelli: errors.formErrors } : {}) }
+      });
+    }
+
+    const impostazioni = await impostazioniSollecitiStorage.upsert({
+      ...validationResult.data,
+      id: IMPOSTAZIONI_SOLLECITI_ID
+    });
+    res.json(impostazioni);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save impostazioni solleciti' });
+  }
+});
+
+// Modello della lettera di offerta dei preventivi
+router.get('/api/settings/offerta', async (req, res) => {
+  try {
+    res.json(await getModelloOfferta());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch modello offerta' });
+  }
+});
+
+router.put('/api/settings/offerta', async (req, res) => {
+  try {
+    const validationResult = modelloOffertaSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: validationResult.error.flatten().fieldErrors
+      });
+    }
+
+    const modello = await modelloOffertaStorage.upsert({
+      ...validationResult.data,
+      id: MODELLO_OFFERTA_ID
+    });
+    res.json(modello);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save modello offerta' });
+  }
+});
+
+// Saldo bancario di partenza della previsione di cassa
+router.get('/api/settings/previsione-cassa', async (req, res) => {
+  try {
+    res.json(await getSaldoIniziale());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch impostazioni previsione' });
+  }
+});
+
+router.put('/api/settings/previsione-cassa', async (req, res) => {
+  try {
+    const validationResult = impostazioniPrevisioneSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const impostazioni = await impostazioniPrevisioneStorage.upsert({
+      ...validationResult.data,
+      id: IMPOSTAZIONI_PREVISIONE_ID,
+      updatedAt: new Date().toISOString()
+    });
+    res.json(impostazioni);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save impostazioni previsione' });
+  }
+});
+
+// Criteri di ripartizione dei costi generali sulle commesse
+router.get('/api/settings/ripartizione-costi', async (req, res) => {
+  try {
+    res.json(await getImpostazioniRipartizione());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch impostazioni ripartizione' });
+  }
+});
+
+router.put('/api/settings/ripartizione-costi', async (req, res) => {
+  try {
+    const validationResult = impostazioniRipartizioneSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    for (const quota of validationResult.data.quote) {
+      if (!await projectsStorage.findById(quota.projectId)) {
+        return res.status(400).json({ error: 'Validation error', details: { quote: [`Commessa ${quota.projectId} non trovata`] } });
+      }
+    }
+
+    const impostazioni = await impostazioniRipartizioneStorage.upsert({
+      ...validationResult.data,
+      id: IMPOSTAZIONI_RIPARTIZIONE_ID,
+      updatedAt: new Date().toISOString()
+    });
+    res.json(impostazioni);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save impostazioni ripartizione' });
+  }
+});
+
+// ============================================================================
+// Serie Costi Generali Ricorrenti Routes
+// ============================================================================
+router.get('/api/costi-generali/serie', async (req, res) => {
+  try {
+    const serie = await serieCostiGeneraliStorage.readAll();
+    res.json(serie.map(s => ({ ...s, prossimaOccorrenza: prossimaOccorrenza(s) })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch serie costi generali' });
+  }
+});
+
+router.post('/api/costi-generali/serie', async (req, res) => {
+  try {
+    const validationResult = insertSerieCostoGeneraleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    res.status(201).json(await creaSerie(validationResult.data));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create serie costi generali' });
+  }
+});
+
+// Genera subito le occorrenze di tutte le serie (altrimenti all'avvio e ogni 12 ore)
+router.post('/api/costi-generali/serie/genera', async (req, res) => {
+  try {
+    const create = await generaCostiRicorrenti();
+    res.json({ generati: create.length, costi: create });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to generate costi ricorrenti' });
+  }
+});
+
+// Modifica dell'intera serie (le occorrenze passate, pagate o modificate
+// singolarmente restano invariate)
+router.put('/api/costi-generali/serie/:id', async (req, res) => {
+  try {
+    const validationResult = insertSerieCostoGeneraleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const serie = await serieCostiGeneraliStorage.findById(req.params.id);
+    if (!serie) {
+      return res.status(404).json({ error: 'Serie not found' });
+    }
+    res.json(await aggiornaSerie(serie, validationResult.data));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update serie costi generali' });
+  }
+});
+
+router.delete('/api/costi-generali/serie/:id', async (req, res) => {
+  try {
+    const serie = await serieCostiGeneraliStorage.findById(req.params.id);
+    if (!serie) {
+      return res.status(404).json({ error: 'Serie not found' });
+    }
+    await eliminaSerie(serie);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete serie costi generali' });
+  }
+});
+
+// ============================================================================
+// Costi Generali Routes
+// ============================================================================
+router.get('/api/costi-generali', async (req, res) => {
+  try {
+    const costi = await costiGeneraliStorage.readAll();
+    res.json(costi);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch costi generali' });
+  }
+});
+
+router.get('/api/costi-generali/:id', async (req, res) => {
+  try {
+    const costo = await costiGeneraliStorage.findById(req.params.id);
+    if (!costo) {
+      return res.status(404).json({ error: 'Costo not found' });
+    }
+    res.json(costo);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch costo' });
+  }
+});
+
+// Un costo ricorrente con periodicità avvia una serie di cui è la prima occorrenza
+router.post('/api/costi-generali', async (req, res) => {
+  try {
+    const costoData: InsertCostoGenerale = req.body;
+    const costo = {
+      id: randomUUID(),
       ...costoData
     };
     await costiGeneraliStorage.create(costo);
+    if (costo.ricorrente && costo.periodicita) {
+      await serieDaCosto(costo);
+      return res.status(201).json(await costiGeneraliStorage.findById(costo.id));
+    }
     res.status(201).json(costo);
   } catch (error) {
     res.status(500).json({ error: 'Failed to create costo' });
   }
 });
 
+// Modifica di una singola occorrenza: per modificare tutta la serie
+// usare PUT /api/costi-generali/serie/:id
 router.put('/api/costi-generali/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertCostoGenerale> = req.body;
-    const updated = await costiGeneraliStorage.update(req.params.id, updates);
-    if (!updated) {
+    const updates = validateUpdate(insertCostoGeneraleSchema, req, res);
+    if (!updates) return;
+
+    const costo = await costiGeneraliStorage.findById(req.params.id);
+    if (!costo) {
       return res.status(404).json({ error: 'Costo not found' });
     }
+    const updated = await costiGeneraliStorage.update(costo.id, modificaOccorrenza(costo, updates));
     res.json(updated);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update costo' });
@@ -1263,23 +2513,47 @@ router.put('/api/costi-generali/:id', async (req, res) => {
 
 router.patch('/api/costi-generali/:id', async (req, res) => {
   try {
-    const updates: Partial<InsertCostoGenerale> = req.body;
-    const updated = await costiGeneraliStorage.update(req.params.id, updates);
-    if (!updated) {
+    const updates = validateUpdate(insertCostoGeneraleSchema, req, res);
+    if (!updates) return;
+
+    const costo = await costiGeneraliStorage.findById(req.params.id);
+    if (!costo) {
       return res.status(404).json({ error: 'Costo not found' });
     }
+    const updated = await costiGeneraliStorage.update(costo.id, modificaOccorrenza(costo, updates));
     res.json(updated);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update costo' });
   }
 });
 
+// Crea la serie da un costo ricorrente inserito prima dell'introduzione delle serie
+router.post('/api/costi-generali/:id/serie', async (req, res) => {
+  try {
+    const costo = await costiGeneraliStorage.findById(req.params.id);
+    if (!costo) {
+      return res.status(404).json({ error: 'Costo not found' });
+    }
+    if (costo.serieId) {
+      return res.status(400).json({ error: 'Il costo appartiene già a una serie' });
+    }
+    if (!costo.periodicita) {
+      return res.status(400).json({ error: 'Validation error', details: { periodicita: ['Indicare la periodicità del costo'] } });
+    }
+    res.status(201).json(await serieDaCosto(costo));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create serie costi generali' });
+  }
+});
+
 router.delete('/api/costi-generali/:id', async (req, res) => {
   try {
-    const deleted = await costiGeneraliStorage.delete(req.params.id);
-    if (!deleted) {
+    const costo = await costiGeneraliStorage.findById(req.params.id);
+    if (!costo) {
       return res.status(404).json({ error: 'Costo not found' });
     }
+    await escludiOccorrenza(costo);
+    await costiGeneraliStorage.delete(costo.id);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: 'Failed to delete costo' });
@@ -1289,7 +2563,7 @@ router.delete('/api/costi-generali/:id', async (req, res) => {
 // ============================================================================
 // Cambio Password Route
 // ============================================================================
-router.post('/api/users/:id/change-password', async (req, res) => {
+router.post('/api/users/:id/change-password', requireSelfOrAdmin('id'), async (req, res) => {
   try {
     const { currentPassword, newPassword } = req.body;
     const user = await usersStorage.findById(req.params.id);
@@ -1298,15 +2572,16 @@ router.post('/api/users/:id/change-password', async (req, res) => {
       return res.status(404).json({ error: 'Utente non trovato' });
     }
 
-    if (user.password !== currentPassword) {
+    const { valid } = await verifyPassword(String(currentPassword ?? ''), user.password);
+    if (!valid) {
       return res.status(401).json({ error: 'Password attuale non corretta' });
     }
 
-    if (newPassword.length < 6) {
+    if (typeof newPassword !== 'string' || newPassword.length < 6) {
       return res.status(400).json({ error: 'La nuova password deve avere almeno 6 caratteri' });
     }
 
-    await usersStorage.update(req.params.id, { password: newPassword });
+    await usersStorage.update(req.params.id, { password: await hashPassword(newPassword) });
     res.json({ success: true, message: 'Password modificata con successo' });
   } catch (error) {
     res.status(500).json({ error: 'Failed to change password' });
@@ -1322,22 +2597,26 @@ router.get('/api/fatture-in-scadenza', async (req, res) => {
     const tra30giorni = new Date();
     tra30giorni.setDate(oggi.getDate() + 30);
 
+    // Fatture con residuo da pagare/incassare (anche parzialmente pagate) in scadenza
+    const daSaldare = (f: FatturaIngresso | FatturaConsulente | FatturaEmessa) =>
+      f.statoPagamento?.stato !== 'saldata' && new Date(f.dataScadenzaPagamento) <= tra30giorni;
+
     // Fatture ingresso non pagate in scadenza
-    const fattureIngresso = await fattureIngressoStorage.readAll();
+    const fattureIngresso = await withPaymentStatus('ingresso', await fattureIngressoStorage.readAll());
     const fattureIngressoInScadenza = fattureIngresso
-      .filter(f => !f.pagata && new Date(f.dataScadenzaPagamento) <= tra30giorni)
+      .filter(daSaldare)
       .map(f => ({ ...f, tipo: 'ingresso' as const }));
 
     // Fatture consulenti non pagate in scadenza
-    const fattureConsulenti = await fattureConsulentiStorage.readAll();
+    const fattureConsulenti = await withPaymentStatus('consulenti', await fattureConsulentiStorage.readAll());
     const fattureConsulentiInScadenza = fattureConsulenti
-      .filter(f => !f.pagata && new Date(f.dataScadenzaPagamento) <= tra30giorni)
+      .filter(daSaldare)
       .map(f => ({ ...f, tipo: 'consulente' as const }));
 
-    // Fatture emesse non incassate in scadenza
-    const fattureEmesse = await fattureEmesseStorage.readAll();
+    // Fatture emesse non incassate in scadenza (i crediti in contenzioso sono seguiti a parte)
+    const fattureEmesse = await withPaymentStatus('emesse', await fattureEmesseStorage.readAll());
     const fattureEmesseInScadenza = fattureEmesse
-      .filter(f => !f.incassata && new Date(f.dataScadenzaPagamento) <= tra30giorni)
+      .filter(f => daSaldare(f) && !f.inContenzioso)
       .map(f => ({ ...f, tipo: 'emessa' as const }));
 
     // Costi generali non pagati in scadenza
@@ -1368,22 +2647,34 @@ router.get('/api/fatture-in-scadenza', async (req, res) => {
 // ============================================================================
 router.get('/api/cash-flow', async (req, res) => {
   try {
-    // Fatture emesse (entrate)
-    const fattureEmesse = await fattureEmesseStorage.readAll();
-    const totaleEmesso = fattureEmesse.reduce((acc, f) => acc + f.importoTotale, 0);
-    const totaleIncassato = fattureEmesse.filter(f => f.incassata).reduce((acc, f) => acc + f.importoTotale, 0);
-    const totaleDaIncassare = totaleEmesso - totaleIncassato;
+    // Importi effettivamente pagati/incassati (pagamenti parziali inclusi)
+    const pagato = (f: { statoPagamento?: InvoicePaymentStatus }) => f.statoPagamento?.pagato ?? 0;
+
+    // Fatture emesse (entrate): tutti gli importi sono sul netto a pagare
+    // (ritenuta esclusa, note di credito già stornate), così che
+    // emesso = incassato + da incassare + contenzioso
+    const fattureEmesse = await withPaymentStatus('emesse', await fattureEmesseStorage.readAll());
+    const totaleEmesso = fattureEmesse.reduce((acc, f) => acc + (f.statoPagamento?.dovuto ?? 0), 0);
+    const totaleIncassato = fattureEmesse.reduce((acc, f) => acc + pagato(f), 0);
+    // I crediti in contenzioso non entrano nelle previsioni di incasso
+    const residuo = (f: FatturaEmessa) => f.statoPagamento?.residuo ?? 0;
+    const totaleContenzioso = fattureEmesse
+      .filter(f => f.inContenzioso)
+      .reduce((acc, f) => acc + residuo(f), 0);
+    const totaleDaIncassare = fattureEmesse
+      .filter(f => !f.inContenzioso)
+      .reduce((acc, f) => acc + residuo(f), 0);
 
     // Fatture ingresso (uscite)
-    const fattureIngresso = await fattureIngressoStorage.readAll();
+    const fattureIngresso = await withPaymentStatus('ingresso', await fattureIngressoStorage.readAll());
     const totaleFattureIngresso = fattureIngresso.reduce((acc, f) => acc + f.importo, 0);
-    const totaleFattureIngressoPagate = fattureIngresso.filter(f => f.pagata).reduce((acc, f) => acc + f.importo, 0);
+    const totaleFattureIngressoPagate = fattureIngresso.reduce((acc, f) => acc + pagato(f), 0);
     const totaleFattureIngressoDaPagare = totaleFattureIngresso - totaleFattureIngressoPagate;
 
     // Fatture consulenti (uscite)
-    const fattureConsulenti = await fattureConsulentiStorage.readAll();
+    const fattureConsulenti = await withPaymentStatus('consulenti', await fattureConsulentiStorage.readAll());
     const totaleFattureConsulenti = fattureConsulenti.reduce((acc, f) => acc + f.importo, 0);
-    const totaleFattureConsulentiPagate = fattureConsulenti.filter(f => f.pagata).reduce((acc, f) => acc + f.importo, 0);
+    const totaleFattureConsulentiPagate = fattureConsulenti.reduce((acc, f) => acc + pagato(f), 0);
     const totaleFattureConsulentiDaPagare = totaleFattureConsulenti - totaleFattureConsulentiPagate;
 
     // Costi vivi (uscite)
@@ -1406,7 +2697,8 @@ router.get('/api/cash-flow', async (req, res) => {
         totaleEmesso,
         totaleIncassato,
         totaleDaIncassare,
-        fatture: fattureEmesse.length
+        totaleContenzioso,
+        fatture: fattureEmesse.filter(f => !isNotaCredito(f)).length
       },
       uscite: {
         totale: totaleUscite,
@@ -1420,13 +2712,69 @@ router.get('/api/cash-flow', async (req, res) => {
         }
       },
       saldo: totaleIncassato - totaleUscitePagate,
-      saldoPrevisionale: totaleEmesso - totaleUscite
+      saldoPrevisionale: totaleIncassato + totaleDaIncassare - totaleUscite
     });
   } catch (error) {
     res.status(500).json({ error: 'Failed to calculate cash flow' });
   }
 });
 
+// ============================================================================
+// Aging Route (scadenzario crediti/debiti per fasce - solo ADMIN)
+// ============================================================================
+// Query: data (default: oggi), format=json|csv|xlsx
+router.get('/api/aging', async (req, res) => {
+  try {
+    const data = typeof req.query.data === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.data)
+      ? req.query.data
+      : new Date().toISOString().split('T')[0];
+    const report = await buildAgingReport(data);
+
+    const fileName = `scadenzario-crediti-debiti-${data}`;
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      return res.send(agingCsv(report));
+    }
+    if (req.query.format === 'xlsx') {
+      res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.xlsx"`);
+      return res.send(buildXlsx(agingSheets(report)));
+    }
+    res.json(report);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build aging report' });
+  }
+});
+
+// ============================================================================
+// Previsione di Cassa Route (12 mesi - solo ADMIN)
+// ============================================================================
+// Query: data (default: oggi)
+router.get('/api/previsione-cassa', async (req, res) => {
+  try {
+    const data = typeof req.query.data === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.data)
+      ? req.query.data
+      : new Date().toISOString().split('T')[0];
+    res.json(await buildPrevisioneCassa(data));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build previsione di cassa' });
+  }
+});
+
+// ============================================================================
+// Ripartizione Costi Generali Route (overhead per commessa - solo ADMIN)
+// ============================================================================
+// Query: dal, al (YYYY-MM, facoltativi)
+router.get('/api/ripartizione-costi', async (req, res) => {
+  try {
+    const mese = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}$/.test(value) ? value : undefined;
+    res.json(await buildRipartizioneOverhead(mese(req.query.dal), mese(req.query.al)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build ripartizione costi generali' });
+  }
+});
+
 // ============================================================================
 // Project Summary Route (contatore fatture e costi per commessa)
 // ============================================================================
@@ -1434,10 +2782,16 @@ router.get('/api/projects/:id/summary', async (req, res) => {
   try {
     const projectId = req.params.id;
 
-    // Fatture emesse
-    const fattureEmesse = await fattureEmesseStorage.findByField('projectId', projectId);
-    const totaleEmesso = fattureEmesse.reduce((acc, f) => acc + f.importoTotale, 0);
-    const totaleIncassato = fattureEmesse.filter(f => f.incassata).reduce((acc, f) => acc + f.importoTotale, 0);
+    // Fatture emesse: le note di credito riducono fatturato e ricavi
+    const documentiEmessi = await withPaymentStatus(
+      'emesse',
+      await fattureEmesseStorage.findByField('projectId', projectId)
+    );
+    const fattureEmesse = documentiEmessi.filter(f => !isNotaCredito(f));
+    const noteCredito = documentiEmessi.filter(isNotaCredito);
+    const totaleNoteCredito = noteCredito.reduce((acc, f) => acc + f.importoTotale, 0);
+    const totaleEmesso = fattureEmesse.reduce((acc, f) => acc + f.importoTotale, 0) - totaleNoteCredito;
+    const totaleIncassato = fattureEmesse.reduce((acc, f) => acc + (f.statoPagamento?.pagato ?? 0), 0);
 
     // Fatture ingresso
     const fattureIngresso = await fattureIngressoStorage.findByField('projectId', projectId);
@@ -1455,23 +2809,43 @@ router.get('/api/projects/:id/summary', async (req, res) => {
     const prestazioni = await prestazioniStorage.findByField('projectId', projectId);
     const totalePrestazioni = prestazioni.reduce((acc, p) => acc + (p.oreLavoro * p.costoOrario), 0);
 
-    const totaleCosti = totaleFattureIngresso + totaleFattureConsulenti + totaleCostiVivi + totalePrestazioni;
+    const totaleCostiDiretti = totaleFattureIngresso + totaleFattureConsulenti + totaleCostiVivi + totalePrestazioni;
+
+    // Quota dei costi generali attribuita alla commessa
+    const overhead = await overheadCommessa(projectId);
+
+    const totaleCosti = totaleCostiDiretti + overhead.totale;
     const margine = totaleEmesso - totaleCosti;
     const marginePercentuale = totaleEmesso > 0 ? (margine / totaleEmesso) * 100 : 0;
 
+    // Gli operativi non vedono fatture emesse e consulenti: solo i costi
+    // a cui hanno accesso, senza ricavi né margini
+    if (!isAdmin(req)) {
+      return res.json({
+        costi: {
+          fattureIngresso: { count: fattureIngresso.length, totale: totaleFattureIngresso },
+          costiVivi: { count: costiVivi.length, totale: totaleCostiVivi },
+          prestazioni: { count: prestazioni.length, totale: totalePrestazioni }
+        }
+      });
+    }
+
     res.json({
       fattureEmesse: {
         count: fattureEmesse.length,
         totale: totaleEmesso,
-        incassato: totaleIncassato
+        incassato: totaleIncassato,
+        noteCredito: { count: noteCredito.length, totale: totaleNoteCredito }
       },
       costi: {
         fattureIngresso: { count: fattureIngresso.length, totale: totaleFattureIngresso },
         fattureConsulenti: { count: fattureConsulenti.length, totale: totaleFattureConsulenti },
         costiVivi: { count: costiVivi.length, totale: totaleCostiVivi },
         prestazioni: { count: prestazioni.length, totale: totalePrestazioni },
+        overhead: { totale: overhead.totale, quote: overhead.quote },
         totale: totaleCosti
       },
+      margineDiretto: totaleEmesso - totaleCostiDiretti,
       margine,
       marginePercentuale
     });
@@ -1479,3 +2853,390 @@ router.get('/api/projects/:id/summary', async (req, res) => {
     res.status(500).json({ error: 'Failed to fetch project summary' });
   }
 });
+
+// ============================================================================
+// Calcolo Parcella Routes (DM 17/06/2016, senza salvataggio)
+// ============================================================================
+// Stesso calcolo delle revisioni dei preventivi: parcella, sconto e fattura
+router.post('/api/parcella/calcola', async (req, res) => {
+  try {
+    const validationResult = calcoloParcellaSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: validationResult.error.flatten().fieldErrors
+      });
+    }
+
+    res.json(calcolaCompenso(validationResult.data));
+  } catch (error) {
+    if (error instanceof ParcellaError) {
+      return res.status(400).json({ error: 'Validation error', details: { opere: [error.message] } });
+    }
+    res.status(500).json({ error: 'Failed to calculate parcella' });
+  }
+});
+
+// ============================================================================
+// Preventivi Routes (offerte dal Calcolo Parcella - solo ADMIN)
+// ============================================================================
+function preventivoErrorResponse(res: Response, error: PreventivoError) {
+  return res.status(400).json({ error: 'Validation error', details: { [error.field]: [error.message] } });
+}
+
+router.get('/api/preventivi', async (req, res) => {
+  try {
+    const preventivi = await preventiviStorage.readAll();
+    res.json(preventivi.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch preventivi' });
+  }
+});
+
+router.get('/api/preventivi/:id', async (req, res) => {
+  try {
+    const preventivo = await preventiviStorage.findById(req.params.id);
+    if (!preventivo) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    res.json(preventivo);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch preventivo' });
+  }
+});
+
+router.post('/api/preventivi', async (req, res) => {
+  try {
+    const validationResult = insertPreventivoSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    res.status(201).json(await creaPreventivo(validationResult.data, req.currentUser?.nome));
+  } catch (error) {
+    if (error instanceof PreventivoError) {
+      return preventivoErrorResponse(res, error);
+    }
+    console.error('Preventivo creation error:', error);
+    res.status(500).json({ error: 'Failed to create preventivo' });
+  }
+});
+
+// Nuova revisione: il preventivo torna in bozza
+router.post('/api/preventivi/:id/revisioni', async (req, res) => {
+  try {
+    const validationResult = insertRevisionePreventivoSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const preventivo = await preventiviStorage.findById(req.params.id);
+    if (!preventivo) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    res.status(201).json(await aggiungiRevisione(preventivo, validationResult.data, req.currentUser?.nome));
+  } catch (error) {
+    if (error instanceof PreventivoError) {
+      return preventivoErrorResponse(res, error);
+    }
+    res.status(500).json({ error: 'Failed to create revisione' });
+  }
+});
+
+router.patch('/api/preventivi/:id/stato', async (req, res) => {
+  try {
+    const validationResult = statoPreventivoSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const preventivo = await preventiviStorage.findById(req.params.id);
+    if (!preventivo) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    res.json(await cambiaStato(preventivo, validationResult.data.stato));
+  } catch (error) {
+    if (error instanceof PreventivoError) {
+      return preventivoErrorResponse(res, error);
+    }
+    res.status(500).json({ error: 'Failed to update stato preventivo' });
+  }
+});
+
+// Crea la commessa dal preventivo accettato (metadata dall'ultima revisione)
+router.post('/api/preventivi/:id/converti', async (req, res) => {
+  try {
+    const validationResult = convertiPreventivoSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    const preventivo = await preventiviStorage.findById(req.params.id);
+    if (!preventivo) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    const client = await clientsStorage.findById(preventivo.clientId);
+    const year = validationResult.data.year ?? new Date().getFullYear() % 100;
+    const code = validationResult.data.code
+      ?? await generaCodiceCommessa(client?.sigla ?? '', preventivo.city || client?.city || '', year);
+
+    const project = await convertiInCommessa(preventivo, { ...validationResult.data, code, year });
+    res.status(201).json(project);
+  } catch (error) {
+    if (error instanceof PreventivoError) {
+      return preventivoErrorResponse(res, error);
+    }
+    console.error('Preventivo conversion error:', error);
+    res.status(500).json({ error: 'Failed to convert preventivo' });
+  }
+});
+
+// Lettera di offerta in PDF; ?revisione=N per una revisione precedente
+router.get('/api/preventivi/:id/pdf', async (req, res) => {
+  try {
+    const preventivo = await preventiviStorage.findById(req.params.id);
+    if (!preventivo) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    const numero = req.query.revisione ? parseInt(req.query.revisione as string, 10) : undefined;
+    const revisione = numero === undefined
+      ? ultimaRevisione(preventivo)
+      : preventivo.revisioni.find(r => r.numero === numero);
+    if (!revisione) {
+      return res.status(404).json({ error: 'Revisione not found' });
+    }
+    const client = await clientsStorage.findById(preventivo.clientId);
+    if (!client) {
+      return res.status(400).json({ error: 'Validation error', details: { clientId: ['Cliente non trovato'] } });
+    }
+
+    const pdf = await buildOffertaPdf(
+      preventivo,
+      revisione,
+      client,
+      await firmSettingsStorage.findById(FIRM_SETTINGS_ID),
+      await getModelloOfferta()
+    );
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${preventivo.numero}-rev${revisione.numero}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Offerta PDF error:', error);
+    res.status(500).json({ error: 'Failed to generate offerta PDF' });
+  }
+});
+
+router.delete('/api/preventivi/:id', async (req, res) => {
+  try {
+    const deleted = await preventiviStorage.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Preventivo not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete preventivo' });
+  }
+});
+
+// ============================================================================
+// Firm Settings Routes (dati studio per FatturaPA - solo ADMIN)
+// ============================================================================
+router.get('/api/settings/firm', async (req, res) => {
+  try {
+    const settings = await firmSettingsStorage.findById(FIRM_SETTINGS_ID);
+    if (!settings) {
+      return res.status(404).json({ error: 'Firm settings not configured' });
+    }
+    res.json(settings);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch firm settings' });
+  }
+});
+
+router.put('/api/settings/firm', async (req, res) => {
+  try {
+    const validationResult = firmSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+
+    // PUT sostituisce l'intera configurazione (i campi opzionali omessi vengono rimossi)
+    const settings = await firmSettingsStorage.upsert({ ...validationResult.data, id: FIRM_SETTINGS_ID });
+    res.json(settings);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save firm settings' });
+  }
+});
+
+// ============================================================================
+// Numerazione Fatture Emesse Routes (serie e report - solo ADMIN)
+// ============================================================================
+// Una sola serie predefinita: impostandone una, le altre perdono il flag
+async function unsetSeriePredefinita(exceptId: string) {
+  for (const serie of await serieNumerazioneStorage.readAll()) {
+    if (serie.id !== exceptId && serie.predefinita) {
+      await serieNumerazioneStorage.update(serie.id, { predefinita: false });
+    }
+  }
+}
+
+async function serieInUso(codice: string): Promise<boolean> {
+  return (await fattureEmesseStorage.findByField('serie', codice)).length > 0;
+}
+
+router.get('/api/settings/numerazione/serie', async (req, res) => {
+  try {
+    res.json(await serieNumerazioneStorage.readAll());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch serie numerazione' });
+  }
+});
+
+router.post('/api/settings/numerazione/serie', async (req, res) => {
+  try {
+    const validationResult = insertSerieNumerazioneSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten();
+      return res.status(400).json({
+        error: 'Validation error',
+        details: errors.fieldErrors
+      });
+    }
+    if ((await serieNumerazioneStorage.findByField('codice', validationResult.data.codice)).length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: { codice: [`La serie ${validationResult.data.codice} esiste già`] }
+      });
+    }
+
+    const serie = await serieNumerazioneStorage.create({ id: randomUUID(), ...validationResult.data });
+    if (serie.predefinita) await unsetSeriePredefinita(serie.id);
+    res.status(201).json(serie);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create serie numerazione' });
+  }
+});
+
+router.put('/api/settings/numerazione/serie/:id', async (req, res) => {
+  try {
+    const updates = validateUpdate(insertSerieNumerazioneSchema, req, res);
+    if (!updates) return;
+
+    const existing = await serieNumerazioneStorage.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Serie not found' });
+    }
+    // Codice e formato identificano i numeri già emessi
+    const cambiaNumeri = (updates.codice !== undefined && updates.codice !== existing.codice)
+      || (updates.formato !== undefined && updates.formato !== existing.formato);
+    if (cambiaNumeri && await serieInUso(existing.codice)) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: { formato: ['Codice e formato non sono modificabili: la serie ha già fatture emesse'] }
+      });
+    }
+
+    const updated = await serieNumerazioneStorage.update(existing.id, updates);
+    if (updated?.predefinita) await unsetSeriePredefinita(updated.id);
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update serie numerazione' });
+  }
+});
+
+router.delete('/api/settings/numerazione/serie/:id', async (req, res) => {
+  try {
+    const serie = await serieNumerazioneStorage.findById(req.params.id);
+    if (!serie) {
+      return res.status(404).json({ error: 'Serie not found' });
+    }
+    if (await serieInUso(serie.codice)) {
+      return res.status(400).json({ error: 'La serie ha già fatture emesse e non può essere eliminata' });
+    }
+    await serieNumerazioneStorage.delete(serie.id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete serie numerazione' });
+  }
+});
+
+// Query: serie (default: predefinita), data (default: oggi). Il numero non
+// viene riservato: è assegnato solo alla creazione della fattura
+router.get('/api/settings/numerazione/anteprima', async (req, res) => {
+  try {
+    const serie = typeof req.query.serie === 'string' && req.query.serie ? req.query.serie : undefined;
+    const data = typeof req.query.data === 'string' && req.query.data
+      ? req.query.data
+      : new Date().toISOString().split('T')[0];
+    res.json(await prossimoNumero(serie, data));
+  } catch (error) {
+    if (error instanceof NumerazioneError) {
+      return res.status(400).json({ error: 'Validation error', details: { [error.field]: [error.message] } });
+    }
+    res.status(500).json({ error: 'Failed to compute numero fattura' });
+  }
+});
+
+// Query: anno (default: anno corrente)
+router.get('/api/settings/numerazione/report', async (req, res) => {
+  try {
+    const anno = Number(req.query.anno) || new Date().getFullYear();
+    res.json(await numerazioneReport(anno));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build numerazione report' });
+  }
+});
+
+// ============================================================================
+// Backup Routes (Export / Import - solo ADMIN)
+// ============================================================================
+router.get('/api/export', async (req, res) => {
+  try {
+    const archive = await createBackup();
+    const date = archive.manifest.createdAt.split('T')[0];
+    res.setHeader('Content-Disposition', `attachment; filename="g2-backup-completo-${date}.json"`);
+    res.json(archive);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// Query: mode=merge|replace (default merge), dryRun=true per la sola anteprima.
+// L'archivio include gli allegati PDF in base64: il parser ha un limite
+// dedicato e gira solo dopo il controllo admin
+router.post('/api/import', requireAdmin, express.json({ limit: BACKUP_MAX_SIZE }), async (req, res) => {
+  try {
+    const mode: ImportMode = req.query.mode === 'replace' ? 'replace' : 'merge';
+    const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+
+    const report = await restoreBackup(req.body, { mode, dryRun });
+    if (report.errors.length > 0) {
+      return res.status(400).json({ error: 'Validation error', ...report });
+    }
+    res.json(report);
+  } catch (error) {
+    console.error('Import error:', error);
+    res.status(500).json({ error: 'Failed to import data' });
+  }
+});
@@ -0,0 +1,89 @@
+import session from 'express-session';
+import type { SessionData } from 'express-session';
+import { createStorage } from './storage.js';
+
+// ============================================================================
+// Session store persistente
+// ============================================================================
+// Le sessioni sono salvate con lo stesso backend dei dati (data/sessions.json
+// o tabella records con STORAGE_BACKEND=postgres): un riavvio del server non
+// disconnette gli utenti, purché SESSION_SECRET resti invariato. Le sessioni
+// scadute sono rimosse alla lettura e periodicamente.
+
+interface StoredSession {
+  id: string; // session id
+  expires: number; // scadenza (ms epoch)
+  data: SessionData;
+}
+
+const INTERVALLO_PULIZIA_MS = 60 * 60 * 1000;
+// Con rolling: true ogni richiesta rinnova la scadenza: la si riscrive solo se
+// avanzata di almeno un minuto, per non salvare la collezione ad ogni chiamata
+const SOGLIA_TOUCH_MS = 60 * 1000;
+// Scadenza per le sessioni senza cookie.expires (cookie di sessione del browser)
+const DURATA_PREDEFINITA_MS = 24 * 60 * 60 * 1000;
+
+type Callback<T> = (err?: unknown, result?: T) => void;
+
+function withCallback<T>(promise: Promise<T>, callback?: Callback<T>): void {
+  promise.then(result => callback?.(null, result), error => callback?.(error));
+}
+
+const scadenza = (sess: SessionData) =>
+  sess.cookie?.expires ? new Date(sess.cookie.expires).getTime() : Date.now() + DURATA_PREDEFINITA_MS;
+
+// Copia serializzabile: lo storage JSON tiene in cache l'oggetto salvato, che
+// non deve restare legato all'istanza Session della richiesta
+const serializza = (sess: SessionData): SessionData => JSON.parse(JSON.stringify(sess));
+
+export class PersistentSessionStore extends session.Store {
+  private storage = createStorage<StoredSession>('sessions.json');
+
+  constructor() {
+    super();
+    setInterval(() => {
+      this.prune().catch(error => console.error('Errore pulizia sessioni scadute:', error));
+    }, INTERVALLO_PULIZIA_MS).unref();
+  }
+
+  get(sid: string, callback: Callback<SessionData | null>): void {
+    withCallback((async () => {
+      const record = await this.storage.findById(sid);
+      if (!record) return null;
+      if (record.expires <= Date.now()) {
+        await this.storage.delete(sid);
+        return null;
+      }
+      return record.data;
+    })(), callback);
+  }
+
+  set(sid: string, sess: SessionData, callback?: Callback<void>): void {
+    withCallback(
+      this.storage.upsert({ id: sid, expires: scadenza(sess), data: serializza(sess) }).then(() => undefined),
+      callback
+    );
+  }
+
+  touch(sid: string, sess: SessionData, callback?: Callback<void>): void {
+    withCallback((async () => {
+      const record = await this.storage.findById(sid);
+      const expires = scadenza(sess);
+      if (!record || expires - record.expires < SOGLIA_TOUCH_MS) return;
+      await this.storage.update(sid, { expires, data: { ...record.data, cookie: serializza(sess).cookie } });
+    })(), callback);
+  }
+
+  destroy(sid: string, callback?: Callback<void>): void {
+    withCallback(this.storage.delete(sid).then(() => undefined), callback);
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    const scadute = (await this.storage.readAll()).filter(record => record.expires <= now);
+    for (const record of scadute) {
+      await this.storage.delete(record.id);
+    }
+    return scadute.length;
+  }
+}
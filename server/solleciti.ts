@@ -0,0 +1,179 @@
+import type {
+  AnteprimaSollecito,
+  Client,
+  FatturaEmessa,
+  FirmSettings,
+  LivelloSollecito,
+  Project,
+  Sollecito,
+  StatoSollecito
+} from '@shared/schema';
+import { impostazioniSollecitiStorage, sollecitiStorage } from './storage.js';
+import { isNotaCredito, withPaymentStatus } from './payments.js';
+
+// ============================================================================
+// Solleciti fatture emesse
+// ============================================================================
+// Il livello dovuto dipende dai giorni trascorsi dalla scadenza; una fattura
+// va sollecitata quando il livello dovuto supera l'ultimo sollecito inviato.
+// Le fatture in contenzioso escono dal flusso dei solleciti.
+
+export const IMPOSTAZIONI_SOLLECITI_ID = 'default';
+
+const TESTO_CHIUSURA = `
+
+Qualora il pagamento fosse già stato effettuato, Vi preghiamo di non tenere conto della presente e di inviarci copia della contabile.
+
+Cordiali saluti,
+{{studio}}`;
+
+export const LIVELLI_PREDEFINITI: LivelloSollecito[] = [
+  {
+    giorni: 7,
+    titolo: 'Promemoria',
+    canale: 'email',
+    oggetto: 'Promemoria pagamento fattura n. {{numeroFattura}}',
+    testo: `Spett.le {{cliente}},
+
+Vi ricordiamo che la fattura n. {{numeroFattura}} del {{dataEmissione}}, relativa alla commessa {{commessa}}, è scaduta il {{dataScadenza}} e risulta ancora da saldare per {{importo}}.
+
+Vi preghiamo di provvedere al pagamento con bonifico sul conto IBAN {{iban}}.` + TESTO_CHIUSURA,
+  },
+  {
+    giorni: 30,
+    titolo: 'Sollecito',
+    canale: 'pec',
+    oggetto: 'Sollecito di pagamento fattura n. {{numeroFattura}}',
+    testo: `Spett.le {{cliente}},
+
+nonostante il nostro precedente promemoria, la fattura n. {{numeroFattura}} del {{dataEmissione}}, relativa alla commessa {{commessa}}, risulta ancora insoluta per {{importo}} a {{giorniRitardo}} giorni dalla scadenza del {{dataScadenza}}.
+
+Vi chiediamo di provvedere al saldo entro 10 giorni dal ricevimento della presente con bonifico sul conto IBAN {{iban}}.` + TESTO_CHIUSURA,
+  },
+  {
+    giorni: 60,
+    titolo: 'Diffida',
+    canale: 'raccomandata',
+    oggetto: 'Diffida ad adempiere - fattura n. {{numeroFattura}}',
+    testo: `Spett.le {{cliente}},
+
+a {{giorniRitardo}} giorni dalla scadenza e dopo i precedenti solleciti, la fattura n. {{numeroFattura}} del {{dataEmissione}}, relativa alla commessa {{commessa}}, risulta ancora insoluta per {{importo}}.
+
+Con la presente Vi diffidiamo formalmente a provvedere al pagamento entro 15 giorni dal ricevimento, con bonifico sul conto IBAN {{iban}}. In mancanza saremo costretti ad agire per il recupero del credito, con addebito degli interessi di mora e delle spese.` + TESTO_CHIUSURA,
+  },
+];
+
+export async function getLivelliSollecito(): Promise<LivelloSollecito[]> {
+  const impostazioni = await impostazioniSollecitiStorage.findById(IMPOSTAZIONI_SOLLECITI_ID);
+  return impostazioni?.livelli ?? LIVELLI_PREDEFINITI;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function giorniRitardo(dataScadenza: string, oggi = new Date()): number {
+  const scadenza = new Date(dataScadenza.slice(0, 10));
+  const giorno = new Date(oggi.toISOString().slice(0, 10));
+  return Math.floor((giorno.getTime() - scadenza.getTime()) / MS_PER_DAY);
+}
+
+// Fattura scaduta e non saldata (le note di credito non si sollecitano)
+export function isScaduta(fattura: FatturaEmessa, oggi = new Date()): boolean {
+  return !isNotaCredito(fattura)
+    && fattura.statoPagamento?.stato !== 'saldata'
+    && !!fattura.dataScadenzaPagamento
+    && giorniRitardo(fattura.dataScadenzaPagamento, oggi) > 0;
+}
+
+export function computeStatoSollecito(
+  fattura: FatturaEmessa,
+  solleciti: Sollecito[],
+  livelli: LivelloSollecito[],
+  oggi = new Date()
+): StatoSollecito {
+  const ritardo = giorniRitardo(fattura.dataScadenzaPagamento, oggi);
+  const livelloDovuto = livelli.filter(l => ritardo >= l.giorni).length;
+  const inviati = solleciti
+    .filter(s => s.fatturaId === fattura.id)
+    .sort((a, b) => a.data.localeCompare(b.data) || a.createdAt.localeCompare(b.createdAt));
+  const ultimo = inviati[inviati.length - 1];
+  const ultimoLivello = inviati.reduce((max, s) => Math.max(max, s.livello), 0);
+
+  return {
+    giorniRitardo: ritardo,
+    livelloDovuto,
+    ultimoLivello,
+    dataUltimoSollecito: ultimo?.data,
+    daInviare: !fattura.inContenzioso && livelloDovuto > ultimoLivello,
+  };
+}
+
+// Fatture scadute non saldate, comprese quelle in contenzioso, con lo stato dei solleciti
+export async function fattureDaSollecitare(fatture: FatturaEmessa[]): Promise<FatturaEmessa[]> {
+  const livelli = await getLivelliSollecito();
+  const solleciti = await sollecitiStorage.readAll();
+  const scadute = (await withPaymentStatus('emesse', fatture)).filter(f => isScaduta(f));
+  return scadute
+    .map(f => ({ ...f, statoSollecito: computeStatoSollecito(f, solleciti, livelli) }))
+    .sort((a, b) => b.statoSollecito.giorniRitardo - a.statoSollecito.giorniRitardo);
+}
+
+export async function findSolleciti(fatturaId: string): Promise<Sollecito[]> {
+  const solleciti = await sollecitiStorage.findByField('fatturaId', fatturaId);
+  return solleciti.sort((a, b) => a.data.localeCompare(b.data) || a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteSolleciti(fatturaId: string): Promise<void> {
+  for (const sollecito of await findSolleciti(fatturaId)) {
+    await sollecitiStorage.delete(sollecito.id);
+  }
+}
+
+// ============================================================================
+// Modelli di lettera
+// ============================================================================
+const formatEuro = (value: number) =>
+  new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+const formatData = (value: string) =>
+  value ? new Date(value.slice(0, 10)).toLocaleDateString('it-IT') : '';
+
+// I segnaposto sconosciuti restano nel testo, così l'errore è visibile in anteprima
+export function renderTemplate(template: string, valori: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, chiave: string) => valori[chiave] ?? match);
+}
+
+export function anteprimaSollecito(
+  livello: number,
+  livelli: LivelloSollecito[],
+  fattura: FatturaEmessa,
+  project: Project | undefined,
+  client: Client | undefined,
+  settings: FirmSettings | undefined
+): AnteprimaSollecito {
+  const modello = livelli[livello - 1];
+  const residuo = fattura.statoPagamento?.residuo ?? fattura.importoTotale;
+  const valori: Record<string, string> = {
+    cliente: client?.name ?? fattura.cliente,
+    numeroFattura: fattura.numeroFattura,
+    dataEmissione: formatData(fattura.dataEmissione),
+    dataScadenza: formatData(fattura.dataScadenzaPagamento),
+    importo: formatEuro(residuo),
+    importoTotale: formatEuro(fattura.importoTotale),
+    giorniRitardo: String(Math.max(0, giorniRitardo(fattura.dataScadenzaPagamento))),
+    commessa: project ? `${project.code} - ${project.object}` : '',
+    studio: settings?.denominazione ?? '',
+    iban: settings?.iban ?? '',
+  };
+  const destinatario = modello.canale === 'email' ? client?.email : client?.pec || client?.email;
+
+  return {
+    livello,
+    titolo: modello.titolo,
+    canale: modello.canale,
+    destinatario: modello.canale === 'raccomandata'
+      ? [client?.address, [client?.cap, client?.city].filter(Boolean).join(' ')].filter(Boolean).join(', ') || undefined
+      : destinatario || undefined,
+    oggetto: renderTemplate(modello.oggetto, valori),
+    testo: renderTemplate(modello.testo, valori),
+  };
+}
@@ -0,0 +1,146 @@
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { pgTable, text, jsonb, bigserial, primaryKey } from 'drizzle-orm/pg-core';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import type { DataStorage } from './storage.js';
+import { withoutImmutableFields } from './immutable-fields.js';
+
+// ============================================================================
+// Records table
+// ============================================================================
+// Document store: ogni collezione (ex file JSON in data/) è un insieme di righe
+// identificate da (collection, id), con il record completo in `data` (jsonb).
+// `seq` conserva l'ordine di inserimento, come l'array del file JSON.
+export const records = pgTable('records', {
+  collection: text('collection').notNull(),
+  id: text('id').notNull(),
+  seq: bigserial('seq', { mode: 'number' }).notNull(),
+  data: jsonb('data').notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.collection, table.id] }),
+]);
+
+let db: NodePgDatabase | null = null;
+let tableReady: Promise<unknown> | null = null;
+
+export function getDb(): NodePgDatabase {
+  if (!db) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL non impostato: necessario con STORAGE_BACKEND=postgres');
+    }
+    db = drizzle(new pg.Pool({ connectionString: process.env.DATABASE_URL }));
+  }
+  return db;
+}
+
+// Crea la tabella al primo utilizzo, così il backend funziona anche senza `npm run db:push`
+function ensureTable(): Promise<unknown> {
+  if (!tableReady) {
+    tableReady = getDb().execute(sql`
+      CREATE TABLE IF NOT EXISTS records (
+        collection text NOT NULL,
+        id text NOT NULL,
+        seq bigserial NOT NULL,
+        data jsonb NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `).catch((error) => {
+      tableReady = null;
+      throw error;
+    });
+  }
+  return tableReady;
+}
+
+// SQL storage (PostgreSQL via drizzle), stessa interfaccia di JSONFileStorage
+export class SQLStorage<T extends { id: string }> implements DataStorage<T> {
+  constructor(private collection: string) {}
+
+  private async rows(filter?: Partial<T>): Promise<T[]> {
+    await ensureTable();
+    const conditions = [eq(records.collection, this.collection)];
+    if (filter) {
+      conditions.push(sql`${records.data} @> ${JSON.stringify(filter)}::jsonb`);
+    }
+    const result = await getDb()
+      .select({ data: records.data })
+      .from(records)
+      .where(and(...conditions))
+      .orderBy(asc(records.seq));
+    return result.map(row => row.data as T);
+  }
+
+  async readAll(): Promise<T[]> {
+    return this.rows();
+  }
+
+  async writeAll(data: T[]): Promise<void> {
+    await ensureTable();
+    await getDb().transaction(async (tx) => {
+      await tx.delete(records).where(eq(records.collection, this.collection));
+      if (data.length > 0) {
+        await tx.insert(records).values(
+          data.map(item => ({ collection: this.collection, id: item.id, data: item }))
+        );
+      }
+    });
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    await ensureTable();
+    const [row] = await getDb()
+      .select({ data: records.data })
+      .from(records)
+      .where(and(eq(records.collection, this.collection), eq(records.id, id)));
+    return row?.data as T | undefined;
+  }
+
+  async findByField<K extends keyof T>(field: K, value: T[K]): Promise<T[]> {
+    return this.rows({ [field]: value } as unknown as Partial<T>);
+  }
+
+  async findWhere(filter: Partial<T>): Promise<T[]> {
+    return this.rows(filter);
+  }
+
+  async create(item: T): Promise<T> {
+    await ensureTable();
+    await getDb().insert(records).values({ collection: this.collection, id: item.id, data: item });
+    return item;
+  }
+
+  // Merge atomico lato database: nessun read-modify-write in memoria
+  async update(id: string, updates: Partial<T>): Promise<T | null> {
+    await ensureTable();
+    const patch = JSON.stringify(withoutImmutableFields(updates));
+    const [row] = await getDb()
+      .update(records)
+      .set({ data: sql`${records.data} || ${patch}::jsonb` })
+      .where(and(eq(records.collection, this.collection), eq(records.id, id)))
+      .returning({ data: records.data });
+    return (row?.data as T) ?? null;
+  }
+
+  // INSERT ... ON CONFLICT: atomico, e il record sostituito mantiene il seq
+  async upsert(item: T): Promise<T> {
+    await ensureTable();
+    await getDb()
+      .insert(records)
+      .values({ collection: this.collection, id: item.id, data: item })
+      .onConflictDoUpdate({ target: [records.collection, records.id], set: { data: item } });
+    return item;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await ensureTable();
+    const deleted = await getDb()
+      .delete(records)
+      .where(and(eq(records.collection, this.collection), eq(records.id, id)))
+      .returning({ id: records.id });
+    return deleted.length > 0;
+  }
+
+  clearCache(): void {
+    // Nessuna cache: ogni lettura interroga il database
+  }
+}
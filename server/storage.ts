@@ -1,74 +1,190 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { SQLStorage } from './sql-storage.js';
+import { withoutImmutableFields } from './immutable-fields.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const DATA_DIR = path.join(__dirname, '..', 'data');
+export const DATA_DIR = path.join(__dirname, '..', 'data');
+
+// ============================================================================
+// Storage interface
+// ============================================================================
+// Contratto comune a tutti i backend (file JSON, SQL). Le route usano solo
+// questi metodi, così il backend è selezionabile via STORAGE_BACKEND.
+export interface DataStorage<T extends { id: string }> {
+  readAll(): Promise<T[]>;
+  writeAll(data: T[]): Promise<void>;
+  findById(id: string): Promise<T | undefined>;
+  findByField<K extends keyof T>(field: K, value: T[K]): Promise<T[]>;
+  findWhere(filter: Partial<T>): Promise<T[]>;
+  create(item: T): Promise<T>;
+  update(id: string, updates: Partial<T>): Promise<T | null>;
+  // Sostituisce il record con lo stesso id o lo crea, in un'unica operazione
+  // (record unici come le impostazioni)
+  upsert(item: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+  clearCache(): void;
+}
+
+export type StorageBackend = 'json' | 'postgres';
 
 // Generic JSON file storage
-export class JSONFileStorage<T extends { id: string }> {
+//
+// Le mutazioni (create/update/delete/writeAll) sono serializzate per collezione
+// tramite una coda di promise, così due richieste concorrenti non perdono
+// record. La scrittura avviene su file temporaneo + rename (atomica), e prima
+// di sostituire il file viene salvata una copia dell'ultimo stato valido in
+// `<file>.bak`, usata per il ripristino se il file risulta troncato/corrotto.
+export class JSONFileStorage<T extends { id: string }> implements DataStorage<T> {
   private filePath: string;
   private cache: T[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(filename: string) {
     this.filePath = path.join(DATA_DIR, filename);
   }
 
+  private get tmpPath(): string {
+    return `${this.filePath}.tmp`;
+  }
+
+  private get backupPath(): string {
+    return `${this.filePath}.bak`;
+  }
+
+  // Esegue fn dopo che tutte le mutazioni precedenti sono terminate
+  private withLock<R>(fn: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
   async ensureFile(): Promise<void> {
     try {
       await fs.access(this.filePath);
     } catch {
-      await fs.writeFile(this.filePath, JSON.stringify([], null, 2), 'utf-8');
+      await this.persist([]);
+    }
+  }
+
+  private async parseFile(filePath: string): Promise<T[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error(`Contenuto non valido in ${path.basename(filePath)}: atteso un array`);
+    }
+    return data;
+  }
+
+  // Ripristina il file dall'ultimo snapshot valido (<file>.bak)
+  private async recover(error: unknown): Promise<T[]> {
+    const name = path.basename(this.filePath);
+    let snapshot: T[];
+    try {
+      snapshot = await this.parseFile(this.backupPath);
+    } catch {
+      throw new Error(`File ${name} corrotto e nessuno snapshot valido disponibile: ${
+        error instanceof Error ? error.message : String(error)
+      }`);
     }
+
+    console.warn(`⚠️ ${name} corrotto, ripristino dall'ultimo snapshot (${snapshot.length} record)`);
+    await fs.copyFile(this.filePath, `${this.filePath}.corrupted-${Date.now()}`).catch(() => undefined);
+    await this.persist(snapshot, { skipBackup: true });
+    return snapshot;
   }
 
   async readAll(): Promise<T[]> {
     if (this.cache) return this.cache;
 
     await this.ensureFile();
-    const content = await fs.readFile(this.filePath, 'utf-8');
-    this.cache = JSON.parse(content);
-    return this.cache || [];
+    try {
+      this.cache = await this.parseFile(this.filePath);
+    } catch (error) {
+      this.cache = await this.recover(error);
+    }
+    return this.cache;
   }
 
-  async writeAll(data: T[]): Promise<void> {
-    await fs.writeFile(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+  // Scrittura atomica: temp file + fsync + rename, con snapshot del file precedente
+  private async persist(data: T[], options: { skipBackup?: boolean } = {}): Promise<void> {
+    const handle = await fs.open(this.tmpPath, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(data, null, 2), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    if (!options.skipBackup) {
+      try {
+        // Lo snapshot viene aggiornato solo se il file corrente è integro
+        await this.parseFile(this.filePath);
+        await fs.copyFile(this.filePath, this.backupPath);
+      } catch {
+        // File assente o corrotto: si mantiene lo snapshot precedente
+      }
+    }
+
+    await fs.rename(this.tmpPath, this.filePath);
     this.cache = data;
   }
 
+  async writeAll(data: T[]): Promise<void> {
+    return this.withLock(() => this.persist(data));
+  }
+
   async findById(id: string): Promise<T | undefined> {
     const all = await this.readAll();
     return all.find(item => item.id === id);
   }
 
   async create(item: T): Promise<T> {
-    const all = await this.readAll();
-    all.push(item);
-    await this.writeAll(all);
-    return item;
+    return this.withLock(async () => {
+      const all = [...await this.readAll(), item];
+      await this.persist(all);
+      return item;
+    });
   }
 
   async update(id: string, updates: Partial<T>): Promise<T | null> {
-    const all = await this.readAll();
-    const index = all.findIndex(item => item.id === id);
+    return this.withLock(async () => {
+      const all = [...await this.readAll()];
+      const index = all.findIndex(item => item.id === id);
+
+      if (index === -1) return null;
+
+      all[index] = { ...all[index], ...withoutImmutableFields(updates) };
+      await this.persist(all);
+      return all[index];
+    });
+  }
 
-    if (index === -1) return null;
+  async upsert(item: T): Promise<T> {
+    return this.withLock(async () => {
+      const all = [...await this.readAll()];
+      const index = all.findIndex(existing => existing.id === item.id);
 
-    all[index] = { ...all[index], ...updates };
-    await this.writeAll(all);
-    return all[index];
+      if (index === -1) all.push(item);
+      else all[index] = item;
+      await this.persist(all);
+      return item;
+    });
   }
 
   async delete(id: string): Promise<boolean> {
-    const all = await this.readAll();
-    const filtered = all.filter(item => item.id !== id);
+    return this.withLock(async () => {
+      const all = await this.readAll();
+      const filtered = all.filter(item => item.id !== id);
 
-    if (filtered.length === all.length) return false;
+      if (filtered.length === all.length) return false;
 
-    await this.writeAll(filtered);
-    return true;
+      await this.persist(filtered);
+      return true;
+    });
   }
 
   async findByField<K extends keyof T>(field: K, value: T[K]): Promise<T[]> {
@@ -76,11 +192,38 @@ export class JSONFileStorage<T extends { id: string }> {
     return all.filter(item => item[field] === value);
   }
 
+  async findWhere(filter: Partial<T>): Promise<T[]> {
+    const entries = Object.entries(filter).filter(([, value]) => value !== undefined);
+    const all = await this.readAll();
+    return all.filter(item => entries.every(([key, value]) => item[key as keyof T] === value));
+  }
+
   clearCache(): void {
     this.cache = null;
   }
 }
 
+// ============================================================================
+// Backend selection
+// ============================================================================
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'json').toLowerCase();
+  if (backend === 'postgres' || backend === 'sql') return 'postgres';
+  if (backend !== 'json') {
+    console.warn(`⚠️ STORAGE_BACKEND "${backend}" non riconosciuto, uso file JSON`);
+  }
+  return 'json';
+}
+
+// Crea lo storage per una collezione; il nome della collezione SQL è il nome
+// del file senza estensione (es. projects.json -> projects)
+export function createStorage<T extends { id: string }>(filename: string): DataStorage<T> {
+  if (getStorageBackend() === 'postgres') {
+    return new SQLStorage<T>(path.basename(filename, '.json'));
+  }
+  return new JSONFileStorage<T>(filename);
+}
+
 // Storage instances
 import type {
   Project,
@@ -89,8 +232,8 @@ import type {
   CostoVivo,
   Prestazione,
   UserWithPassword,
-  Scadenza,
-  Comunicazione,
+  Deadline,
+  Communication,
   Tag,
   ProjectTag,
   FileRouting,
@@ -99,25 +242,47 @@ import type {
   ProfiloCosto,
   FatturaEmessa,
   FatturaConsulente,
-  CostoGenerale
+  CostoGenerale,
+  FirmSettings,
+  PagamentoFattura,
+  SerieNumerazione,
+  ImpostazioniSolleciti,
+  Sollecito,
+  MovimentoBancario,
+  ImpostazioniPrevisione,
+  SerieCostoGenerale,
+  ImpostazioniRipartizione,
+  Preventivo,
+  ModelloOfferta
 } from '@shared/schema';
 
-export const projectsStorage = new JSONFileStorage<Project>('projects.json');
-export const clientsStorage = new JSONFileStorage<Client>('clients.json');
-export const fattureIngressoStorage = new JSONFileStorage<FatturaIngresso>('fatture-ingresso.json');
-export const costiViviStorage = new JSONFileStorage<CostoVivo>('costi-vivi.json');
-export const prestazioniStorage = new JSONFileStorage<Prestazione>('prestazioni.json');
-export const usersStorage = new JSONFileStorage<UserWithPassword>('users.json');
-export const scadenzeStorage = new JSONFileStorage<Scadenza>('scadenze.json');
-export const comunicazioniStorage = new JSONFileStorage<Comunicazione>('comunicazioni.json');
-export const tagsStorage = new JSONFileStorage<Tag>('tags.json');
-export const projectTagsStorage = new JSONFileStorage<ProjectTag & { id: string }>('project-tags.json');
-export const fileRoutingsStorage = new JSONFileStorage<FileRouting>('file-routings.json');
-export const projectResourcesStorage = new JSONFileStorage<ProjectResource>('project-resources.json');
+export const projectsStorage = createStorage<Project>('projects.json');
+export const clientsStorage = createStorage<Client>('clients.json');
+export const fattureIngressoStorage = createStorage<FatturaIngresso>('fatture-ingresso.json');
+export const costiViviStorage = createStorage<CostoVivo>('costi-vivi.json');
+export const prestazioniStorage = createStorage<Prestazione>('prestazioni.json');
+export const usersStorage = createStorage<UserWithPassword>('users.json');
+export const deadlinesStorage = createStorage<Deadline>('deadlines.json');
+export const communicationsStorage = createStorage<Communication>('comunicazioni.json');
+export const tagsStorage = createStorage<Tag>('tags.json');
+export const projectTagsStorage = createStorage<ProjectTag & { id: string }>('project-tags.json');
+export const fileRoutingsStorage = createStorage<FileRouting>('file-routings.json');
+export const projectResourcesStorage = createStorage<ProjectResource>('project-resources.json');
 
 // Nuovi storage
-export const activityLogsStorage = new JSONFileStorage<ActivityLog>('activity-logs.json');
-export const profiliCostoStorage = new JSONFileStorage<ProfiloCosto>('profili-costo.json');
-export const fattureEmesseStorage = new JSONFileStorage<FatturaEmessa>('fatture-emesse.json');
-export const fattureConsulentiStorage = new JSONFileStorage<FatturaConsulente>('fatture-consulenti.json');
-export const costiGeneraliStorage = new JSONFileStorage<CostoGenerale>('costi-generali.json');
+export const activityLogsStorage = createStorage<ActivityLog>('activity-logs.json');
+export const profiliCostoStorage = createStorage<ProfiloCosto>('profili-costo.json');
+export const fattureEmesseStorage = createStorage<FatturaEmessa>('fatture-emesse.json');
+export const fattureConsulentiStorage = createStorage<FatturaConsulente>('fatture-consulenti.json');
+export const costiGeneraliStorage = createStorage<CostoGenerale>('costi-generali.json');
+export const firmSettingsStorage = createStorage<FirmSettings>('firm-settings.json');
+export const pagamentiFattureStorage = createStorage<PagamentoFattura>('pagamenti-fatture.json');
+export const serieNumerazioneStorage = createStorage<SerieNumerazione>('serie-numerazione.json');
+export const impostazioniSollecitiStorage = createStorage<ImpostazioniSolleciti>('impostazioni-solleciti.json');
+export const sollecitiStorage = createStorage<Sollecito>('solleciti.json');
+export const movimentiBancariStorage = createStorage<MovimentoBancario>('movimenti-bancari.json');
+export const impostazioniPrevisioneStorage = createStorage<ImpostazioniPrevisione>('impostazioni-previsione.json');
+export const serieCostiGeneraliStorage = createStorage<SerieCostoGenerale>('serie-costi-generali.json');
+export const impostazioniRipartizioneStorage = createStorage<ImpostazioniRipartizione>('impostazioni-ripartizione.json');
+export const preventiviStorage = createStorage<Preventivo>('preventivi.json');
+export const modelloOffertaStorage = createStorage<ModelloOfferta>('modello-offerta.json');
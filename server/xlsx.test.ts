@@ -0,0 +1,75 @@
+import { crc32, inflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { buildXlsx } from './xlsx';
+
+// Lettura dello ZIP dalla directory centrale, con verifica dei CRC tramite
+// zlib (indipendente dall'implementazione del modulo)
+function readZip(buf: Buffer): Map<string, { content: string; crcOk: boolean }> {
+  const end = buf.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  expect(end).toBeGreaterThan(0);
+  const count = buf.readUInt16LE(end + 10);
+  let offset = buf.readUInt32LE(end + 16);
+
+  const files = new Map<string, { content: string; crcOk: boolean }>();
+  for (let i = 0; i < count; i++) {
+    expect(buf.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = buf.readUInt32LE(offset + 16);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const size = buf.readUInt32LE(offset + 24);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    expect(buf.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const data = inflateRawSync(buf.subarray(dataStart, dataStart + compressedSize));
+    expect(data.length).toBe(size);
+    files.set(name, { content: data.toString('utf8'), crcOk: crc32(data) === crc });
+    offset += 46 + nameLength + buf.readUInt16LE(offset + 30) + buf.readUInt16LE(offset + 32);
+  }
+  return files;
+}
+
+describe('buildXlsx', () => {
+  const xlsx = buildXlsx([
+    { name: 'Crediti', rows: [['Cliente', 'Residuo'], ['Rossi & C. <srl>', 1234.5], ['Bianchi', null]] },
+    { name: 'Debiti: 2026/Q1 [fornitori esterni e consulenti]', rows: [['Fornitore']] },
+  ]);
+  const files = readZip(xlsx);
+
+  it('scrive un pacchetto OOXML con un foglio per sheet e CRC corretti', () => {
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    for (const file of Array.from(files.values())) expect(file.crcOk).toBe(true);
+    expect(files.get('[Content_Types].xml')!.content).toContain('/xl/worksheets/sheet2.xml');
+  });
+
+  it('ripulisce i nomi dei fogli (caratteri vietati, max 31)', () => {
+    const workbook = files.get('xl/workbook.xml')!.content;
+    expect(workbook).toContain('<sheet name="Crediti" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="Debiti  2026 Q1  fornitori este" sheetId="2"');
+  });
+
+  it('scrive testo inline con escape, numeri formattati e intestazione in grassetto', () => {
+    const sheet = files.get('xl/worksheets/sheet1.xml')!.content;
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="2"><is><t xml:space="preserve">Cliente</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Rossi &amp; C. &lt;srl&gt;</t>');
+    expect(sheet).toContain('<c r="B2" s="1"><v>1234.5</v></c>');
+    // Celle vuote omesse
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Bianchi</t></is></c></row>');
+  });
+
+  it('numera le colonne oltre la Z e scarta caratteri di controllo e numeri non finiti', () => {
+    const row = Array.from({ length: 28 }, (_, i) => (i === 27 ? 'fine\u0001' : i === 26 ? Number.NaN : ''));
+    const sheet = readZip(buildXlsx([{ name: 'Colonne', rows: [row] }])).get('xl/worksheets/sheet1.xml')!.content;
+    expect(sheet).not.toContain('r="AA1"');
+    expect(sheet).toContain('<c r="AB1" t="inlineStr" s="2"><is><t xml:space="preserve">fine</t></is></c>');
+  });
+});
@@ -0,0 +1,85 @@
+// ============================================================================
+// Calcoli fiscali fattura professionale
+// ============================================================================
+// CPA (cassa previdenziale) sul compenso, IVA su compenso + CPA, ritenuta
+// d'acconto sul solo compenso. Usati dal Calcolo Parcella e dal generatore
+// FatturaPA, così importi a video e XML coincidono.
+
+export function calcolaCPA(compenso: number, aliquota: number = 4): number {
+  return (compenso * aliquota) / 100;
+}
+
+export function calcolaRitenutaAcconto(compenso: number, aliquota: number = 20): number {
+  return (compenso * aliquota) / 100;
+}
+
+export function calcolaIVA(compenso: number, aliquota: number = 22): number {
+  return (compenso * aliquota) / 100;
+}
+
+export interface FatturaCalculation {
+  compensoNetto: number;
+  cpa: number;
+  imponibile: number;
+  iva: number;
+  totaleConIVA: number;
+  ritenutaAcconto: number;
+  nettoAPagare: number;
+}
+
+export function calcolaFattura(
+  compensoNetto: number,
+  aliquotaCPA: number = 4,
+  aliquotaIVA: number = 22,
+  aliquotaRitenuta: number = 20
+): FatturaCalculation {
+  const cpa = calcolaCPA(compensoNetto, aliquotaCPA);
+  const imponibile = compensoNetto + cpa;
+  const iva = calcolaIVA(imponibile, aliquotaIVA);
+  const totaleConIVA = imponibile + iva;
+  const ritenutaAcconto = calcolaRitenutaAcconto(compensoNetto, aliquotaRitenuta);
+  const nettoAPagare = totaleConIVA - ritenutaAcconto;
+
+  return {
+    compensoNetto,
+    cpa,
+    imponibile,
+    iva,
+    totaleConIVA,
+    ritenutaAcconto,
+    nettoAPagare
+  };
+}
+
+export interface AliquoteFattura {
+  aliquotaCPA: number;
+  aliquotaIVA: number;
+  aliquotaRitenuta: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Importi arrotondati al centesimo come nella FatturaPA: l'IVA è calcolata
+// sull'imponibile già arrotondato, così il riepilogo quadra con le linee e
+// nettoAPagare coincide con ImportoPagamento dell'XML
+export function calcolaFatturaArrotondata(
+  compensoNetto: number,
+  { aliquotaCPA, aliquotaIVA, aliquotaRitenuta }: AliquoteFattura
+): FatturaCalculation {
+  const compenso = round2(compensoNetto);
+  const cpa = round2(calcolaCPA(compensoNetto, aliquotaCPA));
+  const imponibile = round2(compenso + cpa);
+  const iva = round2(calcolaIVA(imponibile, aliquotaIVA));
+  const totaleConIVA = round2(imponibile + iva);
+  const ritenutaAcconto = round2(calcolaRitenutaAcconto(compensoNetto, aliquotaRitenuta));
+
+  return {
+    compensoNetto: compenso,
+    cpa,
+    imponibile,
+    iva,
+    totaleConIVA,
+    ritenutaAcconto,
+    nettoAPagare: round2(totaleConIVA - ritenutaAcconto)
+  };
+}
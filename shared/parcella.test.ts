@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ParcellaError,
+  calcolaCompenso,
+  calcolaParcella,
+  parametroP,
+  percentualeMassimaSpese
+} from './parcella';
+
+// Valori attesi calcolati a mano con CP = V × G × Q × P (art. 4) e i
+// parametri G e Q delle Tavole Z-1 e Z-2, indipendentemente dal codice.
+// V = 100.000 € dà P = 0,03 + 10 / 100 = 0,13 esatto.
+
+describe('parametroP', () => {
+  it('applica P = 0,03 + 10 / V^0,4', () => {
+    expect(parametroP(100_000)).toBeCloseTo(0.13, 10);
+    expect(parametroP(1_000_000)).toBeCloseTo(0.0698107, 7);
+  });
+});
+
+describe('percentualeMassimaSpese', () => {
+  it('vale 25% fino a 1 milione, 10% oltre 25 milioni e interpola in mezzo', () => {
+    expect(percentualeMassimaSpese(500_000)).toBe(25);
+    expect(percentualeMassimaSpese(1_000_000)).toBe(25);
+    expect(percentualeMassimaSpese(13_000_000)).toBeCloseTo(17.5, 10);
+    expect(percentualeMassimaSpese(30_000_000)).toBe(10);
+  });
+});
+
+describe('calcolaParcella', () => {
+  it('E.20 da 100.000 €: progetto definitivo e direzione lavori', () => {
+    const parcella = calcolaParcella({
+      opere: [{ idOpera: 'E.20', importoOpere: 100_000, prestazioni: ['QbII.01', 'QcI.01'] }],
+      percentualeSpese: 20
+    });
+
+    // 100.000 × 0,95 × 0,23 × 0,13 e 100.000 × 0,95 × 0,32 × 0,13
+    expect(parcella.compensi['E.20:QbII.01'].importo).toBe(2840.5);
+    expect(parcella.compensi['E.20:QcI.01'].importo).toBe(3952);
+    expect(parcella.compensoPrestazioni).toBe(6792.5);
+    expect(parcella.speseOneri).toBe(1358.5);
+    expect(parcella.compensoTotale).toBe(8151);
+  });
+
+  it('S.03 da 1.000.000 €: progetto esecutivo delle strutture', () => {
+    const parcella = calcolaParcella({
+      opere: [{ idOpera: 'S.03', importoOpere: 1_000_000, prestazioni: ['QbIII.01'] }]
+    });
+
+    // 1.000.000 × 0,95 × 0,12 × 0,0698107; spese al massimo del 25%
+    expect(parcella.compensi['S.03:QbIII.01'].importo).toBe(7958.42);
+    expect(parcella.percentualeSpese).toBe(25);
+    expect(parcella.speseOneri).toBe(1989.61);
+    expect(parcella.compensoTotale).toBe(9948.03);
+  });
+
+  it('calcola P per categoria e le spese sul costo complessivo', () => {
+    const parcella = calcolaParcella({
+      opere: [
+        { idOpera: 'E.20', importoOpere: 600_000, prestazioni: ['QbII.01'] },
+        { idOpera: 'IA.01', importoOpere: 600_000, prestazioni: ['QbII.01'] }
+      ]
+    });
+
+    // P(600.000) = 0,0788359; spese massime per 1.200.000 € = 24,875%
+    expect(parcella.compensi['E.20:QbII.01'].importo).toBe(10335.39);
+    expect(parcella.compensi['IA.01:QbII.01'].importo).toBe(5676.19);
+    expect(parcella.importoBase).toBe(1_200_000);
+    expect(parcella.percentualeSpese).toBeCloseTo(24.875, 10);
+    expect(parcella.speseOneri).toBe(3982.88);
+    expect(parcella.compensoTotale).toBe(19994.46);
+  });
+
+  it('riduce le spese richieste al massimo consentito', () => {
+    const parcella = calcolaParcella({
+      opere: [{ idOpera: 'E.20', importoOpere: 100_000, prestazioni: ['QbII.01'] }],
+      percentualeSpese: 40
+    });
+    expect(parcella.percentualeSpese).toBe(25);
+  });
+
+  it('rifiuta ID opera e prestazioni non previste', () => {
+    expect(() => calcolaParcella({
+      opere: [{ idOpera: 'E.99', importoOpere: 100_000, prestazioni: ['QbII.01'] }]
+    })).toThrow(ParcellaError);
+    // Collaudo statico solo per le strutture
+    expect(() => calcolaParcella({
+      opere: [{ idOpera: 'E.20', importoOpere: 100_000, prestazioni: ['QdI.03'] }]
+    })).toThrow(/non prevista/);
+  });
+
+  it.each(['QbI.11', 'QbII.13', 'QbIII.08', 'QcI.07', 'QcI.08'])(
+    'segnala %s come prestazione da quotare a parte',
+    codice => {
+      expect(() => calcolaParcella({
+        opere: [{ idOpera: 'E.20', importoOpere: 100_000, prestazioni: [codice] }]
+      })).toThrow(/quotarla a parte/);
+    }
+  );
+});
+
+describe('calcolaCompenso', () => {
+  it('applica lo sconto prima di CPA, IVA e ritenuta', () => {
+    const { parcella, importoSconto, fattura } = calcolaCompenso({
+      opere: [{ idOpera: 'E.20', importoOpere: 100_000, prestazioni: ['QbII.01', 'QcI.01'] }],
+      percentualeSpese: 20,
+      sconto: 10
+    });
+
+    expect(parcella.compensoTotale).toBe(8151);
+    expect(importoSconto).toBe(815.1);
+    expect(fattura.compensoNetto).toBeCloseTo(7335.9, 2);
+    expect(fattura.cpa).toBeCloseTo(293.44, 2);
+    expect(fattura.iva).toBeCloseTo(1678.45, 2);
+    expect(fattura.ritenutaAcconto).toBeCloseTo(1467.18, 2);
+    expect(fattura.nettoAPagare).toBeCloseTo(7840.61, 2);
+  });
+});
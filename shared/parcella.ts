@@ -0,0 +1,531 @@
+// Calcolatore Parcella Professionale secondo DM 17 giugno 2016 (ex DM 143/2013)
+// Corrispettivi per servizi di architettura e ingegneria
+//
+// Per ogni opera (ID opera della Tavola Z-1) e ogni prestazione (codice Q
+// della Tavola Z-2):  CP = V × G × Q × P
+//   V = costo delle opere della categoria
+//   G = grado di complessità dell'ID opera
+//   Q = specificità della prestazione per la categoria
+//   P = 0,03 + 10 / V^0,4  (parametro base, art. 4)
+// Al totale si aggiungono spese e oneri accessori in percentuale (art. 5).
+//
+// Non sono calcolate qui le prestazioni con regole proprie: relazione
+// geologica (QbI.11, QbII.13, QbIII.08) e varianti in corso d'opera
+// (QcI.07, QcI.08), elencate in PRESTAZIONI_NON_CALCOLATE e rifiutate con un
+// errore esplicito. Delle fasi della Tavola Z-2 sono gestite solo quelle di
+// FASI_PRESTAZIONE; le altre vanno quotate a parte.
+//
+// Condiviso tra client (anteprima parametri) e server (/api/parcella/calcola,
+// revisioni dei preventivi), così il compenso si calcola in un solo punto.
+
+import type { LIVELLI_PROGETTAZIONE, PRESTAZIONI } from './schema';
+import { calcolaFattura, type FatturaCalculation } from './fattura';
+
+// ============================================
+// TAVOLA Z-1: CATEGORIE E ID OPERE
+// ============================================
+
+export type CategoriaOpera = 'E' | 'S' | 'IA' | 'IB' | 'V' | 'D' | 'T' | 'P' | 'U';
+
+export const CATEGORIE_OPERE: Record<CategoriaOpera, string> = {
+  E: 'Edilizia',
+  S: 'Strutture',
+  IA: 'Impianti',
+  IB: 'Impianti industriali',
+  V: 'Infrastrutture per la mobilità',
+  D: 'Idraulica',
+  T: 'Tecnologie della informazione e della comunicazione',
+  P: 'Paesaggio, ambiente, naturalizzazione, agroalimentare, zootecnica, ruralità, foreste',
+  U: 'Territorio e urbanistica'
+};
+
+export interface IdOpera {
+  codice: string; // es. E.22
+  categoria: CategoriaOpera;
+  destinazione: string;
+  descrizione: string;
+  G: number;
+}
+
+const opera = (codice: string, destinazione: string, G: number, descrizione: string): IdOpera => ({
+  codice,
+  categoria: codice.split('.')[0] as CategoriaOpera,
+  destinazione,
+  descrizione,
+  G
+});
+
+export const ID_OPERE: IdOpera[] = [
+  // EDILIZIA
+  opera('E.01', 'Insediamenti produttivi agricoltura-industria-artigianato', 0.65, 'Edifici rurali per l\'attività agricola con corredi tecnici di tipo semplice, edifici industriali o artigianali di importanza costruttiva corrente'),
+  opera('E.02', 'Insediamenti produttivi agricoltura-industria-artigianato', 0.95, 'Edifici rurali per l\'attività agricola con corredi tecnici di tipo complesso, edifici industriali o artigianali con organizzazione e corredi tecnici di tipo complesso'),
+  opera('E.03', 'Industria alberghiera, turismo e commercio e servizi per la mobilità', 0.95, 'Ostelli, pensioni, case albergo, ristoranti, motel e stazioni di servizio, negozi, mercati coperti di tipo semplice'),
+  opera('E.04', 'Industria alberghiera, turismo e commercio e servizi per la mobilità', 1.20, 'Alberghi, villaggi turistici, mercati e centri commerciali complessi'),
+  opera('E.05', 'Residenza', 0.65, 'Edifici, pertinenze, autorimesse semplici, senza particolari esigenze tecniche. Edifici provvisori di modesta importanza'),
+  opera('E.06', 'Residenza', 0.95, 'Edilizia residenziale privata e pubblica di tipo corrente con costi di costruzione nella media di mercato e con tipologie standardizzate'),
+  opera('E.07', 'Residenza', 1.20, 'Edilizia residenziale privata e pubblica di tipo pregiato con costi di costruzione eccedenti la media di mercato e con tipologie diversificate'),
+  opera('E.08', 'Sanità, istruzione, ricerca', 0.95, 'Sede azienda sanitaria, distretto sanitario, ambulatori di base. Asilo nido, scuola materna, scuola elementare, scuole secondarie fino a 24/25 classi'),
+  opera('E.09', 'Sanità, istruzione, ricerca', 1.15, 'Scuole secondarie di primo grado oltre 24 classi, istituti scolastici superiori oltre 25 classi, case di cura'),
+  opera('E.10', 'Sanità, istruzione, ricerca', 1.20, 'Poliambulatori, ospedali, istituti di ricerca, centri di riabilitazione, poli scolastici, università, accademie'),
+  opera('E.11', 'Cultura, vita sociale, sport, culto', 0.95, 'Padiglioni provvisori per esposizioni, opere cimiteriali di tipo normale, case parrocchiali, oratori, stabilimenti balneari, aree ed attrezzature per lo sport all\'aperto di tipo semplice'),
+  opera('E.12', 'Cultura, vita sociale, sport, culto', 1.15, 'Aree ed attrezzature per lo sport all\'aperto di tipo complesso, palestre e piscine coperte'),
+  opera('E.13', 'Cultura, vita sociale, sport, culto', 1.20, 'Biblioteca, cinema, teatro, pinacoteca, centro culturale, sede congressuale, auditorium, museo, galleria d\'arte, opere cimiteriali monumentali, palasport, stadio, chiese'),
+  opera('E.14', 'Sedi amministrative, giudiziarie, delle forze dell\'ordine', 0.65, 'Edifici provvisori di modesta importanza a servizio di caserme'),
+  opera('E.15', 'Sedi amministrative, giudiziarie, delle forze dell\'ordine', 0.95, 'Caserme con corredi tecnici di importanza corrente'),
+  opera('E.16', 'Sedi amministrative, giudiziarie, delle forze dell\'ordine', 1.20, 'Sedi ed uffici di società ed enti, sedi ed uffici comunali, provinciali, regionali, ministeriali, tribunali, penitenziari, caserme con corredi tecnici di importanza maggiore, questura'),
+  opera('E.17', 'Arredi, forniture, aree esterne pertinenziali allestite', 0.65, 'Verde ed opere di arredo urbano improntate a grande semplicità, pertinenziali agli edifici ed alla viabilità, campeggi e simili'),
+  opera('E.18', 'Arredi, forniture, aree esterne pertinenziali allestite', 0.95, 'Arredamenti con elementi acquistati dal mercato, giardini, parchi gioco, piazze e spazi pubblici all\'aperto'),
+  opera('E.19', 'Arredi, forniture, aree esterne pertinenziali allestite', 1.20, 'Arredamenti con elementi singolari, parchi urbani, parchi ludici attrezzati, giardini e piazze storiche, opere di riqualificazione paesaggistica e ambientale di aree urbane'),
+  opera('E.20', 'Edifici e manufatti esistenti', 0.95, 'Interventi di manutenzione straordinaria, ristrutturazione, riqualificazione, su edifici e manufatti esistenti'),
+  opera('E.21', 'Edifici e manufatti esistenti', 1.20, 'Interventi di manutenzione straordinaria, restauro, ristrutturazione, riqualificazione, su edifici e manufatti di interesse storico artistico non soggetti a tutela ai sensi del D.Lgs 42/2004'),
+  opera('E.22', 'Edifici e manufatti esistenti', 1.55, 'Interventi di manutenzione, restauro, risanamento conservativo, riqualificazione, su edifici e manufatti di interesse storico artistico soggetti a tutela ai sensi del D.Lgs 42/2004, oppure di particolare importanza'),
+
+  // STRUTTURE
+  opera('S.01', 'Strutture, opere infrastrutturali puntuali', 0.70, 'Strutture o parti di strutture in cemento armato, non soggette ad azioni sismiche, riparazione o intervento locale, verifiche strutturali relative, strutture provvisionali di durata inferiore a due anni'),
+  opera('S.02', 'Strutture, opere infrastrutturali puntuali', 0.50, 'Strutture o parti di strutture in muratura, legno, metallo, non soggette ad azioni sismiche, riparazione o intervento locale, verifiche strutturali relative'),
+  opera('S.03', 'Strutture, opere infrastrutturali puntuali', 0.95, 'Strutture o parti di strutture in cemento armato, verifiche strutturali relative, strutture provvisionali di durata superiore a due anni'),
+  opera('S.04', 'Strutture, opere infrastrutturali puntuali', 0.90, 'Strutture o parti di strutture in muratura, legno, metallo, verifiche strutturali relative, consolidamento delle opere di fondazione di manufatti dissestati, ponti, paratie e tiranti, consolidamento di pendii e di fronti rocciosi di tipo corrente'),
+  opera('S.05', 'Strutture speciali', 1.05, 'Dighe, conche, elevatori, opere di ritenuta e di difesa, rilevati, colmate, gallerie, opere sotterranee e subacquee, fondazioni speciali'),
+  opera('S.06', 'Strutture speciali', 1.15, 'Opere strutturali di notevole importanza costruttiva e richiedenti calcolazioni particolari, strutture con metodologie normative che richiedono modellazione particolare'),
+
+  // IMPIANTI
+  opera('IA.01', 'Impianti meccanici a fluido a servizio delle costruzioni', 0.75, 'Impianti per l\'approvvigionamento, la preparazione e la distribuzione di acqua, impianti sanitari, fognature domestiche o industriali, reti di distribuzione di combustibili, aria compressa, vuoto e gas medicali, impianti e reti antincendio'),
+  opera('IA.02', 'Impianti meccanici a fluido a servizio delle costruzioni', 0.85, 'Impianti di riscaldamento, raffrescamento, climatizzazione, trattamento dell\'aria, impianti meccanici di distribuzione fluidi, impianto solare termico'),
+  opera('IA.03', 'Impianti elettrici e speciali a servizio delle costruzioni', 1.15, 'Impianti elettrici in genere, illuminazione, telefonici, rivelazione incendi, fotovoltaici, a corredo di edifici e costruzioni di importanza corrente'),
+  opera('IA.04', 'Impianti elettrici e speciali a servizio delle costruzioni', 1.30, 'Impianti elettrici in genere, illuminazione, telefonici, sicurezza, rivelazione incendi, fotovoltaici, a corredo di edifici e costruzioni complessi, cablaggi strutturati, impianti in fibra ottica'),
+  opera('IB.04', 'Impianti industriali', 0.55, 'Depositi e discariche senza trattamento dei rifiuti'),
+  opera('IB.05', 'Impianti industriali', 0.70, 'Impianti per le industrie molitorie, cartarie, alimentari, delle fibre tessili naturali, del legno, del cuoio e simili'),
+  opera('IB.06', 'Impianti industriali', 0.70, 'Impianti della industria chimica inorganica, della preparazione e distillazione dei combustibili, siderurgici, officine meccaniche e laboratori, cantieri navali, fabbriche di cemento, calce, laterizi, vetrerie e ceramiche, impianti di trattamento dei rifiuti'),
+  opera('IB.07', 'Impianti industriali', 0.75, 'Impianti dell\'industria chimica organica, della piccola industria chimica speciale, di metallurgia (esclusa la siderurgia), per la preparazione ed il trattamento dei minerali'),
+  opera('IB.08', 'Impianti per la produzione di energia', 0.50, 'Impianti di linee e reti per trasmissioni e distribuzione di energia elettrica, telegrafia, telefonia'),
+  opera('IB.09', 'Impianti per la produzione di energia', 0.60, 'Centrali idroelettriche ordinarie, stazioni di trasformazione e di conversione, impianti di trazione elettrica'),
+  opera('IB.10', 'Impianti per la produzione di energia', 0.75, 'Impianti termoelettrici, impianti dell\'elettrochimica e della elettrometallurgia, laboratori con ridotta probabilità di esplosione'),
+  opera('IB.11', 'Impianti per la produzione di energia', 0.90, 'Campi fotovoltaici, parchi eolici'),
+  opera('IB.12', 'Impianti per la produzione di energia', 1.00, 'Micro centrali idroelettriche, impianti termoelettrici, dell\'elettrochimica e della elettrometallurgia di tipo complesso'),
+
+  // INFRASTRUTTURE PER LA MOBILITÀ
+  opera('V.01', 'Manutenzione', 0.40, 'Interventi di manutenzione su viabilità ordinaria'),
+  opera('V.02', 'Viabilità ordinaria', 0.45, 'Strade, linee tramviarie, ferrovie, strade ferrate, di tipo ordinario, escluse le opere d\'arte da compensarsi a parte, piste ciclabili'),
+  opera('V.03', 'Viabilità speciale', 0.75, 'Strade, linee tramviarie, ferrovie, strade ferrate, con particolari difficoltà di studio, escluse le opere d\'arte e le stazioni, impianti teleferici, funivie, piste da sci'),
+
+  // IDRAULICA
+  opera('D.01', 'Navigazione', 0.65, 'Opere di navigazione interna e portuali'),
+  opera('D.02', 'Opere di bonifica e derivazioni', 0.45, 'Bonifiche ed irrigazioni a deflusso naturale, sistemazione di corsi d\'acqua e di bacini montani'),
+  opera('D.03', 'Opere di bonifica e derivazioni', 0.55, 'Bonifiche ed irrigazioni con sollevamento meccanico di acqua (esclusi i macchinari), derivazioni d\'acqua per forza motrice e produzione di energia elettrica'),
+  opera('D.04', 'Acquedotti e fognature', 0.65, 'Impianti per provvista, condotta, distribuzione d\'acqua, fognature urbane improntate a grande semplicità, condotte subacquee, metanodotti e gasdotti di tipo ordinario'),
+  opera('D.05', 'Acquedotti e fognature', 0.80, 'Impianti per provvista, condotta, distribuzione d\'acqua, fognature urbane con opere di normale complessità o di speciale importanza, metanodotti e gasdotti con problemi tecnici specifici'),
+
+  // TECNOLOGIE DELLA INFORMAZIONE E DELLA COMUNICAZIONE
+  opera('T.01', 'Sistemi informativi', 0.95, 'Sistemi informativi, gestione elettronica del flusso documentale, dematerializzazione e gestione archivi digitali'),
+  opera('T.02', 'Sistemi e reti di telecomunicazione', 0.70, 'Reti locali e geografiche, cablaggi strutturati, impianti in fibra ottica, sistemi wireless, reti di telefonia'),
+  opera('T.03', 'Sistemi elettronici ed automazione', 1.20, 'Elettronica industriale, sistemi a controllo numerico, sistemi di automazione, robotica'),
+
+  // PAESAGGIO, AMBIENTE, NATURALIZZAZIONE, AGROALIMENTARE, ZOOTECNICA, RURALITÀ, FORESTE
+  opera('P.01', 'Interventi di sistemazione naturalistica o paesaggistica', 0.85, 'Opere relative alla sistemazione di ecosistemi naturali o naturalizzati, alle aree naturali protette ed alle aree a rilevanza faunistica'),
+  opera('P.02', 'Interventi del verde e opere per attività ricreativa o sportiva', 0.85, 'Opere a verde sia su piccola scala o grande scala dove la rilevanza dell\'opera è prevalente rispetto alle opere di tipo costruttivo'),
+  opera('P.03', 'Interventi recupero, riqualificazione ambientale', 0.85, 'Opere di riassetto e sistemazione di aree degradate, dismesse o in abbandono'),
+  opera('P.04', 'Interventi di sfruttamento di cave e torbiere', 0.85, 'Opere di utilizzo di risorse rinnovabili, di recupero di cave e torbiere'),
+  opera('P.05', 'Interventi di miglioramento e qualificazione della filiera forestale', 0.85, 'Opere di riqualificazione e valorizzazione di territori agricoli e forestali'),
+  opera('P.06', 'Interventi di miglioramento fondiario agrario e rurale', 0.85, 'Opere di riqualificazione e valorizzazione di territori rurali, interventi di pianificazione alimentare'),
+
+  // TERRITORIO E URBANISTICA
+  opera('U.01', 'Interventi per la valorizzazione delle risorse territoriali', 0.90, 'Interventi per la realizzazione di infrastrutture di servizio e per la gestione delle risorse, anche energetiche'),
+  opera('U.02', 'Interventi per la valorizzazione di beni culturali', 0.95, 'Interventi per la valorizzazione di beni culturali e del paesaggio'),
+  opera('U.03', 'Pianificazione', 1.00, 'Strumenti di pianificazione generale ed attuativa e di pianificazione di settore')
+];
+
+export function findIdOpera(codice: string): IdOpera | undefined {
+  return ID_OPERE.find(o => o.codice === codice);
+}
+
+// Classe salvata nei metadata di commessa (es. "E22") -> ID opera ("E.22")
+export function idOperaDaClasse(classe: string | undefined): string | undefined {
+  const match = classe?.toUpperCase().match(/^([A-Z]{1,2})\.?(\d{1,2})$/);
+  if (!match) return undefined;
+  const codice = `${match[1]}.${match[2].padStart(2, '0')}`;
+  return findIdOpera(codice) ? codice : undefined;
+}
+
+// ============================================
+// TAVOLA Z-2: PRESTAZIONI E PARAMETRI Q
+// ============================================
+
+export type GruppoPrestazione = 'progettazione' | 'direzione' | 'sicurezza' | 'collaudo' | 'altro';
+
+export const FASI_PRESTAZIONE = {
+  'a.I': 'Studi di fattibilità',
+  'b.I': 'Progetto di fattibilità tecnica ed economica',
+  'b.II': 'Progettazione definitiva',
+  'b.III': 'Progettazione esecutiva',
+  'c.I': 'Esecuzione dei lavori',
+  'd.I': 'Verifiche e collaudi'
+} as const;
+
+export type FasePrestazione = keyof typeof FASI_PRESTAZIONE;
+
+export interface PrestazioneQ {
+  codice: string; // es. QbII.01
+  fase: FasePrestazione;
+  descrizione: string;
+  gruppo: GruppoPrestazione;
+  // Valore di Q per categoria; le categorie assenti non prevedono la prestazione
+  Q: Partial<Record<CategoriaOpera, number>>;
+}
+
+const TUTTE: CategoriaOpera[] = ['E', 'S', 'IA', 'IB', 'V', 'D', 'T', 'P', 'U'];
+const OPERE: CategoriaOpera[] = ['E', 'S', 'IA', 'IB', 'V', 'D', 'T', 'P'];
+
+// Stesso valore per più categorie
+const stesso = (valore: number, categorie: CategoriaOpera[] = OPERE): Partial<Record<CategoriaOpera, number>> =>
+  Object.fromEntries(categorie.map(c => [c, valore]));
+
+// Impianti e impianti industriali condividono la colonna "Impianti" della tavola
+const perCategoria = (valori: { E?: number; S?: number; I?: number; V?: number; D?: number; T?: number; P?: number; U?: number }) => {
+  const { I, ...altri } = valori;
+  return I === undefined ? altri : { ...altri, IA: I, IB: I };
+};
+
+const prestazione = (
+  codice: string,
+  fase: FasePrestazione,
+  descrizione: string,
+  Q: Partial<Record<CategoriaOpera, number>>,
+  gruppo?: GruppoPrestazione
+): PrestazioneQ => ({
+  codice,
+  fase,
+  descrizione,
+  Q,
+  gruppo: gruppo ?? (fase.startsWith('b') ? 'progettazione' : fase === 'c.I' ? 'direzione' : fase === 'd.I' ? 'collaudo' : 'altro')
+});
+
+export const PRESTAZIONI_Q: PrestazioneQ[] = [
+  // a.I) Studi di fattibilità
+  prestazione('QaI.01', 'a.I', 'Relazioni, planimetrie, elaborati grafici', stesso(0.045, TUTTE)),
+  prestazione('QaI.02', 'a.I', 'Calcolo sommario spesa, quadro economico di progetto', stesso(0.005, TUTTE)),
+  prestazione('QaI.03', 'a.I', 'Piano economico e finanziario di massima', stesso(0.015, TUTTE)),
+
+  // b.I) Progetto di fattibilità tecnica ed economica
+  prestazione('QbI.01', 'b.I', 'Relazioni, planimetrie, elaborati grafici', perCategoria({ E: 0.09, S: 0.07, I: 0.07, V: 0.08, D: 0.08, T: 0.07, P: 0.08, U: 0.08 })),
+  prestazione('QbI.02', 'b.I', 'Calcolo sommario spesa, quadro economico di progetto', stesso(0.01, TUTTE)),
+  prestazione('QbI.03', 'b.I', 'Piano particellare preliminare delle aree o rilievo di massima degli immobili', perCategoria({ E: 0.01, S: 0.01, I: 0.01, V: 0.02, D: 0.02, P: 0.02 })),
+  prestazione('QbI.04', 'b.I', 'Piano economico e finanziario di massima', stesso(0.03, TUTTE)),
+  prestazione('QbI.05', 'b.I', 'Capitolato speciale descrittivo e prestazionale, schema di contratto', stesso(0.01)),
+  prestazione('QbI.06', 'b.I', 'Relazione geotecnica', perCategoria({ E: 0.06, S: 0.06, V: 0.06, D: 0.06, P: 0.06 })),
+  prestazione('QbI.07', 'b.I', 'Relazione idrologica', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03, P: 0.03 })),
+  prestazione('QbI.08', 'b.I', 'Relazione idraulica', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03, P: 0.03 })),
+  prestazione('QbI.09', 'b.I', 'Relazione sismica e sulle strutture', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03 })),
+  prestazione('QbI.10', 'b.I', 'Relazione archeologica', perCategoria({ E: 0.015, S: 0.015, I: 0.015, V: 0.015, D: 0.015, P: 0.015 })),
+  prestazione('QbI.12', 'b.I', 'Progettazione integrale e coordinata - integrazione delle prestazioni specialistiche', stesso(0.02)),
+  prestazione('QbI.13', 'b.I', 'Studio di inserimento urbanistico', perCategoria({ E: 0.03, V: 0.03, D: 0.03, P: 0.03, U: 0.03 })),
+  prestazione('QbI.14', 'b.I', 'Prime indicazioni di progettazione antincendio', perCategoria({ E: 0.005, I: 0.005 })),
+  prestazione('QbI.15', 'b.I', 'Prime indicazioni e disposizioni per la stesura dei piani di sicurezza', stesso(0.01), 'sicurezza'),
+  prestazione('QbI.16', 'b.I', 'Studio preliminare di impatto ambientale', perCategoria({ E: 0.06, I: 0.06, V: 0.06, D: 0.06, P: 0.06, U: 0.06 })),
+  prestazione('QbI.17', 'b.I', 'Studi di prefattibilità ambientale', perCategoria({ E: 0.04, I: 0.04, V: 0.04, D: 0.04, P: 0.04, U: 0.04 })),
+  prestazione('QbI.18', 'b.I', 'Piano di monitoraggio ambientale', perCategoria({ I: 0.02, V: 0.02, D: 0.02, P: 0.02 })),
+
+  // b.II) Progettazione definitiva
+  prestazione('QbII.01', 'b.II', 'Relazioni generale e tecniche, elaborati grafici, calcolo delle strutture e degli impianti, relazione sulla risoluzione delle interferenze e sulla gestione materie', perCategoria({ E: 0.23, S: 0.18, I: 0.16, V: 0.22, D: 0.22, T: 0.16, P: 0.16 })),
+  prestazione('QbII.02', 'b.II', 'Rilievi planoaltimetrici', perCategoria({ E: 0.02, S: 0.02, I: 0.02, V: 0.04, D: 0.04, T: 0.02, P: 0.04 })),
+  prestazione('QbII.03', 'b.II', 'Disciplinare descrittivo e prestazionale', stesso(0.01)),
+  prestazione('QbII.04', 'b.II', 'Piano particellare d\'esproprio', perCategoria({ E: 0.02, S: 0.02, I: 0.02, V: 0.04, D: 0.04, P: 0.04 })),
+  prestazione('QbII.05', 'b.II', 'Elenco prezzi unitari ed eventuali analisi, computo metrico estimativo, quadro economico', perCategoria({ E: 0.07, S: 0.04, I: 0.05, V: 0.05, D: 0.05, T: 0.05, P: 0.05 })),
+  prestazione('QbII.06', 'b.II', 'Studio di inserimento urbanistico', perCategoria({ E: 0.03, V: 0.03, D: 0.03, P: 0.03 })),
+  prestazione('QbII.07', 'b.II', 'Rilievi dei manufatti', perCategoria({ E: 0.04, S: 0.04 })),
+  prestazione('QbII.08', 'b.II', 'Schema di contratto, capitolato speciale d\'appalto', stesso(0.07)),
+  prestazione('QbII.09', 'b.II', 'Relazione geotecnica', perCategoria({ E: 0.06, S: 0.06, V: 0.06, D: 0.06, P: 0.06 })),
+  prestazione('QbII.10', 'b.II', 'Relazione idrologica', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03, P: 0.03 })),
+  prestazione('QbII.11', 'b.II', 'Relazione idraulica', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03, P: 0.03 })),
+  prestazione('QbII.12', 'b.II', 'Relazione sismica e sulle strutture', perCategoria({ E: 0.03, S: 0.03, V: 0.03, D: 0.03 })),
+  prestazione('QbII.14', 'b.II', 'Analisi storico critica e relazione sulle strutture esistenti', perCategoria({ E: 0.09, S: 0.09 })),
+  prestazione('QbII.15', 'b.II', 'Relazione sulle indagini dei materiali e delle strutture per edifici esistenti', perCategoria({ E: 0.12, S: 0.12 })),
+  prestazione('QbII.16', 'b.II', 'Verifica sismica delle strutture esistenti e individuazione delle carenze strutturali', perCategoria({ E: 0.18, S: 0.18 })),
+  prestazione('QbII.17', 'b.II', 'Progettazione integrale e coordinata - integrazione delle prestazioni specialistiche', stesso(0.05)),
+  prestazione('QbII.18', 'b.II', 'Elaborati di progettazione antincendio', perCategoria({ E: 0.06, I: 0.06 })),
+  prestazione('QbII.19', 'b.II', 'Relazione paesaggistica', perCategoria({ E: 0.02, S: 0.02, I: 0.02, V: 0.02, D: 0.02, P: 0.02 })),
+  prestazione('QbII.20', 'b.II', 'Elaborati e relazioni per requisiti acustici', perCategoria({ E: 0.02, I: 0.02 })),
+  prestazione('QbII.21', 'b.II', 'Relazione energetica', perCategoria({ E: 0.03, I: 0.03 })),
+  prestazione('QbII.22', 'b.II', 'Diagnosi energetica degli edifici esistenti', perCategoria({ E: 0.02, I: 0.02 })),
+  prestazione('QbII.23', 'b.II', 'Aggiornamento delle prime indicazioni e disposizioni per i piani di sicurezza', stesso(0.01), 'sicurezza'),
+  prestazione('QbII.24', 'b.II', 'Studio di impatto ambientale', perCategoria({ E: 0.10, I: 0.10, V: 0.10, D: 0.10, P: 0.10 })),
+  prestazione('QbII.25', 'b.II', 'Piano di monitoraggio ambientale', perCategoria({ I: 0.02, V: 0.02, D: 0.02, P: 0.02 })),
+
+  // b.III) Progettazione esecutiva
+  prestazione('QbIII.01', 'b.III', 'Relazione generale e specialistiche, elaborati grafici, calcoli esecutivi', perCategoria({ E: 0.07, S: 0.12, I: 0.15, V: 0.04, D: 0.06, T: 0.15, P: 0.07 })),
+  prestazione('QbIII.02', 'b.III', 'Particolari costruttivi e decorativi', perCategoria({ E: 0.13, S: 0.13, I: 0.05, V: 0.07, D: 0.06, T: 0.05, P: 0.08 })),
+  prestazione('QbIII.03', 'b.III', 'Computo metrico estimativo, quadro economico, elenco prezzi e analisi, quadro dell\'incidenza della manodopera', perCategoria({ E: 0.04, S: 0.03, I: 0.05, V: 0.03, D: 0.04, T: 0.05, P: 0.03 })),
+  prestazione('QbIII.04', 'b.III', 'Schema di contratto, capitolato speciale d\'appalto, cronoprogramma', perCategoria({ E: 0.02, S: 0.01, I: 0.02, V: 0.02, D: 0.02, T: 0.02, P: 0.02 })),
+  prestazione('QbIII.05', 'b.III', 'Piano di manutenzione dell\'opera', perCategoria({ E: 0.02, S: 0.025, I: 0.03, V: 0.02, D: 0.02, T: 0.03, P: 0.02 })),
+  prestazione('QbIII.06', 'b.III', 'Progettazione integrale e coordinata - integrazione delle prestazioni specialistiche', stesso(0.03)),
+  prestazione('QbIII.07', 'b.III', 'Piano di sicurezza e coordinamento', stesso(0.10), 'sicurezza'),
+
+  // c.I) Esecuzione dei lavori
+  prestazione('QcI.01', 'c.I', 'Direzione lavori, assistenza al collaudo, prove di accettazione', perCategoria({ E: 0.32, S: 0.38, I: 0.32, V: 0.42, D: 0.42, T: 0.32, P: 0.32 })),
+  prestazione('QcI.02', 'c.I', 'Liquidazione - rendicontazioni e liquidazione tecnico contabile', perCategoria({ E: 0.03, S: 0.02, I: 0.03, V: 0.03, D: 0.03, T: 0.03, P: 0.03 })),
+  prestazione('QcI.03', 'c.I', 'Controllo aggiornamento elaborati di progetto, aggiornamento dei manuali d\'uso e manutenzione', stesso(0.02)),
+  prestazione('QcI.04', 'c.I', 'Coordinamento e supervisione dell\'ufficio di direzione lavori', stesso(0.02)),
+  prestazione('QcI.05', 'c.I', 'Ufficio della direzione lavori, per ogni addetto con qualifica di direttore operativo', stesso(0.10)),
+  prestazione('QcI.06', 'c.I', 'Ufficio della direzione lavori, per ogni addetto con qualifica di ispettore di cantiere', stesso(0.06)),
+  prestazione('QcI.09', 'c.I', 'Contabilità dei lavori a misura', stesso(0.045)),
+  prestazione('QcI.10', 'c.I', 'Contabilità dei lavori a corpo', stesso(0.035)),
+  prestazione('QcI.11', 'c.I', 'Certificato di regolare esecuzione', stesso(0.04)),
+  prestazione('QcI.12', 'c.I', 'Coordinamento della sicurezza in esecuzione', stesso(0.25), 'sicurezza'),
+
+  // d.I) Verifiche e collaudi
+  prestazione('QdI.01', 'd.I', 'Collaudo tecnico amministrativo', stesso(0.08)),
+  prestazione('QdI.02', 'd.I', 'Revisione tecnico contabile', stesso(0.02)),
+  prestazione('QdI.03', 'd.I', 'Collaudo statico', perCategoria({ S: 0.22 })),
+  prestazione('QdI.04', 'd.I', 'Collaudo tecnico funzionale degli impianti', perCategoria({ I: 0.18 }))
+];
+
+// Prestazioni della Tavola Z-2 il cui compenso non è V × G × Q × P con Q
+// fisso: da quotare a parte finché il calcolo non è implementato
+export const PRESTAZIONI_NON_CALCOLATE: Record<string, string> = {
+  'QbI.11': 'Relazione geologica (fattibilità tecnica ed economica)',
+  'QbII.13': 'Relazione geologica (progettazione definitiva)',
+  'QbIII.08': 'Relazione geologica (progettazione esecutiva)',
+  'QcI.07': 'Variante delle quantità del progetto in corso d\'opera',
+  'QcI.08': 'Variante del progetto in corso d\'opera'
+};
+
+export function findPrestazioneQ(codice: string): PrestazioneQ | undefined {
+  return PRESTAZIONI_Q.find(p => p.codice === codice);
+}
+
+// Prestazioni previste per la categoria dell'ID opera
+export function prestazioniPerOpera(idOpera: string): PrestazioneQ[] {
+  const categoria = findIdOpera(idOpera)?.categoria;
+  return categoria ? PRESTAZIONI_Q.filter(p => p.Q[categoria] !== undefined) : [];
+}
+
+// ============================================
+// PARAMETRI P E SPESE (artt. 4 e 5)
+// ============================================
+
+export function parametroP(importoOpere: number): number {
+  return 0.03 + 10 / Math.pow(importoOpere, 0.4);
+}
+
+// Spese e oneri accessori: fino al 25% del compenso per opere fino a 1 milione,
+// fino al 10% oltre 25 milioni, interpolazione lineare tra i due
+export function percentualeMassimaSpese(importoOpere: number): number {
+  if (importoOpere <= 1_000_000) return 25;
+  if (importoOpere >= 25_000_000) return 10;
+  return 25 - ((importoOpere - 1_000_000) * 15) / 24_000_000;
+}
+
+// ============================================
+// CALCOLO
+// ============================================
+
+export interface OperaParcella {
+  idOpera: string; // es. E.20
+  importoOpere: number; // V in euro
+  prestazioni: string[]; // codici Q, es. ["QbII.01", "QcI.01"]
+}
+
+export interface ParcellaInput {
+  opere: OperaParcella[];
+  percentualeSpese?: number; // default: massimo di legge
+}
+
+export type CompensoPrestazione = {
+  codice: string;
+  idOpera: string;
+  prestazione: string;
+  gruppo: GruppoPrestazione;
+  V: number;
+  G: number;
+  Q: number;
+  P: number;
+  percentuale: number; // G × Q × P in percentuale su V
+  importo: number;
+};
+
+export interface ParcellaResult {
+  importoBase: number; // somma dei V
+  categoria: string; // ID opere separati da virgola
+  percentualeTotale: number; // compenso prestazioni su importoBase
+  compensi: { [key: string]: CompensoPrestazione }; // chiave: "E.20:QbII.01"
+  compensoPrestazioni: number;
+  percentualeSpese: number;
+  speseOneri: number;
+  compensoTotale: number; // prestazioni + spese e oneri accessori
+  note: string[];
+}
+
+export class ParcellaError extends Error {}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function calcolaParcella(input: ParcellaInput): ParcellaResult {
+  const compensi: ParcellaResult['compensi'] = {};
+  const note: string[] = [];
+  let compensoPrestazioni = 0;
+
+  if (input.opere.length === 0) {
+    throw new ParcellaError('Indicare almeno una categoria d\'opera');
+  }
+
+  for (const opera of input.opere) {
+    const id = findIdOpera(opera.idOpera);
+    if (!id) throw new ParcellaError(`ID opera ${opera.idOpera} non previsto dal DM 17/06/2016`);
+    if (!(opera.importoOpere > 0)) throw new ParcellaError(`Importo opere non valido per ${opera.idOpera}`);
+
+    const P = parametroP(opera.importoOpere);
+    note.push(`${id.codice} ${CATEGORIE_OPERE[id.categoria]} - ${id.destinazione}: V = ${formatEuro(opera.importoOpere)}, G = ${id.G.toFixed(2)}, P = ${(P * 100).toFixed(4)}%`);
+
+    for (const codice of opera.prestazioni) {
+      if (PRESTAZIONI_NON_CALCOLATE[codice]) {
+        throw new ParcellaError(`Prestazione ${codice} (${PRESTAZIONI_NON_CALCOLATE[codice]}) con regole di calcolo proprie non supportate: quotarla a parte`);
+      }
+      const prestazione = findPrestazioneQ(codice);
+      const Q = prestazione?.Q[id.categoria];
+      if (!prestazione || Q === undefined) {
+        throw new ParcellaError(`Prestazione ${codice} non prevista per la categoria ${CATEGORIE_OPERE[id.categoria]}`);
+      }
+      const importo = round2(opera.importoOpere * id.G * Q * P);
+      compensi[`${id.codice}:${codice}`] = {
+        codice,
+        idOpera: id.codice,
+        prestazione: `${codice} - ${prestazione.descrizione}`,
+        gruppo: prestazione.gruppo,
+        V: opera.importoOpere,
+        G: id.G,
+        Q,
+        P,
+        percentuale: id.G * Q * P * 100,
+        importo
+      };
+      compensoPrestazioni += importo;
+    }
+  }
+
+  const importoBase = input.opere.reduce((sum, o) => sum + o.importoOpere, 0);
+  const massimoSpese = percentualeMassimaSpese(importoBase);
+  const percentualeSpese = Math.min(input.percentualeSpese ?? massimoSpese, massimoSpese);
+  compensoPrestazioni = round2(compensoPrestazioni);
+  const speseOneri = round2((compensoPrestazioni * percentualeSpese) / 100);
+  const compensoTotale = round2(compensoPrestazioni + speseOneri);
+  const percentualeTotale = importoBase > 0 ? (compensoPrestazioni / importoBase) * 100 : 0;
+
+  note.push('Corrispettivo CP = V × G × Q × P (DM 17 giugno 2016, art. 4)');
+  if (input.percentualeSpese !== undefined && input.percentualeSpese > massimoSpese) {
+    note.push(`Spese e oneri accessori ridotte al massimo consentito del ${massimoSpese.toFixed(2)}%`);
+  }
+  note.push(`Spese e oneri accessori (art. 5): ${percentualeSpese.toFixed(2)}% = ${formatEuro(speseOneri)}`);
+  note.push(`Compenso totale: ${formatEuro(compensoTotale)}`);
+
+  return {
+    importoBase,
+    categoria: input.opere.map(o => o.idOpera).join(', '),
+    percentualeTotale,
+    compensi,
+    compensoPrestazioni,
+    percentualeSpese,
+    speseOneri,
+    compensoTotale,
+    note
+  };
+}
+
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
+export function formatEuro(amount: number): string {
+  return new Intl.NumberFormat('it-IT', {
+    style: 'currency',
+    currency: 'EUR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+}
+
+// ============================================
+// COMPENSO SCONTATO E FATTURA
+// ============================================
+// Lo sconto si applica al compenso totale (prestazioni + spese), poi CPA,
+// IVA e ritenuta come in fattura. Importi arrotondati al centesimo.
+
+export interface CompensoInput extends ParcellaInput {
+  sconto?: number; // percentuale sul compenso totale
+  aliquotaCPA?: number;
+  aliquotaIVA?: number;
+  aliquotaRitenuta?: number;
+}
+
+export interface CompensoResult {
+  parcella: ParcellaResult;
+  importoSconto: number;
+  fattura: FatturaCalculation;
+}
+
+export function calcolaCompenso(input: CompensoInput): CompensoResult {
+  const parcella = calcolaParcella(input);
+  const importoSconto = round2(parcella.compensoTotale * (input.sconto ?? 0) / 100);
+  const fattura = calcolaFattura(
+    round2(parcella.compensoTotale - importoSconto),
+    input.aliquotaCPA,
+    input.aliquotaIVA,
+    input.aliquotaRitenuta
+  );
+  return {
+    parcella,
+    importoSconto,
+    fattura: {
+      compensoNetto: fattura.compensoNetto,
+      cpa: round2(fattura.cpa),
+      imponibile: round2(fattura.imponibile),
+      iva: round2(fattura.iva),
+      totaleConIVA: round2(fattura.totaleConIVA),
+      ritenutaAcconto: round2(fattura.ritenutaAcconto),
+      nettoAPagare: round2(fattura.nettoAPagare)
+    }
+  };
+}
+
+// ============================================
+// CODICI Q E PRESTAZIONI DI COMMESSA
+// ============================================
+// Corrispondenza tra i codici Q e le prestazioni/livelli dei metadata di
+// commessa, usata dalla conversione dei preventivi e dalla stima del
+// compenso di una commessa esistente.
+
+type PrestazioneCommessa = typeof PRESTAZIONI[number];
+type LivelloCommessa = typeof LIVELLI_PROGETTAZIONE[number];
+
+const CODICI_CSP = ['QbI.15', 'QbII.23', 'QbIII.07'];
+const CODICI_CONTABILITA = ['QcI.02', 'QcI.09', 'QcI.10'];
+
+export function prestazioneCommessa(codice: string): PrestazioneCommessa {
+  if (CODICI_CSP.includes(codice)) return 'csp';
+  if (codice === 'QcI.12') return 'cse';
+  if (CODICI_CONTABILITA.includes(codice)) return 'contabilita';
+  if (codice.startsWith('QcI')) return 'dl';
+  if (codice.startsWith('QdI')) return 'collaudo';
+  return 'progettazione';
+}
+
+export function livelloProgettazione(codice: string): LivelloCommessa | undefined {
+  if (codice.startsWith('QbIII')) return 'esecutivo';
+  if (codice.startsWith('QbII')) return 'definitivo';
+  if (codice.startsWith('QbI') || codice.startsWith('QaI')) return 'pfte';
+  return undefined;
+}
+
+// Codici Q dell'ID opera per prestazioni e livelli di una commessa; gli
+// studi di fattibilità (fase a.I) si indicano solo dal Calcolo Parcella
+export function codiciDaCommessa(
+  idOpera: string,
+  prestazioni: readonly PrestazioneCommessa[],
+  livelli: readonly LivelloCommessa[] = []
+): string[] {
+  return prestazioniPerOpera(idOpera)
+    .filter(p => p.fase !== 'a.I' && prestazioni.includes(prestazioneCommessa(p.codice)))
+    .filter(p => {
+      const livello = livelloProgettazione(p.codice);
+      return !livello || livelli.length === 0 || livelli.includes(livello);
+    })
+    .map(p => p.codice);
+}
@@ -1,5 +1,103 @@
 import { z } from "zod";
 
+// ============================================================================
+// Project Metadata Schema (prestazioni professionali)
+// ============================================================================
+export const PRESTAZIONI = ["progettazione", "dl", "csp", "cse", "contabilita", "collaudo", "perizia", "pratiche"] as const;
+export const LIVELLI_PROGETTAZIONE = ["pfte", "definitivo", "esecutivo", "variante"] as const;
+
+// Classi DM 143/2013, es. E22, IA03, S05
+export const CLASSE_DM143_REGEX = /^[A-Z]{1,2}[0-9]{1,2}$/;
+
+const projectPrestazioniFields = z.object({
+  prestazioni: z.array(z.enum(PRESTAZIONI)),
+  livelloProgettazione: z.array(z.enum(LIVELLI_PROGETTAZIONE)).optional(),
+  classeDM143: z.string()
+    .regex(CLASSE_DM143_REGEX, "Formato classe DM 143/2013 non valido (es: E22, IA03, S05)")
+    .or(z.literal(""))
+    .optional(),
+  importoOpere: z.number().min(0, "L'importo opere deve essere maggiore o uguale a 0").optional(),
+  importoServizio: z.number().min(0, "L'importo servizio deve essere maggiore o uguale a 0").optional(),
+  percentualeParcella: z.number()
+    .min(0, "La percentuale parcella deve essere tra 0 e 100")
+    .max(100, "La percentuale parcella deve essere tra 0 e 100")
+    .optional(),
+});
+
+export const projectPrestazioniSchema = projectPrestazioniFields.superRefine((data, ctx) => {
+  if (data.prestazioni.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["prestazioni"],
+      message: "Almeno una prestazione deve essere selezionata",
+    });
+  }
+  if (data.prestazioni.includes("progettazione") && !data.livelloProgettazione?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["livelloProgettazione"],
+      message: "Se la progettazione è selezionata, è necessario specificare il livello",
+    });
+  }
+});
+
+export type ProjectPrestazioni = z.infer<typeof projectPrestazioniSchema>;
+
+// Rate di compenso previste (acconto, SAL, saldo): importo in euro da
+// incassare alla data prevista. Le rate già fatturate sono nelle fatture emesse.
+export const rataCompensoSchema = z.object({
+  descrizione: z.string().min(1, "La descrizione è obbligatoria"),
+  data: z.string().min(1, "La data prevista è obbligatoria"),
+  importo: z.number().positive("L'importo deve essere positivo"),
+  fatturata: z.boolean().default(false),
+});
+
+export const pianoIncassiSchema = z.object({
+  rate: z.array(rataCompensoSchema),
+});
+
+export type RataCompenso = z.infer<typeof rataCompensoSchema>;
+
+// I metadata possono contenere anche altri campi oltre alle prestazioni
+export const projectMetadataSchema = projectPrestazioniFields.partial()
+  .extend({ pianoIncassi: z.array(rataCompensoSchema).optional() })
+  .passthrough();
+
+export type ProjectMetadata = z.infer<typeof projectMetadataSchema>;
+
+// ============================================================================
+// Project Billing Override Schema
+// ============================================================================
+// Stato di fatturazione inserito a mano (FatturazioneModal). Se presente
+// sostituisce i valori calcolati dalle fatture emesse. Importi in centesimi.
+export const projectBillingOverrideSchema = z.object({
+  fatturato: z.boolean(),
+  numeroFattura: z.string().nullable().optional(),
+  dataFattura: z.string().nullable().optional(),
+  importoFatturato: z.number().int().min(0).default(0),
+  pagato: z.boolean(),
+  dataPagamento: z.string().nullable().optional(),
+  importoPagato: z.number().int().min(0).default(0),
+  noteFatturazione: z.string().nullable().optional(),
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+
+export type ProjectBillingOverride = z.infer<typeof projectBillingOverrideSchema>;
+
+// Stato di fatturazione calcolato dal server (importi in euro)
+export interface ProjectBilling {
+  source: "fatture" | "override";
+  fattureCount: number;
+  fatturato: number;
+  incassato: number;
+  daIncassare: number;
+  importoServizio?: number;
+  residuoDaFatturare?: number; // importoServizio - fatturato
+  dataUltimaFattura?: string;
+  dataUltimoIncasso?: string;
+}
+
 // ============================================================================
 // Projects Schema
 // ============================================================================
@@ -16,13 +114,15 @@ export const insertProjectSchema = z.object({
   budget: z.number().optional(),
   committenteFinale: z.string().optional(),
   fsRoot: z.string().optional(),
-  metadata: z.record(z.any()).optional(),
+  metadata: projectMetadataSchema.optional(),
+  billingOverride: projectBillingOverrideSchema.nullable().optional(),
 });
 
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
 export interface Project extends InsertProject {
   id: string;
+  billing?: ProjectBilling; // Calculated field: stato fatturazione da fatture emesse
 }
 
 // ============================================================================
@@ -41,6 +141,8 @@ export const insertClientSchema = z.object({
   pec: z.string().optional(),
   phone: z.string().optional(),
   notes: z.string().optional(),
+  // FatturaPA: codice destinatario SDI (7 caratteri privati, 6 codice ufficio PA)
+  codiceDestinatario: z.string().regex(/^[A-Z0-9]{6,7}$/, "Codice destinatario non valido (6 o 7 caratteri)").optional().or(z.literal("")),
 });
 
 export type InsertClient = z.infer<typeof insertClientSchema>;
@@ -92,6 +194,7 @@ export const insertFatturaIngressoSchema = z.object({
   projectId: z.string().min(1, "La commessa è obbligatoria"),
   numeroFattura: z.string().min(1, "Il numero fattura è obbligatorio"),
   fornitore: z.string().min(1, "Il fornitore è obbligatorio"),
+  partitaIva: z.string().optional(), // P.IVA del fornitore (da import FatturaPA)
   dataEmissione: z.string().min(1, "La data emissione è obbligatoria"),
   dataCaricamento: z.string().optional(), // Data di caricamento nel sistema
   dataScadenzaPagamento: z.string().min(1, "La data scadenza è obbligatoria"),
@@ -108,6 +211,31 @@ export type InsertFatturaIngresso = z.infer<typeof insertFatturaIngressoSchema>;
 
 export interface FatturaIngresso extends InsertFatturaIngresso {
   id: string;
+  statoPagamento?: InvoicePaymentStatus; // Calculated field: dai pagamenti registrati
+}
+
+// Proposta generata dall'import di una FatturaPA ricevuta (XML o .p7m): non
+// viene salvata, l'utente la conferma dal form fatture. Importi della proposta
+// nell'unità della collezione (centesimi per le fatture ingresso). I PDF
+// allegati sono in base64 e vengono caricati in /api/upload/pdf alla conferma
+export interface FatturaPAImport {
+  target: 'ingresso' | 'consulenti';
+  tipoDocumento: string;
+  fornitore: { denominazione: string; partitaIva?: string; codiceFiscale?: string };
+  importi: {
+    imponibile: number;
+    iva: number;
+    totale: number;
+    ritenuta: number;
+    cassa: number;
+    nettoAPagare: number;
+  };
+  scadenze: Array<{ data: string; importo?: number; modalita?: string }>;
+  allegati: Array<{ nome: string; contenuto: string }>;
+  proposal: Partial<InsertFatturaIngresso> | Partial<InsertFatturaConsulente>;
+  projectSuggestion: { projectId: string; code: string; reason: string } | null;
+  duplicate: { id: string; numeroFattura: string; dataEmissione: string } | null;
+  warnings: string[];
 }
 
 // ============================================================================
@@ -220,6 +348,10 @@ export interface ProfiloCosto extends InsertProfiloCosto {
 // ============================================================================
 // Fatture Emesse Schema (solo ADMIN)
 // ============================================================================
+export const TIPI_DOCUMENTO_EMESSA = ["TD01", "TD04"] as const;
+
+export type TipoDocumentoEmessa = typeof TIPI_DOCUMENTO_EMESSA[number];
+
 export const insertFatturaEmessaSchema = z.object({
   projectId: z.string().min(1, "La commessa è obbligatoria"),
   numeroFattura: z.string().min(1, "Il numero fattura è obbligatorio"),
@@ -234,12 +366,267 @@ export const insertFatturaEmessaSchema = z.object({
   dataIncasso: z.string().optional(),
   allegato: z.string().optional(), // Path o URL del PDF
   note: z.string().optional(),
+  // Aliquote per la FatturaPA (default dalle impostazioni studio);
+  // importo è il compenso su cui si calcolano CPA, IVA e ritenuta
+  aliquotaCPA: z.number().min(0).max(100).optional(),
+  aliquotaIVA: z.number().min(0).max(100).optional(),
+  aliquotaRitenuta: z.number().min(0).max(100).optional(),
+  // TD01 fattura, TD04 nota di credito: gli importi della nota sono positivi
+  // e vengono stornati dalla fattura di riferimento
+  tipoDocumento: z.enum(TIPI_DOCUMENTO_EMESSA).default("TD01"),
+  fatturaRiferimentoId: z.string().optional(),
+  // Numerazione assegnata dal server (assenti, o '' e null se rimosse, per i
+  // numeri inseriti a mano)
+  serie: z.string().optional(),
+  progressivo: z.number().int().positive().nullable().optional(),
+  // Credito in contenzioso: escluso da scadenzario, solleciti e previsioni di incasso
+  inContenzioso: z.boolean().default(false),
+  dataContenzioso: z.string().optional(),
 });
 
 export type InsertFatturaEmessa = z.infer<typeof insertFatturaEmessaSchema>;
 
 export interface FatturaEmessa extends InsertFatturaEmessa {
   id: string;
+  statoPagamento?: InvoicePaymentStatus; // Calculated field: dai pagamenti registrati
+  statoSollecito?: StatoSollecito; // Calculated field: solo nella lista solleciti
+}
+
+// ============================================================================
+// Firm Settings Schema (dati dello studio per la FatturaPA - solo ADMIN)
+// ============================================================================
+export const firmSettingsSchema = z.object({
+  denominazione: z.string().min(1, "La denominazione è obbligatoria"),
+  partitaIva: z.string().regex(/^[0-9]{11}$/, "La partita IVA deve avere 11 cifre"),
+  codiceFiscale: z.string().regex(/^[A-Z0-9]{11,16}$/, "Codice fiscale non valido").optional(),
+  regimeFiscale: z.string().regex(/^RF[0-9]{2}$/, "Regime fiscale non valido (es. RF01)").default("RF01"),
+  indirizzo: z.string().min(1, "L'indirizzo è obbligatorio"),
+  numeroCivico: z.string().optional(),
+  cap: z.string().regex(/^[0-9]{5}$/, "Il CAP deve avere 5 cifre"),
+  comune: z.string().min(1, "Il comune è obbligatorio"),
+  provincia: z.string().regex(/^[A-Z]{2}$/, "Sigla provincia non valida").optional(),
+  nazione: z.string().length(2).default("IT"),
+  email: z.string().email().optional(),
+  telefono: z.string().optional(),
+  iban: z.string().regex(/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/, "IBAN non valido").optional(),
+  istitutoFinanziario: z.string().optional(),
+  tipoCassa: z.string().regex(/^TC[0-9]{2}$/, "Tipo cassa non valido (es. TC04)").default("TC04"), // TC04 = Inarcassa
+  tipoRitenuta: z.enum(["RT01", "RT02"]).default("RT01"), // RT01 persone fisiche, RT02 persone giuridiche
+  aliquotaCPA: z.number().min(0).max(100).default(4),
+  aliquotaIVA: z.number().min(0).max(100).default(22),
+  aliquotaRitenuta: z.number().min(0).max(100).default(20),
+});
+
+export type InsertFirmSettings = z.infer<typeof firmSettingsSchema>;
+
+export interface FirmSettings extends InsertFirmSettings {
+  id: string;
+}
+
+// ============================================================================
+// Serie di Numerazione Fatture Emesse (solo ADMIN)
+// ============================================================================
+// Formato con segnaposto: {n} progressivo ({nnn} = con zeri a sinistra),
+// {yyyy}/{yy} anno di emissione, {serie} codice della serie. Il progressivo
+// riparte da 1 ogni anno.
+export const insertSerieNumerazioneSchema = z.object({
+  codice: z.string().regex(/^[A-Z0-9]{1,10}$/, "Codice serie non valido (max 10 caratteri, lettere maiuscole e numeri)"),
+  descrizione: z.string().min(1, "La descrizione è obbligatoria"),
+  formato: z.string().refine(f => /\{n+\}/.test(f), "Il formato deve contenere il progressivo {n}"),
+  predefinita: z.boolean().default(false),
+});
+
+export type InsertSerieNumerazione = z.infer<typeof insertSerieNumerazioneSchema>;
+
+export interface SerieNumerazione extends InsertSerieNumerazione {
+  id: string;
+}
+
+export interface NumeroFatturaAssegnato {
+  serie: string;
+  anno: number;
+  progressivo: number;
+  numeroFattura: string;
+}
+
+export interface NumerazioneReportSerie {
+  codice: string;
+  descrizione: string;
+  formato: string;
+  documenti: number;
+  ultimoProgressivo: number;
+  mancanti: Array<{ da: number; a: number }>; // intervalli di progressivi non utilizzati tra 1 e l'ultimo
+  duplicati: string[];
+  fuoriOrdine: Array<{ numeroFattura: string; dataEmissione: string }>; // data precedente al numero prima
+}
+
+export interface NumerazioneReport {
+  anno: number;
+  serie: NumerazioneReportSerie[];
+  nonRiconosciute: Array<{ id: string; numeroFattura: string; dataEmissione: string }>;
+}
+
+// ============================================================================
+// Solleciti Fatture Emesse (solo ADMIN)
+// ============================================================================
+// Livelli di sollecito in giorni dalla scadenza; oggetto e testo sono modelli
+// con segnaposto {{cliente}}, {{numeroFattura}}, {{importo}}, ...
+export const CANALI_SOLLECITO = ["email", "pec", "raccomandata"] as const;
+
+export const livelloSollecitoSchema = z.object({
+  giorni: z.number().int().min(0, "I giorni non possono essere negativi"),
+  titolo: z.string().min(1, "Il titolo è obbligatorio"),
+  canale: z.enum(CANALI_SOLLECITO).default("email"),
+  oggetto: z.string().min(1, "L'oggetto è obbligatorio"),
+  testo: z.string().min(1, "Il testo è obbligatorio"),
+});
+
+export const impostazioniSollecitiSchema = z.object({
+  livelli: z.array(livelloSollecitoSchema)
+    .min(1, "Almeno un livello di sollecito")
+    .refine(
+      livelli => livelli.every((l, i) => i === 0 || l.giorni > livelli[i - 1].giorni),
+      "I livelli devono avere giorni crescenti"
+    ),
+});
+
+export type LivelloSollecito = z.infer<typeof livelloSollecitoSchema>;
+export type InsertImpostazioniSolleciti = z.infer<typeof impostazioniSollecitiSchema>;
+
+export interface ImpostazioniSolleciti extends InsertImpostazioniSolleciti {
+  id: string;
+}
+
+export const insertSollecitoSchema = z.object({
+  livello: z.number().int().min(1, "Livello non valido"), // 1 = primo livello configurato
+  data: z.string().min(1, "La data è obbligatoria"),
+  canale: z.enum(CANALI_SOLLECITO),
+  destinatario: z.string().optional(),
+  oggetto: z.string().min(1, "L'oggetto è obbligatorio"),
+  testo: z.string().min(1, "Il testo è obbligatorio"),
+});
+
+export type InsertSollecito = z.infer<typeof insertSollecitoSchema>;
+
+export interface Sollecito extends InsertSollecito {
+  id: string;
+  fatturaId: string;
+  projectId: string;
+  communicationId?: string; // comunicazione registrata sulla commessa
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface StatoSollecito {
+  giorniRitardo: number;
+  livelloDovuto: number; // 0 = nessun livello ancora raggiunto
+  ultimoLivello: number; // 0 = nessun sollecito inviato
+  dataUltimoSollecito?: string;
+  daInviare: boolean;
+}
+
+export interface AnteprimaSollecito {
+  livello: number;
+  titolo: string;
+  canale: typeof CANALI_SOLLECITO[number];
+  destinatario?: string;
+  oggetto: string;
+  testo: string;
+}
+
+// ============================================================================
+// Scadenzario Crediti / Debiti (aging - solo ADMIN)
+// ============================================================================
+// Documenti aperti per fasce di giorni dalla scadenza; importi residui in euro
+export const AGING_FASCE = ["a_scadere", "0_30", "31_60", "61_90", "oltre_90"] as const;
+
+export type AgingFascia = typeof AGING_FASCE[number];
+
+export type AgingTotali = Record<AgingFascia, number>;
+
+export interface AgingDocumento {
+  id: string;
+  tipo: "emessa" | "ingresso" | "consulente" | "costo_generale";
+  numero: string;
+  descrizione: string;
+  projectId?: string;
+  dataDocumento: string;
+  dataScadenza: string;
+  giorniScaduto: number; // negativo se non ancora scaduto
+  fascia: AgingFascia;
+  residuo: number;
+  inContenzioso?: boolean;
+}
+
+export interface AgingControparte {
+  nome: string;
+  totale: number;
+  fasce: AgingTotali;
+  documenti: AgingDocumento[];
+}
+
+export interface AgingSezione {
+  totale: number;
+  fasce: AgingTotali;
+  controparti: AgingControparte[];
+}
+
+export interface AgingReport {
+  dataRiferimento: string;
+  crediti: AgingSezione; // fatture emesse per cliente
+  debiti: AgingSezione; // fatture ingresso, consulenti e costi generali per fornitore
+}
+
+// ============================================================================
+// Previsione di Cassa a 12 mesi (solo ADMIN)
+// ============================================================================
+// Parte dal saldo bancario configurato e colloca per mese di scadenza i
+// documenti aperti, i costi generali ricorrenti e le rate di compenso previste.
+export const impostazioniPrevisioneSchema = z.object({
+  saldoIniziale: z.number({ invalid_type_error: "Il saldo iniziale deve essere un numero" }),
+});
+
+export type InsertImpostazioniPrevisione = z.infer<typeof impostazioniPrevisioneSchema>;
+
+export interface ImpostazioniPrevisione extends InsertImpostazioniPrevisione {
+  id: string;
+  updatedAt?: string;
+}
+
+export const ORIGINI_PREVISIONE = [
+  "fattura_emessa", "fattura_ingresso", "fattura_consulente", "costo_generale", "costo_ricorrente", "rata_compenso"
+] as const;
+
+export type OriginePrevisione = typeof ORIGINI_PREVISIONE[number];
+
+export interface VocePrevisione {
+  origine: OriginePrevisione;
+  descrizione: string;
+  controparte: string;
+  projectId?: string;
+  documentoId?: string;
+  data: string; // scadenza prevista
+  importo: number; // euro: positivo incasso, negativo pagamento
+  scaduta?: boolean; // scadenza passata: collocata nel mese corrente
+}
+
+export interface MesePrevisione {
+  mese: string; // aaaa-mm
+  saldoIniziale: number;
+  entrate: number;
+  uscite: number; // positivo
+  saldoFinale: number;
+  negativo: boolean;
+  voci: VocePrevisione[];
+}
+
+export interface PrevisioneCassa {
+  dataRiferimento: string;
+  saldoIniziale: number;
+  saldoAggiornatoIl?: string;
+  mesi: MesePrevisione[];
+  mesiNegativi: string[];
+  saldoMinimo: { mese: string; saldo: number };
 }
 
 // ============================================================================
@@ -249,6 +636,7 @@ export const insertFatturaConsulenteSchema = z.object({
   projectId: z.string().min(1, "La commessa è obbligatoria"),
   numeroFattura: z.string().min(1, "Il numero fattura è obbligatorio"),
   consulente: z.string().min(1, "Il consulente è obbligatorio"),
+  partitaIva: z.string().optional(), // P.IVA del consulente (da import FatturaPA)
   dataEmissione: z.string().min(1, "La data emissione è obbligatoria"),
   dataScadenzaPagamento: z.string().min(1, "La data scadenza è obbligatoria"),
   importo: z.number().positive("L'importo deve essere positivo"),
@@ -263,24 +651,70 @@ export type InsertFatturaConsulente = z.infer<typeof insertFatturaConsulenteSche
 
 export interface FatturaConsulente extends InsertFatturaConsulente {
   id: string;
+  statoPagamento?: InvoicePaymentStatus; // Calculated field: dai pagamenti registrati
+}
+
+// ============================================================================
+// Pagamenti Fatture Schema (acconti, SAL, saldo)
+// ============================================================================
+// Incassi delle fatture emesse e pagamenti di fatture ingresso/consulenti.
+// L'importo è nella stessa unità della fattura (centesimi per le fatture
+// ingresso) e si confronta con il netto a pagare, note di credito stornate
+// (emesse), o con importo (altre).
+export const TIPI_FATTURA_PAGAMENTO = ["emesse", "ingresso", "consulenti"] as const;
+export const METODI_PAGAMENTO = ["bonifico", "riba", "assegno", "contanti", "carta", "compensazione", "altro"] as const;
+
+export const insertPagamentoFatturaSchema = z.object({
+  data: z.string().min(1, "La data è obbligatoria"),
+  importo: z.number().positive("L'importo deve essere positivo"),
+  metodo: z.enum(METODI_PAGAMENTO).default("bonifico"),
+  note: z.string().optional(),
+});
+
+export type InsertPagamentoFattura = z.infer<typeof insertPagamentoFatturaSchema>;
+export type TipoFatturaPagamento = typeof TIPI_FATTURA_PAGAMENTO[number];
+
+export interface PagamentoFattura extends InsertPagamentoFattura {
+  id: string;
+  fatturaTipo: TipoFatturaPagamento;
+  fatturaId: string;
+  movimentoId?: string; // generato dalla riconciliazione bancaria
+  createdAt: string;
+}
+
+export type StatoPagamento = "non_pagata" | "parziale" | "saldata";
+
+// Fatture senza pagamenti registrati: vale il flag legacy pagata/incassata
+export interface InvoicePaymentStatus {
+  stato: StatoPagamento;
+  pagamentiCount: number;
+  dovuto: number;
+  pagato: number;
+  residuo: number;
+  dataUltimoPagamento?: string;
+  stornato?: number; // Totale delle note di credito collegate (solo fatture emesse)
 }
 
 // ============================================================================
 // Costi Generali Schema (non associati a commesse)
 // ============================================================================
+export const CATEGORIE_COSTO_GENERALE = [
+  "noleggio_auto",
+  "fitto_ufficio",
+  "energia",
+  "internet_dati",
+  "giardiniere",
+  "pulizie",
+  "multe",
+  "assicurazioni",
+  "commercialista",
+  "altro"
+] as const;
+
+export const PERIODICITA = ["mensile", "bimestrale", "trimestrale", "semestrale", "annuale"] as const;
+
 export const insertCostoGeneraleSchema = z.object({
-  categoria: z.enum([
-    "noleggio_auto",
-    "fitto_ufficio",
-    "energia",
-    "internet_dati",
-    "giardiniere",
-    "pulizie",
-    "multe",
-    "assicurazioni",
-    "commercialista",
-    "altro"
-  ]),
+  categoria: z.enum(CATEGORIE_COSTO_GENERALE),
   fornitore: z.string().min(1, "Il fornitore è obbligatorio"),
   descrizione: z.string().min(1, "La descrizione è obbligatoria"),
   data: z.string().min(1, "La data è obbligatoria"),
@@ -289,7 +723,7 @@ export const insertCostoGeneraleSchema = z.object({
   pagato: z.boolean().default(false),
   dataPagamento: z.string().optional(),
   ricorrente: z.boolean().default(false),
-  periodicita: z.enum(["mensile", "bimestrale", "trimestrale", "semestrale", "annuale"]).optional(),
+  periodicita: z.enum(PERIODICITA).optional(),
   allegato: z.string().optional(), // Path o URL del PDF
   note: z.string().optional(),
 });
@@ -298,46 +732,390 @@ export type InsertCostoGenerale = z.infer<typeof insertCostoGeneraleSchema>;
 
 export interface CostoGenerale extends InsertCostoGenerale {
   id: string;
+  serieId?: string; // occorrenza generata da una serie ricorrente
+  dataOccorrenza?: string; // data prevista dalla serie, chiave dell'occorrenza
+  modificataManualmente?: boolean; // esclusa dalle modifiche all'intera serie
+}
+
+// Serie di costi ricorrenti (affitto, utenze, ...). Il generatore crea le
+// occorrenze dalla data di inizio fino a GIORNI_ANTICIPO_GENERAZIONE giorni
+// dopo oggi; ogni occorrenza nasce una sola volta (dataOccorrenza).
+// variazioniImporto: nuovo importo dalla data indicata (es. adeguamento ISTAT).
+export const variazioneImportoSchema = z.object({
+  dal: z.string().min(1, "La data della variazione è obbligatoria"),
+  importo: z.number().positive("L'importo deve essere positivo"),
+});
+
+const serieCostoGeneraleFields = z.object({
+  categoria: z.enum(CATEGORIE_COSTO_GENERALE),
+  fornitore: z.string().min(1, "Il fornitore è obbligatorio"),
+  descrizione: z.string().min(1, "La descrizione è obbligatoria"),
+  periodicita: z.enum(PERIODICITA),
+  dataInizio: z.string().min(1, "La data di inizio è obbligatoria"),
+  dataFine: z.string().optional(),
+  giorniScadenza: z.number().int().min(0).max(365).default(0), // scadenza = data occorrenza + giorni
+  importo: z.number().positive("L'importo deve essere positivo"),
+  variazioniImporto: z.array(variazioneImportoSchema).default([]),
+  attiva: z.boolean().default(true),
+  note: z.string().optional(),
+});
+
+export const insertSerieCostoGeneraleSchema = serieCostoGeneraleFields.refine(
+  data => !data.dataFine || data.dataFine >= data.dataInizio,
+  { message: "La data di fine deve seguire la data di inizio", path: ["dataFine"] }
+);
+
+export type InsertSerieCostoGenerale = z.infer<typeof insertSerieCostoGeneraleSchema>;
+export type VariazioneImporto = z.infer<typeof variazioneImportoSchema>;
+
+export interface SerieCostoGenerale extends InsertSerieCostoGenerale {
+  id: string;
+  occorrenzeEscluse: string[]; // occorrenze eliminate singolarmente, da non rigenerare
+  createdAt: string;
+  updatedAt?: string;
+  prossimaOccorrenza?: string; // Calculated field: prima occorrenza non ancora generata
 }
 
 // ============================================================================
-// Scadenze (Deadlines) Schema
+// Ripartizione Costi Generali sulle commesse (overhead - solo ADMIN)
 // ============================================================================
-export const insertScadenzaSchema = z.object({
-  projectId: z.string().min(1, "La commessa è obbligatoria"),
-  titolo: z.string().min(1, "Il titolo è obbligatorio"),
-  data: z.string().min(1, "La data è obbligatoria"),
-  tipo: z.enum(["milestone", "deadline", "reminder", "altro"]),
-  priorita: z.enum(["bassa", "media", "alta"]).default("media"),
-  completata: z.boolean().default(false),
-  descrizione: z.string().optional(),
+// I costi generali di ogni mese (per data del costo) sono ripartiti sulle
+// commesse attive nel mese: in proporzione alle ore lavorate, al fatturato
+// imponibile emesso oppure con percentuali fisse. Ogni categoria può avere un
+// criterio diverso da quello predefinito. Importi in euro.
+export const CRITERI_RIPARTIZIONE = ["ore", "fatturato", "percentuale"] as const;
+
+export type CriterioRipartizione = typeof CRITERI_RIPARTIZIONE[number];
+
+export const impostazioniRipartizioneSchema = z.object({
+  criterio: z.enum(CRITERI_RIPARTIZIONE).default("ore"),
+  regole: z.array(z.object({
+    categoria: z.enum(CATEGORIE_COSTO_GENERALE),
+    criterio: z.enum(CRITERI_RIPARTIZIONE),
+  })).default([]),
+  // Solo per il criterio "percentuale": la quota non assegnata resta non ripartita
+  quote: z.array(z.object({
+    projectId: z.string().min(1, "La commessa è obbligatoria"),
+    percentuale: z.number().positive("La percentuale deve essere positiva").max(100),
+  })).default([]),
+  categorieEscluse: z.array(z.enum(CATEGORIE_COSTO_GENERALE)).default([]),
+}).superRefine((data, ctx) => {
+  if (data.quote.reduce((sum, q) => sum + q.percentuale, 0) > 100 + 1e-9) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "La somma delle percentuali non può superare 100", path: ["quote"] });
+  }
+  if (new Set(data.regole.map(r => r.categoria)).size !== data.regole.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Ogni categoria può avere una sola regola", path: ["regole"] });
+  }
+});
+
+export type InsertImpostazioniRipartizione = z.infer<typeof impostazioniRipartizioneSchema>;
+
+export interface ImpostazioniRipartizione extends InsertImpostazioniRipartizione {
+  id: string;
+  updatedAt?: string;
+}
+
+export interface QuotaOverhead {
+  mese: string; // YYYY-MM
+  criterio: CriterioRipartizione;
+  base: number; // ore, fatturato o percentuale della commessa nel mese
+  importo: number;
+}
+
+export interface OverheadCommessa {
+  projectId: string;
+  totale: number;
+  quote: QuotaOverhead[];
+}
+
+export interface MeseRipartizione {
+  mese: string;
+  costi: number; // costi generali del mese da ripartire
+  ripartito: number;
+  nonRipartito: number; // mesi senza ore/fatturato o percentuali inferiori a 100
+}
+
+export interface RipartizioneOverhead {
+  dal?: string; // YYYY-MM
+  al?: string;
+  totaleCosti: number;
+  totaleRipartito: number;
+  totaleNonRipartito: number;
+  mesi: MeseRipartizione[];
+  commesse: OverheadCommessa[];
+}
+
+// ============================================================================
+// Movimenti Bancari e Riconciliazione (solo ADMIN)
+// ============================================================================
+// Movimenti importati dagli estratti conto (CSV o CAMT.053). Importo in euro
+// con segno: positivo accredito, negativo addebito. Un movimento riconciliato
+// può coprire più documenti (abbinamenti); ogni abbinamento a una fattura
+// genera un pagamento parziale con la data contabile della banca.
+export const STATI_MOVIMENTO = ["da_riconciliare", "riconciliato", "ignorato"] as const;
+export const TIPI_DOCUMENTO_RICONCILIABILE = ["emesse", "ingresso", "consulenti", "costi-generali"] as const;
+
+export type StatoMovimento = typeof STATI_MOVIMENTO[number];
+export type TipoDocumentoRiconciliabile = typeof TIPI_DOCUMENTO_RICONCILIABILE[number];
+
+export interface AbbinamentoMovimento {
+  tipo: TipoDocumentoRiconciliabile;
+  documentoId: string;
+  importo: number; // euro, sempre positivo
+  controparte?: string; // per riconoscere l'IBAN nei movimenti successivi
+  pagamentoId?: string; // pagamento generato sulla fattura
+}
+
+export interface MovimentoBancario {
+  id: string;
+  data: string; // data contabile
+  dataValuta?: string;
+  importo: number;
+  descrizione: string;
+  controparte?: string;
+  iban?: string; // IBAN della controparte
+  riferimento?: string; // riferimento banca (AcctSvcrRef / CRO)
+  contoIban?: string; // conto dell'estratto
+  fonte: string; // nome del file importato
+  hash: string; // per scartare i movimenti già importati
+  stato: StatoMovimento;
+  abbinamenti: AbbinamentoMovimento[];
+  dataRiconciliazione?: string;
+  createdAt: string;
+  proposta?: CandidatoRiconciliazione; // Calculated field: miglior candidato per i movimenti da riconciliare
+}
+
+export const riconciliazioneSchema = z.object({
+  abbinamenti: z.array(z.object({
+    tipo: z.enum(TIPI_DOCUMENTO_RICONCILIABILE),
+    documentoId: z.string().min(1),
+    importo: z.number().positive("L'importo deve essere positivo"),
+  })).min(1, "Selezionare almeno un documento"),
+});
+
+export type Riconciliazione = z.infer<typeof riconciliazioneSchema>;
+
+// Documento aperto proposto per un movimento, con punteggio e motivazioni
+export interface CandidatoRiconciliazione {
+  tipo: TipoDocumentoRiconciliabile;
+  documentoId: string;
+  numero: string;
+  controparte: string;
+  descrizione: string;
+  dataScadenza?: string;
+  residuo: number; // euro
+  punteggio: number; // 0-100
+  motivi: string[];
+}
+
+export interface ImportEstrattoConto {
+  fonte: string;
+  formato: "csv" | "camt053";
+  importati: number;
+  duplicati: number;
+  movimenti: MovimentoBancario[];
+}
+
+// ============================================================================
+// Preventivi (offerte dal Calcolo Parcella - solo ADMIN)
+// ============================================================================
+// Ogni preventivo conserva tutte le revisioni: una revisione è il calcolo
+// parcella completo (opere, prestazioni, sconto, aliquote) con parcella e
+// riepilogo fattura ricalcolati dal server. Un preventivo accettato può diventare una
+// nuova commessa. Importi in euro.
+export const STATI_PREVENTIVO = ["bozza", "inviato", "accettato", "rifiutato"] as const;
+
+export type StatoPreventivo = typeof STATI_PREVENTIVO[number];
+
+export const operaPreventivoSchema = z.object({
+  idOpera: z.string().regex(/^[A-Z]{1,2}\.[0-9]{2}$/, "ID opera non valido (es: E.20, IA.03)"),
+  importoOpere: z.number().positive("L'importo opere deve essere positivo"),
+  prestazioni: z.array(z.string().min(1)).min(1, "Selezionare almeno una prestazione"),
+});
+
+// Risultato del Calcolo Parcella salvato con la revisione
+export const parcellaCalcolataSchema = z.object({
+  importoBase: z.number(),
+  categoria: z.string(),
+  percentualeTotale: z.number(),
+  compensi: z.record(z.object({
+    codice: z.string(),
+    idOpera: z.string(),
+    prestazione: z.string(),
+    gruppo: z.string(),
+    importo: z.number(),
+  }).passthrough()),
+  compensoPrestazioni: z.number(),
+  percentualeSpese: z.number(),
+  speseOneri: z.number(),
+  compensoTotale: z.number().min(0),
+  note: z.array(z.string()),
+});
+
+// Input del calcolo (POST /api/parcella/calcola); le revisioni dei preventivi
+// lo salvano con il risultato ricalcolato dal server
+export const calcoloParcellaSchema = z.object({
+  opere: z.array(operaPreventivoSchema).min(1, "Indicare almeno una categoria d'opera"),
+  percentualeSpese: z.number().min(0).max(25).optional(),
+  sconto: z.number().min(0).max(100, "Lo sconto deve essere tra 0 e 100").default(0), // percentuale sul compenso totale
+  aliquotaCPA: z.number().min(0).max(100).default(4),
+  aliquotaIVA: z.number().min(0).max(100).default(22),
+  aliquotaRitenuta: z.number().min(0).max(100).default(20),
+});
+
+export const insertRevisionePreventivoSchema = calcoloParcellaSchema.extend({
   note: z.string().optional(),
 });
 
-export type InsertScadenza = z.infer<typeof insertScadenzaSchema>;
+export const insertPreventivoSchema = z.object({
+  clientId: z.string().min(1, "Il cliente è obbligatorio"),
+  oggetto: z.string().min(1, "L'oggetto è obbligatorio"),
+  city: z.string().optional(),
+  revisione: insertRevisionePreventivoSchema,
+});
+
+export const statoPreventivoSchema = z.object({
+  stato: z.enum(STATI_PREVENTIVO),
+});
+
+export type OperaPreventivo = z.infer<typeof operaPreventivoSchema>;
+export type ParcellaCalcolata = z.infer<typeof parcellaCalcolataSchema>;
+export type CalcoloParcella = z.infer<typeof calcoloParcellaSchema>;
+export type InsertRevisionePreventivo = z.infer<typeof insertRevisionePreventivoSchema>;
+export type InsertPreventivo = z.infer<typeof insertPreventivoSchema>;
 
-export interface Scadenza extends InsertScadenza {
+export interface RevisionePreventivo extends InsertRevisionePreventivo {
+  numero: number; // 1, 2, ...
+  data: string;
+  createdBy?: string;
+  parcella: ParcellaCalcolata;
+  importoSconto: number;
+  fattura: {
+    compensoNetto: number; // compenso totale scontato
+    cpa: number;
+    imponibile: number;
+    iva: number;
+    totaleConIVA: number;
+    ritenutaAcconto: number;
+    nettoAPagare: number;
+  };
+}
+
+export interface Preventivo {
   id: string;
+  numero: string; // PREV-2026-001
+  clientId: string;
+  oggetto: string;
+  city?: string;
+  stato: StatoPreventivo;
+  revisioni: RevisionePreventivo[];
+  dataInvio?: string;
+  dataEsito?: string; // accettazione o rifiuto
+  projectId?: string; // commessa creata dal preventivo accettato
+  createdAt: string;
+  updatedAt: string;
 }
 
+export const convertiPreventivoSchema = z.object({
+  code: z.string().min(1).optional(), // default: codice generato come /api/generate-code
+  year: z.number().int().min(0).max(99).optional(),
+  template: z.enum(["LUNGO", "BREVE"]).default("LUNGO"),
+});
+
+export type ConvertiPreventivo = z.infer<typeof convertiPreventivoSchema>;
+
 // ============================================================================
-// Comunicazioni Schema
+// Modello Lettera di Offerta (PDF del preventivo - solo ADMIN)
 // ============================================================================
-export const insertComunicazioneSchema = z.object({
-  projectId: z.string().min(1, "La commessa è obbligatoria"),
-  data: z.string().min(1, "La data è obbligatoria"),
-  tipo: z.enum(["email", "telefono", "riunione", "verbale", "altro"]),
+// Testi con segnaposto {{cliente}}, {{oggetto}}, {{numero}}, {{data}},
+// {{validita}}, {{importoOpere}}, {{compensoNetto}}, {{totale}}, {{studio}}.
+// Le rate di pagamento sono percentuali del compenso netto.
+export const rataOffertaSchema = z.object({
+  descrizione: z.string().min(1, "La descrizione della rata è obbligatoria"),
+  percentuale: z.number().positive("La percentuale deve essere positiva").max(100),
+});
+
+export const modelloOffertaSchema = z.object({
   oggetto: z.string().min(1, "L'oggetto è obbligatorio"),
-  descrizione: z.string().min(1, "La descrizione è obbligatoria"),
-  partecipanti: z.string().optional(),
-  allegati: z.array(z.string()).optional(),
+  introduzione: z.string().min(1, "L'introduzione è obbligatoria"),
+  condizioni: z.string().default(""),
+  chiusura: z.string().min(1, "La chiusura è obbligatoria"),
+  firmaNome: z.string().default(""),
+  firmaQualifica: z.string().default(""),
+  giorniValidita: z.number().int().min(1, "La validità deve essere di almeno un giorno").default(60),
+  rate: z.array(rataOffertaSchema)
+    .min(1, "Almeno una rata di pagamento")
+    .refine(
+      rate => Math.abs(rate.reduce((sum, r) => sum + r.percentuale, 0) - 100) < 0.01,
+      "Le percentuali delle rate devono sommare a 100"
+    ),
+  mostraNoteDM: z.boolean().default(true),
+});
+
+export type RataOfferta = z.infer<typeof rataOffertaSchema>;
+export type InsertModelloOfferta = z.infer<typeof modelloOffertaSchema>;
+
+export interface ModelloOfferta extends InsertModelloOfferta {
+  id: string;
+}
+
+// ============================================================================
+// Deadlines (Scadenzario) Schema
+// ============================================================================
+// Modello unico delle scadenze di commessa (ex /api/scadenze + /api/deadlines).
+// Lo stato "overdue" è calcolato dal server: una scadenza "pending" con
+// dueDate passata viene restituita come "overdue".
+export const insertDeadlineSchema = z.object({
+  projectId: z.string().min(1, "La commessa è obbligatoria"),
+  title: z.string().min(1, "Il titolo è obbligatorio"),
+  description: z.string().optional(),
+  dueDate: z.string().min(1, "La data di scadenza è obbligatoria"),
+  priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
+  status: z.enum(["pending", "completed", "overdue", "cancelled"]).default("pending"),
+  type: z.enum(["general", "deposito", "collaudo", "scadenza_assicurazione", "milestone"]).default("general"),
+  notifyDaysBefore: z.number().int().min(0).max(365).default(7),
+  completedAt: z.string().nullable().optional(),
   note: z.string().optional(),
 });
 
-export type InsertComunicazione = z.infer<typeof insertComunicazioneSchema>;
+export type InsertDeadline = z.infer<typeof insertDeadlineSchema>;
+
+export interface Deadline extends InsertDeadline {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// Communications Schema (Registro Comunicazioni)
+// ============================================================================
+// Modello unico del registro comunicazioni (ex /api/comunicazioni), salvato
+// in comunicazioni.json.
+export const insertCommunicationSchema = z.object({
+  projectId: z.string().min(1, "La commessa è obbligatoria"),
+  type: z.enum(["email", "pec", "raccomandata", "telefono", "meeting", "nota_interna"]),
+  direction: z.enum(["incoming", "outgoing", "internal"]).default("outgoing"),
+  subject: z.string().min(1, "L'oggetto è obbligatorio"),
+  body: z.string().optional(),
+  recipient: z.string().optional(),
+  sender: z.string().optional(),
+  attachments: z.array(z.object({
+    name: z.string(),
+    size: z.number().min(0).default(0),
+    url: z.string().optional(),
+  })).optional(),
+  tags: z.array(z.string()).default([]),
+  isImportant: z.boolean().default(false),
+  communicationDate: z.string().min(1, "La data è obbligatoria"),
+  createdBy: z.string().optional(),
+});
+
+export type InsertCommunication = z.infer<typeof insertCommunicationSchema>;
 
-export interface Comunicazione extends InsertComunicazione {
+export interface Communication extends InsertCommunication {
   id: string;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 // ============================================================================
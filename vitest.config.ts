@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Test unitari di shared/ e server/ (il vite.config.ts ha root client/)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["shared/**/*.test.ts", "server/**/*.test.ts"],
+  },
+});